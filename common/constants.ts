@@ -30,8 +30,12 @@ export const FLOW_FRAMEWORK_SEARCH_WORKFLOW_STATE_ROUTE = `${FLOW_FRAMEWORK_WORK
 export const ML_API_ROUTE_PREFIX = '/_plugins/_ml';
 export const ML_MODEL_ROUTE_PREFIX = `${ML_API_ROUTE_PREFIX}/models`;
 export const ML_CONNECTOR_ROUTE_PREFIX = `${ML_API_ROUTE_PREFIX}/connectors`;
+export const ML_AGENT_ROUTE_PREFIX = `${ML_API_ROUTE_PREFIX}/agents`;
 export const ML_SEARCH_MODELS_ROUTE = `${ML_MODEL_ROUTE_PREFIX}/_search`;
 export const ML_SEARCH_CONNECTORS_ROUTE = `${ML_CONNECTOR_ROUTE_PREFIX}/_search`;
+export const ML_SEARCH_AGENTS_ROUTE = `${ML_AGENT_ROUTE_PREFIX}/_search`;
+export const ML_CREATE_CONNECTOR_ROUTE = `${ML_CONNECTOR_ROUTE_PREFIX}/_create`;
+export const ML_REGISTER_MODEL_ROUTE = `${ML_MODEL_ROUTE_PREFIX}/_register`;
 
 /**
  * OpenSearch APIs
@@ -51,6 +55,10 @@ export const GET_INDEX_NODE_API_PATH = `${BASE_OPENSEARCH_NODE_API_PATH}/getInde
 export const SEARCH_INDEX_NODE_API_PATH = `${BASE_OPENSEARCH_NODE_API_PATH}/search`;
 export const INGEST_NODE_API_PATH = `${BASE_OPENSEARCH_NODE_API_PATH}/ingest`;
 export const BULK_NODE_API_PATH = `${BASE_OPENSEARCH_NODE_API_PATH}/bulk`;
+export const BULK_INGEST_NODE_API_PATH = `${BASE_OPENSEARCH_NODE_API_PATH}/bulkIngest`;
+export const REINDEX_NODE_API_PATH = `${BASE_OPENSEARCH_NODE_API_PATH}/reindex`;
+export const GET_TASK_NODE_API_PATH = `${BASE_OPENSEARCH_NODE_API_PATH}/getTask`;
+export const CANCEL_TASK_NODE_API_PATH = `${BASE_OPENSEARCH_NODE_API_PATH}/cancelTask`;
 export const SIMULATE_PIPELINE_NODE_API_PATH = `${BASE_OPENSEARCH_NODE_API_PATH}/simulatePipeline`;
 export const INGEST_PIPELINE_NODE_API_PATH = `${BASE_OPENSEARCH_NODE_API_PATH}/getIngestPipeline`;
 export const SEARCH_PIPELINE_NODE_API_PATH = `${BASE_OPENSEARCH_NODE_API_PATH}/getSearchPipeline`;
@@ -60,18 +68,29 @@ export const BASE_WORKFLOW_NODE_API_PATH = `${BASE_NODE_API_PATH}/workflow`;
 export const GET_WORKFLOW_NODE_API_PATH = `${BASE_WORKFLOW_NODE_API_PATH}`;
 export const SEARCH_WORKFLOWS_NODE_API_PATH = `${BASE_WORKFLOW_NODE_API_PATH}/search`;
 export const GET_WORKFLOW_STATE_NODE_API_PATH = `${BASE_WORKFLOW_NODE_API_PATH}/state`;
+export const WAIT_FOR_WORKFLOW_STATE_NODE_API_PATH = `${BASE_WORKFLOW_NODE_API_PATH}/waitForState`;
 export const CREATE_WORKFLOW_NODE_API_PATH = `${BASE_WORKFLOW_NODE_API_PATH}/create`;
 export const UPDATE_WORKFLOW_NODE_API_PATH = `${BASE_WORKFLOW_NODE_API_PATH}/update`;
 export const PROVISION_WORKFLOW_NODE_API_PATH = `${BASE_WORKFLOW_NODE_API_PATH}/provision`;
 export const DEPROVISION_WORKFLOW_NODE_API_PATH = `${BASE_WORKFLOW_NODE_API_PATH}/deprovision`;
 export const DELETE_WORKFLOW_NODE_API_PATH = `${BASE_WORKFLOW_NODE_API_PATH}/delete`;
 export const GET_PRESET_WORKFLOWS_NODE_API_PATH = `${BASE_WORKFLOW_NODE_API_PATH}/presets`;
+export const VALIDATE_WORKFLOW_NODE_API_PATH = `${BASE_WORKFLOW_NODE_API_PATH}/validate`;
 
 // ML Plugin node APIs
 export const BASE_MODEL_NODE_API_PATH = `${BASE_NODE_API_PATH}/model`;
 export const BASE_CONNECTOR_NODE_API_PATH = `${BASE_NODE_API_PATH}/connector`;
+export const BASE_AGENT_NODE_API_PATH = `${BASE_NODE_API_PATH}/agent`;
 export const SEARCH_MODELS_NODE_API_PATH = `${BASE_MODEL_NODE_API_PATH}/search`;
 export const SEARCH_CONNECTORS_NODE_API_PATH = `${BASE_CONNECTOR_NODE_API_PATH}/search`;
+export const PREDICT_MODEL_NODE_API_PATH = `${BASE_MODEL_NODE_API_PATH}/predict`;
+export const GET_MODEL_NODE_API_PATH = `${BASE_MODEL_NODE_API_PATH}/get`;
+export const REGISTER_MODEL_NODE_API_PATH = `${BASE_MODEL_NODE_API_PATH}/register`;
+export const DEPLOY_MODEL_NODE_API_PATH = `${BASE_MODEL_NODE_API_PATH}/deploy`;
+export const UNDEPLOY_MODEL_NODE_API_PATH = `${BASE_MODEL_NODE_API_PATH}/undeploy`;
+export const UPDATE_MODEL_NODE_API_PATH = `${BASE_MODEL_NODE_API_PATH}/update`;
+export const CREATE_CONNECTOR_NODE_API_PATH = `${BASE_CONNECTOR_NODE_API_PATH}/create`;
+export const SEARCH_AGENTS_NODE_API_PATH = `${BASE_AGENT_NODE_API_PATH}/search`;
 
 /**
  * Remote model dimensions. Used for attempting to pre-fill dimension size
@@ -155,6 +174,15 @@ export const OPENAI_CONFIGS = {
   } as RemoteEmbeddingModelConfig,
 };
 
+// The remote model providers with known embedding model configs. Used for generating
+// connector & model registrations for any of the above models.
+export enum REMOTE_MODEL_PROVIDER {
+  BEDROCK = 'Amazon Bedrock',
+  COHERE = 'Cohere',
+  OPENAI = 'OpenAI',
+}
+export const DEFAULT_BEDROCK_REGION = 'us-east-1';
+
 /**
  * Various constants pertaining to Workflow configs
  */
@@ -171,6 +199,7 @@ export enum WORKFLOW_TYPE {
   SEMANTIC_SEARCH = 'Semantic Search',
   MULTIMODAL_SEARCH = 'Multimodal Search',
   HYBRID_SEARCH = 'Hybrid Search',
+  SPARSE_SEARCH = 'Sparse Search',
   VECTOR_SEARCH_WITH_RAG = 'RAG with Vector Retrieval',
   HYBRID_SEARCH_WITH_RAG = 'RAG with Hybrid Search',
   CUSTOM = 'Custom Search',
@@ -180,6 +209,7 @@ export enum WORKFLOW_TYPE_LEGACY {
   SEMANTIC_SEARCH = 'Semantic Search',
   MULTIMODAL_SEARCH = 'Multimodal Search',
   HYBRID_SEARCH = 'Hybrid Search',
+  SPARSE_SEARCH = 'Sparse Search',
   CUSTOM = 'Custom Search',
   UNKNOWN = 'Unknown',
 }
@@ -187,6 +217,8 @@ export enum WORKFLOW_TYPE_LEGACY {
 export const MIN_SUPPORTED_VERSION = '2.17.0';
 // Min version to support ML processors
 export const MINIMUM_FULL_SUPPORTED_VERSION = '2.19.0';
+// Min version to support the agentic search processors
+export const MIN_AGENTIC_SEARCH_VERSION = '3.2.0';
 
 // the names should be consistent with the underlying implementation. used when generating the
 // final ingest/search pipeline configurations.
@@ -196,11 +228,29 @@ export enum PROCESSOR_TYPE {
   SORT = 'sort',
   TEXT_CHUNKING = 'text_chunking',
   NORMALIZATION = 'normalization-processor',
+  SCORE_RANKER = 'score-ranker-processor',
   COLLAPSE = 'collapse',
   RERANK = 'rerank',
   TEXT_EMBEDDING = 'text_embedding',
   TEXT_IMAGE_EMBEDDING = 'text_image_embedding',
+  SPARSE_ENCODING = 'sparse_encoding',
   COPY = 'copy',
+  SET = 'set',
+  REMOVE = 'remove',
+  RENAME = 'rename',
+  CONVERT = 'convert',
+  DATE = 'date',
+  LOWERCASE = 'lowercase',
+  TRIM = 'trim',
+  SCRIPT = 'script',
+  FILTER_QUERY = 'filter_query',
+  NEURAL_QUERY_ENRICHER = 'neural_query_enricher',
+  OVERSAMPLE = 'oversample',
+  AGENTIC_QUERY_TRANSLATOR = 'agentic_query_translator',
+  AGENTIC_CONTEXT = 'agentic_context',
+  // a generic processor, persisting its type and raw configuration as-is.
+  // used for any processor that does not have a dedicated UI config.
+  CUSTOM = 'custom',
 }
 
 export enum MODEL_TYPE {
@@ -257,6 +307,10 @@ export const CREATE_WORKFLOW_LINK =
   'https://opensearch.org/docs/latest/automating-configurations/api/create-workflow/';
 export const WORKFLOW_TUTORIAL_LINK =
   'https://opensearch.org/docs/latest/automating-configurations/workflow-tutorial/';
+export const INGEST_PROCESSORS_LINK =
+  'https://opensearch.org/docs/latest/ingest-pipelines/processors/index-processors/';
+export const SEARCH_PROCESSORS_LINK =
+  'https://opensearch.org/docs/latest/search-plugins/search-pipelines/search-processors/';
 export const NORMALIZATION_PROCESSOR_LINK =
   'https://opensearch.org/docs/latest/search-plugins/search-pipelines/normalization-processor/';
 export const GITHUB_FEEDBACK_LINK =
@@ -273,6 +327,8 @@ export const ML_RESPONSE_PROCESSOR_EXAMPLE_DOCS_LINK =
 export const UPDATE_MODEL_DOCS_LINK =
   'https://opensearch.org/docs/latest/ml-commons-plugin/api/model-apis/update-model/';
 export const JSONLINES_LINK = 'https://jsonlines.org/';
+export const ML_AGENTS_DOCS_LINK =
+  'https://opensearch.org/docs/latest/ml-commons-plugin/agents-tools/index/';
 
 // Large Language Models Documentation Links
 export const BEDROCK_CLAUDE_3_SONNET_DOCS_LINK =
@@ -309,12 +365,15 @@ export const FIXED_TOKEN_LENGTH_OPTIONAL_FIELDS = [
 ];
 export const DELIMITER_OPTIONAL_FIELDS = ['delimiter'];
 export const SHARED_OPTIONAL_FIELDS = ['max_chunk_limit', 'description', 'tag'];
+// the optional fields shared by all ingest processors, for conditional execution & failure handling
+export const CONDITIONAL_OPTIONAL_FIELDS = ['if', 'on_failure'];
 
 /**
  * DEFAULT FIELD VALUES
  */
 export const DEFAULT_TEXT_FIELD = 'my_text';
 export const DEFAULT_VECTOR_FIELD = 'my_embedding';
+export const DEFAULT_SPARSE_VECTOR_FIELD = 'my_sparse_embedding';
 export const DEFAULT_IMAGE_FIELD = 'my_image';
 export const DEFAULT_LLM_RESPONSE_FIELD = 'llm_response';
 
@@ -464,6 +523,19 @@ export const SEMANTIC_SEARCH_QUERY_NEURAL = {
     },
   },
 };
+export const SPARSE_SEARCH_QUERY_NEURAL_SPARSE = {
+  _source: {
+    excludes: [VECTOR_FIELD_PATTERN],
+  },
+  query: {
+    neural_sparse: {
+      [VECTOR_FIELD_PATTERN]: {
+        query_text: QUERY_TEXT_PATTERN,
+        model_id: MODEL_ID_PATTERN,
+      },
+    },
+  },
+};
 export const SEMANTIC_SEARCH_TEMPLATE_QUERY = {
   query: {
     template: {
@@ -651,6 +723,10 @@ export const QUERY_PRESETS = [
     name: 'Semantic search (neural query)',
     query: customStringify(SEMANTIC_SEARCH_QUERY_NEURAL),
   },
+  {
+    name: 'Sparse search (neural sparse query)',
+    query: customStringify(SPARSE_SEARCH_QUERY_NEURAL_SPARSE),
+  },
   {
     name: 'Semantic search (template query)',
     query: customStringify(SEMANTIC_SEARCH_TEMPLATE_QUERY),
@@ -830,6 +906,30 @@ export enum SORT_ORDER {
   ASC = 'asc',
   DESC = 'desc',
 }
+// the target types supported by the convert ingest processor
+export enum CONVERT_TYPE {
+  INTEGER = 'integer',
+  LONG = 'long',
+  FLOAT = 'float',
+  DOUBLE = 'double',
+  STRING = 'string',
+  BOOLEAN = 'boolean',
+  IP = 'ip',
+  AUTO = 'auto',
+}
+export const DEFAULT_DATE_FORMAT = 'ISO8601';
+// the workflow fields that can be sorted on when searching workflows
+export enum WORKFLOW_SORT_FIELD {
+  NAME = 'name',
+  LAST_UPDATED = 'lastUpdated',
+}
+export const WORKFLOWS_PAGE_SIZE_OPTIONS = [10, 25, 50];
+// provisioning progress polling. a single long-poll request is bounded by the max timeout;
+// the client keeps re-polling until provisioning finishes, or the provision timeout passes.
+export const WORKFLOW_STATE_POLL_INTERVAL_MS = 500;
+export const WORKFLOW_STATE_LONG_POLL_TIMEOUT_MS = 10000;
+export const WORKFLOW_STATE_LONG_POLL_MAX_TIMEOUT_MS = 30000;
+export const PROVISION_TIMEOUT_MS = 300000;
 export const MAX_DOCS = 1000;
 export const MAX_DOCS_TO_IMPORT = 100;
 export const MAX_STRING_LENGTH = 100;
@@ -838,6 +938,28 @@ export const MAX_JSON_STRING_LENGTH = 10000;
 export const MAX_TEMPLATE_STRING_LENGTH = 10000;
 export const MAX_BYTES = 1048576; // OSD REST request payload size limit
 export const MAX_BYTES_FORMATTED = '1,048,576';
+// chunked bulk ingest. large files are uploaded in sequential chunks, which are
+// split server-side into _bulk batches no larger than the OSD payload size limit.
+export const BULK_INGEST_MAX_BYTES = 104857600; // max size of a single uploaded chunk
+export const BULK_INGEST_CHUNK_BYTES = 10485760;
+export const BULK_INGEST_BATCH_BYTES = MAX_BYTES;
+export const MAX_BULK_INGEST_FAILURES = 100;
+// reindex task polling
+export const REINDEX_TASK_POLL_INTERVAL_MS = 2000;
+export const MAX_REINDEX_FAILURES = 100;
+// model state polling, when waiting for a model to be deployed/undeployed
+export const MODEL_STATE_POLL_INTERVAL_MS = 1000;
+export const MODEL_STATE_TIMEOUT_MS = 60000;
+// repeated pipeline runs, when collecting per-processor latency & failure analytics
+export const DEFAULT_ANALYTICS_RUNS = 10;
+export const MAX_ANALYTICS_RUNS = 100;
+// offline relevance evaluation against an uploaded judgment list. Each query text is bound
+// to the query_text placeholder, and the top k hits are evaluated.
+export const QUERY_TEXT_PLACEHOLDER = 'query_text';
+export const DEFAULT_EVALUATION_K = 10;
+export const MAX_EVALUATION_K = 100;
+// sample text used when probing a model's embedding dimension with a single prediction
+export const EMBEDDING_PROBE_TEXT = 'hello world';
 export const MAX_WORKFLOW_NAME_TO_DISPLAY = 40;
 export const WORKFLOW_NAME_REGEXP = RegExp('^[a-zA-Z0-9_-]*$');
 export const INDEX_NAME_REGEXP = WORKFLOW_NAME_REGEXP;
@@ -872,8 +994,11 @@ export enum SOURCE_OPTIONS {
 export enum INSPECTOR_TAB_ID {
   TEST = 'test',
   INGEST = 'ingest',
+  INGEST_TRACE = 'ingest_trace',
   ERRORS = 'errors',
   RESOURCES = 'resources',
+  ANALYTICS = 'analytics',
+  EVALUATION = 'evaluation',
 }
 
 export const INSPECTOR_TABS = [
@@ -887,6 +1012,11 @@ export const INSPECTOR_TABS = [
     name: 'Ingest response',
     disabled: false,
   },
+  {
+    id: INSPECTOR_TAB_ID.INGEST_TRACE,
+    name: 'Ingest trace',
+    disabled: false,
+  },
   {
     id: INSPECTOR_TAB_ID.ERRORS,
     name: 'Errors',
@@ -897,4 +1027,14 @@ export const INSPECTOR_TABS = [
     name: 'Resources',
     disabled: false,
   },
+  {
+    id: INSPECTOR_TAB_ID.ANALYTICS,
+    name: 'Analytics',
+    disabled: false,
+  },
+  {
+    id: INSPECTOR_TAB_ID.EVALUATION,
+    name: 'Evaluation',
+    disabled: false,
+  },
 ];
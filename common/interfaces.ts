@@ -9,7 +9,9 @@ import { ObjectSchema } from 'yup';
 import {
   COMPONENT_CLASS,
   PROCESSOR_TYPE,
+  SORT_ORDER,
   TRANSFORM_TYPE,
+  WORKFLOW_SORT_FIELD,
   WORKFLOW_TYPE,
 } from './constants';
 
@@ -34,6 +36,7 @@ export type ConfigFieldType =
   | 'jsonLines'
   | 'select'
   | 'model'
+  | 'agent'
   | 'map'
   | 'mapArray'
   | 'boolean'
@@ -255,6 +258,16 @@ export type UIState = {
   type: WORKFLOW_TYPE;
   // Will be used in future when changing from form-based to flow-based configs via drag-and-drop
   workspace_flow?: WorkspaceFlowState;
+  saved_queries?: SavedQuery[];
+};
+
+// A named test query, persisted with the workflow so it can be re-run later, or
+// reproduced by others via export / import.
+export type SavedQuery = {
+  name: string;
+  request: string;
+  params: QueryParam[];
+  use_pipeline: boolean;
 };
 
 export type WorkspaceFlowState = {
@@ -442,6 +455,7 @@ export type ModelInput = {
   description?: string;
   items?: ModelInput;
   properties?: ModelInputMap;
+  required?: string[];
 };
 
 export type ModelOutput = ModelInput;
@@ -484,6 +498,31 @@ export type Connector = {
   parameters?: ConnectorParameters;
 };
 
+// Based off of https://github.com/opensearch-project/ml-commons/blob/main/common/src/main/java/org/opensearch/ml/common/agent/MLAgentType.java
+export enum AGENT_TYPE {
+  FLOW = 'flow',
+  CONVERSATIONAL = 'conversational',
+  CONVERSATIONAL_FLOW = 'conversational_flow',
+  PLAN_EXECUTE_AND_REFLECT = 'plan_execute_and_reflect',
+}
+
+export type Agent = {
+  id: string;
+  name: string;
+  type: AGENT_TYPE;
+  description?: string;
+};
+
+// Credentials for connecting to a remote model provider. API keys are used by
+// Cohere & OpenAI, and AWS credentials are used by Amazon Bedrock.
+export type RemoteModelCredentials = {
+  apiKey?: string;
+  region?: string;
+  accessKey?: string;
+  secretKey?: string;
+  sessionToken?: string;
+};
+
 export type ModelDict = {
   [modelId: string]: Model;
 };
@@ -492,11 +531,32 @@ export type ConnectorDict = {
   [connectorId: string]: Connector;
 };
 
+export type AgentDict = {
+  [agentId: string]: Agent;
+};
+
+// Embedding dimensions detected by probing models with a sample prediction
+export type EmbeddingDimensionDict = {
+  [modelId: string]: number;
+};
+
+// A vector field mapping whose dimension differs from the dimension of the
+// embeddings produced by the configured model
+export type DimensionMismatch = {
+  fieldName: string;
+  mappedDimension: number;
+  expectedDimension: number;
+};
+
 export type ModelFormValue = {
   id: string;
   algorithm?: MODEL_ALGORITHM;
 };
 
+export type AgentFormValue = {
+  id: string;
+};
+
 /**
  ********** MISC TYPES/INTERFACES ************
  */
@@ -542,6 +602,18 @@ export type WorkflowDict = {
   [workflowId: string]: Workflow;
 };
 
+// The pagination, sorting, & filtering options when searching workflows.
+// Workflow states are filtered on their keys as persisted in the backend (e.g., "NOT_STARTED")
+export type WorkflowSearchParams = {
+  from: number;
+  size: number;
+  sortField?: WORKFLOW_SORT_FIELD;
+  sortOrder?: SORT_ORDER;
+  namePrefix?: string;
+  types?: string[];
+  states?: (keyof typeof WORKFLOW_STATE)[];
+};
+
 export type QueryPreset = {
   name: string;
   query: string;
@@ -613,8 +685,20 @@ export type SimulateIngestPipelineResponse = {
 // from https://opensearch.org/docs/latest/ingest-pipelines/simulate-ingest/#query-parameters
 export type SimulateIngestPipelineDocResponseVerbose = SimulateIngestPipelineDocResponse & {
   processor_type: string;
-  status: 'success' | 'error';
+  status: 'success' | 'error' | 'error_ignored' | 'skipped' | 'dropped';
   description?: string;
+  tag?: string;
+  if?: {
+    condition: string;
+    result: boolean;
+  };
+};
+
+// The verbose result of a single top-level ingest processor. The results of any
+// on_failure processors that ran are folded into whether the failure was handled.
+export type IngestProcessorResult = {
+  result: SimulateIngestPipelineDocResponseVerbose;
+  failureHandled: boolean;
 };
 
 // verbose mode
@@ -627,7 +711,10 @@ export type SimulateIngestPipelineResponseVerbose = {
   ];
 };
 
-export type SearchHit = SimulateIngestPipelineDoc;
+export type SearchHit = SimulateIngestPipelineDoc & {
+  // null if the results are sorted by some field other than the score
+  _score?: number | null;
+};
 
 export type SearchResponse = {
   took: number;
@@ -658,21 +745,178 @@ export type SearchProcessorInputData = {
 };
 export type SearchProcessorOutputData = SearchProcessorInputData;
 
+// search request processors report the search request as their input & output data.
+// phase results & search response processors report the list of hits.
 export type SearchProcessorResult = {
   processor_name: string;
   duration_millis: number;
   status: 'success' | 'fail';
   error?: string;
-  input_data: SearchProcessorInputData[] | null;
-  output_data: SearchProcessorOutputData[] | null;
+  input_data: SearchProcessorInputData[] | {} | null;
+  output_data: SearchProcessorOutputData[] | {} | null;
 };
 
 export type SearchResponseVerbose = SearchResponse & {
   processor_results: SearchProcessorResult[];
 };
 
+export type SearchProcessorStage = 'request' | 'phase_results' | 'response';
+
+// A single value changed by a processor, keyed by its dot-delimited path
+export type FieldChange = {
+  path: string;
+  before?: any;
+  after?: any;
+};
+
+// The changes made by a processor to a single hit, or to the search request
+export type ProcessorDataDiff = {
+  id: string;
+  status: 'added' | 'removed' | 'modified' | 'unchanged';
+  changes: FieldChange[];
+};
+
+export type FieldChangeType = 'added' | 'removed' | 'changed';
+
+// A single processor execution against a single doc, within a verbose ingest simulation
+export type IngestProcessorTraceStep = {
+  position: number;
+  processorType: string;
+  tag?: string;
+  status: SimulateIngestPipelineDocResponseVerbose['status'];
+  error?: string;
+  changes: FieldChange[];
+};
+
+// A single processor execution within a verbose search request
+export type SearchProcessorTraceStep = {
+  position: number;
+  processorName: string;
+  stage: SearchProcessorStage;
+  status: SearchProcessorResult['status'];
+  durationMillis: number;
+  error?: string;
+  diffs: ProcessorDataDiff[];
+};
+
 export type SearchPipelineErrors = IngestPipelineErrors;
 
+// A single hit within one side of a side-by-side comparison of two search responses.
+// Deltas are measured from response A to response B, and are only set if the hit is
+// found in both responses. A positive rank delta means the hit is ranked higher in B.
+export type SearchHitComparison = {
+  id: string;
+  index: string;
+  rank: number;
+  score?: number;
+  rankDelta?: number;
+  scoreDelta?: number;
+};
+
+export type SearchResponseComparison = {
+  hitsA: SearchHitComparison[];
+  hitsB: SearchHitComparison[];
+  numShared: number;
+  // the percentage of hits found in both responses, relative to the larger of the two
+  overlapPercentage: number;
+};
+
+// A single processor execution, collected from a verbose search request or ingest
+// simulation. Ingest simulations do not report any per-processor timing.
+export type ProcessorRunSample = {
+  position: number;
+  processorType: string;
+  durationMillis?: number;
+  failed: boolean;
+};
+
+export type LatencyStats = {
+  minMillis: number;
+  medianMillis: number;
+  p95Millis: number;
+};
+
+// Latency & failure statistics for a single processor, aggregated across several runs
+export type ProcessorAnalytics = {
+  position: number;
+  processorType: string;
+  executions: number;
+  failures: number;
+  failureRate: number;
+  latency?: LatencyStats;
+};
+
+// A single row of a judgment list: the graded relevance of a doc for a query text.
+// A grade of 0 means the doc is not relevant.
+export type Judgment = {
+  queryText: string;
+  docId: string;
+  grade: number;
+};
+
+// Relevance metrics of the top k hits of a single query, or averaged across several queries
+export type RelevanceMetrics = {
+  ndcg: number;
+  mrr: number;
+  precision: number;
+  recall: number;
+};
+
+export type QueryEvaluation = {
+  queryText: string;
+  numHits: number;
+  metrics?: RelevanceMetrics;
+  error?: string;
+};
+
+// The results of evaluating every query of a judgment list. Queries that failed
+// are excluded from the mean metrics.
+export type RelevanceEvaluation = {
+  k: number;
+  queries: QueryEvaluation[];
+  meanMetrics: RelevanceMetrics;
+};
+
+// Structured errors found when validating a workflow template. Errors specific to a
+// particular template node are keyed by the node ID.
+export type WorkflowTemplateErrors = {
+  templateErrors: string[];
+  nodeErrors: { [nodeId: string]: string[] };
+};
+
+// The results of ingesting a JSONL payload through the chunked bulk ingest API.
+// Per-document failures are keyed by the (0-indexed) position of the document in the source data.
+export type BulkIngestFailure = {
+  docIndex: number;
+  reason: string;
+};
+
+export type BulkIngestBatchResult = {
+  batch: number;
+  docCount: number;
+  failedCount: number;
+  took: number;
+};
+
+export type BulkIngestResponse = {
+  docCount: number;
+  failedCount: number;
+  batches: BulkIngestBatchResult[];
+  failures: BulkIngestFailure[];
+};
+
+// The status of an asynchronous reindex task, parsed from the tasks API
+export type ReindexTaskStatus = {
+  taskId: string;
+  completed: boolean;
+  cancelled: boolean;
+  total: number;
+  created: number;
+  updated: number;
+  failures: string[];
+  error?: string;
+};
+
 export type IndexResponse = {
   indexName: string;
   indexDetails: IndexConfiguration;
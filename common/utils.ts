@@ -44,6 +44,10 @@ export function customStringifySingleLine(jsonObj: {}): string {
   return JSON.stringify(jsonObj, undefined, 0);
 }
 
+export function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
 export function isVectorSearchUseCase(workflowType?: WORKFLOW_TYPE): boolean {
   return (
     workflowType !== undefined &&
@@ -51,12 +55,17 @@ export function isVectorSearchUseCase(workflowType?: WORKFLOW_TYPE): boolean {
       WORKFLOW_TYPE.SEMANTIC_SEARCH,
       WORKFLOW_TYPE.MULTIMODAL_SEARCH,
       WORKFLOW_TYPE.HYBRID_SEARCH,
+      WORKFLOW_TYPE.SPARSE_SEARCH,
       WORKFLOW_TYPE.VECTOR_SEARCH_WITH_RAG,
       WORKFLOW_TYPE.HYBRID_SEARCH_WITH_RAG,
     ].includes(workflowType)
   );
 }
 
+export function isSparseSearchUseCase(workflowType?: WORKFLOW_TYPE): boolean {
+  return workflowType === WORKFLOW_TYPE.SPARSE_SEARCH;
+}
+
 export function isRAGUseCase(workflowType?: WORKFLOW_TYPE): boolean {
   return (
     workflowType !== undefined &&
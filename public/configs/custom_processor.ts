@@ -0,0 +1,31 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { PROCESSOR_TYPE } from '../../common';
+import { Processor } from './processor';
+
+/**
+ * A base custom processor config. Used in ingest and search flows.
+ * Persists the processor type and its raw JSON configuration, which are
+ * passed through as-is when generating the final pipeline.
+ */
+export abstract class CustomProcessor extends Processor {
+  constructor() {
+    super();
+    this.type = PROCESSOR_TYPE.CUSTOM;
+    this.name = 'Custom Processor';
+    this.fields = [
+      {
+        id: 'processor_type',
+        type: 'string',
+      },
+      {
+        id: 'processor_config',
+        type: 'json',
+      },
+    ];
+    this.optionalFields = [];
+  }
+}
@@ -0,0 +1,24 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { IConfigField } from '../../../common';
+
+/**
+ * The optional fields shared by all ingest processors. Used for conditionally running
+ * the processor with a Painless condition, and for handling any processor failures.
+ * Generated fresh for each processor config, as field values are set in place.
+ */
+export function getConditionalFields(): IConfigField[] {
+  return [
+    {
+      id: 'if',
+      type: 'textArea',
+    },
+    {
+      id: 'on_failure',
+      type: 'jsonArray',
+    },
+  ];
+}
@@ -0,0 +1,58 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CONVERT_TYPE, PROCESSOR_TYPE } from '../../../common';
+import { generateId } from '../../utils';
+import { Processor } from '../processor';
+import { getConditionalFields } from './conditional_fields';
+
+/**
+ * The convert ingest processor
+ */
+export class ConvertIngestProcessor extends Processor {
+  constructor() {
+    super();
+    this.name = 'Convert Processor';
+    this.type = PROCESSOR_TYPE.CONVERT;
+    this.id = generateId('convert_processor_ingest');
+    this.fields = [
+      {
+        id: 'field',
+        type: 'string',
+      },
+      {
+        id: 'type',
+        type: 'select',
+        selectOptions: Object.values(CONVERT_TYPE),
+        value: CONVERT_TYPE.INTEGER,
+      },
+    ];
+    this.optionalFields = [
+      {
+        id: 'target_field',
+        type: 'string',
+      },
+      {
+        id: 'ignore_missing',
+        type: 'boolean',
+        value: false,
+      },
+      {
+        id: 'ignore_failure',
+        type: 'boolean',
+        value: false,
+      },
+      {
+        id: 'description',
+        type: 'textArea',
+      },
+      {
+        id: 'tag',
+        type: 'string',
+      },
+      ...getConditionalFields(),
+    ];
+  }
+}
@@ -6,6 +6,7 @@
 import { PROCESSOR_TYPE } from '../../../common';
 import { generateId } from '../../utils';
 import { Processor } from '../processor';
+import { getConditionalFields } from './conditional_fields';
 
 /**
  * The copy ingest processor
@@ -55,6 +56,7 @@ export class CopyIngestProcessor extends Processor {
         id: 'tag',
         type: 'string',
       },
+      ...getConditionalFields(),
     ];
   }
 }
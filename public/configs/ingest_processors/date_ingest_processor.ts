@@ -0,0 +1,68 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  DEFAULT_DATE_FORMAT,
+  PROCESSOR_TYPE,
+  customStringify,
+} from '../../../common';
+import { generateId } from '../../utils';
+import { Processor } from '../processor';
+import { getConditionalFields } from './conditional_fields';
+
+/**
+ * The date ingest processor
+ */
+export class DateIngestProcessor extends Processor {
+  constructor() {
+    super();
+    this.name = 'Date Processor';
+    this.type = PROCESSOR_TYPE.DATE;
+    this.id = generateId('date_processor_ingest');
+    this.fields = [
+      {
+        id: 'field',
+        type: 'string',
+      },
+      {
+        id: 'formats',
+        type: 'jsonArray',
+        value: customStringify([DEFAULT_DATE_FORMAT]),
+      },
+    ];
+    this.optionalFields = [
+      {
+        id: 'target_field',
+        type: 'string',
+      },
+      {
+        id: 'timezone',
+        type: 'string',
+      },
+      {
+        id: 'locale',
+        type: 'string',
+      },
+      {
+        id: 'output_format',
+        type: 'string',
+      },
+      {
+        id: 'ignore_failure',
+        type: 'boolean',
+        value: false,
+      },
+      {
+        id: 'description',
+        type: 'textArea',
+      },
+      {
+        id: 'tag',
+        type: 'string',
+      },
+      ...getConditionalFields(),
+    ];
+  }
+}
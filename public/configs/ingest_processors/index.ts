@@ -9,4 +9,14 @@ export * from './sort_ingest_processor';
 export * from './text_chunking_ingest_processor';
 export * from './text_embedding_ingest_processor';
 export * from './text_image_embedding_ingest_processor';
+export * from './sparse_encoding_ingest_processor';
 export * from './copy_ingest_processor';
+export * from './set_ingest_processor';
+export * from './remove_ingest_processor';
+export * from './rename_ingest_processor';
+export * from './convert_ingest_processor';
+export * from './date_ingest_processor';
+export * from './lowercase_ingest_processor';
+export * from './trim_ingest_processor';
+export * from './script_ingest_processor';
+export * from './custom_ingest_processor';
@@ -0,0 +1,52 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { PROCESSOR_TYPE } from '../../../common';
+import { generateId } from '../../utils';
+import { Processor } from '../processor';
+import { getConditionalFields } from './conditional_fields';
+
+/**
+ * The lowercase ingest processor
+ */
+export class LowercaseIngestProcessor extends Processor {
+  constructor() {
+    super();
+    this.name = 'Lowercase Processor';
+    this.type = PROCESSOR_TYPE.LOWERCASE;
+    this.id = generateId('lowercase_processor_ingest');
+    this.fields = [
+      {
+        id: 'field',
+        type: 'string',
+      },
+    ];
+    this.optionalFields = [
+      {
+        id: 'target_field',
+        type: 'string',
+      },
+      {
+        id: 'ignore_missing',
+        type: 'boolean',
+        value: false,
+      },
+      {
+        id: 'ignore_failure',
+        type: 'boolean',
+        value: false,
+      },
+      {
+        id: 'description',
+        type: 'textArea',
+      },
+      {
+        id: 'tag',
+        type: 'string',
+      },
+      ...getConditionalFields(),
+    ];
+  }
+}
@@ -5,6 +5,7 @@
 
 import { generateId } from '../../utils';
 import { MLProcessor } from '../ml_processor';
+import { getConditionalFields } from './conditional_fields';
 
 /**
  * The ML processor in the context of ingest
@@ -13,5 +14,9 @@ export class MLIngestProcessor extends MLProcessor {
   constructor() {
     super();
     this.id = generateId('ml_processor_ingest');
+    this.optionalFields = [
+      ...(this.optionalFields || []),
+      ...getConditionalFields(),
+    ];
   }
 }
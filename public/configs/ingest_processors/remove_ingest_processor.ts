@@ -0,0 +1,48 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { PROCESSOR_TYPE } from '../../../common';
+import { generateId } from '../../utils';
+import { Processor } from '../processor';
+import { getConditionalFields } from './conditional_fields';
+
+/**
+ * The remove ingest processor
+ */
+export class RemoveIngestProcessor extends Processor {
+  constructor() {
+    super();
+    this.name = 'Remove Processor';
+    this.type = PROCESSOR_TYPE.REMOVE;
+    this.id = generateId('remove_processor_ingest');
+    this.fields = [
+      {
+        id: 'field',
+        type: 'string',
+      },
+    ];
+    this.optionalFields = [
+      {
+        id: 'ignore_missing',
+        type: 'boolean',
+        value: false,
+      },
+      {
+        id: 'ignore_failure',
+        type: 'boolean',
+        value: false,
+      },
+      {
+        id: 'description',
+        type: 'textArea',
+      },
+      {
+        id: 'tag',
+        type: 'string',
+      },
+      ...getConditionalFields(),
+    ];
+  }
+}
@@ -0,0 +1,57 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { PROCESSOR_TYPE } from '../../../common';
+import { generateId } from '../../utils';
+import { Processor } from '../processor';
+import { getConditionalFields } from './conditional_fields';
+
+/**
+ * The rename ingest processor
+ */
+export class RenameIngestProcessor extends Processor {
+  constructor() {
+    super();
+    this.name = 'Rename Processor';
+    this.type = PROCESSOR_TYPE.RENAME;
+    this.id = generateId('rename_processor_ingest');
+    this.fields = [
+      {
+        id: 'field',
+        type: 'string',
+      },
+      {
+        id: 'target_field',
+        type: 'string',
+      },
+    ];
+    this.optionalFields = [
+      {
+        id: 'ignore_missing',
+        type: 'boolean',
+        value: false,
+      },
+      {
+        id: 'override_target',
+        type: 'boolean',
+        value: false,
+      },
+      {
+        id: 'ignore_failure',
+        type: 'boolean',
+        value: false,
+      },
+      {
+        id: 'description',
+        type: 'textArea',
+      },
+      {
+        id: 'tag',
+        type: 'string',
+      },
+      ...getConditionalFields(),
+    ];
+  }
+}
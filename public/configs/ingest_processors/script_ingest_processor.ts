@@ -0,0 +1,26 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { generateId } from '../../utils';
+import { ScriptProcessor } from '../script_processor';
+import { getConditionalFields } from './conditional_fields';
+
+/**
+ * The script processor in the context of ingest
+ */
+export class ScriptIngestProcessor extends ScriptProcessor {
+  constructor() {
+    super();
+    this.id = generateId('script_processor_ingest');
+    this.optionalFields = [
+      ...(this.optionalFields || []),
+      {
+        id: 'params',
+        type: 'json',
+      },
+      ...getConditionalFields(),
+    ];
+  }
+}
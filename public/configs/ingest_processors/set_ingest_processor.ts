@@ -0,0 +1,57 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { PROCESSOR_TYPE } from '../../../common';
+import { generateId } from '../../utils';
+import { Processor } from '../processor';
+import { getConditionalFields } from './conditional_fields';
+
+/**
+ * The set ingest processor
+ */
+export class SetIngestProcessor extends Processor {
+  constructor() {
+    super();
+    this.name = 'Set Processor';
+    this.type = PROCESSOR_TYPE.SET;
+    this.id = generateId('set_processor_ingest');
+    this.fields = [
+      {
+        id: 'field',
+        type: 'string',
+      },
+      {
+        id: 'value',
+        type: 'string',
+      },
+    ];
+    this.optionalFields = [
+      {
+        id: 'override',
+        type: 'boolean',
+        value: true,
+      },
+      {
+        id: 'ignore_empty_value',
+        type: 'boolean',
+        value: false,
+      },
+      {
+        id: 'ignore_failure',
+        type: 'boolean',
+        value: false,
+      },
+      {
+        id: 'description',
+        type: 'textArea',
+      },
+      {
+        id: 'tag',
+        type: 'string',
+      },
+      ...getConditionalFields(),
+    ];
+  }
+}
@@ -5,6 +5,7 @@
 
 import { generateId } from '../../utils';
 import { SortProcessor } from '../sort_processor';
+import { getConditionalFields } from './conditional_fields';
 
 /**
  * The sort processor in the context of ingest
@@ -13,5 +14,9 @@ export class SortIngestProcessor extends SortProcessor {
   constructor() {
     super();
     this.id = generateId('sort_processor_ingest');
+    this.optionalFields = [
+      ...(this.optionalFields || []),
+      ...getConditionalFields(),
+    ];
   }
 }
@@ -0,0 +1,44 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { PROCESSOR_TYPE } from '../../../common';
+import { generateId } from '../../utils';
+import { Processor } from '../processor';
+import { getConditionalFields } from './conditional_fields';
+
+export class SparseEncodingIngestProcessor extends Processor {
+  constructor() {
+    super();
+    this.name = 'Sparse Encoding Processor';
+    this.type = PROCESSOR_TYPE.SPARSE_ENCODING;
+    this.id = generateId('sparse_encoding_processor_ingest');
+    this.fields = [
+      {
+        id: 'model',
+        type: 'model',
+      },
+      {
+        id: 'field_map',
+        type: 'map',
+      },
+    ];
+    this.optionalFields = [
+      {
+        id: 'description',
+        type: 'textArea',
+      },
+      {
+        id: 'tag',
+        type: 'string',
+      },
+      {
+        id: 'batch_size',
+        type: 'number',
+        value: 1,
+      },
+      ...getConditionalFields(),
+    ];
+  }
+}
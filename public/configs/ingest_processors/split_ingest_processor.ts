@@ -5,6 +5,7 @@
 
 import { generateId } from '../../utils';
 import { SplitProcessor } from '../split_processor';
+import { getConditionalFields } from './conditional_fields';
 
 /**
  * The split processor in the context of ingest
@@ -20,6 +21,7 @@ export class SplitIngestProcessor extends SplitProcessor {
         type: 'boolean',
         value: false,
       },
+      ...getConditionalFields(),
     ];
   }
 }
@@ -6,6 +6,7 @@
 import { PROCESSOR_TYPE, TEXT_CHUNKING_ALGORITHM } from '../../../common';
 import { generateId } from '../../utils';
 import { Processor } from '../processor';
+import { getConditionalFields } from './conditional_fields';
 
 /**
  * The text chunking ingest processor
@@ -75,6 +76,7 @@ export class TextChunkingIngestProcessor extends Processor {
         type: 'boolean',
         value: false,
       },
+      ...getConditionalFields(),
     ];
   }
 }
@@ -1,6 +1,7 @@
 import { PROCESSOR_TYPE } from '../../../common';
 import { generateId } from '../../utils';
 import { Processor } from '../processor';
+import { getConditionalFields } from './conditional_fields';
 
 export class TextEmbeddingIngestProcessor extends Processor {
   constructor() {
@@ -32,6 +33,7 @@ export class TextEmbeddingIngestProcessor extends Processor {
         type: 'number',
         value: 1,
       },
+      ...getConditionalFields(),
     ];
   }
 }
@@ -1,6 +1,7 @@
 import { PROCESSOR_TYPE } from '../../../common';
 import { generateId } from '../../utils';
 import { Processor } from '../processor';
+import { getConditionalFields } from './conditional_fields';
 
 export class TextImageEmbeddingIngestProcessor extends Processor {
   constructor() {
@@ -31,6 +32,7 @@ export class TextImageEmbeddingIngestProcessor extends Processor {
         id: 'tag',
         type: 'string',
       },
+      ...getConditionalFields(),
     ];
   }
 }
@@ -0,0 +1,44 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { PROCESSOR_TYPE } from '../../common';
+import { Processor } from './processor';
+
+/**
+ * A base script processor config. Used in ingest and search flows.
+ * The ingest processor additionally supports script params.
+ */
+export abstract class ScriptProcessor extends Processor {
+  constructor() {
+    super();
+    this.type = PROCESSOR_TYPE.SCRIPT;
+    this.name = 'Script Processor';
+    this.fields = [
+      {
+        id: 'source',
+        type: 'textArea',
+      },
+    ];
+    this.optionalFields = [
+      {
+        id: 'lang',
+        type: 'string',
+      },
+      {
+        id: 'ignore_failure',
+        type: 'boolean',
+        value: false,
+      },
+      {
+        id: 'description',
+        type: 'textArea',
+      },
+      {
+        id: 'tag',
+        type: 'string',
+      },
+    ];
+  }
+}
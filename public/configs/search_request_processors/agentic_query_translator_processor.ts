@@ -0,0 +1,44 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { PROCESSOR_TYPE } from '../../../common';
+import { Processor } from '../processor';
+import { generateId } from '../../utils';
+
+/**
+ * The agentic query translator processor config. Used in search flows.
+ * Runs an ML Commons agent (e.g., a flow or conversational agent) to rewrite an agentic query
+ * into a query DSL. For details, see
+ * https://opensearch.org/docs/latest/search-plugins/search-pipelines/agentic-query-translator-processor/
+ */
+export class AgenticQueryTranslatorProcessor extends Processor {
+  constructor() {
+    super();
+    this.id = generateId('agentic_query_translator_processor');
+    this.type = PROCESSOR_TYPE.AGENTIC_QUERY_TRANSLATOR;
+    this.name = 'Agentic Query Translator Processor';
+    this.fields = [
+      {
+        id: 'agent',
+        type: 'agent',
+      },
+    ];
+    this.optionalFields = [
+      {
+        id: 'tag',
+        type: 'string',
+      },
+      {
+        id: 'description',
+        type: 'textArea',
+      },
+      {
+        id: 'ignore_failure',
+        type: 'boolean',
+        value: false,
+      },
+    ];
+  }
+}
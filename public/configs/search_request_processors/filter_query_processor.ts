@@ -0,0 +1,42 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { PROCESSOR_TYPE } from '../../../common';
+import { Processor } from '../processor';
+import { generateId } from '../../utils';
+
+/**
+ * The filter query processor config. Used in search flows.
+ * Adds a filter query to every search request, e.g., to restrict results to a single tenant.
+ */
+export class FilterQueryProcessor extends Processor {
+  constructor() {
+    super();
+    this.id = generateId('filter_query_processor');
+    this.type = PROCESSOR_TYPE.FILTER_QUERY;
+    this.name = 'Filter Query Processor';
+    this.fields = [
+      {
+        id: 'query',
+        type: 'json',
+      },
+    ];
+    this.optionalFields = [
+      {
+        id: 'tag',
+        type: 'string',
+      },
+      {
+        id: 'description',
+        type: 'textArea',
+      },
+      {
+        id: 'ignore_failure',
+        type: 'boolean',
+        value: false,
+      },
+    ];
+  }
+}
@@ -4,3 +4,9 @@
  */
 
 export * from './ml_search_request_processor';
+export * from './agentic_query_translator_processor';
+export * from './custom_search_request_processor';
+export * from './filter_query_processor';
+export * from './neural_query_enricher_processor';
+export * from './script_search_request_processor';
+export * from './oversample_processor';
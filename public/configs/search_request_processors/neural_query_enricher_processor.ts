@@ -0,0 +1,47 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { PROCESSOR_TYPE } from '../../../common';
+import { Processor } from '../processor';
+import { generateId } from '../../utils';
+
+/**
+ * The neural query enricher processor config. Used in search flows.
+ * Sets the default model used by neural queries that don't specify a model ID,
+ * optionally overridden per vector field.
+ */
+export class NeuralQueryEnricherProcessor extends Processor {
+  constructor() {
+    super();
+    this.id = generateId('neural_query_enricher_processor');
+    this.type = PROCESSOR_TYPE.NEURAL_QUERY_ENRICHER;
+    this.name = 'Neural Query Enricher Processor';
+    this.fields = [
+      {
+        id: 'default_model',
+        type: 'model',
+      },
+    ];
+    this.optionalFields = [
+      {
+        id: 'neural_field_default_id',
+        type: 'map',
+      },
+      {
+        id: 'tag',
+        type: 'string',
+      },
+      {
+        id: 'description',
+        type: 'textArea',
+      },
+      {
+        id: 'ignore_failure',
+        type: 'boolean',
+        value: false,
+      },
+    ];
+  }
+}
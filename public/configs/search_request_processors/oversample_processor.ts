@@ -0,0 +1,48 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { PROCESSOR_TYPE } from '../../../common';
+import { Processor } from '../processor';
+import { generateId } from '../../utils';
+
+/**
+ * The oversample processor config. Used in search flows.
+ * Increases the requested number of hits by a multiplier, e.g., to rerank or collapse
+ * a larger set of results.
+ */
+export class OversampleProcessor extends Processor {
+  constructor() {
+    super();
+    this.id = generateId('oversample_processor');
+    this.type = PROCESSOR_TYPE.OVERSAMPLE;
+    this.name = 'Oversample Processor';
+    this.fields = [
+      {
+        id: 'sample_factor',
+        type: 'number',
+        value: 2,
+      },
+    ];
+    this.optionalFields = [
+      {
+        id: 'content_prefix',
+        type: 'string',
+      },
+      {
+        id: 'tag',
+        type: 'string',
+      },
+      {
+        id: 'description',
+        type: 'textArea',
+      },
+      {
+        id: 'ignore_failure',
+        type: 'boolean',
+        value: false,
+      },
+    ];
+  }
+}
@@ -0,0 +1,17 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { generateId } from '../../utils';
+import { ScriptProcessor } from '../script_processor';
+
+/**
+ * The script processor in the context of search request
+ */
+export class ScriptSearchRequestProcessor extends ScriptProcessor {
+  constructor() {
+    super();
+    this.id = generateId('script_processor_search_request');
+  }
+}
@@ -0,0 +1,51 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { PROCESSOR_TYPE } from '../../../common';
+import { Processor } from '../processor';
+import { generateId } from '../../utils';
+
+/**
+ * The agentic context processor config. Used in search flows.
+ * Adds the output of the agent run by the agentic query translator processor, such as
+ * the agent's summarized steps and generated query DSL, to the search response. There is
+ * no search response processor that runs an agent, so generating answers from the search
+ * results with an agent is not supported. For details, see
+ * https://opensearch.org/docs/latest/search-plugins/search-pipelines/agentic-context-processor/
+ */
+export class AgenticContextProcessor extends Processor {
+  constructor() {
+    super();
+    this.id = generateId('agentic_context_processor');
+    this.type = PROCESSOR_TYPE.AGENTIC_CONTEXT;
+    this.name = 'Agentic Context Processor';
+    this.fields = [];
+    this.optionalFields = [
+      {
+        id: 'agent_steps_summary',
+        type: 'boolean',
+        value: true,
+      },
+      {
+        id: 'dsl_query',
+        type: 'boolean',
+        value: true,
+      },
+      {
+        id: 'tag',
+        type: 'string',
+      },
+      {
+        id: 'description',
+        type: 'textArea',
+      },
+      {
+        id: 'ignore_failure',
+        type: 'boolean',
+        value: false,
+      },
+    ];
+  }
+}
@@ -0,0 +1,17 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { generateId } from '../../utils';
+import { CustomProcessor } from '../custom_processor';
+
+/**
+ * The custom processor in the context of search response
+ */
+export class CustomSearchResponseProcessor extends CustomProcessor {
+  constructor() {
+    super();
+    this.id = generateId('custom_processor_search_response');
+  }
+}
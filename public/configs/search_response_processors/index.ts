@@ -9,3 +9,5 @@ export * from './sort_search_response_processor';
 export * from './normalization_processor';
 export * from './collapse_processor';
 export * from './rerank_processor';
+export * from './agentic_context_processor';
+export * from './custom_search_response_processor';
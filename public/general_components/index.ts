@@ -8,5 +8,7 @@ export { ProcessorsTitle } from './processors_title';
 export { QueryParamsList } from './query_params_list';
 export { JsonPathExamplesTable } from './jsonpath_examples_table';
 export { ProcessingBadge } from './processing_badge';
+export { WorkflowTemplateErrorsCallout } from './workflow_template_errors';
 export * from './results';
 export * from './service_card';
+export * from './models';
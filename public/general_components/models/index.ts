@@ -0,0 +1,8 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export { ModelsFlyout } from './models_flyout';
+export { UndeployedModelCallout } from './undeployed_model_callout';
+export * from './use_model_lifecycle';
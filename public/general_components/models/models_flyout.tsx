@@ -0,0 +1,208 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useSelector } from 'react-redux';
+import {
+  EuiBasicTableColumn,
+  EuiCallOut,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiFlyout,
+  EuiFlyoutBody,
+  EuiFlyoutHeader,
+  EuiHealth,
+  EuiInMemoryTable,
+  EuiLoadingSpinner,
+  EuiSmallButtonEmpty,
+  EuiText,
+} from '@elastic/eui';
+import {
+  EMPTY_FIELD_STRING,
+  FETCH_ALL_QUERY_LARGE,
+  Model,
+} from '../../../common';
+import {
+  AppState,
+  searchConnectors,
+  searchModels,
+  useAppDispatch,
+} from '../../store';
+import { getDataSourceId } from '../../utils';
+import {
+  canDeployModel,
+  canUndeployModel,
+  getModelStateColor,
+  useModelLifecycle,
+} from './use_model_lifecycle';
+
+interface ModelsFlyoutProps {
+  onClose: () => void;
+}
+
+/**
+ * Flyout listing all models, regardless of state. Models can be deployed, undeployed, or redeployed,
+ * with their state polled until stable.
+ */
+export function ModelsFlyout(props: ModelsFlyoutProps) {
+  const dispatch = useAppDispatch();
+  const dataSourceId = getDataSourceId();
+  const { models, connectors, loading } = useSelector(
+    (state: AppState) => state.ml
+  );
+  const { pendingModelIds, deploy, undeploy, redeploy } = useModelLifecycle();
+  const [errorMessage, setErrorMessage] = useState<string | undefined>(
+    undefined
+  );
+
+  // fetch the latest models & connectors when opened
+  useEffect(() => {
+    fetchModels();
+  }, []);
+
+  function fetchModels() {
+    dispatch(searchModels({ apiBody: FETCH_ALL_QUERY_LARGE, dataSourceId }));
+    dispatch(
+      searchConnectors({ apiBody: FETCH_ALL_QUERY_LARGE, dataSourceId })
+    );
+  }
+
+  function onAction(
+    action: (modelId: string) => Promise<Model | undefined>,
+    model: Model
+  ) {
+    setErrorMessage(undefined);
+    action(model.id).catch((error: any) => {
+      setErrorMessage(`${model.name}: ${error}`);
+    });
+  }
+
+  const isPending = (model: Model) => pendingModelIds.includes(model.id);
+
+  const columns = [
+    {
+      field: 'name',
+      name: 'Name',
+      sortable: true,
+    },
+    {
+      field: 'state',
+      name: 'State',
+      sortable: true,
+      render: (state: Model['state'], model: Model) =>
+        isPending(model) ? (
+          <EuiFlexGroup direction="row" gutterSize="s" alignItems="center">
+            <EuiFlexItem grow={false}>
+              <EuiLoadingSpinner size="m" />
+            </EuiFlexItem>
+            <EuiFlexItem grow={false}>
+              <EuiText size="s">{state}</EuiText>
+            </EuiFlexItem>
+          </EuiFlexGroup>
+        ) : (
+          <EuiHealth color={getModelStateColor(state)}>{state}</EuiHealth>
+        ),
+    },
+    {
+      field: 'algorithm',
+      name: 'Algorithm',
+      sortable: true,
+      render: (algorithm: Model['algorithm']) =>
+        algorithm || EMPTY_FIELD_STRING,
+    },
+    {
+      field: 'connectorId',
+      name: 'Connector',
+      render: (connectorId: string | undefined) =>
+        connectorId !== undefined
+          ? connectors[connectorId]?.name || connectorId
+          : EMPTY_FIELD_STRING,
+    },
+    {
+      name: 'Actions',
+      width: '20%',
+      actions: [
+        {
+          name: 'Deploy',
+          description: 'Deploy the model',
+          type: 'icon',
+          icon: 'play',
+          color: 'primary',
+          available: (model: Model) => canDeployModel(model.state),
+          enabled: (model: Model) => !isPending(model),
+          onClick: (model: Model) => onAction(deploy, model),
+          'data-test-subj': 'deployModelButton',
+        },
+        {
+          name: 'Redeploy',
+          description: 'Undeploy and redeploy the model',
+          type: 'icon',
+          icon: 'refresh',
+          color: 'primary',
+          available: (model: Model) => canUndeployModel(model.state),
+          enabled: (model: Model) => !isPending(model),
+          onClick: (model: Model) => onAction(redeploy, model),
+          'data-test-subj': 'redeployModelButton',
+        },
+        {
+          name: 'Undeploy',
+          description: 'Undeploy the model',
+          type: 'icon',
+          icon: 'stop',
+          color: 'danger',
+          available: (model: Model) => canUndeployModel(model.state),
+          enabled: (model: Model) => !isPending(model),
+          onClick: (model: Model) => onAction(undeploy, model),
+          'data-test-subj': 'undeployModelButton',
+        },
+      ],
+    },
+  ] as Array<EuiBasicTableColumn<Model>>;
+
+  return (
+    <EuiFlyout ownFocus={true} onClose={props.onClose}>
+      <EuiFlyoutHeader hasBorder={true}>
+        <EuiFlexGroup direction="row" justifyContent="spaceBetween">
+          <EuiFlexItem grow={false}>
+            <EuiText size="m">
+              <h2>Models</h2>
+            </EuiText>
+          </EuiFlexItem>
+          <EuiFlexItem grow={false}>
+            <EuiSmallButtonEmpty
+              iconType="refresh"
+              onClick={() => fetchModels()}
+              data-testid="refreshModelsButton"
+            >
+              Refresh
+            </EuiSmallButtonEmpty>
+          </EuiFlexItem>
+        </EuiFlexGroup>
+      </EuiFlyoutHeader>
+      <EuiFlyoutBody>
+        {errorMessage !== undefined && (
+          <EuiCallOut
+            size="s"
+            color="danger"
+            iconType="alert"
+            title={errorMessage}
+          />
+        )}
+        <EuiInMemoryTable<Model>
+          items={Object.values(models || {})}
+          columns={columns}
+          loading={loading}
+          compressed={true}
+          pagination={true}
+          sorting={{ sort: { field: 'name', direction: 'asc' } }}
+          search={{
+            box: { incremental: true, placeholder: 'Search models' },
+          }}
+          itemId="id"
+        />
+      </EuiFlyoutBody>
+    </EuiFlyout>
+  );
+}
@@ -0,0 +1,59 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { EuiCallOut, EuiSmallButton, EuiSpacer, EuiText } from '@elastic/eui';
+import { Model } from '../../../common';
+import { canDeployModel, useModelLifecycle } from './use_model_lifecycle';
+
+interface UndeployedModelCalloutProps {
+  model: Model;
+}
+
+/**
+ * Warning callout for a selected model that is not deployed, with the option to deploy it in place.
+ */
+export function UndeployedModelCallout(props: UndeployedModelCalloutProps) {
+  const { pendingModelIds, deploy } = useModelLifecycle();
+  const [errorMessage, setErrorMessage] = useState<string | undefined>(
+    undefined
+  );
+  const isDeploying = pendingModelIds.includes(props.model.id);
+
+  async function onDeploy() {
+    setErrorMessage(undefined);
+    await deploy(props.model.id).catch((error: any) => {
+      setErrorMessage(`${error}`);
+    });
+  }
+
+  return (
+    <EuiCallOut
+      size="s"
+      color="warning"
+      iconType="alert"
+      title={`The selected model '${props.model.name}' is not deployed. Current state: ${props.model.state}`}
+      data-testid="undeployedModelCallout"
+    >
+      {errorMessage !== undefined && (
+        <>
+          <EuiText size="s" color="danger">
+            {errorMessage}
+          </EuiText>
+          <EuiSpacer size="s" />
+        </>
+      )}
+      <EuiSmallButton
+        onClick={() => onDeploy()}
+        isLoading={isDeploying}
+        isDisabled={!isDeploying && !canDeployModel(props.model.state)}
+        color="warning"
+        data-testid="deployUndeployedModelButton"
+      >
+        Deploy
+      </EuiSmallButton>
+    </EuiCallOut>
+  );
+}
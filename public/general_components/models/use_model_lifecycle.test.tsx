@@ -0,0 +1,154 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { act, render, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { Provider } from 'react-redux';
+import { MemoryRouter as Router } from 'react-router-dom';
+import { MODEL_STATE } from '../../../common';
+import { setRouteService } from '../../services';
+import { store } from '../../store';
+import { useModelLifecycle } from './use_model_lifecycle';
+
+// poll quickly, and time out quickly, when waiting for model state updates
+jest.mock('../../../common', () => ({
+  ...jest.requireActual('../../../common'),
+  MODEL_STATE_POLL_INTERVAL_MS: 1,
+  MODEL_STATE_TIMEOUT_MS: 1000,
+}));
+
+const MODEL_ID = 'my_model_id';
+
+// the state returned each time the model is fetched
+let modelState: MODEL_STATE;
+const mockRouteService = {
+  getModel: jest.fn(async (modelId: string) => ({
+    model: { id: modelId, name: 'my_model', state: modelState },
+  })),
+  deployModel: jest.fn(async () => ({})),
+  undeployModel: jest.fn(async () => ({})),
+};
+
+let lifecycle: ReturnType<typeof useModelLifecycle>;
+function ModelLifecycle() {
+  lifecycle = useModelLifecycle();
+  return (
+    <div data-testid="pendingModelIds">
+      {lifecycle.pendingModelIds.join(',')}
+    </div>
+  );
+}
+
+const renderWithRouter = () => ({
+  ...render(
+    <Provider store={store}>
+      <Router>
+        <ModelLifecycle />
+      </Router>
+    </Provider>
+  ),
+});
+
+describe('useModelLifecycle', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    setRouteService(mockRouteService as any);
+  });
+
+  test('deploys a model, and waits until it is deployed', async () => {
+    modelState = MODEL_STATE.DEPLOYING;
+    const { getByTestId } = renderWithRouter();
+
+    let deployment: ReturnType<typeof lifecycle.deploy> | undefined;
+    act(() => {
+      deployment = lifecycle.deploy(MODEL_ID);
+    });
+    await waitFor(() => {
+      expect(mockRouteService.getModel).toHaveBeenCalled();
+    });
+    expect(getByTestId('pendingModelIds')).toHaveTextContent(MODEL_ID);
+
+    modelState = MODEL_STATE.DEPLOYED;
+    await act(async () => {
+      expect((await deployment)?.state).toEqual(MODEL_STATE.DEPLOYED);
+    });
+    expect(mockRouteService.deployModel).toHaveBeenCalledTimes(1);
+    expect(store.getState().ml.models[MODEL_ID]?.state).toEqual(
+      MODEL_STATE.DEPLOYED
+    );
+    expect(getByTestId('pendingModelIds').textContent).toEqual('');
+  });
+
+  test('fails if the model fails to deploy', async () => {
+    modelState = MODEL_STATE.DEPLOY_FAILED;
+    const { getByTestId } = renderWithRouter();
+
+    await act(async () => {
+      await expect(lifecycle.deploy(MODEL_ID)).rejects.toEqual(
+        'Model failed to deploy'
+      );
+    });
+    expect(getByTestId('pendingModelIds').textContent).toEqual('');
+  });
+
+  test('undeploys a model, and waits until it is undeployed', async () => {
+    modelState = MODEL_STATE.UNDEPLOYED;
+    renderWithRouter();
+
+    await act(async () => {
+      expect((await lifecycle.undeploy(MODEL_ID))?.state).toEqual(
+        MODEL_STATE.UNDEPLOYED
+      );
+    });
+    expect(mockRouteService.undeployModel).toHaveBeenCalledTimes(1);
+    expect(mockRouteService.deployModel).not.toHaveBeenCalled();
+  });
+
+  test('redeploys a model by undeploying, then deploying it', async () => {
+    modelState = MODEL_STATE.UNDEPLOYED;
+    renderWithRouter();
+
+    mockRouteService.deployModel.mockImplementationOnce(async () => {
+      modelState = MODEL_STATE.DEPLOYED;
+      return {};
+    });
+    await act(async () => {
+      expect((await lifecycle.redeploy(MODEL_ID))?.state).toEqual(
+        MODEL_STATE.DEPLOYED
+      );
+    });
+    expect(mockRouteService.undeployModel).toHaveBeenCalledTimes(1);
+    expect(mockRouteService.deployModel).toHaveBeenCalledTimes(1);
+  });
+
+  test('times out if the model state is never updated', async () => {
+    modelState = MODEL_STATE.DEPLOYING;
+    const { getByTestId } = renderWithRouter();
+
+    await act(async () => {
+      await expect(lifecycle.deploy(MODEL_ID)).rejects.toEqual(
+        'Timed out waiting for the model state to update'
+      );
+    });
+    expect(mockRouteService.getModel.mock.calls.length).toBeGreaterThan(1);
+    expect(getByTestId('pendingModelIds').textContent).toEqual('');
+  });
+
+  test('stops waiting once unmounted', async () => {
+    modelState = MODEL_STATE.DEPLOYING;
+    const { unmount } = renderWithRouter();
+
+    let deployment: ReturnType<typeof lifecycle.deploy> | undefined;
+    act(() => {
+      deployment = lifecycle.deploy(MODEL_ID);
+    });
+    await waitFor(() => {
+      expect(mockRouteService.getModel).toHaveBeenCalled();
+    });
+    unmount();
+    expect(await deployment).toBeUndefined();
+  });
+});
@@ -0,0 +1,148 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  MODEL_STATE,
+  MODEL_STATE_POLL_INTERVAL_MS,
+  MODEL_STATE_TIMEOUT_MS,
+  Model,
+  sleep,
+} from '../../../common';
+import {
+  deployModel,
+  getModel,
+  undeployModel,
+  useAppDispatch,
+} from '../../store';
+import { getDataSourceId } from '../../utils';
+
+// The final model states after deploying & undeploying, respectively
+const DEPLOYED_MODEL_STATES = [
+  MODEL_STATE.DEPLOYED,
+  MODEL_STATE.PARTIALLY_DEPLOYED,
+  MODEL_STATE.DEPLOY_FAILED,
+];
+const UNDEPLOYED_MODEL_STATES = [
+  MODEL_STATE.UNDEPLOYED,
+  MODEL_STATE.REGISTERED,
+];
+
+/**
+ * Hook for deploying, undeploying, and redeploying models. After each action, the model is polled
+ * until it reaches a stable state, keeping the latest model in the store. Each action resolves to
+ * the final model, or undefined if the component was unmounted while polling.
+ */
+export function useModelLifecycle() {
+  const dispatch = useAppDispatch();
+  const dataSourceId = getDataSourceId();
+
+  // models with an in-progress action
+  const [pendingModelIds, setPendingModelIds] = useState<string[]>([]);
+  const isStopped = useRef<boolean>(false);
+
+  // stop polling if unmounted. any in-progress actions continue in the background.
+  useEffect(() => {
+    return () => {
+      isStopped.current = true;
+    };
+  }, []);
+
+  async function waitForModelState(
+    modelId: string,
+    targetStates: MODEL_STATE[]
+  ): Promise<Model | undefined> {
+    const startTime = Date.now();
+    while (!isStopped.current) {
+      const { model } = (await dispatch(
+        getModel({ modelId, dataSourceId })
+      ).unwrap()) as { model: Model | undefined };
+      if (model !== undefined && targetStates.includes(model.state)) {
+        return model;
+      }
+      if (Date.now() - startTime >= MODEL_STATE_TIMEOUT_MS) {
+        throw 'Timed out waiting for the model state to update';
+      }
+      await sleep(MODEL_STATE_POLL_INTERVAL_MS);
+    }
+    return undefined;
+  }
+
+  async function deployAndWait(modelId: string): Promise<Model | undefined> {
+    await dispatch(deployModel({ modelId, dataSourceId })).unwrap();
+    const model = await waitForModelState(modelId, DEPLOYED_MODEL_STATES);
+    if (model?.state === MODEL_STATE.DEPLOY_FAILED) {
+      throw 'Model failed to deploy';
+    }
+    return model;
+  }
+
+  async function undeployAndWait(modelId: string): Promise<Model | undefined> {
+    await dispatch(undeployModel({ modelId, dataSourceId })).unwrap();
+    return waitForModelState(modelId, UNDEPLOYED_MODEL_STATES);
+  }
+
+  async function runAction(
+    modelId: string,
+    action: () => Promise<Model | undefined>
+  ): Promise<Model | undefined> {
+    setPendingModelIds((ids) => [...ids, modelId]);
+    try {
+      return await action();
+    } finally {
+      if (!isStopped.current) {
+        setPendingModelIds((ids) => ids.filter((id) => id !== modelId));
+      }
+    }
+  }
+
+  return {
+    pendingModelIds,
+    deploy: (modelId: string) =>
+      runAction(modelId, () => deployAndWait(modelId)),
+    undeploy: (modelId: string) =>
+      runAction(modelId, () => undeployAndWait(modelId)),
+    redeploy: (modelId: string) =>
+      runAction(modelId, async () => {
+        const model = await undeployAndWait(modelId);
+        return model !== undefined ? deployAndWait(modelId) : undefined;
+      }),
+  };
+}
+
+// Get the health color to display for a model state
+export function getModelStateColor(state: MODEL_STATE | undefined): string {
+  switch (state) {
+    case MODEL_STATE.DEPLOYED: {
+      return 'success';
+    }
+    case MODEL_STATE.PARTIALLY_DEPLOYED:
+    case MODEL_STATE.DEPLOYING:
+    case MODEL_STATE.REGISTERING: {
+      return 'warning';
+    }
+    case MODEL_STATE.DEPLOY_FAILED: {
+      return 'danger';
+    }
+    default: {
+      return 'subdued';
+    }
+  }
+}
+
+// Models can only be deployed if not already deployed, and not in the middle of a state change
+export function canDeployModel(state: MODEL_STATE | undefined): boolean {
+  return (
+    state === MODEL_STATE.REGISTERED ||
+    state === MODEL_STATE.UNDEPLOYED ||
+    state === MODEL_STATE.DEPLOY_FAILED
+  );
+}
+
+export function canUndeployModel(state: MODEL_STATE | undefined): boolean {
+  return (
+    state === MODEL_STATE.DEPLOYED || state === MODEL_STATE.PARTIALLY_DEPLOYED
+  );
+}
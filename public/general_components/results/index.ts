@@ -4,3 +4,5 @@
  */
 
 export { Results } from './results';
+export { ProcessorDiffs } from './processor_diffs';
+export { ResultsComparison } from './results_comparison';
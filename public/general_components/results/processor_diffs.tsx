@@ -0,0 +1,99 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import {
+  EuiBadge,
+  EuiBasicTable,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiText,
+} from '@elastic/eui';
+import { FieldChange, ProcessorDataDiff } from '../../../common';
+import { formatFieldValue, getFieldChangeType } from '../../utils';
+
+interface ProcessorDiffsProps {
+  diffs: ProcessorDataDiff[];
+}
+
+/**
+ * Small component to render the changes a processor made to the data passing through it,
+ * as a list of changed values for each hit (or request) that was added, removed, or modified.
+ */
+export function ProcessorDiffs(props: ProcessorDiffsProps) {
+  const changedDiffs = props.diffs.filter(
+    (diff) => diff.status !== 'unchanged'
+  );
+  const numUnchanged = props.diffs.length - changedDiffs.length;
+
+  return (
+    <EuiFlexGroup direction="column" gutterSize="s">
+      {changedDiffs.map((diff, idx) => (
+        <EuiFlexItem grow={false} key={idx}>
+          <EuiFlexGroup direction="row" gutterSize="s" alignItems="center">
+            <EuiFlexItem grow={false}>
+              <EuiText size="s">
+                <b>{diff.id}</b>
+              </EuiText>
+            </EuiFlexItem>
+            <EuiFlexItem grow={false}>
+              <EuiBadge color={getDiffStatusColor(diff.status)}>
+                {diff.status}
+              </EuiBadge>
+            </EuiFlexItem>
+          </EuiFlexGroup>
+          {diff.changes.length > 0 && (
+            <EuiBasicTable<FieldChange>
+              items={diff.changes}
+              compressed={true}
+              tableLayout="auto"
+              columns={[
+                {
+                  field: 'path',
+                  name: 'Field',
+                },
+                {
+                  name: 'Change',
+                  render: (change: FieldChange) => getFieldChangeType(change),
+                },
+                {
+                  field: 'before',
+                  name: 'Before',
+                  render: (before: any) => formatFieldValue(before),
+                },
+                {
+                  field: 'after',
+                  name: 'After',
+                  render: (after: any) => formatFieldValue(after),
+                },
+              ]}
+            />
+          )}
+        </EuiFlexItem>
+      ))}
+      <EuiFlexItem grow={false}>
+        <EuiText size="xs" color="subdued">
+          {changedDiffs.length === 0
+            ? 'No changes'
+            : `${numUnchanged} unchanged`}
+        </EuiText>
+      </EuiFlexItem>
+    </EuiFlexGroup>
+  );
+}
+
+function getDiffStatusColor(status: ProcessorDataDiff['status']): string {
+  switch (status) {
+    case 'added': {
+      return 'success';
+    }
+    case 'removed': {
+      return 'danger';
+    }
+    default: {
+      return 'primary';
+    }
+  }
+}
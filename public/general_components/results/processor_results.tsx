@@ -0,0 +1,140 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { ReactNode, useState } from 'react';
+import { isEmpty } from 'lodash';
+import {
+  EuiButtonIcon,
+  EuiEmptyPrompt,
+  EuiHealth,
+  EuiInMemoryTable,
+  EuiSpacer,
+  RIGHT_ALIGNMENT,
+} from '@elastic/eui';
+import {
+  SearchProcessorResult,
+  SearchProcessorStage,
+  SearchProcessorTraceStep,
+  SearchResponseVerbose,
+} from '../../../common';
+import { getSearchPipelineTrace } from '../../utils';
+import { ProcessorDiffs } from './processor_diffs';
+
+interface ProcessorResultsProps {
+  processorResults: SearchProcessorResult[];
+}
+
+const STAGE_LABELS = {
+  request: 'Request',
+  phase_results: 'Phase results',
+  response: 'Response',
+} as { [stage in SearchProcessorStage]: string };
+
+/**
+ * Small component to render a step-by-step trace of the processors executed within a
+ * verbose search response. Each step can be expanded to view how the processor changed
+ * the search request, or each of the hits.
+ */
+export function ProcessorResults(props: ProcessorResultsProps) {
+  const traceSteps = getSearchPipelineTrace({
+    processor_results: props.processorResults,
+  } as SearchResponseVerbose);
+
+  // expanded steps state
+  const [expandedPositions, setExpandedPositions] = useState<number[]>([]);
+  const itemIdToExpandedRowMap = {} as { [position: number]: ReactNode };
+  traceSteps
+    .filter((traceStep) => expandedPositions.includes(traceStep.position))
+    .forEach((traceStep) => {
+      itemIdToExpandedRowMap[traceStep.position] = (
+        <ProcessorDiffs diffs={traceStep.diffs} />
+      );
+    });
+
+  function toggleExpanded(position: number) {
+    setExpandedPositions(
+      expandedPositions.includes(position)
+        ? expandedPositions.filter(
+            (expandedPosition) => expandedPosition !== position
+          )
+        : [...expandedPositions, position]
+    );
+  }
+
+  return (
+    <>
+      <EuiSpacer size="s" />
+      {isEmpty(traceSteps) ? (
+        <EuiEmptyPrompt
+          title={<h2>No processor results found</h2>}
+          titleSize="s"
+        />
+      ) : (
+        <EuiInMemoryTable<SearchProcessorTraceStep>
+          items={traceSteps}
+          itemId="position"
+          itemIdToExpandedRowMap={itemIdToExpandedRowMap}
+          isExpandable={true}
+          compressed={true}
+          pagination={false}
+          tableLayout="auto"
+          columns={[
+            {
+              field: 'processorName',
+              name: 'Processor',
+              render: (
+                processorName: string,
+                traceStep: SearchProcessorTraceStep
+              ) => `${traceStep.position + 1}. ${processorName}`,
+            },
+            {
+              field: 'stage',
+              name: 'Stage',
+              render: (stage: SearchProcessorStage) => STAGE_LABELS[stage],
+            },
+            {
+              field: 'status',
+              name: 'Status',
+              render: (status: SearchProcessorTraceStep['status']) => (
+                <EuiHealth color={status === 'success' ? 'success' : 'danger'}>
+                  {status}
+                </EuiHealth>
+              ),
+            },
+            {
+              field: 'durationMillis',
+              name: 'Duration (ms)',
+            },
+            {
+              field: 'error',
+              name: 'Error',
+              render: (error: string | undefined) => error || '-',
+            },
+            {
+              align: RIGHT_ALIGNMENT,
+              width: '40px',
+              isExpander: true,
+              render: (traceStep: SearchProcessorTraceStep) => (
+                <EuiButtonIcon
+                  onClick={() => toggleExpanded(traceStep.position)}
+                  aria-label={
+                    expandedPositions.includes(traceStep.position)
+                      ? 'Collapse'
+                      : 'Expand'
+                  }
+                  iconType={
+                    expandedPositions.includes(traceStep.position)
+                      ? 'arrowUp'
+                      : 'arrowDown'
+                  }
+                />
+              ),
+            },
+          ]}
+        />
+      )}
+    </>
+  );
+}
@@ -11,10 +11,11 @@ import {
   EuiFlexItem,
   EuiSmallButtonGroup,
 } from '@elastic/eui';
-import { SearchResponse } from '../../../common';
+import { SearchResponse, SearchResponseVerbose } from '../../../common';
 import { ResultsTable } from './results_table';
 import { ResultsJSON } from './results_json';
 import { MLOutputs } from './ml_outputs';
+import { ProcessorResults } from './processor_results';
 
 interface ResultsProps {
   response: SearchResponse;
@@ -23,14 +24,18 @@ interface ResultsProps {
 enum VIEW {
   HITS_TABLE = 'hits_table',
   ML_OUTPUTS = 'ml_outputs',
+  PROCESSOR_RESULTS = 'processor_results',
   RAW_JSON = 'raw_json',
 }
 
 /**
  * Basic component to view OpenSearch response results. Can view hits in a tabular format,
- * or the raw JSON response.
+ * or the raw JSON response. Verbose responses can also view a step-by-step trace of each processor.
  */
 export function Results(props: ResultsProps) {
+  const processorResults = (props.response as SearchResponseVerbose)
+    ?.processor_results;
+
   // selected view state. auto-navigate to ML outputs if there is values found
   // in "ext.ml_inference" in the search response.
   const [selectedView, setSelectedView] = useState<VIEW>(VIEW.HITS_TABLE);
@@ -64,6 +69,14 @@ export function Results(props: ResultsProps) {
                 id: VIEW.ML_OUTPUTS,
                 label: 'ML outputs',
               },
+              ...(processorResults !== undefined
+                ? [
+                    {
+                      id: VIEW.PROCESSOR_RESULTS,
+                      label: 'Pipeline trace',
+                    },
+                  ]
+                : []),
               {
                 id: VIEW.RAW_JSON,
                 label: 'Raw JSON',
@@ -84,6 +97,9 @@ export function Results(props: ResultsProps) {
                 mlOutputs={getMLResponseFromSearchResponse(props.response)}
               />
             )}
+            {selectedView === VIEW.PROCESSOR_RESULTS && (
+              <ProcessorResults processorResults={processorResults || []} />
+            )}
             {selectedView === VIEW.RAW_JSON && (
               <ResultsJSON response={props.response} />
             )}
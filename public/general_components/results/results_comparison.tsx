@@ -0,0 +1,152 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import {
+  EuiBadge,
+  EuiBasicTable,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiPanel,
+  EuiText,
+} from '@elastic/eui';
+import { SearchHitComparison, SearchResponse } from '../../../common';
+import { compareSearchResponses } from '../../utils';
+
+interface ResultsComparisonProps {
+  responseA: SearchResponse;
+  responseB: SearchResponse;
+  labelA: string;
+  labelB: string;
+}
+
+/**
+ * Small component to view the ranked hits of two search responses side by side, along with
+ * how much the two responses overlap, and how each shared hit's rank & score changed.
+ */
+export function ResultsComparison(props: ResultsComparisonProps) {
+  const comparison = compareSearchResponses(props.responseA, props.responseB);
+
+  return (
+    <EuiPanel
+      hasBorder={false}
+      hasShadow={false}
+      paddingSize="none"
+      style={{ height: '10vh', overflowY: 'scroll', overflowX: 'hidden' }}
+    >
+      <EuiFlexGroup direction="column" gutterSize="s">
+        <EuiFlexItem grow={false}>
+          <EuiText size="s">
+            {`Overlap: ${comparison.overlapPercentage.toFixed(0)}% (${
+              comparison.numShared
+            } shared hits)`}
+          </EuiText>
+        </EuiFlexItem>
+        <EuiFlexItem grow={false}>
+          <EuiFlexGroup direction="row" gutterSize="m">
+            <EuiFlexItem>
+              <ComparisonTable
+                label={props.labelA}
+                hits={comparison.hitsA}
+                missingLabel="Not in B"
+              />
+            </EuiFlexItem>
+            <EuiFlexItem>
+              <ComparisonTable
+                label={props.labelB}
+                hits={comparison.hitsB}
+                missingLabel="New"
+              />
+            </EuiFlexItem>
+          </EuiFlexGroup>
+        </EuiFlexItem>
+      </EuiFlexGroup>
+    </EuiPanel>
+  );
+}
+
+interface ComparisonTableProps {
+  label: string;
+  hits: SearchHitComparison[];
+  // the label for any hits not found in the other response
+  missingLabel: string;
+}
+
+function ComparisonTable(props: ComparisonTableProps) {
+  return (
+    <EuiFlexGroup direction="column" gutterSize="xs">
+      <EuiFlexItem grow={false}>
+        <EuiText size="s">
+          <b>{props.label}</b>
+        </EuiText>
+      </EuiFlexItem>
+      <EuiFlexItem grow={false}>
+        <EuiBasicTable<SearchHitComparison>
+          items={props.hits}
+          compressed={true}
+          tableLayout="auto"
+          noItemsMessage="No hits found"
+          columns={[
+            {
+              field: 'rank',
+              name: 'Rank',
+              width: '50px',
+            },
+            {
+              field: 'id',
+              name: 'ID',
+              truncateText: true,
+            },
+            {
+              field: 'score',
+              name: 'Score',
+              render: (score: number | undefined) =>
+                score !== undefined ? score.toFixed(4) : '-',
+            },
+            {
+              name: 'Rank change',
+              render: (hit: SearchHitComparison) =>
+                hit.rankDelta === undefined ? (
+                  <EuiBadge color="hollow">{props.missingLabel}</EuiBadge>
+                ) : (
+                  <EuiText size="s" color={getDeltaColor(hit.rankDelta)}>
+                    {formatDelta(hit.rankDelta, 0)}
+                  </EuiText>
+                ),
+            },
+            {
+              field: 'scoreDelta',
+              name: 'Score change',
+              render: (scoreDelta: number | undefined) =>
+                scoreDelta === undefined ? (
+                  '-'
+                ) : (
+                  <EuiText size="s" color={getDeltaColor(scoreDelta)}>
+                    {formatDelta(scoreDelta, 4)}
+                  </EuiText>
+                ),
+            },
+          ]}
+        />
+      </EuiFlexItem>
+    </EuiFlexGroup>
+  );
+}
+
+function formatDelta(delta: number, numDecimals: number): string {
+  return delta > 0
+    ? `+${delta.toFixed(numDecimals)}`
+    : delta.toFixed(numDecimals);
+}
+
+function getDeltaColor(delta: number): string {
+  if (delta > 0) {
+    return 'success';
+  } else if (delta < 0) {
+    return 'danger';
+  } else {
+    return 'subdued';
+  }
+}
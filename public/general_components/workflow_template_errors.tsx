@@ -0,0 +1,47 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { EuiCallOut, EuiText } from '@elastic/eui';
+import { WorkflowTemplateErrors } from '../../common';
+
+interface WorkflowTemplateErrorsCalloutProps {
+  errors: WorkflowTemplateErrors;
+  title?: string;
+}
+
+/**
+ * Simple component to display any workflow template validation errors,
+ * grouped by the template node they were found in.
+ */
+export function WorkflowTemplateErrorsCallout(
+  props: WorkflowTemplateErrorsCalloutProps
+) {
+  return (
+    <EuiCallOut
+      title={props.title || 'Invalid workflow template'}
+      color="danger"
+      iconType="alert"
+      size="s"
+      data-testid="workflowTemplateErrorsCallout"
+    >
+      <EuiText size="s">
+        <ul>
+          {props.errors.templateErrors.map((error, idx) => (
+            <li key={`template_error_${idx}`}>{error}</li>
+          ))}
+          {Object.entries(props.errors.nodeErrors).map(([nodeId, errors]) =>
+            errors.map((error, idx) => (
+              <li key={`${nodeId}_error_${idx}`}>
+                <b>{nodeId}</b>
+                {`: ${error}`}
+              </li>
+            ))
+          )}
+        </ul>
+      </EuiText>
+    </EuiCallOut>
+  );
+}
@@ -4,7 +4,6 @@
  */
 
 import React, { useEffect, useState } from 'react';
-import { useSelector } from 'react-redux';
 import * as yup from 'yup';
 import { Formik, getIn, useFormikContext } from 'formik';
 import { isEmpty } from 'lodash';
@@ -19,7 +18,6 @@ import {
   EuiSmallButton,
 } from '@elastic/eui';
 import {
-  FETCH_ALL_QUERY_LARGE,
   MAX_DESCRIPTION_LENGTH,
   Workflow,
   WORKFLOW_NAME_REGEXP,
@@ -32,15 +30,10 @@ import {
   formikToUiConfig,
   getDataSourceId,
   getInitialValue,
+  workflowNameExists,
 } from '../../../utils';
 import { TextField } from '../workflow_inputs/input_fields';
-import {
-  AppState,
-  getWorkflow,
-  searchWorkflows,
-  updateWorkflow,
-  useAppDispatch,
-} from '../../../store';
+import { getWorkflow, updateWorkflow, useAppDispatch } from '../../../store';
 
 interface EditWorkflowMetadataModalProps {
   workflow?: Workflow;
@@ -55,7 +48,6 @@ export function EditWorkflowMetadataModal(
   const dispatch = useAppDispatch();
   const dataSourceId = getDataSourceId();
   const { values } = useFormikContext<WorkflowFormValues>();
-  const { workflows } = useSelector((state: AppState) => state.workflows);
 
   // sub-form values/schema
   const metadataFormValues = {
@@ -76,11 +68,10 @@ export function EditWorkflowMetadataModal(
       .test(
         'workflowName',
         'This workflow name is already in use. Use a different name',
-        (name) => {
+        async (name) => {
           return !(
-            Object.values(workflows || {})
-              .map((workflow) => workflow.name)
-              .includes(name || '') && name !== props.workflow?.name
+            name !== props.workflow?.name &&
+            (await workflowNameExists(name || '', dataSourceId))
           );
         }
       )
@@ -102,17 +93,6 @@ export function EditWorkflowMetadataModal(
   // button updating state
   const [isUpdating, setIsUpdating] = useState<boolean>(false);
 
-  // On initial render: fetch all workflows. Used for preventing users from updating name
-  // to an existing workflow
-  useEffect(() => {
-    dispatch(
-      searchWorkflows({
-        apiBody: FETCH_ALL_QUERY_LARGE,
-        dataSourceId,
-      })
-    );
-  }, []);
-
   // if saving, take the updated name/description (along with any other unsaved form values)
   // and execute the update.
   async function onSave() {
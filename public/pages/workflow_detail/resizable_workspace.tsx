@@ -208,6 +208,7 @@ export function ResizableWorkspace(props: ResizableWorkspaceProps) {
                       >
                         <Tools
                           workflow={props.workflow}
+                          uiConfig={props.uiConfig}
                           ingestResponse={ingestResponse}
                           selectedTabId={selectedInspectorTabId}
                           setSelectedTabId={setSelectedInspectorTabId}
@@ -0,0 +1,395 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { isEmpty } from 'lodash';
+import { useFormikContext } from 'formik';
+import {
+  EuiBasicTable,
+  EuiCallOut,
+  EuiComboBox,
+  EuiCompressedFieldNumber,
+  EuiEmptyPrompt,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiProgress,
+  EuiSmallButton,
+  EuiSmallButtonEmpty,
+  EuiText,
+} from '@elastic/eui';
+import {
+  CONFIG_STEP,
+  DEFAULT_ANALYTICS_RUNS,
+  IngestPipelineConfig,
+  LatencyStats,
+  MAX_ANALYTICS_RUNS,
+  PROCESSOR_CONTEXT,
+  ProcessorAnalytics,
+  ProcessorRunSample,
+  QueryParam,
+  SearchPipelineConfig,
+  SearchResponseVerbose,
+  SimulateIngestPipelineResponseVerbose,
+  WorkflowConfig,
+  WorkflowFormValues,
+} from '../../../../../common';
+import {
+  searchIndex,
+  simulatePipeline,
+  useAppDispatch,
+} from '../../../../store';
+import {
+  containsEmptyValues,
+  formikToSearchPipeline,
+  formikToUiConfig,
+  getDataSourceId,
+  getIngestProcessorSamples,
+  getLatencyStats,
+  getProcessorAnalytics,
+  getSearchProcessorSamples,
+  injectParameters,
+  prepareDocsForSimulate,
+  processorConfigsToTemplateProcessors,
+  useDataSourceVersion,
+} from '../../../../utils';
+
+interface AnalyticsProps {
+  uiConfig?: WorkflowConfig;
+  selectedStep: CONFIG_STEP;
+  queryRequest: string;
+  queryParams: QueryParam[];
+}
+
+enum ANALYTICS_OPTION {
+  SEARCH = 'Search request',
+  INGEST = 'Ingest simulation',
+}
+
+/**
+ * The analytics component for the Tools panel.
+ * Runs the search request, or simulates the ingest pipeline, several times with the
+ * pipeline configured in the form, and aggregates the latency & failure rate of each processor.
+ */
+export function Analytics(props: AnalyticsProps) {
+  const dispatch = useAppDispatch();
+  const dataSourceId = getDataSourceId();
+  const dataSourceVersion = useDataSourceVersion(dataSourceId);
+  const { values } = useFormikContext<WorkflowFormValues>();
+
+  // run configuration state. default based on the current step.
+  const [analyticsOption, setAnalyticsOption] = useState<ANALYTICS_OPTION>(
+    ANALYTICS_OPTION.SEARCH
+  );
+  useEffect(() => {
+    setAnalyticsOption(
+      props.selectedStep === CONFIG_STEP.INGEST
+        ? ANALYTICS_OPTION.INGEST
+        : ANALYTICS_OPTION.SEARCH
+    );
+  }, [props.selectedStep]);
+  const [numRuns, setNumRuns] = useState<number>(DEFAULT_ANALYTICS_RUNS);
+
+  // run progress & results state
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [completedRuns, setCompletedRuns] = useState<number>(0);
+  const [failedRuns, setFailedRuns] = useState<number>(0);
+  const [processorAnalytics, setProcessorAnalytics] = useState<
+    ProcessorAnalytics[]
+  >([]);
+  const [requestLatency, setRequestLatency] = useState<
+    LatencyStats | undefined
+  >(undefined);
+  const [errorMessage, setErrorMessage] = useState<string | undefined>(
+    undefined
+  );
+  const isStopped = useRef<boolean>(false);
+
+  // stop running if unmounted
+  useEffect(() => {
+    return () => {
+      isStopped.current = true;
+    };
+  }, []);
+
+  const indexToSearch =
+    props.selectedStep === CONFIG_STEP.INGEST
+      ? values?.ingest?.index?.name
+      : values?.search?.index?.name;
+  const ingestProcessors =
+    props.uiConfig !== undefined
+      ? formikToUiConfig(values, props.uiConfig).ingest.enrich.processors
+      : [];
+  const runDisabled =
+    analyticsOption === ANALYTICS_OPTION.SEARCH
+      ? isEmpty(indexToSearch) || containsEmptyValues(props.queryParams)
+      : isEmpty(ingestProcessors) || isEmpty(values?.ingest?.docs);
+
+  // Execute the search request once, with the search pipeline from the form inline
+  async function runSearch(body: {}): Promise<ProcessorRunSample[]> {
+    const resp = await dispatch(
+      searchIndex({
+        apiBody: {
+          index: indexToSearch,
+          body: {
+            ...body,
+            search_pipeline:
+              formikToSearchPipeline(
+                values,
+                props.uiConfig as WorkflowConfig
+              ) || ({} as SearchPipelineConfig),
+          },
+        },
+        dataSourceId,
+        dataSourceVersion,
+        verbose: true,
+      })
+    ).unwrap();
+    return getSearchProcessorSamples(resp as SearchResponseVerbose);
+  }
+
+  // Simulate the ingest pipeline from the form once, against the sample docs
+  async function runIngestSimulation(): Promise<ProcessorRunSample[]> {
+    const processors = processorConfigsToTemplateProcessors(
+      ingestProcessors,
+      PROCESSOR_CONTEXT.INGEST
+    );
+    const resp = await dispatch(
+      simulatePipeline({
+        apiBody: {
+          pipeline: {
+            processors,
+          } as IngestPipelineConfig,
+          docs: prepareDocsForSimulate(
+            values?.ingest?.docs,
+            values?.ingest?.index?.name
+          ),
+        },
+        dataSourceId,
+        verbose: true,
+      })
+    ).unwrap();
+    return getIngestProcessorSamples(
+      resp as SimulateIngestPipelineResponseVerbose,
+      processors
+    );
+  }
+
+  // Run sequentially, updating the aggregated results after every run. Failed runs
+  // are counted, but don't stop the remaining runs.
+  async function onRun() {
+    let searchBody = {};
+    if (analyticsOption === ANALYTICS_OPTION.SEARCH) {
+      try {
+        searchBody = JSON.parse(
+          injectParameters(props.queryParams, props.queryRequest)
+        );
+      } catch (e: any) {
+        setErrorMessage(`Invalid query: ${e.message}`);
+        return;
+      }
+    }
+    isStopped.current = false;
+    setIsRunning(true);
+    setErrorMessage(undefined);
+    setCompletedRuns(0);
+    setFailedRuns(0);
+    setProcessorAnalytics([]);
+    setRequestLatency(undefined);
+    const samples = [] as ProcessorRunSample[];
+    const requestLatencies = [] as number[];
+    for (let run = 1; run <= numRuns && !isStopped.current; run++) {
+      const startTime = Date.now();
+      try {
+        samples.push(
+          ...(analyticsOption === ANALYTICS_OPTION.SEARCH
+            ? await runSearch(searchBody)
+            : await runIngestSimulation())
+        );
+        requestLatencies.push(Date.now() - startTime);
+      } catch (error: any) {
+        setFailedRuns((curFailedRuns) => curFailedRuns + 1);
+        setErrorMessage(error as string);
+      }
+      if (isStopped.current) {
+        break;
+      }
+      setCompletedRuns(run);
+      setProcessorAnalytics(getProcessorAnalytics(samples));
+      setRequestLatency(getLatencyStats(requestLatencies));
+    }
+    setIsRunning(false);
+  }
+
+  const columns = [
+    {
+      field: 'processorType',
+      name: 'Processor',
+      render: (processorType: string, analytics: ProcessorAnalytics) =>
+        `${analytics.position + 1}. ${processorType}`,
+    },
+    {
+      field: 'executions',
+      name: 'Executions',
+    },
+    {
+      field: 'failureRate',
+      name: 'Failure rate',
+      render: (failureRate: number) => (
+        <EuiText size="s" color={failureRate > 0 ? 'danger' : 'default'}>
+          {formatPercent(failureRate)}
+        </EuiText>
+      ),
+    },
+    {
+      field: 'latency',
+      name: 'Min (ms)',
+      render: (latency?: LatencyStats) => formatMillis(latency?.minMillis),
+    },
+    {
+      field: 'latency',
+      name: 'Median (ms)',
+      render: (latency?: LatencyStats) => formatMillis(latency?.medianMillis),
+    },
+    {
+      field: 'latency',
+      name: 'p95 (ms)',
+      render: (latency?: LatencyStats) => formatMillis(latency?.p95Millis),
+    },
+  ];
+
+  return (
+    <EuiFlexGroup direction="column" gutterSize="s">
+      <EuiFlexItem grow={false}>
+        <EuiFlexGroup direction="row" gutterSize="s" alignItems="center">
+          <EuiFlexItem grow={false}>
+            <EuiComboBox
+              fullWidth={false}
+              style={{ width: '200px' }}
+              compressed={true}
+              singleSelection={{ asPlainText: true }}
+              isClearable={false}
+              isDisabled={isRunning}
+              options={Object.values(ANALYTICS_OPTION).map((option) => ({
+                label: option,
+              }))}
+              selectedOptions={[{ label: analyticsOption }]}
+              onChange={(options) => {
+                if (options.length > 0) {
+                  setAnalyticsOption(options[0].label as ANALYTICS_OPTION);
+                }
+              }}
+            />
+          </EuiFlexItem>
+          <EuiFlexItem grow={false}>
+            <EuiCompressedFieldNumber
+              style={{ width: '100px' }}
+              prepend="Runs"
+              min={1}
+              max={MAX_ANALYTICS_RUNS}
+              disabled={isRunning}
+              value={numRuns}
+              onChange={(e) =>
+                setNumRuns(
+                  Math.min(
+                    Math.max(Number(e.target.value) || 1, 1),
+                    MAX_ANALYTICS_RUNS
+                  )
+                )
+              }
+              aria-label="Number of runs"
+            />
+          </EuiFlexItem>
+          <EuiFlexItem grow={false}>
+            <EuiSmallButton
+              fill={true}
+              isLoading={isRunning}
+              disabled={runDisabled}
+              onClick={() => onRun()}
+              data-testid="runAnalyticsButton"
+            >
+              Run
+            </EuiSmallButton>
+          </EuiFlexItem>
+          {isRunning && (
+            <EuiFlexItem grow={false}>
+              <EuiSmallButtonEmpty
+                color="danger"
+                onClick={() => {
+                  isStopped.current = true;
+                  setIsRunning(false);
+                }}
+                data-testid="stopAnalyticsButton"
+              >
+                Stop
+              </EuiSmallButtonEmpty>
+            </EuiFlexItem>
+          )}
+        </EuiFlexGroup>
+      </EuiFlexItem>
+      <EuiFlexItem grow={false}>
+        <EuiText size="xs" color="subdued">
+          {analyticsOption === ANALYTICS_OPTION.SEARCH
+            ? 'Runs the current query with the search pipeline configured in the form.'
+            : 'Simulates the ingest pipeline configured in the form against the sample documents. Ingest simulations do not report per-processor latency.'}
+        </EuiText>
+      </EuiFlexItem>
+      {(isRunning || completedRuns > 0) && (
+        <EuiFlexItem grow={false}>
+          <EuiProgress
+            value={completedRuns}
+            max={numRuns}
+            size="s"
+            color={failedRuns > 0 ? 'warning' : 'success'}
+            label={
+              requestLatency !== undefined
+                ? `Request latency: min ${requestLatency.minMillis} ms, median ${requestLatency.medianMillis} ms, p95 ${requestLatency.p95Millis} ms`
+                : 'Request latency'
+            }
+            valueText={`${completedRuns} / ${numRuns} runs, ${failedRuns} failed`}
+            data-testid="analyticsProgress"
+          />
+        </EuiFlexItem>
+      )}
+      {errorMessage !== undefined && (
+        <EuiFlexItem grow={false}>
+          <EuiCallOut
+            size="s"
+            color="danger"
+            iconType="alert"
+            title={errorMessage}
+          />
+        </EuiFlexItem>
+      )}
+      <EuiFlexItem grow={false}>
+        {isEmpty(processorAnalytics) ? (
+          <EuiEmptyPrompt
+            title={<h2>No analytics</h2>}
+            titleSize="s"
+            body={
+              <EuiText size="s">
+                Run the pipeline several times to view the latency and failure
+                rate of each processor.
+              </EuiText>
+            }
+          />
+        ) : (
+          <EuiBasicTable<ProcessorAnalytics>
+            items={processorAnalytics}
+            columns={columns}
+            tableLayout="auto"
+          />
+        )}
+      </EuiFlexItem>
+    </EuiFlexGroup>
+  );
+}
+
+function formatPercent(rate: number): string {
+  return `${Math.round(rate * 1000) / 10}%`;
+}
+
+function formatMillis(millis?: number): string {
+  return millis !== undefined ? `${millis}` : '-';
+}
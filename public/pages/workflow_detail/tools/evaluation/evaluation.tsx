@@ -0,0 +1,453 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { ReactNode, useEffect, useRef, useState } from 'react';
+import { isEmpty } from 'lodash';
+import { useFormikContext } from 'formik';
+import {
+  EuiBasicTable,
+  EuiCallOut,
+  EuiCompressedFieldNumber,
+  EuiCompressedFilePicker,
+  EuiEmptyPrompt,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiInMemoryTable,
+  EuiProgress,
+  EuiSmallButton,
+  EuiSmallButtonEmpty,
+  EuiText,
+} from '@elastic/eui';
+import {
+  CONFIG_STEP,
+  DEFAULT_EVALUATION_K,
+  Judgment,
+  MAX_EVALUATION_K,
+  QUERY_TEXT_PLACEHOLDER,
+  QueryEvaluation,
+  QueryParam,
+  RelevanceEvaluation,
+  RelevanceMetrics,
+  SearchPipelineConfig,
+  SearchResponse,
+  WorkflowConfig,
+  WorkflowFormValues,
+} from '../../../../../common';
+import { searchIndex, useAppDispatch } from '../../../../store';
+import {
+  formikToSearchPipeline,
+  getDataSourceId,
+  getMeanRelevanceMetrics,
+  getPlaceholdersFromQuery,
+  getRelevanceMetrics,
+  groupJudgmentsByQuery,
+  injectParameters,
+  parseJudgmentList,
+  useDataSourceVersion,
+} from '../../../../utils';
+
+interface EvaluationProps {
+  uiConfig?: WorkflowConfig;
+  selectedStep: CONFIG_STEP;
+  queryRequest: string;
+  queryParams: QueryParam[];
+  judgments: Judgment[];
+  setJudgments: (judgments: Judgment[]) => void;
+  evaluation: RelevanceEvaluation | undefined;
+  setEvaluation: (evaluation: RelevanceEvaluation | undefined) => void;
+  previousEvaluation: RelevanceEvaluation | undefined;
+  setPreviousEvaluation: (
+    previousEvaluation: RelevanceEvaluation | undefined
+  ) => void;
+}
+
+const METRIC_NAMES = {
+  ndcg: 'nDCG',
+  mrr: 'MRR',
+  precision: 'Precision',
+  recall: 'Recall',
+} as { [metric in keyof RelevanceMetrics]: string };
+
+/**
+ * The evaluation component for the Tools panel.
+ * Runs every query of an uploaded judgment list with the search pipeline configured in the
+ * form, and evaluates the relevance of the top k hits. Each run is compared to the previous one.
+ */
+export function Evaluation(props: EvaluationProps) {
+  const dispatch = useAppDispatch();
+  const dataSourceId = getDataSourceId();
+  const dataSourceVersion = useDataSourceVersion(dataSourceId);
+  const { values } = useFormikContext<WorkflowFormValues>();
+
+  // run configuration state. the judgment list & any evaluations are persisted by the
+  // parent, so they are kept when switching tabs.
+  const judgments = props.judgments;
+  const evaluation = props.evaluation;
+  const previousEvaluation = props.previousEvaluation;
+  const [k, setK] = useState<number>(DEFAULT_EVALUATION_K);
+
+  // run progress & results state
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [completedQueries, setCompletedQueries] = useState<number>(0);
+  const [errorMessage, setErrorMessage] = useState<string | undefined>(
+    undefined
+  );
+  // the ID of the current run. a run stops as soon as it is no longer the current one,
+  // either from being stopped, from a newer run starting, or from being unmounted.
+  const curRunId = useRef<number>(0);
+  useEffect(() => {
+    return () => {
+      curRunId.current++;
+    };
+  }, []);
+
+  const indexToSearch =
+    props.selectedStep === CONFIG_STEP.INGEST
+      ? values?.ingest?.index?.name
+      : values?.search?.index?.name;
+  const judgmentsByQuery = groupJudgmentsByQuery(judgments);
+  const queryTexts = Object.keys(judgmentsByQuery);
+  const missingPlaceholder = !getPlaceholdersFromQuery(
+    props.queryRequest
+  ).includes(QUERY_TEXT_PLACEHOLDER);
+  const runDisabled =
+    isEmpty(indexToSearch) || isEmpty(judgments) || missingPlaceholder;
+
+  // Execute the query once for a single query text, with the search pipeline from the form
+  // inline. The query text is escaped, since it is injected into the JSON query string.
+  async function runQuery(queryText: string): Promise<string[]> {
+    const body = JSON.parse(
+      injectParameters(
+        [
+          ...props.queryParams.filter(
+            (queryParam) => queryParam.name !== QUERY_TEXT_PLACEHOLDER
+          ),
+          {
+            name: QUERY_TEXT_PLACEHOLDER,
+            type: 'Text',
+            value: JSON.stringify(queryText).slice(1, -1),
+          },
+        ],
+        props.queryRequest
+      )
+    );
+    const resp = await dispatch(
+      searchIndex({
+        apiBody: {
+          index: indexToSearch,
+          body: {
+            ...body,
+            size: k,
+            search_pipeline:
+              formikToSearchPipeline(
+                values,
+                props.uiConfig as WorkflowConfig
+              ) || ({} as SearchPipelineConfig),
+          },
+        },
+        dataSourceId,
+        dataSourceVersion,
+      })
+    ).unwrap();
+    return ((resp as SearchResponse)?.hits?.hits || []).map((hit) => hit._id);
+  }
+
+  // Run each query sequentially. Failed queries are recorded, but don't stop the remaining
+  // queries. The results replace the current evaluation once all queries have completed.
+  async function onRun() {
+    const runId = ++curRunId.current;
+    const isCurrentRun = () => runId === curRunId.current;
+    setIsRunning(true);
+    setErrorMessage(undefined);
+    setCompletedQueries(0);
+    const queryEvaluations = [] as QueryEvaluation[];
+    for (let i = 0; i < queryTexts.length && isCurrentRun(); i++) {
+      const queryText = queryTexts[i];
+      try {
+        const docIds = await runQuery(queryText);
+        queryEvaluations.push({
+          queryText,
+          numHits: docIds.length,
+          metrics: getRelevanceMetrics(
+            docIds,
+            judgmentsByQuery[queryText],
+            k
+          ),
+        });
+      } catch (error: any) {
+        queryEvaluations.push({
+          queryText,
+          numHits: 0,
+          error: error?.message || `${error}`,
+        });
+      }
+      if (isCurrentRun()) {
+        setCompletedQueries(i + 1);
+      }
+    }
+    if (isCurrentRun()) {
+      props.setPreviousEvaluation(evaluation);
+      props.setEvaluation({
+        k,
+        queries: queryEvaluations,
+        meanMetrics: getMeanRelevanceMetrics(
+          queryEvaluations
+            .filter((queryEvaluation) => queryEvaluation.metrics !== undefined)
+            .map(
+              (queryEvaluation) => queryEvaluation.metrics as RelevanceMetrics
+            )
+        ),
+      });
+      const numFailed = queryEvaluations.filter(
+        (queryEvaluation) => queryEvaluation.error !== undefined
+      ).length;
+      if (numFailed > 0) {
+        setErrorMessage(`${numFailed} of ${queryTexts.length} queries failed`);
+      }
+      setIsRunning(false);
+    }
+  }
+
+  // only compare against the previous run if it evaluated the same number of hits
+  const comparableEvaluation =
+    previousEvaluation?.k === evaluation?.k ? previousEvaluation : undefined;
+  const metricColumns = (Object.keys(METRIC_NAMES) as Array<
+    keyof RelevanceMetrics
+  >).map((metric) => ({
+    name:
+      metric === 'mrr'
+        ? METRIC_NAMES[metric]
+        : `${METRIC_NAMES[metric]}@${evaluation?.k}`,
+    render: (item: {
+      metrics?: RelevanceMetrics;
+      previousMetrics?: RelevanceMetrics;
+    }) => renderMetric(item.metrics?.[metric], item.previousMetrics?.[metric]),
+  }));
+
+  return (
+    <EuiFlexGroup direction="column" gutterSize="s">
+      <EuiFlexItem grow={false}>
+        <EuiFlexGroup direction="row" gutterSize="s" alignItems="center">
+          <EuiFlexItem grow={false}>
+            <EuiCompressedFilePicker
+              accept=".csv,.jsonl"
+              multiple={false}
+              initialPromptText="Upload a judgment list"
+              disabled={isRunning}
+              onChange={(files) => {
+                if (files && files.length > 0) {
+                  const fileReader = new FileReader();
+                  fileReader.onload = (e) => {
+                    try {
+                      props.setJudgments(
+                        parseJudgmentList(e.target?.result as string)
+                      );
+                      setErrorMessage(undefined);
+                    } catch (error: any) {
+                      props.setJudgments([]);
+                      setErrorMessage(
+                        `Invalid judgment list: ${error.message}`
+                      );
+                    }
+                  };
+                  fileReader.readAsText(files[0]);
+                } else {
+                  props.setJudgments([]);
+                }
+              }}
+              display="default"
+            />
+          </EuiFlexItem>
+          <EuiFlexItem grow={false}>
+            <EuiCompressedFieldNumber
+              style={{ width: '100px' }}
+              prepend="k"
+              min={1}
+              max={MAX_EVALUATION_K}
+              disabled={isRunning}
+              value={k}
+              onChange={(e) =>
+                setK(
+                  Math.min(
+                    Math.max(Number(e.target.value) || 1, 1),
+                    MAX_EVALUATION_K
+                  )
+                )
+              }
+              aria-label="Number of hits to evaluate"
+            />
+          </EuiFlexItem>
+          <EuiFlexItem grow={false}>
+            <EuiSmallButton
+              fill={true}
+              isLoading={isRunning}
+              disabled={runDisabled}
+              onClick={() => onRun()}
+              data-testid="runEvaluationButton"
+            >
+              Evaluate
+            </EuiSmallButton>
+          </EuiFlexItem>
+          {isRunning && (
+            <EuiFlexItem grow={false}>
+              <EuiSmallButtonEmpty
+                color="danger"
+                onClick={() => {
+                  curRunId.current++;
+                  setIsRunning(false);
+                }}
+                data-testid="stopEvaluationButton"
+              >
+                Stop
+              </EuiSmallButtonEmpty>
+            </EuiFlexItem>
+          )}
+        </EuiFlexGroup>
+      </EuiFlexItem>
+      <EuiFlexItem grow={false}>
+        <EuiText size="xs" color="subdued">
+          {`Upload a CSV or JSONL judgment list of query_text, doc_id, and grade values. Each query text is bound to the {{${QUERY_TEXT_PLACEHOLDER}}} placeholder of the current query, and run with the search pipeline configured in the form.`}
+        </EuiText>
+      </EuiFlexItem>
+      {!isEmpty(judgments) && (
+        <EuiFlexItem grow={false}>
+          <EuiText size="xs">
+            {`${judgments.length} judgments loaded across ${queryTexts.length} queries`}
+          </EuiText>
+        </EuiFlexItem>
+      )}
+      {missingPlaceholder && (
+        <EuiFlexItem grow={false}>
+          <EuiCallOut
+            size="s"
+            color="warning"
+            iconType="alert"
+            title={`The current query must include a {{${QUERY_TEXT_PLACEHOLDER}}} placeholder`}
+          />
+        </EuiFlexItem>
+      )}
+      {(isRunning || completedQueries > 0) && (
+        <EuiFlexItem grow={false}>
+          <EuiProgress
+            value={completedQueries}
+            max={queryTexts.length}
+            size="s"
+            color="success"
+            valueText={`${completedQueries} / ${queryTexts.length} queries`}
+            data-testid="evaluationProgress"
+          />
+        </EuiFlexItem>
+      )}
+      {errorMessage !== undefined && (
+        <EuiFlexItem grow={false}>
+          <EuiCallOut
+            size="s"
+            color="danger"
+            iconType="alert"
+            title={errorMessage}
+          />
+        </EuiFlexItem>
+      )}
+      <EuiFlexItem grow={false}>
+        {evaluation === undefined ? (
+          <EuiEmptyPrompt
+            title={<h2>No evaluation</h2>}
+            titleSize="s"
+            body={
+              <EuiText size="s">
+                Upload a judgment list and run an evaluation to view the
+                relevance of the search results.
+              </EuiText>
+            }
+          />
+        ) : (
+          <EuiFlexGroup direction="column" gutterSize="m">
+            <EuiFlexItem grow={false}>
+              <EuiBasicTable
+                items={[
+                  {
+                    run: 'Current run',
+                    metrics: evaluation.meanMetrics,
+                    previousMetrics: comparableEvaluation?.meanMetrics,
+                  },
+                  ...(comparableEvaluation !== undefined
+                    ? [
+                        {
+                          run: 'Previous run',
+                          metrics: comparableEvaluation.meanMetrics,
+                        },
+                      ]
+                    : []),
+                ]}
+                columns={[
+                  {
+                    field: 'run',
+                    name: 'Mean',
+                  },
+                  ...metricColumns,
+                ]}
+                tableLayout="auto"
+              />
+            </EuiFlexItem>
+            <EuiFlexItem grow={false}>
+              <EuiInMemoryTable
+                items={evaluation.queries.map((queryEvaluation) => ({
+                  ...queryEvaluation,
+                  previousMetrics: comparableEvaluation?.queries.find(
+                    (previousQueryEvaluation) =>
+                      previousQueryEvaluation.queryText ===
+                      queryEvaluation.queryText
+                  )?.metrics,
+                }))}
+                columns={[
+                  {
+                    field: 'queryText',
+                    name: 'Query',
+                    sortable: true,
+                    truncateText: true,
+                  },
+                  {
+                    field: 'numHits',
+                    name: 'Hits',
+                  },
+                  ...metricColumns,
+                  {
+                    field: 'error',
+                    name: 'Error',
+                    render: (error: string | undefined) => error || '-',
+                  },
+                ]}
+                pagination={true}
+                compressed={true}
+                tableLayout="auto"
+              />
+            </EuiFlexItem>
+          </EuiFlexGroup>
+        )}
+      </EuiFlexItem>
+    </EuiFlexGroup>
+  );
+}
+
+// Render a metric value, along with its change from the previous run, if available
+function renderMetric(value?: number, previousValue?: number): ReactNode {
+  if (value === undefined) {
+    return '-';
+  }
+  const delta = previousValue !== undefined ? value - previousValue : 0;
+  return (
+    <EuiText size="s">
+      {value.toFixed(4)}
+      {previousValue !== undefined && (
+        <EuiText
+          size="xs"
+          color={delta > 0 ? 'success' : delta < 0 ? 'danger' : 'subdued'}
+        >
+          {`${delta > 0 ? '+' : ''}${delta.toFixed(4)}`}
+        </EuiText>
+      )}
+    </EuiText>
+  );
+}
@@ -0,0 +1,286 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { isEmpty } from 'lodash';
+import { useFormikContext } from 'formik';
+import {
+  EuiCallOut,
+  EuiCompressedSuperSelect,
+  EuiEmptyPrompt,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiHealth,
+  EuiSmallButton,
+  EuiSmallButtonIcon,
+  EuiText,
+} from '@elastic/eui';
+import {
+  IngestPipelineConfig,
+  IngestProcessorTraceStep,
+  PROCESSOR_CONTEXT,
+  SimulateIngestPipelineDoc,
+  SimulateIngestPipelineResponseVerbose,
+  WorkflowConfig,
+  WorkflowFormValues,
+} from '../../../../../common';
+import { simulatePipeline, useAppDispatch } from '../../../../store';
+import {
+  formikToUiConfig,
+  getDataSourceId,
+  getIngestDocTrace,
+  prepareDocsForSimulate,
+  processorConfigsToTemplateProcessors,
+} from '../../../../utils';
+import { ProcessorDiffs } from '../../../../general_components';
+
+interface IngestTraceProps {
+  uiConfig?: WorkflowConfig;
+}
+
+/**
+ * The ingest trace component for the Tools panel.
+ * Simulates the configured ingest pipeline against the sample docs, and steps through
+ * each processor executed against a selected doc, showing the fields it changed.
+ */
+export function IngestTrace(props: IngestTraceProps) {
+  const dispatch = useAppDispatch();
+  const dataSourceId = getDataSourceId();
+  const { values } = useFormikContext<WorkflowFormValues>();
+
+  // simulation state. the simulated docs are persisted alongside the response,
+  // so the trace is unaffected by any later changes to the sample docs.
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [errorMessage, setErrorMessage] = useState<string | undefined>(
+    undefined
+  );
+  const [simulatedDocs, setSimulatedDocs] = useState<
+    SimulateIngestPipelineDoc[]
+  >([]);
+  const [simulateResponse, setSimulateResponse] = useState<
+    SimulateIngestPipelineResponseVerbose | undefined
+  >(undefined);
+
+  // selected doc & step state
+  const [selectedDocIdx, setSelectedDocIdx] = useState<number>(0);
+  const [selectedStepIdx, setSelectedStepIdx] = useState<number>(0);
+
+  const ingestProcessors =
+    props.uiConfig !== undefined
+      ? formikToUiConfig(values, props.uiConfig).ingest.enrich.processors
+      : [];
+  const runDisabled =
+    isEmpty(ingestProcessors) || isEmpty(values?.ingest?.docs);
+
+  const traceSteps =
+    simulateResponse !== undefined
+      ? getIngestDocTrace(
+          simulatedDocs[selectedDocIdx]?._source || {},
+          simulateResponse.docs?.[selectedDocIdx]?.processor_results || []
+        )
+      : [];
+  const selectedStep = traceSteps[selectedStepIdx] as
+    | IngestProcessorTraceStep
+    | undefined;
+
+  async function onSimulate() {
+    const docs = prepareDocsForSimulate(
+      values?.ingest?.docs,
+      values?.ingest?.index?.name
+    );
+    setIsRunning(true);
+    setErrorMessage(undefined);
+    await dispatch(
+      simulatePipeline({
+        apiBody: {
+          pipeline: {
+            processors: processorConfigsToTemplateProcessors(
+              ingestProcessors,
+              PROCESSOR_CONTEXT.INGEST
+            ),
+          } as IngestPipelineConfig,
+          docs,
+        },
+        dataSourceId,
+        verbose: true,
+      })
+    )
+      .unwrap()
+      .then((resp: SimulateIngestPipelineResponseVerbose) => {
+        setSimulatedDocs(docs);
+        setSimulateResponse(resp);
+        setSelectedDocIdx(0);
+        setSelectedStepIdx(0);
+      })
+      .catch((error: any) => {
+        setErrorMessage(`Failed to simulate ingest pipeline: ${error}`);
+      })
+      .finally(() => {
+        setIsRunning(false);
+      });
+  }
+
+  return (
+    <EuiFlexGroup direction="column" gutterSize="s">
+      <EuiFlexItem grow={false}>
+        <EuiFlexGroup direction="row" gutterSize="s" alignItems="center">
+          <EuiFlexItem grow={false}>
+            <EuiSmallButton
+              fill={true}
+              isLoading={isRunning}
+              disabled={runDisabled}
+              onClick={() => onSimulate()}
+              data-testid="simulateIngestTraceButton"
+            >
+              Simulate
+            </EuiSmallButton>
+          </EuiFlexItem>
+          {simulateResponse !== undefined && (
+            <EuiFlexItem grow={false}>
+              <EuiCompressedSuperSelect
+                style={{ width: '200px' }}
+                options={simulatedDocs.map((_, idx) => ({
+                  value: `${idx}`,
+                  inputDisplay: (
+                    <EuiText size="s">{`Document ${idx + 1}`}</EuiText>
+                  ),
+                }))}
+                valueOfSelected={`${selectedDocIdx}`}
+                onChange={(option) => {
+                  setSelectedDocIdx(Number(option));
+                  setSelectedStepIdx(0);
+                }}
+                aria-label="Select document"
+              />
+            </EuiFlexItem>
+          )}
+        </EuiFlexGroup>
+      </EuiFlexItem>
+      <EuiFlexItem grow={false}>
+        <EuiText size="xs" color="subdued">
+          Simulates the ingest pipeline configured in the form against the
+          sample documents. Vectors are summarized by their dimension and norm.
+        </EuiText>
+      </EuiFlexItem>
+      {errorMessage !== undefined && (
+        <EuiFlexItem grow={false}>
+          <EuiCallOut
+            size="s"
+            color="danger"
+            iconType="alert"
+            title={errorMessage}
+          />
+        </EuiFlexItem>
+      )}
+      <EuiFlexItem grow={false}>
+        {selectedStep === undefined ? (
+          <EuiEmptyPrompt
+            title={<h2>No trace</h2>}
+            titleSize="s"
+            body={
+              <EuiText size="s">
+                Simulate the ingest pipeline to step through the changes each
+                processor makes to a sample document.
+              </EuiText>
+            }
+          />
+        ) : (
+          <EuiFlexGroup direction="column" gutterSize="s">
+            <EuiFlexItem grow={false}>
+              <EuiFlexGroup direction="row" gutterSize="s" alignItems="center">
+                <EuiFlexItem grow={false}>
+                  <EuiSmallButtonIcon
+                    iconType="arrowLeft"
+                    aria-label="previous processor"
+                    display="base"
+                    isDisabled={selectedStepIdx === 0}
+                    onClick={() => setSelectedStepIdx(selectedStepIdx - 1)}
+                  />
+                </EuiFlexItem>
+                <EuiFlexItem grow={false}>
+                  <EuiCompressedSuperSelect
+                    style={{ width: '300px' }}
+                    options={traceSteps.map((traceStep) => ({
+                      value: `${traceStep.position}`,
+                      inputDisplay: (
+                        <EuiText size="s">
+                          {getTraceStepLabel(traceStep)}
+                        </EuiText>
+                      ),
+                    }))}
+                    valueOfSelected={`${selectedStepIdx}`}
+                    onChange={(option) => setSelectedStepIdx(Number(option))}
+                    aria-label="Select processor"
+                  />
+                </EuiFlexItem>
+                <EuiFlexItem grow={false}>
+                  <EuiSmallButtonIcon
+                    iconType="arrowRight"
+                    aria-label="next processor"
+                    display="base"
+                    isDisabled={selectedStepIdx >= traceSteps.length - 1}
+                    onClick={() => setSelectedStepIdx(selectedStepIdx + 1)}
+                  />
+                </EuiFlexItem>
+                <EuiFlexItem grow={false}>
+                  <EuiHealth color={getStatusColor(selectedStep.status)}>
+                    <EuiText size="s">{selectedStep.status}</EuiText>
+                  </EuiHealth>
+                </EuiFlexItem>
+              </EuiFlexGroup>
+            </EuiFlexItem>
+            {selectedStep.error !== undefined && (
+              <EuiFlexItem grow={false}>
+                <EuiCallOut
+                  size="s"
+                  color="danger"
+                  iconType="alert"
+                  title={selectedStep.error}
+                />
+              </EuiFlexItem>
+            )}
+            <EuiFlexItem grow={false}>
+              <ProcessorDiffs
+                diffs={[
+                  {
+                    id: `Document ${selectedDocIdx + 1}`,
+                    status: isEmpty(selectedStep.changes)
+                      ? 'unchanged'
+                      : 'modified',
+                    changes: selectedStep.changes,
+                  },
+                ]}
+              />
+            </EuiFlexItem>
+          </EuiFlexGroup>
+        )}
+      </EuiFlexItem>
+    </EuiFlexGroup>
+  );
+}
+
+function getTraceStepLabel(traceStep: IngestProcessorTraceStep): string {
+  return `${traceStep.position + 1}. ${traceStep.processorType}${
+    traceStep.tag !== undefined ? ` (${traceStep.tag})` : ''
+  }`;
+}
+
+function getStatusColor(status: IngestProcessorTraceStep['status']): string {
+  switch (status) {
+    case 'success': {
+      return 'success';
+    }
+    case 'error': {
+      return 'danger';
+    }
+    case 'error_ignored':
+    case 'dropped': {
+      return 'warning';
+    }
+    default: {
+      return 'subdued';
+    }
+  }
+}
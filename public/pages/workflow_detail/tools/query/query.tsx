@@ -10,6 +10,7 @@ import { useFormikContext } from 'formik';
 import {
   EuiCodeEditor,
   EuiComboBox,
+  EuiCompressedSwitch,
   EuiContextMenu,
   EuiEmptyPrompt,
   EuiFlexGroup,
@@ -25,28 +26,48 @@ import {
   QUERY_PRESETS,
   QueryParam,
   QueryPreset,
+  SavedQuery,
+  SearchPipelineConfig,
   SearchResponse,
   SearchResponseVerbose,
+  Workflow,
+  WorkflowConfig,
   WorkflowFormValues,
+  WorkflowTemplate,
 } from '../../../../../common';
 import {
   AppState,
   searchIndex,
   setSearchPipelineErrors,
+  updateWorkflow,
   useAppDispatch,
 } from '../../../../store';
 import {
   containsEmptyValues,
   containsSameValues,
+  deleteSavedQuery,
+  formikToSearchPipeline,
   getDataSourceId,
   getPlaceholdersFromQuery,
+  getProvisionedSearchPipelineId,
+  getProvisionedWorkflows,
+  getSavedQueryParams,
   getSearchPipelineErrors,
+  hasProvisionedSearchResources,
   injectParameters,
+  upsertSavedQuery,
   useDataSourceVersion,
 } from '../../../../utils';
-import { QueryParamsList, Results } from '../../../../general_components';
+import {
+  QueryParamsList,
+  Results,
+  ResultsComparison,
+} from '../../../../general_components';
+import { SaveQueryModal } from './save_query_modal';
 
 interface QueryProps {
+  workflow?: Workflow;
+  uiConfig?: WorkflowConfig;
   hasSearchPipeline: boolean;
   hasIngestResources: boolean;
   selectedStep: CONFIG_STEP;
@@ -58,14 +79,28 @@ interface QueryProps {
   setQueryParams: (queryParams: QueryParam[]) => void;
 }
 
-const SEARCH_OPTIONS = [
-  {
-    label: 'With search pipeline',
-  },
-  {
-    label: 'Without search pipeline',
-  },
-];
+enum SEARCH_OPTION {
+  SAVED_PIPELINE = 'With search pipeline',
+  UNSAVED_PIPELINE = 'With unsaved search pipeline',
+  NO_PIPELINE = 'Without search pipeline',
+}
+
+// A configuration to execute the query against. Other workflows are searched against their
+// own search index, using their provisioned search pipeline. Saved queries are executed
+// with their own request & parameter values, instead of the current ones.
+type SearchTarget = {
+  label: string;
+  searchOption: SEARCH_OPTION;
+  workflow?: Workflow;
+  savedQuery?: SavedQuery;
+};
+
+type ComparedResponses = {
+  responseA: SearchResponse;
+  responseB: SearchResponse;
+  labelA: string;
+  labelB: string;
+};
 
 /**
  * The search component for the Tools panel.
@@ -80,13 +115,99 @@ export function Query(props: QueryProps) {
 
   // popover state
   const [popoverOpen, setPopoverOpen] = useState<boolean>(false);
+  const [savedQueriesPopoverOpen, setSavedQueriesPopoverOpen] = useState<
+    boolean
+  >(false);
+
+  // saved queries state. saved queries are persisted in the workflow's UI metadata.
+  const savedQueries = props.workflow?.ui_metadata?.saved_queries || [];
+  const [isSaveModalOpen, setIsSaveModalOpen] = useState<boolean>(false);
+  const [isSavingQuery, setIsSavingQuery] = useState<boolean>(false);
 
-  // state for if to execute search w/ or w/o any configured search pipeline.
+  // state for if to execute search w/ or w/o any configured search pipeline. The pipeline
+  // may also be built inline from the current form, to test out any unsaved changes.
   // default based on if there is an available search pipeline or not.
-  const [includePipeline, setIncludePipeline] = useState<boolean>(false);
+  const [searchOption, setSearchOption] = useState<SEARCH_OPTION>(
+    SEARCH_OPTION.NO_PIPELINE
+  );
   useEffect(() => {
-    setIncludePipeline(props.hasSearchPipeline);
+    setSearchOption(
+      props.hasSearchPipeline
+        ? SEARCH_OPTION.SAVED_PIPELINE
+        : SEARCH_OPTION.NO_PIPELINE
+    );
   }, [props.hasSearchPipeline]);
+  const searchOptions = [
+    ...(props.hasSearchPipeline ? [SEARCH_OPTION.SAVED_PIPELINE] : []),
+    ...(props.uiConfig !== undefined ? [SEARCH_OPTION.UNSAVED_PIPELINE] : []),
+    SEARCH_OPTION.NO_PIPELINE,
+  ];
+  const includePipeline = searchOption !== SEARCH_OPTION.NO_PIPELINE;
+
+  // Get the search option to use for a saved query. Prefer any provisioned search pipeline,
+  // falling back to the unsaved search pipeline from the form.
+  function getSavedQuerySearchOption(savedQuery: SavedQuery): SEARCH_OPTION {
+    if (!savedQuery.use_pipeline) {
+      return SEARCH_OPTION.NO_PIPELINE;
+    }
+    return props.hasSearchPipeline
+      ? SEARCH_OPTION.SAVED_PIPELINE
+      : props.uiConfig !== undefined
+      ? SEARCH_OPTION.UNSAVED_PIPELINE
+      : SEARCH_OPTION.NO_PIPELINE;
+  }
+
+  // compare mode state. the same query is executed against two search targets, and the
+  // ranked hits are compared side by side. B may also target a saved query, or any other
+  // workflow with a provisioned search pipeline, so fetch all provisioned workflows when
+  // enabling compare mode.
+  const [compareMode, setCompareMode] = useState<boolean>(false);
+  const [compareLabel, setCompareLabel] = useState<string>(
+    SEARCH_OPTION.NO_PIPELINE
+  );
+  const [comparedResponses, setComparedResponses] = useState<
+    ComparedResponses | undefined
+  >(undefined);
+  const [provisionedWorkflows, setProvisionedWorkflows] = useState<Workflow[]>(
+    []
+  );
+  useEffect(() => {
+    if (compareMode) {
+      getProvisionedWorkflows(dataSourceId).then((workflows) =>
+        setProvisionedWorkflows(workflows)
+      );
+    }
+  }, [compareMode]);
+  const compareTargets = [
+    ...searchOptions.map(
+      (option) => ({ label: option, searchOption: option } as SearchTarget)
+    ),
+    ...provisionedWorkflows
+      .filter(
+        (workflow) =>
+          workflow.id !== props.workflow?.id &&
+          hasProvisionedSearchResources(workflow)
+      )
+      .map(
+        (workflow) =>
+          ({
+            label: `Workflow: ${workflow.name}`,
+            searchOption: SEARCH_OPTION.SAVED_PIPELINE,
+            workflow,
+          } as SearchTarget)
+      ),
+    ...savedQueries.map(
+      (savedQuery) =>
+        ({
+          label: `Saved query: ${savedQuery.name}`,
+          searchOption: getSavedQuerySearchOption(savedQuery),
+          savedQuery,
+        } as SearchTarget)
+    ),
+  ];
+  const compareTarget = compareTargets.find(
+    (target) => target.label === compareLabel
+  );
 
   // Check if there is a new set of query parameters, and if so, reset the form
   useEffect(() => {
@@ -120,8 +241,181 @@ export function Query(props: QueryProps) {
       ? values?.ingest?.index?.name
       : values?.search?.index?.name;
 
+  // any error parsing the query JSON, either when formatting, or when it is required to
+  // be parsed before executing
+  const [queryError, setQueryError] = useState<string | undefined>(undefined);
+
+  // Execute the parameterized query against a single search target
+  async function executeSearch(
+    target: SearchTarget
+  ): Promise<SearchResponse | SearchResponseVerbose> {
+    let body = injectParameters(
+      target.savedQuery?.params || props.queryParams,
+      target.savedQuery?.request || props.queryRequest
+    ) as {} | string;
+    // Execute against the current search pipeline defined in the form, inline.
+    // If no processors are configured, an empty inline pipeline is sent, so no
+    // processors run, including those of any default search pipeline on the index.
+    // The query is parsed to add the pipeline, so an invalid query is not sent.
+    if (target.searchOption === SEARCH_OPTION.UNSAVED_PIPELINE) {
+      let query = {} as {};
+      try {
+        query = JSON.parse(body as string);
+      } catch (error: any) {
+        const errorMessage =
+          target.savedQuery !== undefined
+            ? `Invalid JSON in saved query ${target.savedQuery.name}: ${error.message}`
+            : `Invalid query JSON: ${error.message}`;
+        setQueryError(errorMessage);
+        throw new Error(errorMessage);
+      }
+      if (target.savedQuery === undefined) {
+        setQueryError(undefined);
+      }
+      body = {
+        ...query,
+        search_pipeline:
+          formikToSearchPipeline(values, props.uiConfig as WorkflowConfig) ||
+          ({} as SearchPipelineConfig),
+      };
+    }
+    return dispatch(
+      searchIndex({
+        apiBody: {
+          index:
+            target.workflow?.ui_metadata?.config?.search?.index?.name?.value ||
+            indexToSearch,
+          body,
+          searchPipeline:
+            target.workflow !== undefined
+              ? getProvisionedSearchPipelineId(target.workflow)
+              : target.searchOption === SEARCH_OPTION.SAVED_PIPELINE
+              ? values?.search?.pipelineName
+              : target.searchOption === SEARCH_OPTION.NO_PIPELINE
+              ? '_none'
+              : undefined,
+        },
+        dataSourceId,
+        dataSourceVersion,
+        verbose: target.searchOption !== SEARCH_OPTION.NO_PIPELINE,
+      })
+    ).unwrap();
+  }
+
+  async function onSearch() {
+    await executeSearch({ label: searchOption, searchOption })
+      .then(async (resp: SearchResponse | SearchResponseVerbose) => {
+        if (includePipeline) {
+          const searchPipelineErrors = getSearchPipelineErrors(
+            resp as SearchResponseVerbose
+          );
+          // The errors map may be empty; in which case, this dispatch will clear
+          // any older errors.
+          dispatch(
+            setSearchPipelineErrors({
+              errors: searchPipelineErrors,
+            })
+          );
+        } else {
+          setSearchPipelineErrors({ errors: {} });
+        }
+
+        props.setQueryResponse(resp);
+      })
+      .catch((error: any) => {
+        props.setQueryResponse(undefined);
+        setSearchPipelineErrors({ errors: {} });
+        console.error('Error running query: ', error);
+      });
+  }
+
+  // Execute the same query against both targets, and persist the responses to compare.
+  // Pipeline errors are not updated, since either target may not use the current pipeline.
+  async function onCompare() {
+    const targetA = { label: searchOption, searchOption } as SearchTarget;
+    const targetB = compareTarget as SearchTarget;
+    await Promise.all([executeSearch(targetA), executeSearch(targetB)])
+      .then(([respA, respB]) => {
+        setComparedResponses({
+          responseA: respA,
+          responseB: respB,
+          labelA: `A: ${targetA.label}`,
+          labelB: `B: ${targetB.label}`,
+        });
+      })
+      .catch((error: any) => {
+        setComparedResponses(undefined);
+        console.error('Error comparing queries: ', error);
+      });
+  }
+
+  function loadSavedQuery(savedQuery: SavedQuery) {
+    props.setQueryRequest(savedQuery.request);
+    props.setQueryParams(getSavedQueryParams(savedQuery));
+    setSearchOption(getSavedQuerySearchOption(savedQuery));
+  }
+
+  // Persist the updated saved queries in the workflow's UI metadata. The rest of the UI
+  // metadata is left as-is, including the saved config, so any unsaved form values are not
+  // reset when the workflow is updated in the store.
+  async function updateSavedQueries(
+    updatedSavedQueries: SavedQuery[]
+  ): Promise<boolean> {
+    let success = false;
+    await dispatch(
+      updateWorkflow({
+        apiBody: {
+          workflowId: props.workflow?.id as string,
+          workflowTemplate: {
+            name: props.workflow?.name,
+            ui_metadata: {
+              ...props.workflow?.ui_metadata,
+              saved_queries: updatedSavedQueries,
+            },
+          } as WorkflowTemplate,
+          updateFields: true,
+          reprovision: false,
+        },
+        dataSourceId,
+      })
+    )
+      .unwrap()
+      .then(async (result) => {
+        success = true;
+      })
+      .catch((error: any) => {
+        console.error('Error updating saved queries: ', error);
+      });
+    return success;
+  }
+
+  // Save the current query, replacing any existing saved query with the same name
+  async function onSaveQuery(name: string) {
+    setIsSavingQuery(true);
+    const success = await updateSavedQueries(
+      upsertSavedQuery(savedQueries, {
+        name,
+        request: props.queryRequest,
+        params: props.queryParams,
+        use_pipeline: includePipeline,
+      })
+    );
+    setIsSavingQuery(false);
+    if (success) {
+      setIsSaveModalOpen(false);
+    }
+  }
+
   return (
     <>
+      {isSaveModalOpen && (
+        <SaveQueryModal
+          savedQueries={savedQueries}
+          isSaving={isSavingQuery}
+          onSave={(name) => onSaveQuery(name)}
+          onClose={() => setIsSaveModalOpen(false)}
+        />
+      )}
       {onIngestAndInvalid || onSearchAndInvalid ? (
         <EuiEmptyPrompt
           title={<h2>Missing search configurations</h2>}
@@ -154,82 +448,83 @@ export function Query(props: QueryProps) {
                           compressed={true}
                           singleSelection={{ asPlainText: true }}
                           isClearable={false}
-                          options={
-                            props.hasSearchPipeline
-                              ? SEARCH_OPTIONS
-                              : [SEARCH_OPTIONS[1]]
-                          }
-                          selectedOptions={
-                            includePipeline
-                              ? [SEARCH_OPTIONS[0]]
-                              : [SEARCH_OPTIONS[1]]
-                          }
+                          options={searchOptions.map((option) => ({
+                            label: option,
+                          }))}
+                          selectedOptions={[{ label: searchOption }]}
                           onChange={(options) => {
-                            setIncludePipeline(!includePipeline);
+                            if (options.length > 0) {
+                              setSearchOption(
+                                options[0].label as SEARCH_OPTION
+                              );
+                            }
                           }}
                         />
                       </EuiFlexItem>
+                      {compareMode && (
+                        <>
+                          <EuiFlexItem grow={false}>
+                            <EuiText size="m">vs.</EuiText>
+                          </EuiFlexItem>
+                          <EuiFlexItem grow={false}>
+                            <EuiComboBox
+                              fullWidth={false}
+                              style={{ width: '250px' }}
+                              compressed={true}
+                              singleSelection={{ asPlainText: true }}
+                              isClearable={false}
+                              options={compareTargets.map((target) => ({
+                                label: target.label,
+                              }))}
+                              selectedOptions={[{ label: compareLabel }]}
+                              onChange={(options) => {
+                                if (options.length > 0) {
+                                  setCompareLabel(options[0].label);
+                                }
+                              }}
+                              data-testid="compareTargetComboBox"
+                            />
+                          </EuiFlexItem>
+                        </>
+                      )}
                     </EuiFlexGroup>
                   </EuiFlexItem>
                   <EuiFlexItem grow={false}>
-                    <EuiSmallButton
-                      data-test-subj="searchButton"
-                      fill={true}
-                      isLoading={loading}
-                      disabled={
-                        containsEmptyValues(props.queryParams) ||
-                        isEmpty(indexToSearch)
-                      }
-                      onClick={() => {
-                        dispatch(
-                          searchIndex({
-                            apiBody: {
-                              index: indexToSearch,
-                              body: injectParameters(
-                                props.queryParams,
-                                props.queryRequest
-                              ),
-                              searchPipeline: includePipeline
-                                ? values?.search?.pipelineName
-                                : '_none',
-                            },
-                            dataSourceId,
-                            dataSourceVersion,
-                            verbose: includePipeline,
-                          })
-                        )
-                          .unwrap()
-                          .then(
-                            async (
-                              resp: SearchResponse | SearchResponseVerbose
-                            ) => {
-                              if (includePipeline) {
-                                const searchPipelineErrors = getSearchPipelineErrors(
-                                  resp as SearchResponseVerbose
-                                );
-                                // The errors map may be empty; in which case, this dispatch will clear
-                                // any older errors.
-                                dispatch(
-                                  setSearchPipelineErrors({
-                                    errors: searchPipelineErrors,
-                                  })
-                                );
-                              } else {
-                                setSearchPipelineErrors({ errors: {} });
-                              }
-
-                              props.setQueryResponse(resp);
-                            }
-                          )
-                          .catch((error: any) => {
-                            props.setQueryResponse(undefined);
-                            setSearchPipelineErrors({ errors: {} });
-                            console.error('Error running query: ', error);
-                          });
-                      }}
+                    <EuiFlexGroup
+                      direction="row"
+                      gutterSize="m"
+                      alignItems="center"
                     >
-                      Search
-                    </EuiSmallButton>
+                      <EuiFlexItem grow={false}>
+                        <EuiCompressedSwitch
+                          label="Compare"
+                          checked={compareMode}
+                          onChange={(e) => setCompareMode(e.target.checked)}
+                          data-testid="compareModeSwitch"
+                        />
+                      </EuiFlexItem>
+                      <EuiFlexItem grow={false}>
+                        <EuiSmallButton
+                          data-test-subj="searchButton"
+                          fill={true}
+                          isLoading={loading}
+                          disabled={
+                            containsEmptyValues(props.queryParams) ||
+                            isEmpty(indexToSearch) ||
+                            (compareMode && compareTarget === undefined)
+                          }
+                          onClick={() => {
+                            if (compareMode) {
+                              onCompare();
+                            } else {
+                              onSearch();
+                            }
+                          }}
+                        >
+                          Search
+                        </EuiSmallButton>
+                      </EuiFlexItem>
+                    </EuiFlexGroup>
                   </EuiFlexItem>
                 </EuiFlexGroup>
               </EuiFlexItem>
@@ -257,6 +552,93 @@ export function Query(props: QueryProps) {
                             </EuiSmallButtonEmpty>
                           </EuiFlexItem>
                         )}
+                      <EuiFlexItem grow={false}>
+                        <EuiPopover
+                          button={
+                            <EuiSmallButton
+                              onClick={() =>
+                                setSavedQueriesPopoverOpen(
+                                  !savedQueriesPopoverOpen
+                                )
+                              }
+                              data-testid="savedQueriesButton"
+                              iconSide="right"
+                              iconType="arrowDown"
+                            >
+                              Saved queries
+                            </EuiSmallButton>
+                          }
+                          isOpen={savedQueriesPopoverOpen}
+                          closePopover={() => setSavedQueriesPopoverOpen(false)}
+                          anchorPosition="downLeft"
+                        >
+                          <EuiContextMenu
+                            size="s"
+                            initialPanelId={0}
+                            panels={[
+                              {
+                                id: 0,
+                                items: [
+                                  ...(isEmpty(savedQueries)
+                                    ? [
+                                        {
+                                          name: 'No saved queries',
+                                          disabled: true,
+                                        },
+                                      ]
+                                    : savedQueries.map(
+                                        (savedQuery: SavedQuery) => ({
+                                          name: savedQuery.name,
+                                          onClick: () => {
+                                            loadSavedQuery(savedQuery);
+                                            setSavedQueriesPopoverOpen(false);
+                                          },
+                                        })
+                                      )),
+                                  {
+                                    isSeparator: true,
+                                    key: 'separator',
+                                  },
+                                  {
+                                    name: 'Save current query',
+                                    icon: 'save',
+                                    disabled: props.workflow?.id === undefined,
+                                    onClick: () => {
+                                      setIsSaveModalOpen(true);
+                                      setSavedQueriesPopoverOpen(false);
+                                    },
+                                  },
+                                  {
+                                    name: 'Delete a saved query',
+                                    icon: 'trash',
+                                    disabled: isEmpty(savedQueries),
+                                    panel: 1,
+                                  },
+                                ],
+                              },
+                              {
+                                id: 1,
+                                title: 'Delete a saved query',
+                                items: savedQueries.map(
+                                  (savedQuery: SavedQuery) => ({
+                                    name: savedQuery.name,
+                                    icon: 'trash',
+                                    onClick: () => {
+                                      updateSavedQueries(
+                                        deleteSavedQuery(
+                                          savedQueries,
+                                          savedQuery.name
+                                        )
+                                      );
+                                      setSavedQueriesPopoverOpen(false);
+                                    },
+                                  })
+                                ),
+                              },
+                            ]}
+                          />
+                        </EuiPopover>
+                      </EuiFlexItem>
                       <EuiFlexItem grow={false}>
                         <EuiPopover
                           button={
@@ -313,7 +695,10 @@ export function Query(props: QueryProps) {
                       props.setQueryRequest(
                         customStringify(JSON.parse(props.queryRequest))
                       );
-                    } catch (error) {}
+                      setQueryError(undefined);
+                    } catch (error: any) {
+                      setQueryError(`Invalid query JSON: ${error.message}`);
+                    }
                   }}
                   readOnly={false}
                   setOptions={{
@@ -328,6 +713,13 @@ export function Query(props: QueryProps) {
                   tabSize={2}
                 />
               </EuiFlexItem>
+              {queryError !== undefined && (
+                <EuiFlexItem grow={false}>
+                  <EuiText size="s" color="danger">
+                    {queryError}
+                  </EuiText>
+                </EuiFlexItem>
+              )}
               <EuiFlexItem grow={false}>
                 {/**
                  * This may return nothing if the list of params are empty
@@ -345,8 +737,24 @@ export function Query(props: QueryProps) {
                 <EuiText size="m">Results</EuiText>
               </EuiFlexItem>
               <EuiFlexItem>
-                {props.queryResponse === undefined ||
-                isEmpty(props.queryResponse) ? (
+                {compareMode ? (
+                  comparedResponses === undefined ? (
+                    <EuiEmptyPrompt
+                      title={<h2>No results</h2>}
+                      titleSize="s"
+                      body={
+                        <>
+                          <EuiText size="s">
+                            Run a search to compare results.
+                          </EuiText>
+                        </>
+                      }
+                    />
+                  ) : (
+                    <ResultsComparison {...comparedResponses} />
+                  )
+                ) : props.queryResponse === undefined ||
+                  isEmpty(props.queryResponse) ? (
                   <EuiEmptyPrompt
                     title={<h2>No results</h2>}
                     titleSize="s"
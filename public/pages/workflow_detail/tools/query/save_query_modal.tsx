@@ -0,0 +1,82 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { isEmpty } from 'lodash';
+import {
+  EuiCompressedFieldText,
+  EuiCompressedFormRow,
+  EuiModal,
+  EuiModalBody,
+  EuiModalFooter,
+  EuiModalHeader,
+  EuiModalHeaderTitle,
+  EuiSmallButton,
+  EuiSmallButtonEmpty,
+} from '@elastic/eui';
+import { SavedQuery } from '../../../../../common';
+
+interface SaveQueryModalProps {
+  savedQueries: SavedQuery[];
+  isSaving: boolean;
+  onSave: (name: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Modal to name the current test query before saving it with the workflow. Saving with the
+ * name of an existing saved query replaces it.
+ */
+export function SaveQueryModal(props: SaveQueryModalProps) {
+  const [name, setName] = useState<string>('');
+  const trimmedName = name.trim();
+  const nameExists = props.savedQueries.some(
+    (savedQuery) => savedQuery.name === trimmedName
+  );
+
+  return (
+    <EuiModal onClose={props.onClose} style={{ width: '30vw' }}>
+      <EuiModalHeader>
+        <EuiModalHeaderTitle>
+          <p>Save query</p>
+        </EuiModalHeaderTitle>
+      </EuiModalHeader>
+      <EuiModalBody>
+        <EuiCompressedFormRow
+          label="Name"
+          fullWidth={true}
+          helpText={
+            nameExists
+              ? 'A saved query with this name will be replaced.'
+              : 'The query, its parameter values, and whether to use the search pipeline are saved with the workflow.'
+          }
+        >
+          <EuiCompressedFieldText
+            fullWidth={true}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name this query"
+            data-testid="savedQueryNameField"
+          />
+        </EuiCompressedFormRow>
+      </EuiModalBody>
+      <EuiModalFooter>
+        <EuiSmallButtonEmpty onClick={props.onClose} color="primary">
+          Cancel
+        </EuiSmallButtonEmpty>
+        <EuiSmallButton
+          onClick={() => props.onSave(trimmedName)}
+          isLoading={props.isSaving}
+          isDisabled={isEmpty(trimmedName)}
+          fill={true}
+          color="primary"
+          data-testid="saveQueryButton"
+        >
+          Save
+        </EuiSmallButton>
+      </EuiModalFooter>
+    </EuiModal>
+  );
+}
@@ -22,15 +22,21 @@ import {
   FETCH_ALL_QUERY,
   INSPECTOR_TAB_ID,
   INSPECTOR_TABS,
+  Judgment,
   QueryParam,
+  RelevanceEvaluation,
   SearchResponse,
   Workflow,
+  WorkflowConfig,
   WorkflowFormValues,
 } from '../../../../common';
 import { Resources } from './resources';
 import { Query } from './query';
 import { Ingest } from './ingest';
 import { Errors } from './errors';
+import { Analytics } from './analytics';
+import { Evaluation } from './evaluation';
+import { IngestTrace } from './ingest_trace';
 import {
   formatProcessorError,
   hasProvisionedIngestResources,
@@ -39,6 +45,7 @@ import {
 
 interface ToolsProps {
   workflow?: Workflow;
+  uiConfig?: WorkflowConfig;
   ingestResponse: string;
   selectedTabId: INSPECTOR_TAB_ID;
   setSelectedTabId: (tabId: INSPECTOR_TAB_ID) => void;
@@ -84,6 +91,15 @@ export function Tools(props: ToolsProps) {
   // query params state
   const [queryParams, setQueryParams] = useState<QueryParam[]>([]);
 
+  // relevance evaluation state. the latest run is compared to the previous one.
+  const [judgments, setJudgments] = useState<Judgment[]>([]);
+  const [evaluation, setEvaluation] = useState<
+    RelevanceEvaluation | undefined
+  >(undefined);
+  const [previousEvaluation, setPreviousEvaluation] = useState<
+    RelevanceEvaluation | undefined
+  >(undefined);
+
   // Propagate any errors coming from opensearch API calls, including ingest/search pipeline verbose calls.
   useEffect(() => {
     if (
@@ -178,8 +194,13 @@ export function Tools(props: ToolsProps) {
                 {props.selectedTabId === INSPECTOR_TAB_ID.INGEST && (
                   <Ingest ingestResponse={props.ingestResponse} />
                 )}
+                {props.selectedTabId === INSPECTOR_TAB_ID.INGEST_TRACE && (
+                  <IngestTrace uiConfig={props.uiConfig} />
+                )}
                 {props.selectedTabId === INSPECTOR_TAB_ID.TEST && (
                   <Query
+                    workflow={props.workflow}
+                    uiConfig={props.uiConfig}
                     hasSearchPipeline={hasProvisionedSearchResources(
                       props.workflow
                     )}
@@ -201,6 +222,28 @@ export function Tools(props: ToolsProps) {
                 {props.selectedTabId === INSPECTOR_TAB_ID.RESOURCES && (
                   <Resources workflow={props.workflow} />
                 )}
+                {props.selectedTabId === INSPECTOR_TAB_ID.ANALYTICS && (
+                  <Analytics
+                    uiConfig={props.uiConfig}
+                    selectedStep={props.selectedStep}
+                    queryRequest={queryRequest}
+                    queryParams={queryParams}
+                  />
+                )}
+                {props.selectedTabId === INSPECTOR_TAB_ID.EVALUATION && (
+                  <Evaluation
+                    uiConfig={props.uiConfig}
+                    selectedStep={props.selectedStep}
+                    queryRequest={queryRequest}
+                    queryParams={queryParams}
+                    judgments={judgments}
+                    setJudgments={setJudgments}
+                    evaluation={evaluation}
+                    setEvaluation={setEvaluation}
+                    previousEvaluation={previousEvaluation}
+                    setPreviousEvaluation={setPreviousEvaluation}
+                  />
+                )}
               </>
             </EuiFlexItem>
           </EuiFlexGroup>
@@ -3,7 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Prompt, RouteComponentProps, useHistory } from 'react-router-dom';
 import { useSelector } from 'react-redux';
 import { ReactFlowProvider } from 'reactflow';
@@ -22,6 +22,7 @@ import {
   APP_PATH,
   BREADCRUMBS,
   USE_NEW_HOME_PAGE,
+  enrichWorkflowWithUiMetadata,
   uiConfigToFormik,
   uiConfigToSchema,
 } from '../../utils';
@@ -31,6 +32,7 @@ import {
   AppState,
   catIndices,
   getWorkflow,
+  searchAgents,
   searchConnectors,
   searchModels,
   setIngestPipelineErrors,
@@ -92,6 +94,7 @@ export function WorkflowDetail(props: WorkflowDetailProps) {
     dispatch(
       searchConnectors({ apiBody: FETCH_ALL_QUERY_LARGE, dataSourceId })
     );
+    dispatch(searchAgents({ apiBody: FETCH_ALL_QUERY_LARGE, dataSourceId }));
     dispatch(catIndices({ pattern: OMIT_SYSTEM_INDEX_PATTERN, dataSourceId }));
     dispatch(setIngestPipelineErrors({ errors: {} }));
     dispatch(setSearchPipelineErrors({ errors: {} }));
@@ -157,7 +160,15 @@ export function WorkflowDetail(props: WorkflowDetailProps) {
 
   // selected workflow state
   const workflowId = escape(props.match?.params?.workflowId);
-  const workflow = workflows[workflowId];
+  // workflows created outside of the plugin will not have any UI metadata.
+  // generate it from the template, so they can still be viewed and edited.
+  const workflow = useMemo(
+    () =>
+      workflows[workflowId] !== undefined
+        ? enrichWorkflowWithUiMetadata(workflows[workflowId])
+        : undefined,
+    [workflows[workflowId]]
+  );
   const workflowName = getCharacterLimitedString(
     workflow?.name || '',
     MAX_WORKFLOW_NAME_TO_DISPLAY
@@ -222,11 +233,13 @@ export function WorkflowDetail(props: WorkflowDetailProps) {
   >(false);
 
   // Initialize the UI config based on the workflow's config, if applicable.
+  // Only re-initialize when the config itself changes, so updating other UI metadata,
+  // like any saved queries, does not reset the form.
   useEffect(() => {
     if (workflow?.ui_metadata?.config) {
       setUiConfig(workflow.ui_metadata.config);
     }
-  }, [workflow]);
+  }, [workflow?.ui_metadata?.config]);
 
   // Initialize the form state based on the current UI config, if applicable
   useEffect(() => {
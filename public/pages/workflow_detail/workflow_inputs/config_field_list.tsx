@@ -13,6 +13,7 @@ import {
   JsonField,
   MapField,
   ModelField,
+  AgentField,
 } from './input_fields';
 import { IConfigField } from '../../../../common';
 import { camelCaseToTitleString } from '../../../utils';
@@ -99,7 +100,8 @@ export function ConfigFieldList(props: ConfigFieldListProps) {
             );
             break;
           }
-          case 'json': {
+          case 'json':
+          case 'jsonArray': {
             el = (
               <EuiFlexItem key={idx}>
                 <JsonField
@@ -148,6 +150,15 @@ export function ConfigFieldList(props: ConfigFieldListProps) {
             );
             break;
           }
+          case 'agent': {
+            el = (
+              <EuiFlexItem key={idx}>
+                <AgentField fieldPath={fieldPath} showError={true} />
+                <EuiSpacer size={CONFIG_FIELD_SPACER_SIZE} />
+              </EuiFlexItem>
+            );
+            break;
+          }
         }
         return el;
       })}
@@ -3,7 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useEffect } from 'react';
+import React, { useEffect, useRef } from 'react';
 import { useSelector } from 'react-redux';
 import { isEmpty } from 'lodash';
 import {
@@ -13,67 +13,133 @@ import {
   EuiSpacer,
 } from '@elastic/eui';
 import { JsonField } from '../input_fields';
-import { getIn, useFormikContext } from 'formik';
-import { WorkflowFormValues } from '../../../../../common';
-import { AppState } from '../../../../store';
+import { FormikValues, getIn, useFormikContext } from 'formik';
 import {
-  getEmbeddingField,
-  getEmbeddingModelDimensions,
+  DimensionMismatch,
+  MODEL_STATE,
+  Model,
+  WorkflowFormValues,
+} from '../../../../../common';
+import {
+  AppState,
+  detectEmbeddingDimension,
+  useAppDispatch,
+} from '../../../../store';
+import {
+  getDataSourceId,
+  getDimensionMismatches,
+  getExpectedEmbeddingDimensions,
+  getExpectedSparseEmbeddingFields,
   getFieldValue,
+  getModelEmbeddingDimension,
   getUpdatedIndexMappings,
   getUpdatedIndexSettings,
+  getUpdatedSparseIndexMappings,
+  isEmbeddingModel,
   isKnnIndex,
+  removeSparseVectorFieldFromIndexMappings,
   removeVectorFieldFromIndexMappings,
 } from '../../../../utils';
+import { getCore } from '../../../../services';
 
 interface AdvancedSettingsProps {
   setHasInvalidDimensions: (hasInvalidDimensions: boolean) => void;
+  setDimensionMismatches: (dimensionMismatches: DimensionMismatch[]) => void;
 }
 
 /**
  * Input component for configuring ingest-side advanced settings
  */
 export function AdvancedSettings(props: AdvancedSettingsProps) {
+  const dispatch = useAppDispatch();
+  const dataSourceId = getDataSourceId();
   const { values, setFieldValue } = useFormikContext<WorkflowFormValues>();
-  const { models, connectors } = useSelector((state: AppState) => state.ml);
+  const { models, connectors, embeddingDimensions } = useSelector(
+    (state: AppState) => state.ml
+  );
   const ingestMLProcessors = (Object.values(
     values?.ingest?.enrich || {}
-  ) as any[]).filter((ingestProcessor) => ingestProcessor?.model !== undefined);
+  ) as FormikValues[]).filter(
+    (ingestProcessor) => ingestProcessor?.model !== undefined
+  );
   const ingestProcessorModelIds = ingestMLProcessors
     .map((ingestProcessor) => ingestProcessor?.model?.id as string | undefined)
-    .filter((modelId) => !isEmpty(modelId));
+    .filter((modelId) => !isEmpty(modelId)) as string[];
   const indexMappingsPath = 'ingest.index.mappings';
   const indexSettingsPath = 'ingest.index.settings';
   const curMappings = getIn(values, indexMappingsPath);
   const curSettings = getIn(values, indexSettingsPath);
+  const expectedDimensions = getExpectedEmbeddingDimensions(
+    ingestMLProcessors,
+    models,
+    connectors,
+    embeddingDimensions
+  );
+  const expectedSparseFields = getExpectedSparseEmbeddingFields(
+    ingestMLProcessors,
+    models,
+    connectors
+  );
 
-  // listen on when processor with models are added / removed. dynamically update index
-  // settings to be knn-enabled or knn-disabled.
+  // models that have already been probed for their embedding dimension. Tracked
+  // so a model is only probed once, even if the probe fails.
+  const probedModelIds = useRef<Set<string>>(new Set());
+
+  // listen on when processor models are added / updated. Probe any deployed embedding
+  // models with an unknown dimension (e.g., local models or custom connectors) with
+  // a single sample prediction, unless a dimension was already detected for the model.
+  useEffect(() => {
+    ingestProcessorModelIds.forEach((modelId) => {
+      const model = models[modelId] as Model | undefined;
+      if (
+        model === undefined ||
+        model.state !== MODEL_STATE.DEPLOYED ||
+        !isEmbeddingModel(model) ||
+        embeddingDimensions[modelId] !== undefined ||
+        probedModelIds.current.has(modelId)
+      ) {
+        return;
+      }
+      const connector =
+        model.connectorId !== undefined
+          ? connectors[model.connectorId]
+          : undefined;
+      if (getModelEmbeddingDimension(model, connector) === undefined) {
+        probedModelIds.current.add(modelId);
+        dispatch(detectEmbeddingDimension({ model, dataSourceId }))
+          .unwrap()
+          .catch((error: any) => {
+            getCore().notifications.toasts.addWarning(
+              `Unable to detect the embedding dimension of model ${model.name}: ${error}`
+            );
+          });
+      }
+    });
+  }, [ingestProcessorModelIds.join(','), models, embeddingDimensions]);
+
+  // listen on when processor with models are added / removed, or model dimensions
+  // are detected. dynamically update index settings to be knn-enabled or knn-disabled.
   useEffect(() => {
     if (ingestProcessorModelIds.length > 0) {
-      ingestProcessorModelIds.forEach((ingestProcessorModelId) => {
-        const processorModel = Object.values(models || {}).find(
-          (model) => model.id === ingestProcessorModelId
+      // If a dimension is found for any model, it is an embedding model.
+      // Ensure the index is configured to be knn-enabled.
+      const hasEmbeddingModel = ingestProcessorModelIds.some((modelId) => {
+        const model = models[modelId] as Model | undefined;
+        const connector =
+          model?.connectorId !== undefined
+            ? connectors[model.connectorId]
+            : undefined;
+        return (
+          (getModelEmbeddingDimension(model, connector) ??
+            embeddingDimensions[modelId]) !== undefined
         );
-        if (processorModel?.connectorId !== undefined) {
-          const processorConnector = connectors[processorModel?.connectorId];
-          const dimension =
-            processorConnector !== undefined
-              ? getEmbeddingModelDimensions(processorConnector)
-              : undefined;
-
-          // If a dimension is found, it is a known embedding model.
-          // Ensure the index is configured to be knn-enabled.
-          if (dimension !== undefined) {
-            if (!isKnnIndex(curSettings)) {
-              setFieldValue(
-                indexSettingsPath,
-                getUpdatedIndexSettings(curSettings, true)
-              );
-            }
-          }
-        }
       });
+      if (hasEmbeddingModel && !isKnnIndex(curSettings)) {
+        setFieldValue(
+          indexSettingsPath,
+          getUpdatedIndexSettings(curSettings, true)
+        );
+      }
     } else {
       if (isKnnIndex(curSettings)) {
         setFieldValue(
@@ -82,46 +148,41 @@ export function AdvancedSettings(props: AdvancedSettingsProps) {
         );
       }
     }
-  }, [ingestProcessorModelIds.length]);
+  }, [ingestProcessorModelIds.length, embeddingDimensions]);
 
-  // listener on when there are updates to any ingest processors. Try to update
-  // any index mappings accordingly, such as setting the knn_vector mappings
-  // for models that output vector embeddings, or removing any mappings, if no ML
-  // processor defined.
+  // listener on when there are updates to any ingest processors, or model dimensions
+  // are detected. Try to update any index mappings accordingly, such as setting the
+  // knn_vector mappings for models that output vector embeddings, the rank_features
+  // mappings for models that output sparse vector embeddings, or removing any
+  // mappings, if no ML processor defined.
   useEffect(() => {
+    let updatedMappings = curMappings;
     if (ingestMLProcessors.length > 0) {
-      ingestMLProcessors.forEach((ingestMLProcessor) => {
-        const processorModel = Object.values(models || {}).find(
-          (model) => model.id === ingestMLProcessor?.model?.id
+      Object.keys(expectedDimensions).forEach((embeddingFieldName) => {
+        updatedMappings = getUpdatedIndexMappings(
+          updatedMappings,
+          embeddingFieldName,
+          expectedDimensions[embeddingFieldName]
+        );
+      });
+      expectedSparseFields.forEach((embeddingFieldName) => {
+        updatedMappings = getUpdatedSparseIndexMappings(
+          updatedMappings,
+          embeddingFieldName
         );
-        if (processorModel?.connectorId !== undefined) {
-          const processorConnector = connectors[processorModel?.connectorId];
-          const dimension = getEmbeddingModelDimensions(processorConnector);
-          const embeddingFieldName = getEmbeddingField(
-            processorConnector,
-            ingestMLProcessor
-          );
-          if (embeddingFieldName !== undefined && dimension !== undefined) {
-            setFieldValue(
-              indexMappingsPath,
-              getUpdatedIndexMappings(
-                curMappings,
-                embeddingFieldName,
-                dimension
-              )
-            );
-          }
-        }
       });
     } else {
-      setFieldValue(
-        indexMappingsPath,
-        removeVectorFieldFromIndexMappings(curMappings)
+      updatedMappings = removeSparseVectorFieldFromIndexMappings(
+        removeVectorFieldFromIndexMappings(updatedMappings)
       );
     }
-  }, [getIn(values, 'ingest.enrich')]);
+    if (updatedMappings !== curMappings) {
+      setFieldValue(indexMappingsPath, updatedMappings);
+    }
+  }, [getIn(values, 'ingest.enrich'), embeddingDimensions]);
 
-  // listener to check if there is a dimension value set, and if so, check its validity
+  // listener to check if there is a dimension value set, and if so, check its validity,
+  // and that it matches the dimension of the embeddings produced by the model
   useEffect(() => {
     try {
       const mappingsObj = JSON.parse(getIn(values, indexMappingsPath));
@@ -130,7 +191,13 @@ export function AdvancedSettings(props: AdvancedSettingsProps) {
         dimensionVal !== undefined && typeof dimensionVal !== 'number'
       );
     } catch (e) {}
-  }, [getIn(values, indexMappingsPath)]);
+    props.setDimensionMismatches(
+      getDimensionMismatches(
+        getIn(values, indexMappingsPath),
+        expectedDimensions
+      )
+    );
+  }, [getIn(values, indexMappingsPath), JSON.stringify(expectedDimensions)]);
 
   return (
     <EuiFlexGroup direction="column">
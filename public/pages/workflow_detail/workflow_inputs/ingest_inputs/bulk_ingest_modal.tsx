@@ -0,0 +1,274 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useRef, useState } from 'react';
+import {
+  EuiSmallButton,
+  EuiCallOut,
+  EuiCompressedFilePicker,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiInMemoryTable,
+  EuiModal,
+  EuiModalBody,
+  EuiModalFooter,
+  EuiModalHeader,
+  EuiModalHeaderTitle,
+  EuiProgress,
+  EuiSmallButtonEmpty,
+  EuiSpacer,
+  EuiText,
+} from '@elastic/eui';
+import {
+  BULK_INGEST_CHUNK_BYTES,
+  BulkIngestFailure,
+  BulkIngestResponse,
+  MAX_BULK_INGEST_FAILURES,
+} from '../../../../../common';
+import { bulkIngest, useAppDispatch } from '../../../../store';
+import { getDataSourceId } from '../../../../utils';
+import '../../../../global-styles.scss';
+
+interface BulkIngestModalProps {
+  indexName: string;
+  ingestPipeline?: string;
+  setIsModalOpen: (isOpen: boolean) => void;
+}
+
+/**
+ * Modal for ingesting a large JSONL file into the workflow's index, through its ingest pipeline.
+ * The file is read & uploaded in sequential chunks, tracking the progress and any per-document failures.
+ */
+export function BulkIngestModal(props: BulkIngestModalProps) {
+  const dispatch = useAppDispatch();
+  const dataSourceId = getDataSourceId();
+
+  // selected file state
+  const [file, setFile] = useState<File | undefined>(undefined);
+
+  // ingest progress state
+  const [isIngesting, setIsIngesting] = useState<boolean>(false);
+  const [bytesProcessed, setBytesProcessed] = useState<number>(0);
+  const [results, setResults] = useState<BulkIngestResponse | undefined>(
+    undefined
+  );
+  const [errorMessage, setErrorMessage] = useState<string | undefined>(
+    undefined
+  );
+  const isStopped = useRef<boolean>(false);
+
+  function onClose() {
+    isStopped.current = true;
+    props.setIsModalOpen(false);
+  }
+
+  // Read the file in chunks, only sending complete lines. Any trailing partial line
+  // is carried over to the next chunk.
+  async function onIngest() {
+    if (file === undefined) {
+      return;
+    }
+    isStopped.current = false;
+    setIsIngesting(true);
+    setBytesProcessed(0);
+    setErrorMessage(undefined);
+    let aggregatedResults = {
+      docCount: 0,
+      failedCount: 0,
+      batches: [],
+      failures: [],
+    } as BulkIngestResponse;
+    setResults(aggregatedResults);
+
+    const decoder = new TextDecoder();
+    let remainder = '';
+    let offset = 0;
+    try {
+      while (offset < file.size && !isStopped.current) {
+        const end = Math.min(offset + BULK_INGEST_CHUNK_BYTES, file.size);
+        const isLastChunk = end === file.size;
+        const chunk =
+          remainder +
+          decoder.decode(await file.slice(offset, end).arrayBuffer(), {
+            stream: !isLastChunk,
+          });
+        const splitIdx = isLastChunk
+          ? chunk.length
+          : chunk.lastIndexOf('\n') + 1;
+        const docs = chunk.slice(0, splitIdx);
+        remainder = chunk.slice(splitIdx);
+        if (docs.trim() !== '') {
+          const resp = (await dispatch(
+            bulkIngest({
+              apiBody: {
+                index: props.indexName,
+                docs,
+                ingestPipeline: props.ingestPipeline,
+                startIndex: aggregatedResults.docCount,
+              },
+              dataSourceId,
+            })
+          ).unwrap()) as BulkIngestResponse;
+          aggregatedResults = {
+            docCount: aggregatedResults.docCount + resp.docCount,
+            failedCount: aggregatedResults.failedCount + resp.failedCount,
+            batches: [
+              ...aggregatedResults.batches,
+              ...resp.batches.map((batchResult) => ({
+                ...batchResult,
+                batch: aggregatedResults.batches.length + batchResult.batch,
+              })),
+            ],
+            failures: [...aggregatedResults.failures, ...resp.failures].slice(
+              0,
+              MAX_BULK_INGEST_FAILURES
+            ),
+          };
+          setResults(aggregatedResults);
+        }
+        offset = end;
+        setBytesProcessed(end);
+      }
+    } catch (error: any) {
+      setErrorMessage(error as string);
+    } finally {
+      setIsIngesting(false);
+    }
+  }
+
+  return (
+    <EuiModal
+      maxWidth={false}
+      onClose={() => onClose()}
+      className="configuration-modal"
+    >
+      <EuiModalHeader>
+        <EuiModalHeaderTitle>
+          <p>{`Bulk ingest data`}</p>
+        </EuiModalHeaderTitle>
+      </EuiModalHeader>
+      <EuiModalBody>
+        <EuiFlexGroup direction="column" gutterSize="s">
+          <EuiFlexItem grow={false}>
+            <EuiText size="s" color="subdued">
+              {props.ingestPipeline !== undefined
+                ? `Ingest a JSON lines file into ${props.indexName}, using the ingest pipeline ${props.ingestPipeline}.`
+                : `Ingest a JSON lines file into ${props.indexName}.`}
+            </EuiText>
+          </EuiFlexItem>
+          <EuiFlexItem grow={false}>
+            <EuiCompressedFilePicker
+              accept=".jsonl"
+              multiple={false}
+              initialPromptText="Upload file"
+              isDisabled={isIngesting}
+              onChange={(files) => {
+                setFile(files && files.length > 0 ? files[0] : undefined);
+                setResults(undefined);
+                setBytesProcessed(0);
+                setErrorMessage(undefined);
+              }}
+              display="default"
+            />
+          </EuiFlexItem>
+          {results !== undefined && file !== undefined && (
+            <>
+              <EuiFlexItem grow={false}>
+                <EuiProgress
+                  value={bytesProcessed}
+                  max={file.size}
+                  size="s"
+                  color={results.failedCount > 0 ? 'warning' : 'success'}
+                  label={isIngesting ? 'Ingesting' : 'Ingested'}
+                  valueText={`${Math.floor(
+                    (bytesProcessed / Math.max(file.size, 1)) * 100
+                  )}%`}
+                  data-testid="bulkIngestProgress"
+                />
+              </EuiFlexItem>
+              <EuiFlexItem grow={false}>
+                <EuiText size="s">
+                  {`${results.docCount} documents processed in ${results.batches.length} batches. ${results.failedCount} failed.`}
+                </EuiText>
+              </EuiFlexItem>
+            </>
+          )}
+          {errorMessage !== undefined && (
+            <EuiFlexItem grow={false}>
+              <EuiCallOut
+                size="s"
+                color="danger"
+                iconType="alert"
+                title={errorMessage}
+              />
+            </EuiFlexItem>
+          )}
+          {results !== undefined && results.failures.length > 0 && (
+            <EuiFlexItem grow={false}>
+              <EuiSpacer size="s" />
+              <EuiText size="s">
+                <h4>Failures</h4>
+              </EuiText>
+              {results.failedCount > results.failures.length && (
+                <EuiText size="xs" color="subdued">
+                  {`Showing the first ${results.failures.length} failures.`}
+                </EuiText>
+              )}
+              <EuiInMemoryTable<BulkIngestFailure>
+                items={results.failures}
+                compressed={true}
+                pagination={true}
+                tableLayout="auto"
+                columns={[
+                  {
+                    field: 'docIndex',
+                    name: 'Document',
+                    width: '100px',
+                    render: (docIndex: number) => docIndex + 1,
+                  },
+                  {
+                    field: 'reason',
+                    name: 'Reason',
+                  },
+                ]}
+              />
+            </EuiFlexItem>
+          )}
+        </EuiFlexGroup>
+      </EuiModalBody>
+      <EuiModalFooter>
+        {isIngesting ? (
+          <EuiSmallButtonEmpty
+            onClick={() => {
+              isStopped.current = true;
+            }}
+            color="danger"
+            data-testid="stopBulkIngestButton"
+          >
+            Stop
+          </EuiSmallButtonEmpty>
+        ) : (
+          <EuiSmallButtonEmpty
+            onClick={() => onClose()}
+            color="primary"
+            data-testid="closeBulkIngestButton"
+          >
+            Close
+          </EuiSmallButtonEmpty>
+        )}
+        <EuiSmallButton
+          onClick={() => onIngest()}
+          isLoading={isIngesting}
+          isDisabled={file === undefined}
+          fill={true}
+          color="primary"
+          data-testid="bulkIngestButton"
+        >
+          Ingest
+        </EuiSmallButton>
+      </EuiModalFooter>
+    </EuiModal>
+  );
+}
@@ -13,7 +13,10 @@ import {
 } from '@elastic/eui';
 import { TextField } from '../input_fields';
 import { AdvancedSettings } from './advanced_settings';
-import { KNN_VECTOR_DOCS_LINK } from '../../../../../common';
+import {
+  DimensionMismatch,
+  KNN_VECTOR_DOCS_LINK,
+} from '../../../../../common';
 
 interface IngestDataProps {}
 
@@ -24,6 +27,9 @@ export function IngestData(props: IngestDataProps) {
   const [hasInvalidDimensions, setHasInvalidDimensions] = useState<boolean>(
     false
   );
+  const [dimensionMismatches, setDimensionMismatches] = useState<
+    DimensionMismatch[]
+  >([]);
 
   return (
     <EuiFlexGroup direction="column">
@@ -48,6 +54,29 @@ export function IngestData(props: IngestDataProps) {
           color="warning"
         />
       )}
+      {dimensionMismatches.length > 0 && (
+        <EuiCallOut
+          style={{ marginLeft: '14px' }}
+          size="s"
+          title={
+            <EuiText size="s">
+              The vector field dimension does not match the model output.
+              Update the index mappings before creating the ingest resources.{' '}
+              <EuiLink target="_blank" href={KNN_VECTOR_DOCS_LINK}>
+                Learn more
+              </EuiLink>
+            </EuiText>
+          }
+          color="danger"
+          iconType="alert"
+        >
+          {dimensionMismatches.map((mismatch) => (
+            <EuiText size="xs" key={mismatch.fieldName}>
+              {`${mismatch.fieldName}: mapped dimension ${mismatch.mappedDimension}, model output dimension ${mismatch.expectedDimension}`}
+            </EuiText>
+          ))}
+        </EuiCallOut>
+      )}
       <EuiFlexItem>
         <TextField
           label="Index name"
@@ -56,7 +85,10 @@ export function IngestData(props: IngestDataProps) {
         />
       </EuiFlexItem>
       <EuiFlexItem>
-        <AdvancedSettings setHasInvalidDimensions={setHasInvalidDimensions} />
+        <AdvancedSettings
+          setHasInvalidDimensions={setHasInvalidDimensions}
+          setDimensionMismatches={setDimensionMismatches}
+        />
       </EuiFlexItem>
     </EuiFlexGroup>
   );
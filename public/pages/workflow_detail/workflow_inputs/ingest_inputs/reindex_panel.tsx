@@ -0,0 +1,272 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  EuiSmallButton,
+  EuiCallOut,
+  EuiCodeEditor,
+  EuiCompressedFormRow,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiPanel,
+  EuiProgress,
+  EuiSmallButtonEmpty,
+  EuiText,
+} from '@elastic/eui';
+import {
+  REINDEX_TASK_POLL_INTERVAL_MS,
+  ReindexTaskStatus,
+  Workflow,
+  sleep,
+} from '../../../../../common';
+import {
+  cancelTask,
+  getReindexTask,
+  reindex,
+  useAppDispatch,
+} from '../../../../store';
+import {
+  getDataSourceId,
+  getProvisionedIndexName,
+  getProvisionedIngestPipelineId,
+} from '../../../../utils';
+
+interface ReindexPanelProps {
+  workflow: Workflow | undefined;
+  sourceIndex: string;
+}
+
+/**
+ * Panel for reindexing all documents from an existing index into the workflow's index,
+ * through the workflow's ingest pipeline. The reindex task runs asynchronously, and is
+ * polled for progress until completed or cancelled.
+ */
+export function ReindexPanel(props: ReindexPanelProps) {
+  const dispatch = useAppDispatch();
+  const dataSourceId = getDataSourceId();
+
+  // the provisioned destination index and ingest pipeline, if found
+  const destIndex = getProvisionedIndexName(props.workflow);
+  const pipeline = getProvisionedIngestPipelineId(props.workflow);
+
+  // optional source query state
+  const [queryStr, setQueryStr] = useState<string>('');
+  const [queryError, setQueryError] = useState<string | undefined>(undefined);
+
+  // reindex task state
+  const [taskId, setTaskId] = useState<string | undefined>(undefined);
+  const [taskStatus, setTaskStatus] = useState<ReindexTaskStatus | undefined>(
+    undefined
+  );
+  const [errorMessage, setErrorMessage] = useState<string | undefined>(
+    undefined
+  );
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [isCancelling, setIsCancelling] = useState<boolean>(false);
+  const isStopped = useRef<boolean>(false);
+
+  // stop polling if unmounted. the task continues to run in the background.
+  useEffect(() => {
+    return () => {
+      isStopped.current = true;
+    };
+  }, []);
+
+  async function onReindex() {
+    let query = undefined as {} | undefined;
+    if (queryStr.trim() !== '') {
+      try {
+        query = JSON.parse(queryStr);
+      } catch (e: any) {
+        setQueryError(`Invalid JSON: ${e.message}`);
+        return;
+      }
+    }
+    setQueryError(undefined);
+    setErrorMessage(undefined);
+    setTaskStatus(undefined);
+    setIsRunning(true);
+    isStopped.current = false;
+    try {
+      const resp = await dispatch(
+        reindex({
+          apiBody: {
+            sourceIndex: props.sourceIndex,
+            destIndex: destIndex as string,
+            pipeline,
+            query,
+          },
+          dataSourceId,
+        })
+      ).unwrap();
+      setTaskId(resp.taskId);
+      await pollTask(resp.taskId);
+    } catch (error: any) {
+      setErrorMessage(error as string);
+    } finally {
+      setIsRunning(false);
+      setIsCancelling(false);
+    }
+  }
+
+  async function pollTask(id: string) {
+    while (!isStopped.current) {
+      await sleep(REINDEX_TASK_POLL_INTERVAL_MS);
+      const status = (await dispatch(
+        getReindexTask({ taskId: id, dataSourceId })
+      ).unwrap()) as ReindexTaskStatus;
+      if (isStopped.current) {
+        return;
+      }
+      setTaskStatus(status);
+      if (status.completed) {
+        if (status.error !== undefined) {
+          setErrorMessage(status.error);
+        }
+        return;
+      }
+    }
+  }
+
+  async function onCancel() {
+    if (taskId === undefined) {
+      return;
+    }
+    setIsCancelling(true);
+    await dispatch(cancelTask({ taskId, dataSourceId }))
+      .unwrap()
+      .catch((error: any) => {
+        setErrorMessage(error as string);
+        setIsCancelling(false);
+      });
+  }
+
+  const processedCount =
+    (taskStatus?.created || 0) + (taskStatus?.updated || 0);
+
+  return (
+    <EuiPanel hasBorder={true} paddingSize="s">
+      <EuiFlexGroup direction="column" gutterSize="s">
+        <EuiFlexItem grow={false}>
+          <EuiText size="s">
+            <h4>Reindex all documents</h4>
+          </EuiText>
+          {destIndex !== undefined ? (
+            <EuiText size="xs" color="subdued">
+              {pipeline !== undefined
+                ? `Run all documents in ${props.sourceIndex} through the ingest pipeline ${pipeline}, into ${destIndex}.`
+                : `Copy all documents in ${props.sourceIndex} into ${destIndex}.`}
+            </EuiText>
+          ) : (
+            <EuiText size="xs" color="subdued">
+              Create the ingest resources before reindexing all documents.
+            </EuiText>
+          )}
+        </EuiFlexItem>
+        {destIndex !== undefined && (
+          <>
+            <EuiFlexItem grow={false}>
+              <EuiCompressedFormRow
+                fullWidth={true}
+                label="Source query - optional"
+                helpText="Only reindex documents matching the query."
+                error={queryError}
+                isInvalid={queryError !== undefined}
+              >
+                <EuiCodeEditor
+                  mode="json"
+                  theme="textmate"
+                  width="100%"
+                  height="10vh"
+                  value={queryStr}
+                  onChange={(input) => setQueryStr(input)}
+                  readOnly={isRunning}
+                  setOptions={{
+                    fontSize: '14px',
+                    useWorker: true,
+                    wrap: true,
+                  }}
+                  aria-label="Code Editor"
+                  tabSize={2}
+                />
+              </EuiCompressedFormRow>
+            </EuiFlexItem>
+            {taskStatus !== undefined && (
+              <EuiFlexItem grow={false}>
+                <EuiProgress
+                  value={processedCount}
+                  max={Math.max(taskStatus.total, 1)}
+                  size="s"
+                  color={taskStatus.failures.length > 0 ? 'warning' : 'success'}
+                  label={
+                    taskStatus.cancelled
+                      ? 'Cancelled'
+                      : taskStatus.completed
+                      ? 'Completed'
+                      : 'Reindexing'
+                  }
+                  valueText={`${processedCount} / ${taskStatus.total} documents`}
+                  data-testid="reindexProgress"
+                />
+              </EuiFlexItem>
+            )}
+            {errorMessage !== undefined && (
+              <EuiFlexItem grow={false}>
+                <EuiCallOut
+                  size="s"
+                  color="danger"
+                  iconType="alert"
+                  title={errorMessage}
+                />
+              </EuiFlexItem>
+            )}
+            {taskStatus !== undefined && taskStatus.failures.length > 0 && (
+              <EuiFlexItem grow={false}>
+                <EuiCallOut
+                  size="s"
+                  color="warning"
+                  iconType="alert"
+                  title={`${taskStatus.failures.length} documents failed`}
+                >
+                  {taskStatus.failures.map((failure, idx) => (
+                    <EuiText size="xs" key={idx}>
+                      {failure}
+                    </EuiText>
+                  ))}
+                </EuiCallOut>
+              </EuiFlexItem>
+            )}
+            <EuiFlexItem grow={false}>
+              <EuiFlexGroup direction="row" gutterSize="s">
+                <EuiFlexItem grow={false}>
+                  <EuiSmallButton
+                    onClick={() => onReindex()}
+                    isLoading={isRunning}
+                    data-testid="reindexButton"
+                  >
+                    Reindex
+                  </EuiSmallButton>
+                </EuiFlexItem>
+                {isRunning && taskId !== undefined && (
+                  <EuiFlexItem grow={false}>
+                    <EuiSmallButtonEmpty
+                      onClick={() => onCancel()}
+                      isLoading={isCancelling}
+                      color="danger"
+                      data-testid="cancelReindexButton"
+                    >
+                      Cancel
+                    </EuiSmallButtonEmpty>
+                  </EuiFlexItem>
+                )}
+              </EuiFlexGroup>
+            </EuiFlexItem>
+          </>
+        )}
+      </EuiFlexGroup>
+    </EuiPanel>
+  );
+}
@@ -27,7 +27,12 @@ import {
 } from '../../../../../common';
 import { SourceDataModal } from './source_data_modal';
 import { BulkPopoverContent } from './bulk_popover_content';
-import { getObjsFromJSONLines } from '../../../../utils';
+import { BulkIngestModal } from './bulk_ingest_modal';
+import {
+  getObjsFromJSONLines,
+  getProvisionedIndexName,
+  getProvisionedIngestPipelineId,
+} from '../../../../utils';
 
 interface SourceDataProps {
   workflow: Workflow | undefined;
@@ -57,6 +62,13 @@ export function SourceData(props: SourceDataProps) {
   // bulk API popover state
   const [bulkPopoverOpen, setBulkPopoverOpen] = useState<boolean>(false);
 
+  // bulk ingest modal state. files are ingested into the provisioned index, through
+  // the provisioned ingest pipeline, if found.
+  const [isBulkIngestModalOpen, setIsBulkIngestModalOpen] = useState<
+    boolean
+  >(false);
+  const provisionedIndex = getProvisionedIndexName(props.workflow);
+
   // hook to listen when the docs form value changes.
   useEffect(() => {
     if (values?.ingest?.docs) {
@@ -102,6 +114,13 @@ export function SourceData(props: SourceDataProps) {
           setIsModalOpen={setIsEditModalOpen}
         />
       )}
+      {isBulkIngestModalOpen && provisionedIndex !== undefined && (
+        <BulkIngestModal
+          indexName={provisionedIndex}
+          ingestPipeline={getProvisionedIngestPipelineId(props.workflow)}
+          setIsModalOpen={setIsBulkIngestModalOpen}
+        />
+      )}
       <EuiFlexGroup direction="column" gutterSize="s">
         <EuiFlexItem grow={false}>
           <EuiFlexGroup direction="row" justifyContent="spaceBetween">
@@ -165,6 +184,18 @@ export function SourceData(props: SourceDataProps) {
                     />
                   </EuiPopover>
                 </EuiFlexItem>
+                <EuiFlexItem grow={false}>
+                  <EuiSmallButtonEmpty
+                    style={{ marginTop: '-4px' }}
+                    onClick={() => setIsBulkIngestModalOpen(true)}
+                    isDisabled={provisionedIndex === undefined}
+                    data-testid="bulkIngestFileButton"
+                    iconType="importAction"
+                    iconSide="left"
+                  >
+                    Ingest a file
+                  </EuiSmallButtonEmpty>
+                </EuiFlexItem>
               </EuiFlexGroup>
             </EuiFlexItem>
           </>
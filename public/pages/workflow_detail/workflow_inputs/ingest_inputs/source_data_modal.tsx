@@ -24,6 +24,7 @@ import {
   EuiLink,
 } from '@elastic/eui';
 import { JsonLinesField } from '../input_fields';
+import { ReindexPanel } from './reindex_panel';
 import {
   customStringify,
   customStringifySingleLine,
@@ -48,6 +49,7 @@ import {
 } from '../../../../store';
 import {
   getDataSourceId,
+  getExistingSparseVectorField,
   getExistingVectorField,
   getFieldSchema,
   getInitialValue,
@@ -123,9 +125,9 @@ export function SourceDataModal(props: SourceDataProps) {
               let existingMappingsObj = JSON.parse(
                 getIn(values, indexMappingsPath)
               );
-              const existingEmbeddingField = getExistingVectorField(
-                existingMappingsObj
-              );
+              const existingEmbeddingField =
+                getExistingVectorField(existingMappingsObj) ??
+                getExistingSparseVectorField(existingMappingsObj);
               const existingEmbeddingFieldValue = getIn(
                 existingMappingsObj,
                 `properties.${existingEmbeddingField}`
@@ -300,6 +302,15 @@ export function SourceDataModal(props: SourceDataProps) {
                       color="subdued"
                     >{`Only the first ${MAX_DOCS_TO_IMPORT} documents will be imported.`}</EuiText>
                     <EuiSpacer size="xs" />
+                    {selectedIndex !== undefined && (
+                      <>
+                        <ReindexPanel
+                          workflow={props.workflow}
+                          sourceIndex={selectedIndex}
+                        />
+                        <EuiSpacer size="s" />
+                      </>
+                    )}
                   </>
                 )}
                 <JsonLinesField
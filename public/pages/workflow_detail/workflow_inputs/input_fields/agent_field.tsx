@@ -0,0 +1,124 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { useSelector } from 'react-redux';
+import { Field, FieldProps, getIn, useFormikContext } from 'formik';
+import { isEmpty } from 'lodash';
+import {
+  EuiCompressedFormRow,
+  EuiLink,
+  EuiCompressedSuperSelect,
+  EuiSuperSelectOption,
+  EuiText,
+  EuiSmallButtonIcon,
+  EuiFlexGroup,
+  EuiFlexItem,
+} from '@elastic/eui';
+import {
+  WorkflowFormValues,
+  AgentFormValue,
+  FETCH_ALL_QUERY_LARGE,
+  ML_AGENTS_DOCS_LINK,
+} from '../../../../../common';
+import { AppState, searchAgents, useAppDispatch } from '../../../../store';
+import { getDataSourceId } from '../../../../utils';
+
+interface AgentFieldProps {
+  fieldPath: string; // the full path in string-form to the field (e.g., 'search.enrichRequest.agentic_query_translator_processor.agent_id')
+  label?: string;
+  helpText?: string;
+  fullWidth?: boolean;
+  showError?: boolean;
+}
+
+/**
+ * A specific field for selecting existing ML Commons agents
+ */
+export function AgentField(props: AgentFieldProps) {
+  const dispatch = useAppDispatch();
+  const dataSourceId = getDataSourceId();
+  // Initial store is fetched when loading the base <WorkflowDetail /> page.
+  const agents = useSelector((state: AppState) => state.ml.agents);
+  const { errors, touched } = useFormikContext<WorkflowFormValues>();
+  const agentOptions = Object.values(agents || {});
+
+  return (
+    <Field name={props.fieldPath}>
+      {({ field, form }: FieldProps) => {
+        const isInvalid =
+          getIn(errors, `${field.name}.id`) &&
+          getIn(touched, `${field.name}.id`);
+        return (
+          <EuiCompressedFormRow
+            fullWidth={props.fullWidth}
+            label={props.label || 'Agent'}
+            labelAppend={
+              <EuiText size="xs">
+                <EuiLink href={ML_AGENTS_DOCS_LINK} target="_blank">
+                  Learn more
+                </EuiLink>
+              </EuiText>
+            }
+            helpText={props.helpText}
+            isInvalid={isInvalid}
+            error={props.showError && getIn(errors, `${field.name}.id`)}
+          >
+            <EuiFlexGroup direction="row" gutterSize="xs">
+              <EuiFlexItem grow={true}>
+                <EuiCompressedSuperSelect
+                  data-testid="selectAgent"
+                  fullWidth={props.fullWidth}
+                  disabled={isEmpty(agentOptions)}
+                  options={agentOptions.map(
+                    (option) =>
+                      ({
+                        value: option.id,
+                        inputDisplay: (
+                          <EuiText size="s">{option.name}</EuiText>
+                        ),
+                        dropdownDisplay: (
+                          <>
+                            <EuiText size="s">{option.name}</EuiText>
+                            <EuiText size="xs" color="subdued">
+                              {option.type}
+                            </EuiText>
+                          </>
+                        ),
+                        disabled: false,
+                      } as EuiSuperSelectOption<string>)
+                  )}
+                  valueOfSelected={field.value?.id || ''}
+                  onChange={(option: string) => {
+                    form.setFieldTouched(props.fieldPath, true);
+                    form.setFieldValue(props.fieldPath, {
+                      id: option,
+                    } as AgentFormValue);
+                  }}
+                  isInvalid={isInvalid}
+                />
+              </EuiFlexItem>
+              <EuiFlexItem grow={false}>
+                <EuiSmallButtonIcon
+                  iconType={'refresh'}
+                  aria-label="refresh"
+                  display="base"
+                  onClick={() => {
+                    dispatch(
+                      searchAgents({
+                        apiBody: FETCH_ALL_QUERY_LARGE,
+                        dataSourceId,
+                      })
+                    );
+                  }}
+                />
+              </EuiFlexItem>
+            </EuiFlexGroup>
+          </EuiCompressedFormRow>
+        );
+      }}
+    </Field>
+  );
+}
@@ -7,6 +7,7 @@ export { TextField } from './text_field';
 export { JsonField } from './json_field';
 export { JsonLinesField } from './json_lines_field';
 export { ModelField } from './model_field';
+export { AgentField } from './agent_field';
 export { MapField } from './map_field';
 export { MapArrayField } from './map_array_field';
 export { BooleanField } from './boolean_field';
@@ -28,10 +28,17 @@ import {
   UPDATE_MODEL_DOCS_LINK,
   MODEL_CATEGORY,
   ML_CHOOSE_MODEL_LINK,
+  Model,
 } from '../../../../../common';
 import { AppState, searchModels, useAppDispatch } from '../../../../store';
 import { getDataSourceId } from '../../../../utils';
 import { ModelInfoPopover } from './models_info_popover';
+import { TryModelPanel } from './try_model_panel';
+import { RegisterRemoteModelModal } from './register_remote_model_modal';
+import {
+  ModelsFlyout,
+  UndeployedModelCallout,
+} from '../../../../general_components';
 
 interface ModelFieldProps {
   fieldPath: string; // the full path in string-form to the field (e.g., 'ingest.enrich.processors.text_embedding_processor.inputField')
@@ -66,11 +73,32 @@ export function ModelField(props: ModelFieldProps) {
   const showMissingInterfaceCallout = props.showMissingInterfaceCallout ?? true;
   const hasModelInterface = props.hasModelInterface ?? false;
 
-  const { errors, touched, values } = useFormikContext<WorkflowFormValues>();
+  const {
+    errors,
+    touched,
+    values,
+    setFieldValue,
+    setFieldTouched,
+  } = useFormikContext<WorkflowFormValues>();
 
   // Deployed models state
   const [deployedModels, setDeployedModels] = useState<ModelItem[]>([]);
 
+  // Try model panel state
+  const [isTryModelOpen, setIsTryModelOpen] = useState<boolean>(false);
+  const selectedModelId = getIn(values, props.fieldPath)?.id as
+    | string
+    | undefined;
+  const selectedModel = models[selectedModelId || ''] as Model | undefined;
+
+  // Models flyout state
+  const [isModelsFlyoutOpen, setIsModelsFlyoutOpen] = useState<boolean>(false);
+
+  // Register remote model modal state
+  const [isRegisterModalOpen, setIsRegisterModalOpen] = useState<boolean>(
+    false
+  );
+
   // Hook to update available deployed models
   useEffect(() => {
     if (models) {
@@ -89,8 +117,34 @@ export function ModelField(props: ModelFieldProps) {
     }
   }, [models]);
 
+  // Select a newly-deployed model, and refresh the list of models
+  function onModelDeployed(modelId: string) {
+    dispatch(searchModels({ apiBody: FETCH_ALL_QUERY_LARGE, dataSourceId }));
+    setFieldTouched(props.fieldPath, true);
+    setFieldValue(props.fieldPath, { id: modelId } as ModelFormValue);
+    if (props.onModelChange) {
+      props.onModelChange(modelId);
+    }
+  }
+
   return (
     <>
+      {isRegisterModalOpen && (
+        <RegisterRemoteModelModal
+          onModelDeployed={onModelDeployed}
+          onClose={() => setIsRegisterModalOpen(false)}
+        />
+      )}
+      {isModelsFlyoutOpen && (
+        <ModelsFlyout onClose={() => setIsModelsFlyoutOpen(false)} />
+      )}
+      {selectedModel !== undefined &&
+        selectedModel.state !== MODEL_STATE.DEPLOYED && (
+          <>
+            <UndeployedModelCallout model={selectedModel} />
+            <EuiSpacer size="s" />
+          </>
+        )}
       {showMissingInterfaceCallout &&
         !hasModelInterface &&
         !isEmpty(getIn(values, props.fieldPath)?.id) && (
@@ -103,7 +157,8 @@ export function ModelField(props: ModelFieldProps) {
                   <EuiLink href={UPDATE_MODEL_DOCS_LINK} target="_blank">
                     Learn more
                   </EuiLink>{' '}
-                  about updating a model. Refresh the list when you finish.
+                  about updating a model, or infer one from a sample
+                  prediction using Try model. Refresh the list when you finish.
                 </EuiText>
               }
               color="warning"
@@ -200,11 +255,48 @@ export function ModelField(props: ModelFieldProps) {
                     }}
                   />
                 </EuiFlexItem>
+                <EuiFlexItem grow={false}>
+                  <EuiSmallButtonIcon
+                    iconType={'beaker'}
+                    aria-label="try model"
+                    title="Try model"
+                    display={isTryModelOpen ? 'fill' : 'base'}
+                    isDisabled={isEmpty(selectedModelId)}
+                    onClick={() => setIsTryModelOpen(!isTryModelOpen)}
+                    data-testid="tryModelButton"
+                  />
+                </EuiFlexItem>
+                <EuiFlexItem grow={false}>
+                  <EuiSmallButtonIcon
+                    iconType={'plusInCircle'}
+                    aria-label="add remote model"
+                    title="Add remote model"
+                    display="base"
+                    onClick={() => setIsRegisterModalOpen(true)}
+                    data-testid="addRemoteModelButton"
+                  />
+                </EuiFlexItem>
+                <EuiFlexItem grow={false}>
+                  <EuiSmallButtonIcon
+                    iconType={'list'}
+                    aria-label="manage models"
+                    title="Manage models"
+                    display="base"
+                    onClick={() => setIsModelsFlyoutOpen(true)}
+                    data-testid="manageModelsButton"
+                  />
+                </EuiFlexItem>
               </EuiFlexGroup>
             </EuiCompressedFormRow>
           );
         }}
       </Field>
+      {isTryModelOpen && !isEmpty(selectedModelId) && (
+        <>
+          <EuiSpacer size="s" />
+          <TryModelPanel modelId={selectedModelId as string} />
+        </>
+      )}
     </>
   );
 }
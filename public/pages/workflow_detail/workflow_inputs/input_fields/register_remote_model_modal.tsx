@@ -0,0 +1,337 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import {
+  EuiCallOut,
+  EuiCompressedFieldText,
+  EuiCompressedFormRow,
+  EuiCompressedSuperSelect,
+  EuiFieldPassword,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiHealth,
+  EuiModal,
+  EuiModalBody,
+  EuiModalFooter,
+  EuiModalHeader,
+  EuiModalHeaderTitle,
+  EuiSmallButton,
+  EuiSmallButtonEmpty,
+  EuiSpacer,
+  EuiText,
+} from '@elastic/eui';
+import {
+  DEFAULT_BEDROCK_REGION,
+  REMOTE_MODEL_PROVIDER,
+  RemoteModelCredentials,
+} from '../../../../../common';
+import {
+  createConnector,
+  registerModel,
+  useAppDispatch,
+} from '../../../../store';
+import {
+  getConnectorBlueprint,
+  getDataSourceId,
+  getRegisterRemoteModelBody,
+  getRemoteModelOptions,
+  hasRequiredCredentials,
+} from '../../../../utils';
+import { useModelLifecycle } from '../../../../general_components';
+
+interface RegisterRemoteModelModalProps {
+  onModelDeployed: (modelId: string) => void;
+  onClose: () => void;
+}
+
+enum SETUP_STEP {
+  CREATE_CONNECTOR = 'Create connector',
+  REGISTER_MODEL = 'Register model',
+  DEPLOY_MODEL = 'Deploy model',
+}
+
+type SetupStepStatus = 'pending' | 'running' | 'complete' | 'failed';
+
+const INITIAL_STEP_STATUSES = {
+  [SETUP_STEP.CREATE_CONNECTOR]: 'pending',
+  [SETUP_STEP.REGISTER_MODEL]: 'pending',
+  [SETUP_STEP.DEPLOY_MODEL]: 'pending',
+} as { [step in SETUP_STEP]: SetupStepStatus };
+
+/**
+ * A wizard for setting up a known remote embedding model. Creates a connector based off of the
+ * provider's blueprint, registers a model using the connector, and deploys it.
+ */
+export function RegisterRemoteModelModal(props: RegisterRemoteModelModalProps) {
+  const dispatch = useAppDispatch();
+  const dataSourceId = getDataSourceId();
+  const { deploy } = useModelLifecycle();
+
+  // model configuration state
+  const [provider, setProvider] = useState<REMOTE_MODEL_PROVIDER>(
+    REMOTE_MODEL_PROVIDER.OPENAI
+  );
+  const [model, setModel] = useState<string>(
+    getRemoteModelOptions(REMOTE_MODEL_PROVIDER.OPENAI)[0]
+  );
+  const [modelName, setModelName] = useState<string>('');
+  const [credentials, setCredentials] = useState<RemoteModelCredentials>({
+    region: DEFAULT_BEDROCK_REGION,
+  });
+
+  // setup progress state
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [stepStatuses, setStepStatuses] = useState<
+    { [step in SETUP_STEP]: SetupStepStatus }
+  >(INITIAL_STEP_STATUSES);
+  const [errorMessage, setErrorMessage] = useState<string | undefined>(
+    undefined
+  );
+
+  function updateStepStatus(step: SETUP_STEP, status: SetupStepStatus) {
+    setStepStatuses((curStatuses) => ({ ...curStatuses, [step]: status }));
+  }
+
+  // Execute each step sequentially, tracking the progress and failing fast on any errors
+  async function onCreate() {
+    setIsRunning(true);
+    setErrorMessage(undefined);
+    setStepStatuses(INITIAL_STEP_STATUSES);
+    let curStep = SETUP_STEP.CREATE_CONNECTOR;
+    try {
+      updateStepStatus(curStep, 'running');
+      const { connectorId } = await dispatch(
+        createConnector({
+          apiBody: getConnectorBlueprint(provider, model, credentials),
+          dataSourceId,
+        })
+      ).unwrap();
+      updateStepStatus(curStep, 'complete');
+
+      curStep = SETUP_STEP.REGISTER_MODEL;
+      updateStepStatus(curStep, 'running');
+      const { modelId } = await dispatch(
+        registerModel({
+          apiBody: getRegisterRemoteModelBody(
+            modelName || model,
+            connectorId,
+            provider
+          ),
+          dataSourceId,
+        })
+      ).unwrap();
+      if (modelId === undefined) {
+        throw 'No model ID returned';
+      }
+      updateStepStatus(curStep, 'complete');
+
+      curStep = SETUP_STEP.DEPLOY_MODEL;
+      updateStepStatus(curStep, 'running');
+      // stop if closed while deploying. any created resources are left in place.
+      const deployedModel = await deploy(modelId);
+      if (deployedModel === undefined) {
+        return;
+      }
+      updateStepStatus(curStep, 'complete');
+
+      props.onModelDeployed(modelId);
+      props.onClose();
+    } catch (error: any) {
+      updateStepStatus(curStep, 'failed');
+      setErrorMessage(`${error}`);
+    } finally {
+      setIsRunning(false);
+    }
+  }
+
+  return (
+    <EuiModal
+      onClose={() => props.onClose()}
+      style={{ width: '40vw' }}
+      data-testid="registerRemoteModelModal"
+    >
+      <EuiModalHeader>
+        <EuiModalHeaderTitle>
+          <p>{`Add remote model`}</p>
+        </EuiModalHeaderTitle>
+      </EuiModalHeader>
+      <EuiModalBody>
+        <EuiText size="s" color="subdued">
+          Connect to an embedding model hosted by a third-party provider. A
+          connector and model will be created and deployed.
+        </EuiText>
+        <EuiSpacer size="m" />
+        <EuiCompressedFormRow fullWidth={true} label="Provider">
+          <EuiCompressedSuperSelect
+            fullWidth={true}
+            disabled={isRunning}
+            options={Object.values(REMOTE_MODEL_PROVIDER).map((option) => ({
+              value: option,
+              inputDisplay: <EuiText size="s">{option}</EuiText>,
+            }))}
+            valueOfSelected={provider}
+            onChange={(option) => {
+              const newProvider = option as REMOTE_MODEL_PROVIDER;
+              setProvider(newProvider);
+              setModel(getRemoteModelOptions(newProvider)[0]);
+            }}
+          />
+        </EuiCompressedFormRow>
+        <EuiCompressedFormRow fullWidth={true} label="Model">
+          <EuiCompressedSuperSelect
+            fullWidth={true}
+            disabled={isRunning}
+            options={getRemoteModelOptions(provider).map((option) => ({
+              value: option,
+              inputDisplay: <EuiText size="s">{option}</EuiText>,
+            }))}
+            valueOfSelected={model}
+            onChange={(option) => setModel(option)}
+          />
+        </EuiCompressedFormRow>
+        <EuiCompressedFormRow
+          fullWidth={true}
+          label="Name - optional"
+          helpText="Defaults to the model name."
+        >
+          <EuiCompressedFieldText
+            fullWidth={true}
+            disabled={isRunning}
+            placeholder={model}
+            value={modelName}
+            onChange={(e) => setModelName(e.target.value)}
+          />
+        </EuiCompressedFormRow>
+        {provider === REMOTE_MODEL_PROVIDER.BEDROCK ? (
+          <>
+            <EuiCompressedFormRow fullWidth={true} label="Region">
+              <EuiCompressedFieldText
+                fullWidth={true}
+                disabled={isRunning}
+                value={credentials.region || ''}
+                onChange={(e) =>
+                  setCredentials({ ...credentials, region: e.target.value })
+                }
+              />
+            </EuiCompressedFormRow>
+            <EuiCompressedFormRow fullWidth={true} label="Access key">
+              <EuiFieldPassword
+                compressed={true}
+                fullWidth={true}
+                type="dual"
+                disabled={isRunning}
+                value={credentials.accessKey || ''}
+                onChange={(e) =>
+                  setCredentials({ ...credentials, accessKey: e.target.value })
+                }
+              />
+            </EuiCompressedFormRow>
+            <EuiCompressedFormRow fullWidth={true} label="Secret key">
+              <EuiFieldPassword
+                compressed={true}
+                fullWidth={true}
+                type="dual"
+                disabled={isRunning}
+                value={credentials.secretKey || ''}
+                onChange={(e) =>
+                  setCredentials({ ...credentials, secretKey: e.target.value })
+                }
+              />
+            </EuiCompressedFormRow>
+            <EuiCompressedFormRow
+              fullWidth={true}
+              label="Session token - optional"
+            >
+              <EuiFieldPassword
+                compressed={true}
+                fullWidth={true}
+                type="dual"
+                disabled={isRunning}
+                value={credentials.sessionToken || ''}
+                onChange={(e) =>
+                  setCredentials({
+                    ...credentials,
+                    sessionToken: e.target.value,
+                  })
+                }
+              />
+            </EuiCompressedFormRow>
+          </>
+        ) : (
+          <EuiCompressedFormRow fullWidth={true} label="API key">
+            <EuiFieldPassword
+              compressed={true}
+              fullWidth={true}
+              type="dual"
+              disabled={isRunning}
+              value={credentials.apiKey || ''}
+              onChange={(e) =>
+                setCredentials({ ...credentials, apiKey: e.target.value })
+              }
+            />
+          </EuiCompressedFormRow>
+        )}
+        <EuiSpacer size="m" />
+        <EuiFlexGroup direction="column" gutterSize="xs">
+          {Object.values(SETUP_STEP).map((step) => (
+            <EuiFlexItem grow={false} key={step}>
+              <EuiHealth color={getStepStatusColor(stepStatuses[step])}>
+                <EuiText size="s">{step}</EuiText>
+              </EuiHealth>
+            </EuiFlexItem>
+          ))}
+        </EuiFlexGroup>
+        {errorMessage !== undefined && (
+          <>
+            <EuiSpacer size="s" />
+            <EuiCallOut
+              size="s"
+              color="danger"
+              iconType="alert"
+              title={errorMessage}
+            />
+          </>
+        )}
+      </EuiModalBody>
+      <EuiModalFooter>
+        <EuiSmallButtonEmpty
+          onClick={() => props.onClose()}
+          isDisabled={isRunning}
+          data-testid="closeRegisterRemoteModelButton"
+        >
+          Cancel
+        </EuiSmallButtonEmpty>
+        <EuiSmallButton
+          onClick={() => onCreate()}
+          isLoading={isRunning}
+          isDisabled={!hasRequiredCredentials(provider, credentials)}
+          fill={true}
+          color="primary"
+          data-testid="registerRemoteModelButton"
+        >
+          Create
+        </EuiSmallButton>
+      </EuiModalFooter>
+    </EuiModal>
+  );
+}
+
+function getStepStatusColor(status: SetupStepStatus): string {
+  switch (status) {
+    case 'running': {
+      return 'primary';
+    }
+    case 'complete': {
+      return 'success';
+    }
+    case 'failed': {
+      return 'danger';
+    }
+    default: {
+      return 'subdued';
+    }
+  }
+}
@@ -0,0 +1,340 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useSelector } from 'react-redux';
+import { isEmpty } from 'lodash';
+import {
+  EuiCallOut,
+  EuiCodeEditor,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiPanel,
+  EuiSmallButton,
+  EuiSmallButtonEmpty,
+  EuiText,
+} from '@elastic/eui';
+import {
+  customStringify,
+  ModelInputMap,
+  ModelInterface,
+} from '../../../../../common';
+import {
+  AppState,
+  predict,
+  updateModelInterface,
+  useAppDispatch,
+} from '../../../../store';
+import {
+  getDataSourceId,
+  getModelInterfaceFromPrediction,
+  parseModelInputsObj,
+} from '../../../../utils';
+
+interface TryModelPanelProps {
+  modelId: string;
+}
+
+/**
+ * A panel for sending a sample payload directly to a model, and viewing the raw response.
+ * Useful for debugging the expected model inputs & outputs before configuring any processors.
+ * The model interface can be inferred from a successful prediction, and saved to the model.
+ */
+export function TryModelPanel(props: TryModelPanelProps) {
+  const dispatch = useAppDispatch();
+  const dataSourceId = getDataSourceId();
+  const models = useSelector((state: AppState) => state.ml.models);
+
+  // request & response state
+  const [requestStr, setRequestStr] = useState<string>('');
+  const [responseStr, setResponseStr] = useState<string>('');
+  const [errorMessage, setErrorMessage] = useState<string | undefined>(
+    undefined
+  );
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [lastRequest, setLastRequest] = useState<{} | undefined>(undefined);
+  const [lastResponse, setLastResponse] = useState<{} | undefined>(undefined);
+
+  // inferred interface state
+  const [interfaceStr, setInterfaceStr] = useState<string | undefined>(
+    undefined
+  );
+  const [isSavingInterface, setIsSavingInterface] = useState<boolean>(false);
+  const [interfaceMessage, setInterfaceMessage] = useState<
+    { color: 'success' | 'danger'; title: string } | undefined
+  >(undefined);
+  const hasExistingInterface = !isEmpty(models[props.modelId]?.interface);
+
+  // reset the request to a sample based on the model interface, if the model changes
+  useEffect(() => {
+    setRequestStr(
+      customStringify(
+        getSamplePredictBody(models[props.modelId]?.interface || undefined)
+      )
+    );
+    setResponseStr('');
+    setErrorMessage(undefined);
+    setLastRequest(undefined);
+    setLastResponse(undefined);
+    setInterfaceStr(undefined);
+    setInterfaceMessage(undefined);
+  }, [props.modelId]);
+
+  async function onRun() {
+    let body = {} as {};
+    try {
+      body = JSON.parse(requestStr);
+    } catch (e: any) {
+      setErrorMessage(`Invalid JSON: ${e.message}`);
+      return;
+    }
+    setIsRunning(true);
+    setErrorMessage(undefined);
+    await dispatch(
+      predict({ modelId: props.modelId, apiBody: body, dataSourceId })
+    )
+      .unwrap()
+      .then((resp: any) => {
+        setResponseStr(customStringify(resp));
+        setLastRequest(body);
+        setLastResponse(resp);
+      })
+      .catch((error: any) => {
+        setResponseStr('');
+        setLastRequest(undefined);
+        setLastResponse(undefined);
+        setErrorMessage(error as string);
+      })
+      .finally(() => {
+        setIsRunning(false);
+      });
+  }
+
+  function onInferInterface() {
+    if (lastRequest === undefined || lastResponse === undefined) {
+      return;
+    }
+    setInterfaceMessage(undefined);
+    setInterfaceStr(
+      customStringify(
+        getModelInterfaceFromPrediction(lastRequest, lastResponse)
+      )
+    );
+  }
+
+  async function onSaveInterface() {
+    let modelInterface = {} as ModelInterface;
+    try {
+      modelInterface = JSON.parse(interfaceStr as string);
+    } catch (e: any) {
+      setInterfaceMessage({
+        color: 'danger',
+        title: `Invalid JSON: ${e.message}`,
+      });
+      return;
+    }
+    setIsSavingInterface(true);
+    setInterfaceMessage(undefined);
+    await dispatch(
+      updateModelInterface({
+        modelId: props.modelId,
+        modelInterface,
+        dataSourceId,
+      })
+    )
+      .unwrap()
+      .then(() => {
+        setInterfaceMessage({
+          color: 'success',
+          title: 'Model interface saved',
+        });
+      })
+      .catch((error: any) => {
+        setInterfaceMessage({ color: 'danger', title: error as string });
+      })
+      .finally(() => {
+        setIsSavingInterface(false);
+      });
+  }
+
+  return (
+    <EuiPanel hasBorder={true} paddingSize="s" data-testid="tryModelPanel">
+      <EuiFlexGroup direction="column" gutterSize="s">
+        <EuiFlexItem grow={false}>
+          <EuiFlexGroup direction="row" justifyContent="spaceBetween">
+            <EuiFlexItem grow={false}>
+              <EuiText size="s">
+                <h4>Try model</h4>
+              </EuiText>
+            </EuiFlexItem>
+            <EuiFlexItem grow={false}>
+              <EuiSmallButton
+                onClick={() => onRun()}
+                isLoading={isRunning}
+                data-testid="runPredictButton"
+              >
+                Run
+              </EuiSmallButton>
+            </EuiFlexItem>
+          </EuiFlexGroup>
+        </EuiFlexItem>
+        <EuiFlexItem grow={false}>
+          <EuiText size="xs" color="subdued">
+            Request
+          </EuiText>
+          <EuiCodeEditor
+            mode="json"
+            theme="textmate"
+            width="100%"
+            height="15vh"
+            value={requestStr}
+            onChange={(input) => setRequestStr(input)}
+            readOnly={false}
+            setOptions={{
+              fontSize: '12px',
+              useWorker: true,
+              wrap: true,
+            }}
+            aria-label="Code Editor"
+            tabSize={2}
+          />
+        </EuiFlexItem>
+        {errorMessage !== undefined && (
+          <EuiFlexItem grow={false}>
+            <EuiCallOut
+              size="s"
+              color="danger"
+              iconType="alert"
+              title={errorMessage}
+            />
+          </EuiFlexItem>
+        )}
+        {responseStr !== '' && (
+          <EuiFlexItem grow={false}>
+            <EuiText size="xs" color="subdued">
+              Response
+            </EuiText>
+            <EuiCodeEditor
+              mode="json"
+              theme="textmate"
+              width="100%"
+              height="20vh"
+              value={responseStr}
+              readOnly={true}
+              setOptions={{
+                fontSize: '12px',
+                autoScrollEditorIntoView: true,
+                wrap: true,
+              }}
+              tabSize={2}
+            />
+          </EuiFlexItem>
+        )}
+        {lastResponse !== undefined && interfaceStr === undefined && (
+          <EuiFlexItem grow={false}>
+            <EuiSmallButtonEmpty
+              iconType="inspect"
+              onClick={() => onInferInterface()}
+              data-testid="inferInterfaceButton"
+            >
+              Infer interface
+            </EuiSmallButtonEmpty>
+          </EuiFlexItem>
+        )}
+        {interfaceStr !== undefined && (
+          <EuiFlexItem grow={false}>
+            <EuiText size="xs" color="subdued">
+              {hasExistingInterface
+                ? 'Inferred interface. Saving will overwrite the existing model interface.'
+                : 'Inferred interface'}
+            </EuiText>
+            <EuiCodeEditor
+              mode="json"
+              theme="textmate"
+              width="100%"
+              height="20vh"
+              value={interfaceStr}
+              onChange={(input) => setInterfaceStr(input)}
+              readOnly={false}
+              setOptions={{
+                fontSize: '12px',
+                useWorker: true,
+                wrap: true,
+              }}
+              aria-label="Code Editor"
+              tabSize={2}
+            />
+            {interfaceMessage !== undefined && (
+              <EuiCallOut
+                size="s"
+                color={interfaceMessage.color}
+                iconType={
+                  interfaceMessage.color === 'success' ? 'check' : 'alert'
+                }
+                title={interfaceMessage.title}
+              />
+            )}
+            <EuiFlexGroup direction="row" gutterSize="s">
+              <EuiFlexItem grow={false}>
+                <EuiSmallButton
+                  onClick={() => onSaveInterface()}
+                  isLoading={isSavingInterface}
+                  data-testid="saveInterfaceButton"
+                >
+                  Save interface
+                </EuiSmallButton>
+              </EuiFlexItem>
+              <EuiFlexItem grow={false}>
+                <EuiSmallButtonEmpty
+                  onClick={() => {
+                    setInterfaceStr(undefined);
+                    setInterfaceMessage(undefined);
+                  }}
+                  data-testid="discardInterfaceButton"
+                >
+                  Discard
+                </EuiSmallButtonEmpty>
+              </EuiFlexItem>
+            </EuiFlexGroup>
+          </EuiFlexItem>
+        )}
+      </EuiFlexGroup>
+    </EuiPanel>
+  );
+}
+
+// Generate a sample predict request body, populating any inputs defined in the model interface
+// with empty values of the expected type.
+function getSamplePredictBody(
+  modelInterface: ModelInterface | undefined
+): { parameters: {} } {
+  const modelInputs = parseModelInputsObj(modelInterface) as ModelInputMap;
+  const parameters = {} as { [key: string]: any };
+  Object.keys(modelInputs).forEach((inputName) => {
+    switch (modelInputs[inputName]?.type) {
+      case 'number':
+      case 'integer': {
+        parameters[inputName] = 0;
+        break;
+      }
+      case 'boolean': {
+        parameters[inputName] = false;
+        break;
+      }
+      case 'array': {
+        parameters[inputName] = [];
+        break;
+      }
+      case 'object': {
+        parameters[inputName] = {};
+        break;
+      }
+      default: {
+        parameters[inputName] = '';
+      }
+    }
+  });
+  return { parameters };
+}
@@ -0,0 +1,55 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { EuiAccordion, EuiFlexItem, EuiSpacer } from '@elastic/eui';
+import {
+  INGEST_PROCESSORS_LINK,
+  IProcessorConfig,
+} from '../../../../../common';
+import { JsonField, TextField } from '../input_fields';
+
+interface ConditionalProcessorInputsProps {
+  config: IProcessorConfig;
+  baseConfigPath: string; // the base path of the nested config, if applicable. e.g., 'ingest.enrich'
+}
+
+/**
+ * Component to render the shared ingest processor inputs for conditionally running
+ * the processor, and for the processors to run if it fails.
+ */
+export function ConditionalProcessorInputs(
+  props: ConditionalProcessorInputsProps
+) {
+  const ifFieldPath = `${props.baseConfigPath}.${props.config.id}.if`;
+  const onFailureFieldPath = `${props.baseConfigPath}.${props.config.id}.on_failure`;
+
+  return (
+    <EuiAccordion
+      id={`conditions${props.config.id}`}
+      buttonContent="Conditions and failure handling"
+      paddingSize="none"
+    >
+      <EuiSpacer size="s" />
+      <EuiFlexItem style={{ marginLeft: '28px' }}>
+        <TextField
+          fieldPath={ifFieldPath}
+          label="Condition - optional"
+          helpText="A Painless condition. The processor only runs on documents where it evaluates to true."
+          helpLink={INGEST_PROCESSORS_LINK}
+          placeholder="ctx.my_text != null"
+          textArea={true}
+          showError={true}
+        />
+        <EuiSpacer size="s" />
+        <JsonField
+          fieldPath={onFailureFieldPath}
+          label="On failure - optional"
+          helpText="A JSON array of ingest processors to run if this processor fails."
+        />
+      </EuiFlexItem>
+    </EuiAccordion>
+  );
+}
@@ -0,0 +1,59 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { EuiSpacer } from '@elastic/eui';
+import {
+  INGEST_PROCESSORS_LINK,
+  IProcessorConfig,
+  PROCESSOR_CONTEXT,
+  SEARCH_PROCESSORS_LINK,
+} from '../../../../../common';
+import { JsonField, TextField } from '../input_fields';
+
+interface CustomProcessorInputsProps {
+  config: IProcessorConfig;
+  baseConfigPath: string; // the base path of the nested config, if applicable. e.g., 'ingest.enrich'
+  context: PROCESSOR_CONTEXT;
+}
+
+/**
+ * Specialized component to render a custom processor. Takes the processor name and its raw
+ * JSON configuration, which are passed through as-is when generating the final pipeline.
+ */
+export function CustomProcessorInputs(props: CustomProcessorInputsProps) {
+  const processorTypeFieldPath = `${props.baseConfigPath}.${props.config.id}.processor_type`;
+  const processorConfigFieldPath = `${props.baseConfigPath}.${props.config.id}.processor_config`;
+
+  return (
+    <>
+      <TextField
+        fieldPath={processorTypeFieldPath}
+        label="Processor name"
+        helpText={
+          props.context === PROCESSOR_CONTEXT.INGEST
+            ? 'The ingest processor type, such as "grok" or "set".'
+            : 'The search processor type, such as "filter_query" or "script".'
+        }
+        helpLink={
+          props.context === PROCESSOR_CONTEXT.INGEST
+            ? INGEST_PROCESSORS_LINK
+            : SEARCH_PROCESSORS_LINK
+        }
+        placeholder={
+          props.context === PROCESSOR_CONTEXT.INGEST ? 'grok' : 'filter_query'
+        }
+        showError={true}
+        preventWhitespace={true}
+      />
+      <EuiSpacer size="s" />
+      <JsonField
+        fieldPath={processorConfigFieldPath}
+        label="Processor configuration"
+        helpText="The processor body as a JSON object. It is added to the pipeline as-is."
+      />
+    </>
+  );
+}
@@ -32,6 +32,7 @@ import {
   EMPTY_OUTPUT_MAP_ENTRY,
   ML_REMOTE_MODEL_LINK,
   FETCH_ALL_QUERY_LARGE,
+  CONDITIONAL_OPTIONAL_FIELDS,
 } from '../../../../../../common';
 import { BooleanField, ModelField } from '../../input_fields';
 import {
@@ -359,7 +360,9 @@ export function MLProcessorInputs(props: MLProcessorInputsProps) {
                     return (
                       optionalField.id !== 'one_to_one' &&
                       // we specially render the ext_output field in <ModelOutputs/>, hence we discard it here to prevent confusion.
-                      optionalField.id !== 'ext_output'
+                      optionalField.id !== 'ext_output' &&
+                      // we render any conditional fields in <ConditionalProcessorInputs/>
+                      !CONDITIONAL_OPTIONAL_FIELDS.includes(optionalField.id)
                     );
                   }
                 )}
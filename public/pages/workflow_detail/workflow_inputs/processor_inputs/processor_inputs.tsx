@@ -7,6 +7,7 @@ import React from 'react';
 import { EuiAccordion, EuiFlexItem, EuiSpacer } from '@elastic/eui';
 import { isEmpty } from 'lodash';
 import {
+  CONDITIONAL_OPTIONAL_FIELDS,
   IProcessorConfig,
   PROCESSOR_CONTEXT,
   PROCESSOR_TYPE,
@@ -16,6 +17,8 @@ import { MLProcessorInputs } from './ml_processor_inputs';
 import { ConfigFieldList } from '../config_field_list';
 import { TextChunkingProcessorInputs } from './text_chunking_processor_inputs';
 import { NormalizationProcessorInputs } from './normalization_processor_inputs';
+import { CustomProcessorInputs } from './custom_processor_inputs';
+import { ConditionalProcessorInputs } from './conditional_processor_inputs';
 
 /**
  * Base component for rendering processor form inputs based on the processor type
@@ -31,9 +34,18 @@ interface ProcessorInputsProps {
 // Component to dynamically render the processor inputs based on the processor types.
 // For most processors, we can use the standard/default ConfigFieldList components
 // for rendering the required and optional fields. For more complex processors, we have
-// standalone, specialized components.
+// standalone, specialized components. Ingest processors additionally share a set of
+// inputs for conditionally running the processor, and for handling any failures.
 export function ProcessorInputs(props: ProcessorInputsProps) {
   const configType = props.config.type;
+  const optionalFields = (props.config.optionalFields || []).filter(
+    (optionalField) => !CONDITIONAL_OPTIONAL_FIELDS.includes(optionalField.id)
+  );
+  const hasConditionalFields =
+    props.context === PROCESSOR_CONTEXT.INGEST &&
+    (props.config.optionalFields || []).some(
+      (optionalField) => optionalField.id === 'if'
+    );
 
   return (
     <EuiFlexItem grow={false}>
@@ -79,6 +91,18 @@ export function ProcessorInputs(props: ProcessorInputsProps) {
             );
             break;
           }
+          case PROCESSOR_TYPE.CUSTOM: {
+            el = (
+              <EuiFlexItem>
+                <CustomProcessorInputs
+                  config={props.config}
+                  baseConfigPath={props.baseConfigPath}
+                  context={props.context}
+                />
+              </EuiFlexItem>
+            );
+            break;
+          }
           default: {
             el = (
               <EuiFlexItem>
@@ -88,7 +112,7 @@ export function ProcessorInputs(props: ProcessorInputsProps) {
                     configFields={props.config.fields}
                     baseConfigPath={props.baseConfigPath}
                   />
-                  {!isEmpty(props.config.optionalFields) && (
+                  {!isEmpty(optionalFields) && (
                     <EuiAccordion
                       id={`advancedSettings${props.config.id}`}
                       buttonContent="Advanced settings"
@@ -98,7 +122,7 @@ export function ProcessorInputs(props: ProcessorInputsProps) {
                       <EuiFlexItem style={{ marginLeft: '28px' }}>
                         <ConfigFieldList
                           configId={props.config.id}
-                          configFields={props.config.optionalFields || []}
+                          configFields={optionalFields}
                           baseConfigPath={props.baseConfigPath}
                         />
                       </EuiFlexItem>
@@ -112,6 +136,15 @@ export function ProcessorInputs(props: ProcessorInputsProps) {
         }
         return el;
       })()}
+      {hasConditionalFields && (
+        <>
+          <EuiSpacer size="s" />
+          <ConditionalProcessorInputs
+            config={props.config}
+            baseConfigPath={props.baseConfigPath}
+          />
+        </>
+      )}
     </EuiFlexItem>
   );
 }
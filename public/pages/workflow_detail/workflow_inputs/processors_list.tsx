@@ -35,25 +35,44 @@ import {
   getDataSourceVersion,
 } from '../../../utils';
 import {
+  AgenticContextProcessor,
+  AgenticQueryTranslatorProcessor,
   CollapseProcessor,
+  ConvertIngestProcessor,
   CopyIngestProcessor,
+  CustomIngestProcessor,
+  CustomSearchRequestProcessor,
+  CustomSearchResponseProcessor,
+  DateIngestProcessor,
+  FilterQueryProcessor,
+  LowercaseIngestProcessor,
   MLIngestProcessor,
   MLSearchRequestProcessor,
   MLSearchResponseProcessor,
+  NeuralQueryEnricherProcessor,
   NormalizationProcessor,
+  OversampleProcessor,
+  RemoveIngestProcessor,
+  RenameIngestProcessor,
   RerankProcessor,
+  ScriptIngestProcessor,
+  ScriptSearchRequestProcessor,
+  SetIngestProcessor,
   SortIngestProcessor,
   SortSearchResponseProcessor,
+  SparseEncodingIngestProcessor,
   SplitIngestProcessor,
   SplitSearchResponseProcessor,
   TextChunkingIngestProcessor,
   TextEmbeddingIngestProcessor,
   TextImageEmbeddingIngestProcessor,
+  TrimIngestProcessor,
 } from '../../../configs';
 import { ProcessorInputs } from './processor_inputs';
 import { useLocation } from 'react-router-dom';
 import { getDataSourceEnabled } from '../../../../public/services';
 import {
+  MIN_AGENTIC_SEARCH_VERSION,
   MIN_SUPPORTED_VERSION,
   MINIMUM_FULL_SUPPORTED_VERSION,
 } from '../../../../common';
@@ -84,6 +103,9 @@ export function ProcessorsList(props: ProcessorsListProps) {
   } = useSelector((state: AppState) => state.errors);
   const { values, errors, touched } = useFormikContext<WorkflowFormValues>();
   const [version, setVersion] = useState<string>('');
+  const [isAgenticSearchSupported, setIsAgenticSearchSupported] = useState<
+    boolean
+  >(false);
   const location = useLocation();
   const [processorAdded, setProcessorAdded] = useState<boolean>(false);
   const [isPopoverOpen, setPopover] = useState(false);
@@ -128,6 +150,22 @@ export function ProcessorsList(props: ProcessorsListProps) {
     }
   }, [location]);
 
+  // The agentic search processors require the exact cluster version, so it is fetched
+  // for the local cluster as well.
+  useEffect(() => {
+    const dataSourceId = getDataSourceFromURL(location).dataSourceId;
+    if (getDataSourceEnabled().enabled && dataSourceId === undefined) {
+      return;
+    }
+    getDataSourceVersion(dataSourceId || '')
+      .then((ver) => {
+        setIsAgenticSearchSupported(
+          ver !== undefined && semver.gte(ver, MIN_AGENTIC_SEARCH_VERSION)
+        );
+      })
+      .catch(console.error);
+  }, [location]);
+
   useEffect(() => {
     const loadProcessors = async () => {
       if (props.uiConfig && props.context) {
@@ -177,6 +215,13 @@ export function ProcessorsList(props: ProcessorsListProps) {
               },
             },
           ]),
+      {
+        name: 'Sparse Encoding Processor',
+        onClick: () => {
+          closePopover();
+          addProcessor(new SparseEncodingIngestProcessor().toObj());
+        },
+      },
       {
         name: 'Split Processor',
         onClick: () => {
@@ -205,6 +250,69 @@ export function ProcessorsList(props: ProcessorsListProps) {
           addProcessor(new CopyIngestProcessor().toObj());
         },
       },
+      {
+        name: 'Set Processor',
+        onClick: () => {
+          closePopover();
+          addProcessor(new SetIngestProcessor().toObj());
+        },
+      },
+      {
+        name: 'Remove Processor',
+        onClick: () => {
+          closePopover();
+          addProcessor(new RemoveIngestProcessor().toObj());
+        },
+      },
+      {
+        name: 'Rename Processor',
+        onClick: () => {
+          closePopover();
+          addProcessor(new RenameIngestProcessor().toObj());
+        },
+      },
+      {
+        name: 'Convert Processor',
+        onClick: () => {
+          closePopover();
+          addProcessor(new ConvertIngestProcessor().toObj());
+        },
+      },
+      {
+        name: 'Date Processor',
+        onClick: () => {
+          closePopover();
+          addProcessor(new DateIngestProcessor().toObj());
+        },
+      },
+      {
+        name: 'Lowercase Processor',
+        onClick: () => {
+          closePopover();
+          addProcessor(new LowercaseIngestProcessor().toObj());
+        },
+      },
+      {
+        name: 'Trim Processor',
+        onClick: () => {
+          closePopover();
+          addProcessor(new TrimIngestProcessor().toObj());
+        },
+      },
+      {
+        name: 'Script Processor',
+        onClick: () => {
+          closePopover();
+          addProcessor(new ScriptIngestProcessor().toObj());
+        },
+      },
+      {
+        name: 'Custom Processor',
+        onClick: () => {
+          closePopover();
+          addProcessor(new CustomIngestProcessor().toObj());
+        },
+      },
     ];
 
     const searchRequestProcessors = [
@@ -219,6 +327,52 @@ export function ProcessorsList(props: ProcessorsListProps) {
             },
           ]
         : []),
+      ...(isAgenticSearchSupported
+        ? [
+            {
+              name: 'Agentic Query Translator Processor',
+              onClick: () => {
+                closePopover();
+                addProcessor(new AgenticQueryTranslatorProcessor().toObj());
+              },
+            },
+          ]
+        : []),
+      {
+        name: 'Filter Query Processor',
+        onClick: () => {
+          closePopover();
+          addProcessor(new FilterQueryProcessor().toObj());
+        },
+      },
+      {
+        name: 'Neural Query Enricher Processor',
+        onClick: () => {
+          closePopover();
+          addProcessor(new NeuralQueryEnricherProcessor().toObj());
+        },
+      },
+      {
+        name: 'Script Processor',
+        onClick: () => {
+          closePopover();
+          addProcessor(new ScriptSearchRequestProcessor().toObj());
+        },
+      },
+      {
+        name: 'Oversample Processor',
+        onClick: () => {
+          closePopover();
+          addProcessor(new OversampleProcessor().toObj());
+        },
+      },
+      {
+        name: 'Custom Processor',
+        onClick: () => {
+          closePopover();
+          addProcessor(new CustomSearchRequestProcessor().toObj());
+        },
+      },
     ];
 
     const searchResponseProcessors = [
@@ -233,6 +387,17 @@ export function ProcessorsList(props: ProcessorsListProps) {
             },
           ]
         : []),
+      ...(isAgenticSearchSupported
+        ? [
+            {
+              name: 'Agentic Context Processor',
+              onClick: () => {
+                closePopover();
+                addProcessor(new AgenticContextProcessor().toObj());
+              },
+            },
+          ]
+        : []),
       {
         name: 'Rerank Processor',
         onClick: () => {
@@ -268,6 +433,13 @@ export function ProcessorsList(props: ProcessorsListProps) {
           addProcessor(new CollapseProcessor().toObj());
         },
       },
+      {
+        name: 'Custom Processor',
+        onClick: () => {
+          closePopover();
+          addProcessor(new CustomSearchResponseProcessor().toObj());
+        },
+      },
     ];
 
     switch (props.context) {
@@ -0,0 +1,48 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import {
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiHealth,
+  EuiProgress,
+  EuiText,
+} from '@elastic/eui';
+import { WorkflowResource } from '../../../../common';
+
+interface ProvisioningProgressProps {
+  resources: WorkflowResource[];
+}
+
+/**
+ * A progress indicator displayed while a workflow is being provisioned.
+ * Lists each resource as it is created.
+ */
+export function ProvisioningProgress(props: ProvisioningProgressProps) {
+  return (
+    <EuiFlexGroup
+      direction="column"
+      gutterSize="xs"
+      data-testid="provisioningProgress"
+    >
+      <EuiFlexItem grow={false}>
+        <EuiText size="s">
+          {`Provisioning resources (${props.resources.length} created)`}
+        </EuiText>
+      </EuiFlexItem>
+      <EuiFlexItem grow={false}>
+        <EuiProgress size="xs" color="primary" />
+      </EuiFlexItem>
+      {props.resources.map((resource) => (
+        <EuiFlexItem grow={false} key={`${resource.type}_${resource.id}`}>
+          <EuiHealth color="success">
+            <EuiText size="xs">{`${resource.type}: ${resource.id}`}</EuiText>
+          </EuiHealth>
+        </EuiFlexItem>
+      ))}
+    </EuiFlexGroup>
+  );
+}
@@ -4,7 +4,8 @@
  */
 
 import React, { useEffect, useState } from 'react';
-import { getIn, useFormikContext } from 'formik';
+import { useSelector } from 'react-redux';
+import { FormikValues, getIn, useFormikContext } from 'formik';
 import { isEmpty, isEqual } from 'lodash';
 import {
   EuiSmallButton,
@@ -24,6 +25,8 @@ import {
 import {
   CONFIG_STEP,
   CachedFormikState,
+  PROCESSOR_CONTEXT,
+  PROVISION_TIMEOUT_MS,
   SimulateIngestPipelineResponseVerbose,
   TemplateNode,
   WORKFLOW_STEP_TYPE,
@@ -31,11 +34,14 @@ import {
   WorkflowConfig,
   WorkflowFormValues,
   WorkflowTemplate,
+  WorkflowTemplateErrors,
   customStringify,
+  sleep,
 } from '../../../../common';
 import { IngestInputs } from './ingest_inputs';
 import { SearchInputs } from './search_inputs';
 import {
+  AppState,
   bulk,
   deprovisionWorkflow,
   getWorkflow,
@@ -44,6 +50,8 @@ import {
   simulatePipeline,
   updateWorkflow,
   useAppDispatch,
+  validateWorkflow,
+  waitForWorkflowState,
 } from '../../../store';
 import { getCore } from '../../../services';
 import {
@@ -57,13 +65,17 @@ import {
   getDataSourceId,
   prepareDocsForSimulate,
   getIngestPipelineErrors,
-  sleep,
   useDataSourceVersion,
-  getIsPreV219,
   useMissingDataSourceVersion,
   getObjsFromJSONLines,
+  hasWorkflowTemplateErrors,
+  getDimensionMismatches,
+  getExpectedEmbeddingDimensions,
+  processorConfigsToTemplateProcessors,
 } from '../../../utils';
 import { BooleanField } from './input_fields';
+import { ProvisioningProgress } from './provisioning_progress';
+import { WorkflowTemplateErrorsCallout } from '../../../general_components';
 import '../workspace/workspace-styles.scss';
 import { ResourcesFlyout } from '../tools/resources/resources_flyout';
 
@@ -105,16 +117,24 @@ export function WorkflowInputs(props: WorkflowInputsProps) {
   const dispatch = useAppDispatch();
   const dataSourceId = getDataSourceId();
   const dataSourceVersion = useDataSourceVersion(dataSourceId);
-  const isPreV219 = getIsPreV219(dataSourceVersion);
   const missingDataSourceVersion = useMissingDataSourceVersion(
     dataSourceId,
     dataSourceVersion
   );
+  const { models, connectors, embeddingDimensions } = useSelector(
+    (state: AppState) => state.ml
+  );
 
   // transient running states
   const [isUpdatingSearchPipeline, setIsUpdatingSearchPipeline] = useState<
     boolean
   >(false);
+  const [isProvisioning, setIsProvisioning] = useState<boolean>(false);
+
+  // workflow template validation errors state
+  const [templateErrors, setTemplateErrors] = useState<
+    WorkflowTemplateErrors | undefined
+  >(undefined);
 
   // provisioned resources states
   const [ingestProvisioned, setIngestProvisioned] = useState<boolean>(false);
@@ -143,6 +163,17 @@ export function WorkflowInputs(props: WorkflowInputsProps) {
   // be deleted without re-creating all of the resources, including ingest resources.
   const searchUpdateDisabled =
     searchProvisioned && isProposingNoSearchResources;
+  // any vector field mappings with a dimension not matching the model output. These
+  // block updating or provisioning the ingest resources.
+  const dimensionMismatches = getDimensionMismatches(
+    getIn(values, 'ingest.index.mappings'),
+    getExpectedEmbeddingDimensions(
+      Object.values(values?.ingest?.enrich || {}) as FormikValues[],
+      models,
+      connectors,
+      embeddingDimensions
+    )
+  );
   // there is an edge case where search resources based on the form should be ignored:
   // that is, when users first create a workflow and are setting up ingest for the first time,
   // where there may be preset form values for search, but should be ignored during the initial ingestion provisioning steps.
@@ -290,6 +321,7 @@ export function WorkflowInputs(props: WorkflowInputsProps) {
   // Utility fn to revert any unsaved changes, reset the form
   function revertUnsavedChanges(): void {
     resetForm();
+    setTemplateErrors(undefined);
     if (props.workflow?.ui_metadata?.config !== undefined) {
       props.setUiConfig(props.workflow?.ui_metadata?.config);
     }
@@ -385,6 +417,66 @@ export function WorkflowInputs(props: WorkflowInputsProps) {
     return success;
   }
 
+  // Utility fn to wait until the workflow has finished provisioning. The workflow state
+  // is long-polled, and re-polled each time new resources are created, such that the
+  // progress can be displayed. Returns any provisioning error. Throws if the workflow
+  // state cannot be fetched.
+  async function waitForProvisioning(
+    workflowId: string
+  ): Promise<string | undefined> {
+    setIsProvisioning(true);
+    try {
+      const startTime = Date.now();
+      let resourceCount = props.workflow?.resourcesCreated?.length || 0;
+      let isFinished = false;
+      let provisionError = undefined as string | undefined;
+      while (!isFinished && Date.now() - startTime < PROVISION_TIMEOUT_MS) {
+        const result = await dispatch(
+          waitForWorkflowState({
+            workflowId,
+            resourceCount,
+            dataSourceId,
+          })
+        ).unwrap();
+        isFinished = result.isFinished;
+        resourceCount = (result.resourcesCreated || []).length;
+        provisionError = result.error;
+      }
+      if (!isFinished) {
+        getCore().notifications.toasts.addWarning(
+          'Provisioning is taking longer than expected. Check back later for the latest status.'
+        );
+      }
+      return provisionError;
+    } finally {
+      setIsProvisioning(false);
+    }
+  }
+
+  // Utility fn to validate the updated workflow template before updating any resources.
+  // Any errors found are displayed inline.
+  async function validateTemplate(updatedWorkflow: Workflow): Promise<boolean> {
+    let isValid = false;
+    await dispatch(
+      validateWorkflow({
+        workflowTemplate: reduceToTemplate(updatedWorkflow),
+      })
+    )
+      .unwrap()
+      .then((result: any) => {
+        const errors = result.errors as WorkflowTemplateErrors;
+        isValid = !hasWorkflowTemplateErrors(errors);
+        setTemplateErrors(isValid ? undefined : errors);
+      })
+      .catch((error: any) => {
+        // if the validation itself fails, don't block the update. any template
+        // errors will still be surfaced when provisioning.
+        isValid = true;
+        console.error('Error validating workflow: ', error);
+      });
+    return isValid;
+  }
+
   // Utility fn to update the workflow, including any updated/new resources.
   // The reprovision param is used to determine whether we are doing full
   // deprovision/update/provision, vs. update w/ reprovision (fine-grained provisioning).
@@ -396,6 +488,8 @@ export function WorkflowInputs(props: WorkflowInputsProps) {
     let success = false;
     if (!ingestTemplatesDifferent && !searchTemplatesDifferent) {
       success = await updateWorkflowUiConfig();
+    } else if (!(await validateTemplate(updatedWorkflow))) {
+      getCore().notifications.toasts.addDanger('Invalid workflow template');
     } else if (reprovision) {
       await dispatch(
         updateWorkflow({
@@ -410,27 +504,27 @@ export function WorkflowInputs(props: WorkflowInputsProps) {
       )
         .unwrap()
         .then(async (result) => {
-          // if the datasource < 2.19, only async provisioning/reprovisioning is supported.
-          // so, we manually wait some time before trying to fetch the updated workflow
-          if (isPreV219) {
-            await sleep(1000);
-          }
           props.setUnsavedIngestProcessors(false);
           props.setUnsavedSearchProcessors(false);
-          success = true;
-          // Kicking off an async task to re-fetch the workflow details
-          // after some amount of time. Provisioning will finish in an indeterminate
-          // amount of time and may be long and expensive; we add this single
-          // auto-fetching to cover the majority of provisioning updates which
-          // are inexpensive and will finish within milliseconds.
-          setTimeout(async () => {
-            dispatch(
-              getWorkflow({
-                workflowId: updatedWorkflow.id as string,
-                dataSourceId,
-              })
+          // Provisioning may finish in an indeterminate amount of time, particularly
+          // if the datasource < 2.19, where only async provisioning/reprovisioning is supported.
+          // So, we wait until the workflow state is finalized before re-fetching the workflow.
+          const provisionError = await waitForProvisioning(
+            updatedWorkflow.id as string
+          );
+          dispatch(
+            getWorkflow({
+              workflowId: updatedWorkflow.id as string,
+              dataSourceId,
+            })
+          );
+          if (isEmpty(provisionError)) {
+            success = true;
+          } else {
+            getCore().notifications.toasts.addDanger(
+              `Error reprovisioning workflow: ${provisionError}`
             );
-          }, 1000);
+          }
         })
         .catch((error: any) => {
           console.error('Error reprovisioning workflow: ', error);
@@ -472,12 +566,9 @@ export function WorkflowInputs(props: WorkflowInputsProps) {
               )
                 .unwrap()
                 .then(async (result) => {
-                  await sleep(100);
-                  // if the datasource < 2.19, only async provisioning/reprovisioning is supported.
-                  // so, we manually wait some time before trying to fetch the updated workflow
-                  if (isPreV219) {
-                    await sleep(1000);
-                  }
+                  const provisionError = await waitForProvisioning(
+                    updatedWorkflow.id as string
+                  );
                   await dispatch(
                     getWorkflow({
                       workflowId: updatedWorkflow.id as string,
@@ -487,12 +578,12 @@ export function WorkflowInputs(props: WorkflowInputsProps) {
                     .unwrap()
                     .then(async (result: any) => {
                       const resultWorkflow = result.workflow as Workflow;
-                      if (isEmpty(resultWorkflow.error)) {
+                      if (isEmpty(provisionError)) {
                         success = true;
                       } else {
                         success = false;
                         getCore().notifications.toasts.addDanger(
-                          `Error creating all resources, rolling back: ${resultWorkflow.error}`
+                          `Error creating all resources, rolling back: ${provisionError}`
                         );
                         await dispatch(
                           deprovisionWorkflow({
@@ -507,14 +598,12 @@ export function WorkflowInputs(props: WorkflowInputsProps) {
                         )
                           .unwrap()
                           .then(async (result) => {
-                            setTimeout(async () => {
-                              await dispatch(
-                                getWorkflow({
-                                  workflowId: updatedWorkflow.id as string,
-                                  dataSourceId,
-                                })
-                              );
-                            }, 1000);
+                            await dispatch(
+                              getWorkflow({
+                                workflowId: updatedWorkflow.id as string,
+                                dataSourceId,
+                              })
+                            );
                           });
                       }
                     });
@@ -558,6 +647,11 @@ export function WorkflowInputs(props: WorkflowInputsProps) {
         if (Object.keys(relevantValidationResults).length > 0) {
           getCore().notifications.toasts.addDanger('Missing or invalid fields');
           console.error('Form invalid');
+        } else if (includeIngest && dimensionMismatches.length > 0) {
+          getCore().notifications.toasts.addDanger(
+            'Vector field dimension does not match the model output'
+          );
+          console.error('Dimension mismatch: ', dimensionMismatches);
         } else {
           setTouched({});
           const updatedConfig = formikToUiConfig(
@@ -629,7 +723,14 @@ export function WorkflowInputs(props: WorkflowInputsProps) {
             )
               .unwrap()
               .then((resp: SimulateIngestPipelineResponseVerbose) => {
-                const ingestPipelineErrors = getIngestPipelineErrors(resp);
+                const ingestPipelineErrors = getIngestPipelineErrors(
+                  resp,
+                  processorConfigsToTemplateProcessors(
+                    formikToUiConfig(values, props.uiConfig as WorkflowConfig)
+                      .ingest.enrich.processors,
+                    PROCESSOR_CONTEXT.INGEST
+                  )
+                );
                 // The errors map may be empty; in which case, this dispatch will clear
                 // any older errors.
                 dispatch(
@@ -793,6 +894,18 @@ export function WorkflowInputs(props: WorkflowInputsProps) {
               <EuiFlexItem>
                 <EuiHorizontalRule margin="m" />
               </EuiFlexItem>
+              {templateErrors !== undefined && (
+                <EuiFlexItem style={{ marginBottom: '16px' }}>
+                  <WorkflowTemplateErrorsCallout errors={templateErrors} />
+                </EuiFlexItem>
+              )}
+              {isProvisioning && (
+                <EuiFlexItem style={{ marginBottom: '16px' }}>
+                  <ProvisioningProgress
+                    resources={props.workflow?.resourcesCreated || []}
+                  />
+                </EuiFlexItem>
+              )}
               <EuiFlexItem>
                 <EuiFlexGroup direction="row" justifyContent="spaceBetween">
                   {onIngest && (
@@ -3,8 +3,9 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useSelector } from 'react-redux';
+import { debounce } from 'lodash';
 import {
   EuiSpacer,
   EuiFlexGroup,
@@ -24,10 +25,13 @@ import {
   EuiCompressedTextArea,
 } from '@elastic/eui';
 import {
+  enrichWorkflowWithUiMetadata,
   getObjFromJsonOrYamlString,
   isValidUiWorkflow,
   isValidWorkflow,
   isCompatibleWorkflow,
+  hasWorkflowTemplateErrors,
+  workflowNameExists as fetchWorkflowNameExists,
 } from '../../../utils';
 import { getCore } from '../../../services';
 import {
@@ -35,15 +39,18 @@ import {
   createWorkflow,
   searchWorkflows,
   useAppDispatch,
+  validateWorkflow,
 } from '../../../store';
 import {
-  FETCH_ALL_QUERY_LARGE,
   MAX_DESCRIPTION_LENGTH,
   PLUGIN_NAME,
   Workflow,
+  WorkflowTemplate,
+  WorkflowTemplateErrors,
   WORKFLOW_NAME_REGEXP,
   WORKFLOW_NAME_RESTRICTIONS,
 } from '../../../../common';
+import { WorkflowTemplateErrorsCallout } from '../../../general_components';
 import { WORKFLOWS_TAB } from '../workflows';
 import {
   getDataSourceId,
@@ -61,14 +68,14 @@ interface ImportWorkflowModalProps {
  * The import workflow modal. Allows uploading local JSON or YAML files to be uploaded, parsed, and
  * created as new workflows. Automatic validation is handled to:
  * 1/ allow upload (valid workflow with UI data),
- * 2/ warn and allow upload (valid workflow but missing/no UI data), and
+ * 2/ warn and allow upload (valid workflow but missing/no UI data, which is generated from the template), and
  * 3/ prevent upload (invalid workflow).
  */
 export function ImportWorkflowModal(props: ImportWorkflowModalProps) {
   const dispatch = useAppDispatch();
   const dataSourceId = getDataSourceId();
   const dataSourceVersion = useDataSourceVersion(dataSourceId);
-  const { workflows } = useSelector((state: AppState) => state.workflows);
+  const { searchParams } = useSelector((state: AppState) => state.workflows);
 
   // workflow name state
   const [workflowName, setWorkflowName] = useState<string>('');
@@ -83,9 +90,21 @@ export function ImportWorkflowModal(props: ImportWorkflowModalProps) {
       workflowNameExists
     );
   }
-  const workflowNameExists = Object.values(workflows || {})
-    .map((workflow) => workflow.name)
-    .includes(workflowName);
+  const [workflowNameExists, setWorkflowNameExists] = useState<boolean>(
+    false
+  );
+  const debounceCheckWorkflowNameExists = useMemo(
+    () =>
+      debounce(async (name: string) => {
+        setWorkflowNameExists(
+          name !== '' && (await fetchWorkflowNameExists(name, dataSourceId))
+        );
+      }, 200),
+    [dataSourceId]
+  );
+  useEffect(() => {
+    debounceCheckWorkflowNameExists(workflowName);
+  }, [workflowName]);
 
   // workflow description state
   const [workflowDescription, setWorkflowDescription] = useState<string>('');
@@ -135,6 +154,28 @@ export function ImportWorkflowModal(props: ImportWorkflowModalProps) {
     checkCompatibility();
   }, [fileObj, dataSourceId]);
 
+  // validate the uploaded workflow template, and display any errors found
+  const [templateErrors, setTemplateErrors] = useState<
+    WorkflowTemplateErrors | undefined
+  >(undefined);
+  useEffect(() => {
+    setTemplateErrors(undefined);
+    if (isValidWorkflow(fileObj)) {
+      dispatch(
+        validateWorkflow({
+          workflowTemplate: fileObj as WorkflowTemplate,
+        })
+      )
+        .unwrap()
+        .then((result) => {
+          setTemplateErrors(result.errors as WorkflowTemplateErrors);
+        })
+        .catch((error: any) => {
+          console.error('Error validating workflow: ', error);
+        });
+    }
+  }, [fileObj]);
+
   function onModalClose(): void {
     props.setIsImportModalOpen(false);
     setFileContents(undefined);
@@ -176,11 +217,23 @@ export function ImportWorkflowModal(props: ImportWorkflowModalProps) {
               <EuiSpacer size="m" />
             </>
           )}
+          {isValidWorkflow(fileObj) &&
+            hasWorkflowTemplateErrors(templateErrors) && (
+              <>
+                <EuiFlexItem>
+                  <WorkflowTemplateErrorsCallout
+                    title="The uploaded workflow template is invalid. Fix the following errors and upload the file again."
+                    errors={templateErrors as WorkflowTemplateErrors}
+                  />
+                </EuiFlexItem>
+                <EuiSpacer size="m" />
+              </>
+            )}
           {isValidWorkflow(fileObj) && !isValidUiWorkflow(fileObj) && (
             <>
               <EuiFlexItem>
                 <EuiCallOut
-                  title={`This project is not compatible with ${PLUGIN_NAME}. You may not be able to edit or run it.`}
+                  title={`This project was not created with ${PLUGIN_NAME}. Its configuration will be generated from the workflow template, and may not include all of its resources.`}
                   iconType={'help'}
                   color="warning"
                 />
@@ -265,6 +318,7 @@ export function ImportWorkflowModal(props: ImportWorkflowModalProps) {
           disabled={
             !isValidWorkflow(fileObj) ||
             !isCompatible ||
+            hasWorkflowTemplateErrors(templateErrors) ||
             isImporting ||
             isInvalidName(workflowName) ||
             isInvalidDescription(workflowDescription)
@@ -274,23 +328,26 @@ export function ImportWorkflowModal(props: ImportWorkflowModalProps) {
             setIsImporting(true);
             dispatch(
               createWorkflow({
-                apiBody: {
+                apiBody: enrichWorkflowWithUiMetadata({
                   ...(fileObj as Workflow),
                   name: workflowName,
                   description: workflowDescription,
-                },
+                }),
                 dataSourceId,
               })
             )
               .unwrap()
               .then((result) => {
                 const { workflow } = result;
-                dispatch(
-                  searchWorkflows({
-                    apiBody: FETCH_ALL_QUERY_LARGE,
-                    dataSourceId,
-                  })
-                );
+                // refresh the current page of workflows, if already fetched
+                if (searchParams !== undefined) {
+                  dispatch(
+                    searchWorkflows({
+                      params: searchParams,
+                      dataSourceId,
+                    })
+                  );
+                }
                 props.setSelectedTabId(WORKFLOWS_TAB.MANAGE);
                 getCore().notifications.toasts.addSuccess(
                   `Successfully imported ${workflow.name}`
@@ -33,9 +33,7 @@ import {
   getDataSourceVersion,
 } from '../../../utils';
 import { getDataSourceEnabled } from '../../../services';
-import semver from 'semver';
 import {
-  WORKFLOW_TYPE,
   MIN_SUPPORTED_VERSION,
   MINIMUM_FULL_SUPPORTED_VERSION,
 } from '../../../../common/constants';
@@ -43,47 +41,6 @@ import { getLocalClusterVersion } from '../../../store/reducers/opensearch_reduc
 
 interface NewWorkflowProps {}
 
-const filterPresetsByVersion = async (
-  workflows: WorkflowTemplate[],
-  dataSourceId: string | undefined
-): Promise<WorkflowTemplate[]> => {
-  // if MDS is disabled, skip the version check and assume it is version 2.19+
-  const dataSourceEnabled = getDataSourceEnabled().enabled;
-  if (!dataSourceEnabled) {
-    return workflows;
-  }
-
-  if (dataSourceId === undefined) {
-    return [];
-  }
-
-  const allowedPresetsFor217 = [
-    WORKFLOW_TYPE.SEMANTIC_SEARCH,
-    WORKFLOW_TYPE.MULTIMODAL_SEARCH,
-    WORKFLOW_TYPE.HYBRID_SEARCH,
-    WORKFLOW_TYPE.CUSTOM,
-  ];
-
-  const version =
-    (await getDataSourceVersion(dataSourceId)) || MIN_SUPPORTED_VERSION;
-
-  if (semver.lt(version, MIN_SUPPORTED_VERSION)) {
-    return [];
-  }
-
-  if (
-    semver.gte(version, MIN_SUPPORTED_VERSION) &&
-    semver.lt(version, MINIMUM_FULL_SUPPORTED_VERSION)
-  ) {
-    return workflows.filter((workflow) => {
-      const workflowType = workflow.ui_metadata?.type ?? WORKFLOW_TYPE.UNKNOWN;
-      return allowedPresetsFor217.includes(workflowType as WORKFLOW_TYPE);
-    });
-  }
-
-  return workflows;
-};
-
 /**
  * Contains the searchable library of templated workflows based
  * on a variety of use cases. Can click on them to load in a pre-configured
@@ -119,7 +76,7 @@ export function NewWorkflow(props: NewWorkflowProps) {
   //    so we optimize by fetching once at the top-level here.
   // 3. fetch local cluster version if applicable
   useEffect(() => {
-    dispatch(getWorkflowPresets());
+    fetchPresets();
     if (isDataSourceReady(dataSourceId)) {
       dispatch(searchModels({ apiBody: FETCH_ALL_QUERY_LARGE, dataSourceId }));
       dispatch(
@@ -132,6 +89,18 @@ export function NewWorkflow(props: NewWorkflowProps) {
     }
   }, [dataSourceId, dataSourceEnabled]);
 
+  // fetch the presets compatible with the selected data source version. if MDS is disabled,
+  // skip the version check and fetch all presets.
+  async function fetchPresets() {
+    if (!dataSourceEnabled) {
+      dispatch(getWorkflowPresets({}));
+    } else if (dataSourceId !== undefined) {
+      const dataSourceVersion =
+        (await getDataSourceVersion(dataSourceId)) || MIN_SUPPORTED_VERSION;
+      dispatch(getWorkflowPresets({ dataSourceVersion }));
+    }
+  }
+
   // initial hook to populate all workflows
   // enrich them with dynamically-generated UI flows based on use case
   useEffect(() => {
@@ -167,13 +136,8 @@ export function NewWorkflow(props: NewWorkflowProps) {
         enrichPresetWorkflowWithUiMetadata(presetWorkflow, version)
       );
 
-      const versionFilteredWorkflows = await filterPresetsByVersion(
-        enrichedWorkflows,
-        dataSourceId
-      );
-
-      setAllWorkflows(versionFilteredWorkflows);
-      setFilteredWorkflows(versionFilteredWorkflows);
+      setAllWorkflows(enrichedWorkflows);
+      setFilteredWorkflows(enrichedWorkflows);
     };
 
     loadWorkflows();
@@ -60,8 +60,13 @@ import {
   ML_REMOTE_MODEL_LINK,
   MODEL_CATEGORY,
   isRAGUseCase,
+  isSparseSearchUseCase,
 } from '../../../../common';
-import { APP_PATH, getInitialValue } from '../../../utils';
+import {
+  APP_PATH,
+  getInitialValue,
+  workflowNameExists,
+} from '../../../utils';
 import { AppState, createWorkflow, useAppDispatch } from '../../../store';
 import {
   constructUrlWithParams,
@@ -86,7 +91,6 @@ export function QuickConfigureModal(props: QuickConfigureModalProps) {
   const dataSourceId = getDataSourceId();
   const history = useHistory();
   const { models, connectors } = useSelector((state: AppState) => state.ml);
-  const { workflows } = useSelector((state: AppState) => state.workflows);
 
   // is creating state
   const [isCreating, setIsCreating] = useState<boolean>(false);
@@ -122,11 +126,10 @@ export function QuickConfigureModal(props: QuickConfigureModalProps) {
         .test(
           'workflowName',
           'This workflow name is already in use. Use a different name',
-          (name) => {
+          async (name) => {
             return !(
-              Object.values(workflows || {})
-                .map((workflow) => workflow.name)
-                .includes(name || '') && name !== props.workflow?.name
+              name !== props.workflow?.name &&
+              (await workflowNameExists(name || '', dataSourceId))
             );
           }
         )
@@ -206,11 +209,15 @@ export function QuickConfigureModal(props: QuickConfigureModalProps) {
     }
   }, [models]);
 
-  // Try to pre-fill the dimensions if an embedding model is selected
+  // Try to pre-fill the dimensions if an embedding model is selected.
+  // Sparse embeddings have no fixed dimension, so there is nothing to pre-fill.
   const [unknownEmbeddingLength, setUnknownEmbeddingLength] = useState<boolean>(
     false
   );
   useEffect(() => {
+    if (isSparseSearchUseCase(props.workflow?.ui_metadata?.type)) {
+      return;
+    }
     const selectedModel = deployedModels.find(
       (model) => model.id === quickConfigureFields?.embeddingModelId
     );
@@ -330,7 +337,13 @@ export function QuickConfigureModal(props: QuickConfigureModalProps) {
                           fieldPath="embeddingModel"
                           showMissingInterfaceCallout={false}
                           label="Embedding model"
-                          helpText="The model to generate embeddings."
+                          helpText={
+                            isSparseSearchUseCase(
+                              props.workflow?.ui_metadata?.type
+                            )
+                              ? 'The sparse encoding model to generate token-weight embeddings.'
+                              : 'The model to generate embeddings.'
+                          }
                           fullWidth={true}
                           showError={true}
                           onModelChange={(modelId) =>
@@ -444,7 +457,8 @@ function injectQuickConfigureFields(
           );
           workflow.ui_metadata.config = updateIndexConfig(
             workflow.ui_metadata.config,
-            quickConfigureFields
+            quickConfigureFields,
+            isSparseSearchUseCase(workflow?.ui_metadata?.type)
           );
           workflow.ui_metadata.config.search.request.value = injectPlaceholderValues(
             (workflow.ui_metadata.config.search.request.value || '') as string,
@@ -459,6 +473,26 @@ function injectQuickConfigureFields(
         }
         break;
       }
+      case WORKFLOW_TYPE.SPARSE_SEARCH: {
+        if (!isEmpty(quickConfigureFields) && workflow.ui_metadata?.config) {
+          workflow.ui_metadata.config = updateIngestProcessors(
+            workflow.ui_metadata.config,
+            quickConfigureFields,
+            embeddingModelInterface,
+            isVectorSearchUseCase(workflow?.ui_metadata?.type)
+          );
+          workflow.ui_metadata.config = updateIndexConfig(
+            workflow.ui_metadata.config,
+            quickConfigureFields,
+            isSparseSearchUseCase(workflow?.ui_metadata?.type)
+          );
+          workflow.ui_metadata.config.search.request.value = injectPlaceholderValues(
+            (workflow.ui_metadata.config.search.request.value || '') as string,
+            quickConfigureFields
+          );
+        }
+        break;
+      }
       case WORKFLOW_TYPE.VECTOR_SEARCH_WITH_RAG:
       case WORKFLOW_TYPE.HYBRID_SEARCH_WITH_RAG: {
         if (!isEmpty(quickConfigureFields) && workflow.ui_metadata?.config) {
@@ -470,7 +504,8 @@ function injectQuickConfigureFields(
           );
           workflow.ui_metadata.config = updateIndexConfig(
             workflow.ui_metadata.config,
-            quickConfigureFields
+            quickConfigureFields,
+            isSparseSearchUseCase(workflow?.ui_metadata?.type)
           );
           workflow.ui_metadata.config.search.request.value = injectPlaceholderValues(
             (workflow.ui_metadata.config.search.request.value || '') as string,
@@ -586,7 +621,10 @@ function updateIngestProcessors(
           field.value = [outputMap] as OutputMapArrayFormValue;
         }
       });
-    } else if (processor.type === PROCESSOR_TYPE.TEXT_EMBEDDING) {
+    } else if (
+      processor.type === PROCESSOR_TYPE.TEXT_EMBEDDING ||
+      processor.type === PROCESSOR_TYPE.SPARSE_ENCODING
+    ) {
       config.ingest.enrich.processors[idx].fields.forEach((field) => {
         if (field.id === 'model' && fields.embeddingModelId) {
           field.value = { id: fields.embeddingModelId };
@@ -792,10 +830,12 @@ function updateRAGSearchResponseProcessors(
   return config;
 }
 
-// prefill index mappings/settings, if applicable
+// prefill index mappings/settings, if applicable.
+// sparse vectors are mapped as rank_features, which have no dimension.
 function updateIndexConfig(
   config: WorkflowConfig,
-  fields: QuickConfigureFields
+  fields: QuickConfigureFields,
+  isSparseSearchUseCase: boolean
 ): WorkflowConfig {
   if (
     fields.textField ||
@@ -823,10 +863,14 @@ function updateIndexConfig(
       };
     }
     if (fields.vectorField) {
-      properties[fields.vectorField] = {
-        type: 'knn_vector',
-        dimension: fields.embeddingLength || '',
-      };
+      properties[fields.vectorField] = isSparseSearchUseCase
+        ? {
+            type: 'rank_features',
+          }
+        : {
+            type: 'knn_vector',
+            dimension: fields.embeddingLength || '',
+          };
     }
     if (fields.labelField) {
       properties[fields.labelField] = {
@@ -19,6 +19,7 @@ import {
 import {
   DEFAULT_IMAGE_FIELD,
   DEFAULT_LLM_RESPONSE_FIELD,
+  DEFAULT_SPARSE_VECTOR_FIELD,
   DEFAULT_TEXT_FIELD,
   DEFAULT_VECTOR_FIELD,
   MODEL_STATE,
@@ -27,6 +28,7 @@ import {
   QuickConfigureFields,
   WORKFLOW_TYPE,
   isRAGUseCase,
+  isSparseSearchUseCase,
   isVectorSearchUseCase,
 } from '../../../../common';
 import { AppState } from '../../../store';
@@ -74,6 +76,13 @@ export function QuickConfigureOptionalFields(
         };
         break;
       }
+      case WORKFLOW_TYPE.SPARSE_SEARCH: {
+        defaultFieldValues = {
+          textField: DEFAULT_TEXT_FIELD,
+          vectorField: DEFAULT_SPARSE_VECTOR_FIELD,
+        };
+        break;
+      }
       case WORKFLOW_TYPE.MULTIMODAL_SEARCH: {
         defaultFieldValues = {
           textField: DEFAULT_TEXT_FIELD,
@@ -128,6 +137,9 @@ export function QuickConfigureOptionalFields(
     false
   );
   useEffect(() => {
+    if (isSparseSearchUseCase(props.workflowType)) {
+      return;
+    }
     const selectedModel = deployedModels.find(
       (model) => model.id === props.fields?.embeddingModelId
     );
@@ -195,7 +207,11 @@ export function QuickConfigureOptionalFields(
               fullWidth={true}
               label={'Vector field'}
               isInvalid={false}
-              helpText="The name of the document field containing the vector embedding."
+              helpText={
+                isSparseSearchUseCase(props.workflowType)
+                  ? 'The name of the document field containing the sparse vector embedding.'
+                  : 'The name of the document field containing the vector embedding.'
+              }
             >
               <EuiCompressedFieldText
                 fullWidth={true}
@@ -8,6 +8,7 @@ import {
   MLSearchRequestProcessor,
   MLSearchResponseProcessor,
   NormalizationProcessor,
+  SparseEncodingIngestProcessor,
   TextEmbeddingIngestProcessor,
   TextImageEmbeddingIngestProcessor,
 } from '../../../configs';
@@ -29,6 +30,7 @@ import {
   MULTIMODAL_SEARCH_QUERY_NEURAL,
   HYBRID_SEARCH_QUERY_MATCH_NEURAL,
   MATCH_QUERY_TEXT,
+  SPARSE_SEARCH_QUERY_NEURAL_SPARSE,
 } from '../../../../common';
 import { generateId } from '../../../utils';
 import semver from 'semver';
@@ -56,6 +58,10 @@ export function enrichPresetWorkflowWithUiMetadata(
       uiMetadata = fetchHybridSearchMetadata(workflowVersion);
       break;
     }
+    case WORKFLOW_TYPE.SPARSE_SEARCH: {
+      uiMetadata = fetchSparseSearchMetadata();
+      break;
+    }
     case WORKFLOW_TYPE.VECTOR_SEARCH_WITH_RAG: {
       uiMetadata = fetchVectorSearchWithRAGMetadata(workflowVersion);
       break;
@@ -243,6 +249,25 @@ export function fetchHybridSearchMetadata(version: string): UIState {
   return baseState;
 }
 
+// Sparse vectors are stored in a rank_features field, so no knn settings are needed.
+// The neural_sparse query generates the sparse query vector using the same model.
+export function fetchSparseSearchMetadata(): UIState {
+  let baseState = fetchEmptyMetadata();
+  baseState.type = WORKFLOW_TYPE.SPARSE_SEARCH;
+
+  baseState.config.ingest.enrich.processors = [
+    new SparseEncodingIngestProcessor().toObj(),
+  ];
+
+  baseState.config.ingest.index.name.value = generateId('sparse_index', 6);
+
+  baseState.config.search.request.value = customStringify(
+    SPARSE_SEARCH_QUERY_NEURAL_SPARSE
+  );
+
+  return baseState;
+}
+
 export function fetchVectorSearchWithRAGMetadata(version: string): UIState {
   let baseState = fetchEmptyMetadata();
   baseState.type = WORKFLOW_TYPE.VECTOR_SEARCH_WITH_RAG;
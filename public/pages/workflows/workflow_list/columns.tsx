@@ -41,7 +41,7 @@ export const columns = (actions: any[]) => {
       field: 'ui_metadata.type',
       name: 'Type',
       width: '25%',
-      sortable: true,
+      sortable: false,
     },
     {
       field: 'description',
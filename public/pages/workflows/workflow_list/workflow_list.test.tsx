@@ -11,10 +11,12 @@ import { Provider } from 'react-redux';
 import { BrowserRouter as Router, Route, Switch } from 'react-router-dom';
 import { WorkflowList } from './workflow_list';
 import { mockStore } from '../../../../test/utils';
-import { WORKFLOW_TYPE } from '../../../../common';
-import configureStore from 'redux-mock-store';
+import {
+  SORT_ORDER,
+  WORKFLOW_SORT_FIELD,
+  WORKFLOW_TYPE,
+} from '../../../../common';
 import { WorkflowInput } from '../../../../test/interfaces';
-import { INITIAL_OPENSEARCH_STATE } from '../../../store';
 
 jest.mock('../../../services', () => {
   const { mockCoreServices } = require('../../../../test');
@@ -24,7 +26,14 @@ jest.mock('../../../services', () => {
   };
 });
 
-const workflowSet: WorkflowInput[] = Array.from({ length: 20 }, (_, index) => ({
+// Return the thunk args as the dispatched action, so the search params can be verified
+jest.mock('../../../store', () => ({
+  ...jest.requireActual('../../../store'),
+  searchWorkflows: jest.fn((args) => args),
+}));
+
+// Only a single page of workflows is persisted in the store
+const workflowSet: WorkflowInput[] = Array.from({ length: 10 }, (_, index) => ({
   id: `workflow_id_${index}`,
   name: `workflow_name_${index}`,
   type: Object.values(WORKFLOW_TYPE)[
@@ -32,18 +41,18 @@ const workflowSet: WorkflowInput[] = Array.from({ length: 20 }, (_, index) => ({
   ],
 }));
 
-const mockStore1 = configureStore([]);
-const initialState = {
-  opensearch: INITIAL_OPENSEARCH_STATE,
-  workflows: {
-    loading: false,
-    errorMessage: '',
-    workflows: mockStore(...workflowSet).getState().workflows.workflows, // The `mockStore` used here is from the Test Utils.
-  },
+const baseStore = mockStore(...workflowSet);
+const store = {
+  ...baseStore,
+  getState: () => ({
+    ...baseStore.getState(),
+    workflows: {
+      ...baseStore.getState().workflows,
+      totalWorkflows: 20,
+    },
+  }),
 };
 
-const store = mockStore1(initialState);
-
 const renderWithRouter = () =>
   render(
     <Provider store={store}>
@@ -55,6 +64,12 @@ const renderWithRouter = () =>
     </Provider>
   );
 
+// Get the search params from the most recent search workflows dispatch
+function getLatestSearchParams() {
+  const calls = store.dispatch.mock.calls;
+  return calls[calls.length - 1][0].params;
+}
+
 describe('WorkflowList', () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -68,10 +83,21 @@ describe('WorkflowList', () => {
     expect(getAllByText('workflow_name_0').length).toBeGreaterThan(0);
   });
 
-  test('sorting functionality', async () => {
-    const { container, getAllByText, queryByText } = renderWithRouter();
-    expect(getAllByText('workflow_name_0').length).toBeGreaterThan(0);
+  test('fetches the first page of workflows', () => {
+    renderWithRouter();
+    expect(getLatestSearchParams()).toEqual({
+      from: 0,
+      size: 10,
+      sortField: WORKFLOW_SORT_FIELD.NAME,
+      sortOrder: SORT_ORDER.ASC,
+      namePrefix: undefined,
+      types: undefined,
+      states: undefined,
+    });
+  });
 
+  test('sorting functionality', async () => {
+    const { container } = renderWithRouter();
     const sortButtons = container.querySelectorAll(
       '[data-test-subj="tableHeaderSortButton"]'
     );
@@ -80,45 +106,35 @@ describe('WorkflowList', () => {
     expect(sortButtons[0]).toBeInTheDocument();
     userEvent.click(sortButtons[0]!);
     await waitFor(() => {
-      expect(queryByText('workflow_name_19')).toBeInTheDocument();
+      expect(getLatestSearchParams()).toEqual(
+        expect.objectContaining({
+          sortField: WORKFLOW_SORT_FIELD.NAME,
+          sortOrder: SORT_ORDER.DESC,
+        })
+      );
     });
-    expect(queryByText('workflow_name_0')).toBeNull();
 
-    userEvent.click(sortButtons[0]!);
-    await waitFor(() => {
-      expect(queryByText('workflow_name_0')).toBeInTheDocument();
-    });
-    expect(queryByText('workflow_name_9')).toBeInTheDocument();
-    expect(queryByText('workflow_name_10')).toBeNull();
-    expect(queryByText('workflow_name_19')).toBeNull();
-
-    // Sort workflows list by Type
+    // Sort workflows list by Last saved
     expect(sortButtons[1]).toBeInTheDocument();
     userEvent.click(sortButtons[1]!);
     await waitFor(() => {
-      expect(getAllByText('Custom Search').length).toBeGreaterThan(0);
+      expect(getLatestSearchParams()).toEqual(
+        expect.objectContaining({
+          sortField: WORKFLOW_SORT_FIELD.LAST_UPDATED,
+        })
+      );
     });
-    expect(queryByText('Unknown')).toBeNull();
-
-    userEvent.click(sortButtons[1]!);
-    await waitFor(() => {
-      expect(queryByText('Unknown')).toBeNull();
-    });
-    expect(getAllByText('Custom Search').length).toBeGreaterThan(0);
   });
 
   test('pagination functionality', async () => {
-    const { container, getByText, queryByText } = renderWithRouter();
+    const { container, getByText } = renderWithRouter();
 
     // Rows per page 10
     const rowsPerPageButton = container.querySelector(
       '[data-test-subj="tablePaginationPopoverButton"]'
     ) as HTMLButtonElement;
     expect(rowsPerPageButton).toHaveTextContent('Rows per page: 10');
-
-    // Default view 10 items per page
     expect(getByText('workflow_name_0')).toBeInTheDocument();
-    expect(queryByText('workflow_name_19')).toBeNull();
 
     // Navigate to next page
     const nextButton = container.querySelector(
@@ -126,9 +142,10 @@ describe('WorkflowList', () => {
     ) as HTMLButtonElement;
     userEvent.click(nextButton);
     await waitFor(() => {
-      expect(getByText('workflow_name_19')).toBeInTheDocument();
+      expect(getLatestSearchParams()).toEqual(
+        expect.objectContaining({ from: 10, size: 10 })
+      );
     });
-    expect(queryByText('workflow_name_0')).toBeNull();
 
     // Navigate to previous page
     const previousButton = container.querySelector(
@@ -136,9 +153,10 @@ describe('WorkflowList', () => {
     ) as HTMLButtonElement;
     userEvent.click(previousButton);
     await waitFor(() => {
-      expect(getByText('workflow_name_0')).toBeInTheDocument();
+      expect(getLatestSearchParams()).toEqual(
+        expect.objectContaining({ from: 0, size: 10 })
+      );
     });
-    expect(queryByText('workflow_name_19')).toBeNull();
   });
 
   test('delete action functionality', async () => {
@@ -166,14 +184,14 @@ describe('WorkflowList', () => {
   });
 
   test('search functionality ', async () => {
-    const { getByText, getByPlaceholderText, queryByText } = renderWithRouter();
+    const { getByPlaceholderText } = renderWithRouter();
 
     // Search by Name
     userEvent.type(getByPlaceholderText('Search'), 'name_18');
     await waitFor(() => {
-      expect(getByText('workflow_name_18')).toBeInTheDocument();
+      expect(getLatestSearchParams()).toEqual(
+        expect.objectContaining({ from: 0, namePrefix: 'name_18' })
+      );
     });
-    expect(queryByText('workflow_name_19')).toBeNull();
-    expect(queryByText('workflow_name_0')).toBeNull();
   });
 });
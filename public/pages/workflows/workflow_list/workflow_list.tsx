@@ -3,60 +3,65 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useSelector } from 'react-redux';
 import { debounce } from 'lodash';
 import semver from 'semver';
 import {
-  EuiInMemoryTable,
+  EuiBasicTable,
+  Criteria,
   Direction,
   EuiFlexGroup,
   EuiFlexItem,
   EuiFilterSelectItem,
   EuiCompressedFieldSearch,
-  EuiLoadingSpinner,
   EuiFlyout,
   EuiFlyoutHeader,
   EuiText,
   EuiFlyoutBody,
   EuiEmptyPrompt,
   EuiSpacer,
+  EuiSmallButtonEmpty,
 } from '@elastic/eui';
-import { AppState } from '../../../store';
+import { AppState, searchWorkflows, useAppDispatch } from '../../../store';
 import {
   EMPTY_FIELD_STRING,
   MAX_WORKFLOW_NAME_TO_DISPLAY,
   MINIMUM_FULL_SUPPORTED_VERSION,
+  SORT_ORDER,
   UIState,
+  WORKFLOWS_PAGE_SIZE_OPTIONS,
+  WORKFLOW_SORT_FIELD,
+  WORKFLOW_STATE,
   WORKFLOW_TYPE,
   WORKFLOW_TYPE_LEGACY,
   Workflow,
+  WorkflowSearchParams,
   getCharacterLimitedString,
 } from '../../../../common';
 import { columns } from './columns';
-import { MultiSelectFilter } from '../../../general_components';
+import {
+  ModelsFlyout,
+  MultiSelectFilter,
+} from '../../../general_components';
 import { WORKFLOWS_TAB } from '../workflows';
 import { DeleteWorkflowModal } from './delete_workflow_modal';
 import { ResourceList } from './resource_list';
-import { isValidUiWorkflow } from '../../../utils';
+import { isDataSourceReady, isValidUiWorkflow } from '../../../utils';
 
 interface WorkflowListProps {
   setSelectedTabId: (tabId: WORKFLOWS_TAB) => void;
+  dataSourceId?: string;
   dataSourceVersion?: string;
 }
 
-const sorting = {
-  sort: {
-    field: 'name',
-    direction: 'asc' as Direction,
-  },
-};
-
 /**
- * The searchable list of created workflows.
+ * The searchable list of created workflows. Searching, filtering, sorting, and
+ * pagination are all executed server-side; only the current page of workflows is fetched.
  */
 export function WorkflowList(props: WorkflowListProps) {
-  const { workflows, loading } = useSelector(
+  const dispatch = useAppDispatch();
+  const { workflows, totalWorkflows, loading } = useSelector(
     (state: AppState) => state.workflows
   );
 
@@ -72,6 +77,13 @@ export function WorkflowList(props: WorkflowListProps) {
       checked: 'on',
     } as EuiFilterSelectItem;
   });
+  const stateFilterOptions = Object.values(WORKFLOW_STATE).map((state) => {
+    // @ts-ignore
+    return {
+      name: state,
+      checked: 'on',
+    } as EuiFilterSelectItem;
+  });
 
   // actions state
   const [selectedWorkflow, setSelectedWorkflow] = useState<
@@ -90,28 +102,89 @@ export function WorkflowList(props: WorkflowListProps) {
     false
   );
 
+  // models flyout state
+  const [isModelsFlyoutOpen, setIsModelsFlyoutOpen] = useState<boolean>(false);
+
+  // pagination & sorting state
+  const [pageIndex, setPageIndex] = useState<number>(0);
+  const [pageSize, setPageSize] = useState<number>(
+    WORKFLOWS_PAGE_SIZE_OPTIONS[0]
+  );
+  const [sortField, setSortField] = useState<WORKFLOW_SORT_FIELD>(
+    WORKFLOW_SORT_FIELD.NAME
+  );
+  const [sortOrder, setSortOrder] = useState<SORT_ORDER>(SORT_ORDER.ASC);
+
   // search bar state
   const [searchQuery, setSearchQuery] = useState<string>('');
-  const debounceSearchQuery = debounce((query: string) => {
-    setSearchQuery(query);
-  }, 200);
+  const debounceSearchQuery = useMemo(
+    () =>
+      debounce((query: string) => {
+        setSearchQuery(query);
+        setPageIndex(0);
+      }, 200),
+    []
+  );
 
   // filters state
   const [selectedTypes, setSelectedTypes] = useState<EuiFilterSelectItem[]>(
     filterOptions
   );
-  const [filteredWorkflows, setFilteredWorkflows] = useState<Workflow[]>([]);
+  const [selectedStates, setSelectedStates] = useState<EuiFilterSelectItem[]>(
+    stateFilterOptions
+  );
+  // if all filter options are de-selected, no workflows can match
+  const noMatchingFilters =
+    selectedTypes.length === 0 || selectedStates.length === 0;
 
-  // When any filter changes or new workflows are found, update the list
+  // When any search param changes, or the data source changes, fetch the new page of workflows
   useEffect(() => {
-    setFilteredWorkflows(
-      fetchFilteredWorkflows(
-        Object.values(workflows || {}),
-        selectedTypes,
-        searchQuery
-      )
-    );
-  }, [selectedTypes, searchQuery, workflows]);
+    // wait until selected data source is ready before doing dispatch calls if mds is enabled
+    if (isDataSourceReady(props.dataSourceId) && !noMatchingFilters) {
+      dispatch(
+        searchWorkflows({
+          dataSourceId: props.dataSourceId,
+          params: getWorkflowSearchParams(
+            pageIndex,
+            pageSize,
+            sortField,
+            sortOrder,
+            searchQuery,
+            selectedTypes.length < filterOptions.length
+              ? selectedTypes
+              : undefined,
+            selectedStates.length < stateFilterOptions.length
+              ? selectedStates
+              : undefined
+          ),
+        })
+      );
+    }
+  }, [
+    pageIndex,
+    pageSize,
+    sortField,
+    sortOrder,
+    searchQuery,
+    selectedTypes,
+    selectedStates,
+    props.dataSourceId,
+  ]);
+
+  const displayedWorkflows = noMatchingFilters
+    ? []
+    : addWorkflowDefaults(Object.values(workflows || {}));
+
+  function onTableChange({ page, sort }: Criteria<Workflow>) {
+    if (page !== undefined) {
+      setPageSize(page.size);
+      setPageIndex(page.size !== pageSize ? 0 : page.index);
+    }
+    if (sort !== undefined) {
+      setSortField(sort.field as WORKFLOW_SORT_FIELD);
+      setSortOrder(sort.direction as SORT_ORDER);
+    }
+  }
 
   const tableActions = [
     {
@@ -180,6 +253,9 @@ export function WorkflowList(props: WorkflowListProps) {
           </EuiFlyoutBody>
         </EuiFlyout>
       )}
+      {isModelsFlyoutOpen && (
+        <ModelsFlyout onClose={() => setIsModelsFlyoutOpen(false)} />
+      )}
       <EuiFlexGroup direction="column">
         <EuiSpacer size="m" />
         <EuiFlexItem>
@@ -194,72 +270,99 @@ export function WorkflowList(props: WorkflowListProps) {
             <MultiSelectFilter
               filters={filterOptions}
               title="Type"
-              setSelectedFilters={setSelectedTypes}
+              setSelectedFilters={(filters) => {
+                setSelectedTypes(filters);
+                setPageIndex(0);
+              }}
             />
+            <MultiSelectFilter
+              filters={stateFilterOptions}
+              title="State"
+              setSelectedFilters={(filters) => {
+                setSelectedStates(filters);
+                setPageIndex(0);
+              }}
+            />
+            <EuiFlexItem grow={false}>
+              <EuiSmallButtonEmpty
+                iconType="machineLearningApp"
+                onClick={() => setIsModelsFlyoutOpen(true)}
+                data-testid="manageModelsButton"
+              >
+                Models
+              </EuiSmallButtonEmpty>
+            </EuiFlexItem>
           </EuiFlexGroup>
         </EuiFlexItem>
         <EuiFlexItem>
-          {loading ? (
-            <EuiFlexGroup
-              justifyContent="center"
-              alignItems="center"
-              style={{ minHeight: '400px' }}
-            >
-              <EuiFlexItem grow={false}>
-                <EuiLoadingSpinner size="xl" />
-              </EuiFlexItem>
-            </EuiFlexGroup>
-          ) : (
-            <EuiInMemoryTable<Workflow>
-              items={filteredWorkflows}
-              rowHeader="name"
-              // @ts-ignore
-              columns={columns(tableActions)}
-              sorting={sorting}
-              pagination={true}
-              hasActions={true}
-            />
-          )}
+          <EuiBasicTable<Workflow>
+            items={displayedWorkflows}
+            rowHeader="name"
+            // @ts-ignore
+            columns={columns(tableActions)}
+            loading={loading}
+            sorting={{
+              sort: {
+                field: sortField,
+                direction: sortOrder as Direction,
+              },
+            }}
+            pagination={{
+              pageIndex,
+              pageSize,
+              totalItemCount: noMatchingFilters ? 0 : totalWorkflows,
+              pageSizeOptions: WORKFLOWS_PAGE_SIZE_OPTIONS,
+            }}
+            onChange={onTableChange}
+            hasActions={true}
+          />
         </EuiFlexItem>
       </EuiFlexGroup>
     </>
   );
 }
 
-// Collect the final workflow list after applying all filters
-function fetchFilteredWorkflows(
-  allWorkflows: Workflow[],
-  typeFilters: EuiFilterSelectItem[],
-  searchQuery: string
-): Workflow[] {
-  // A common use case for API users is to create workflows to register agents for
-  // things like chatbots. We specifically filter those out on the UI to prevent confusion.
-  const allWorkflowsExceptRegisterAgent = allWorkflows.filter(
-    (workflow) => workflow.use_case !== 'REGISTER_AGENT'
-  );
-  // If missing/invalid fields for each workflow, add defaults
-  const allWorkflowsWithDefaults = allWorkflowsExceptRegisterAgent.map(
-    (workflow) => ({
-      ...workflow,
-      description: workflow.description || EMPTY_FIELD_STRING,
-      ui_metadata: {
-        ...workflow.ui_metadata,
-        type:
-          workflow.ui_metadata?.type !== undefined &&
-            Object.values(WORKFLOW_TYPE).includes(workflow.ui_metadata?.type)
-            ? workflow.ui_metadata?.type
-            : WORKFLOW_TYPE.UNKNOWN,
-      } as UIState,
-    })
-  );
-  // @ts-ignore
-  const typeFilterStrings = typeFilters.map((filter) => filter.name);
-  const filteredWorkflows = allWorkflowsWithDefaults.filter((workflow) =>
-    typeFilterStrings.includes(workflow.ui_metadata?.type)
-  );
-  return searchQuery.length === 0
-    ? filteredWorkflows
-    : filteredWorkflows.filter((workflow) =>
-      workflow.name.toLowerCase().includes(searchQuery.toLowerCase())
-    );
+// Generate the search params for fetching the current page of workflows. The type & state
+// filters are only included if a subset of the options are selected.
+function getWorkflowSearchParams(
+  pageIndex: number,
+  pageSize: number,
+  sortField: WORKFLOW_SORT_FIELD,
+  sortOrder: SORT_ORDER,
+  searchQuery: string,
+  typeFilters: EuiFilterSelectItem[] | undefined,
+  stateFilters: EuiFilterSelectItem[] | undefined
+): WorkflowSearchParams {
+  return {
+    from: pageIndex * pageSize,
+    size: pageSize,
+    sortField,
+    sortOrder,
+    namePrefix: searchQuery.length > 0 ? searchQuery : undefined,
+    // @ts-ignore
+    types: typeFilters?.map((filter) => filter.name),
+    states: stateFilters?.map(
+      (filter) =>
+        Object.keys(WORKFLOW_STATE).find(
+          // @ts-ignore
+          (key) => WORKFLOW_STATE[key] === filter.name
+        ) as keyof typeof WORKFLOW_STATE
+    ),
+  };
+}
+
+// If missing/invalid fields for each workflow, add defaults
+function addWorkflowDefaults(workflows: Workflow[]): Workflow[] {
+  return workflows.map((workflow) => ({
+    ...workflow,
+    description: workflow.description || EMPTY_FIELD_STRING,
+    ui_metadata: {
+      ...workflow.ui_metadata,
+      type:
+        workflow.ui_metadata?.type !== undefined &&
+        Object.values(WORKFLOW_TYPE).includes(workflow.ui_metadata?.type)
+          ? workflow.ui_metadata?.type
+          : WORKFLOW_TYPE.UNKNOWN,
+    } as UIState,
+  }));
 }
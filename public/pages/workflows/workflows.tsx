@@ -29,20 +29,15 @@ import {
 import { getApplication, getCore, getNavigationUI } from '../../services';
 import { WorkflowList } from './workflow_list';
 import { NewWorkflow } from './new_workflow';
-import { AppState, searchWorkflows, useAppDispatch } from '../../store';
+import { AppState } from '../../store';
 import { EmptyListMessage } from './empty_list_message';
-import {
-  FETCH_ALL_QUERY_LARGE,
-  OPENSEARCH_FLOW,
-  PLUGIN_NAME,
-} from '../../../common';
+import { OPENSEARCH_FLOW, PLUGIN_NAME } from '../../../common';
 import { ImportWorkflowModal } from './import_workflow';
 import { MountPoint } from '../../../../../src/core/public';
 import { DataSourceSelectableConfig } from '../../../../../src/plugins/data_source_management/public';
 import {
   dataSourceFilterFn,
   getDataSourceFromURL,
-  isDataSourceReady,
   useDataSourceVersion,
 } from '../../utils/utils';
 import {
@@ -88,7 +83,6 @@ function replaceActiveTab(
  * to get started on a new workflow, or import local workflow templates.
  */
 export function Workflows(props: WorkflowsProps) {
-  const dispatch = useAppDispatch();
   const location = useLocation();
   const queryParams = getDataSourceFromURL(location);
   const dataSourceEnabled = getDataSourceEnabled().enabled;
@@ -96,9 +90,15 @@ export function Workflows(props: WorkflowsProps) {
     queryParams.dataSourceId
   );
   const dataSourceVersion = useDataSourceVersion(dataSourceId);
-  const { workflows, loading } = useSelector(
+  const { workflows, totalWorkflows, searchParams, loading } = useSelector(
     (state: AppState) => state.workflows
   );
+  // the empty list message is only shown if there are no workflows at all, not if
+  // there are no workflows matching the current search & filters
+  const isFiltered =
+    searchParams?.namePrefix !== undefined ||
+    searchParams?.types !== undefined ||
+    searchParams?.states !== undefined;
 
   const {
     chrome: { setBreadcrumbs },
@@ -128,21 +128,6 @@ export function Workflows(props: WorkflowsProps) {
     }
   }, [selectedTabId, workflows]);
 
-  // If the user navigates back to the manage tab, re-fetch workflows
-  useEffect(() => {
-    if (selectedTabId === WORKFLOWS_TAB.MANAGE) {
-      // wait until selected data source is ready before doing dispatch calls if mds is enabled
-      if (isDataSourceReady(dataSourceId)) {
-        dispatch(
-          searchWorkflows({
-            apiBody: FETCH_ALL_QUERY_LARGE,
-            dataSourceId,
-          })
-        );
-      }
-    }
-  }, [selectedTabId, dataSourceId, dataSourceEnabled]);
-
   useEffect(() => {
     setBreadcrumbs(
       USE_NEW_HOME_PAGE
@@ -154,19 +139,6 @@ export function Workflows(props: WorkflowsProps) {
     );
   });
 
-  // On initial render: fetch all workflows
-  useEffect(() => {
-    // wait until selected data source is ready before doing dispatch calls if mds is enabled
-    if (isDataSourceReady(dataSourceId)) {
-      dispatch(
-        searchWorkflows({
-          apiBody: FETCH_ALL_QUERY_LARGE,
-          dataSourceId,
-        })
-      );
-    }
-  }, [dataSourceId, dataSourceEnabled]);
-
   useEffect(() => {
     const { history, location } = props;
     if (dataSourceEnabled) {
@@ -179,15 +151,6 @@ export function Workflows(props: WorkflowsProps) {
         search: queryString.stringify(updatedParams),
       });
     }
-    // wait until selected data source is ready before doing dispatch calls if mds is enabled
-    if (isDataSourceReady(dataSourceId)) {
-      dispatch(
-        searchWorkflows({
-          apiBody: FETCH_ALL_QUERY_LARGE,
-          dataSourceId,
-        })
-      );
-    }
   }, [dataSourceId, setDataSourceId, dataSourceEnabled]);
 
   const handleDataSourceChange = ([event]: DataSourceOption[]) => {
@@ -390,6 +353,7 @@ export function Workflows(props: WorkflowsProps) {
                 {selectedTabId === WORKFLOWS_TAB.MANAGE ? (
                   <WorkflowList
                     setSelectedTabId={setSelectedTabId}
+                    dataSourceId={dataSourceId}
                     dataSourceVersion={dataSourceVersion}
                   />
                 ) : (
@@ -399,7 +363,8 @@ export function Workflows(props: WorkflowsProps) {
                   </>
                 )}
                 {selectedTabId === WORKFLOWS_TAB.MANAGE &&
-                  Object.keys(workflows || {}).length === 0 &&
+                  totalWorkflows === 0 &&
+                  !isFiltered &&
                   !loading && (
                     <EmptyListMessage
                       onClickNewWorkflow={() => {
@@ -10,8 +10,10 @@ import {
   CAT_INDICES_NODE_API_PATH,
   GET_WORKFLOW_NODE_API_PATH,
   GET_WORKFLOW_STATE_NODE_API_PATH,
+  WAIT_FOR_WORKFLOW_STATE_NODE_API_PATH,
   SEARCH_WORKFLOWS_NODE_API_PATH,
   GET_PRESET_WORKFLOWS_NODE_API_PATH,
+  VALIDATE_WORKFLOW_NODE_API_PATH,
   SEARCH_MODELS_NODE_API_PATH,
   PROVISION_WORKFLOW_NODE_API_PATH,
   DEPROVISION_WORKFLOW_NODE_API_PATH,
@@ -22,13 +24,27 @@ import {
   SIMULATE_PIPELINE_NODE_API_PATH,
   IngestPipelineConfig,
   SimulateIngestPipelineDoc,
+  BULK_INGEST_NODE_API_PATH,
+  REINDEX_NODE_API_PATH,
+  GET_TASK_NODE_API_PATH,
+  CANCEL_TASK_NODE_API_PATH,
   BULK_NODE_API_PATH,
   BASE_NODE_API_PATH,
   SEARCH_CONNECTORS_NODE_API_PATH,
+  PREDICT_MODEL_NODE_API_PATH,
+  GET_MODEL_NODE_API_PATH,
+  REGISTER_MODEL_NODE_API_PATH,
+  DEPLOY_MODEL_NODE_API_PATH,
+  UNDEPLOY_MODEL_NODE_API_PATH,
+  UPDATE_MODEL_NODE_API_PATH,
+  CREATE_CONNECTOR_NODE_API_PATH,
+  SEARCH_AGENTS_NODE_API_PATH,
   GET_MAPPINGS_NODE_API_PATH,
   SEARCH_PIPELINE_NODE_API_PATH,
   INGEST_PIPELINE_NODE_API_PATH,
   GET_INDEX_NODE_API_PATH,
+  WorkflowSearchParams,
+  ModelInterface,
 } from '../common';
 
 /**
@@ -45,12 +61,18 @@ export interface RouteService {
   ) => Promise<any | HttpFetchError>;
   searchWorkflows: (
     body: {},
-    dataSourceId?: string
+    dataSourceId?: string,
+    params?: WorkflowSearchParams
   ) => Promise<any | HttpFetchError>;
   getWorkflowState: (
     workflowId: string,
     dataSourceId?: string
   ) => Promise<any | HttpFetchError>;
+  waitForWorkflowState: (
+    workflowId: string,
+    resourceCount?: number,
+    dataSourceId?: string
+  ) => Promise<any | HttpFetchError>;
   createWorkflow: (
     body: {},
     dataSourceId?: string
@@ -81,7 +103,12 @@ export interface RouteService {
     workflowId: string,
     dataSourceId?: string
   ) => Promise<any | HttpFetchError>;
-  getWorkflowPresets: () => Promise<any | HttpFetchError>;
+  getWorkflowPresets: (
+    dataSourceVersion?: string
+  ) => Promise<any | HttpFetchError>;
+  validateWorkflow: (
+    workflowTemplate: Partial<WorkflowTemplate>
+  ) => Promise<any | HttpFetchError>;
   catIndices: (
     pattern: string,
     dataSourceId?: string
@@ -123,6 +150,36 @@ export interface RouteService {
     dataSourceId?: string;
     ingestPipeline?: string;
   }) => Promise<any | HttpFetchError>;
+  bulkIngest: ({
+    index,
+    docs,
+    dataSourceId,
+    ingestPipeline,
+    startIndex,
+  }: {
+    index: string;
+    docs: string;
+    dataSourceId?: string;
+    ingestPipeline?: string;
+    startIndex?: number;
+  }) => Promise<any | HttpFetchError>;
+  reindex: (
+    body: {
+      sourceIndex: string;
+      destIndex: string;
+      pipeline?: string;
+      query?: {};
+    },
+    dataSourceId?: string
+  ) => Promise<any | HttpFetchError>;
+  getReindexTask: (
+    taskId: string,
+    dataSourceId?: string
+  ) => Promise<any | HttpFetchError>;
+  cancelTask: (
+    taskId: string,
+    dataSourceId?: string
+  ) => Promise<any | HttpFetchError>;
   searchModels: (
     body: {},
     dataSourceId?: string
@@ -131,6 +188,40 @@ export interface RouteService {
     body: {},
     dataSourceId?: string
   ) => Promise<any | HttpFetchError>;
+  searchAgents: (
+    body: {},
+    dataSourceId?: string
+  ) => Promise<any | HttpFetchError>;
+  predict: (
+    modelId: string,
+    body: {},
+    dataSourceId?: string
+  ) => Promise<any | HttpFetchError>;
+  getModel: (
+    modelId: string,
+    dataSourceId?: string
+  ) => Promise<any | HttpFetchError>;
+  registerModel: (
+    body: {},
+    dataSourceId?: string
+  ) => Promise<any | HttpFetchError>;
+  deployModel: (
+    modelId: string,
+    dataSourceId?: string
+  ) => Promise<any | HttpFetchError>;
+  undeployModel: (
+    modelId: string,
+    dataSourceId?: string
+  ) => Promise<any | HttpFetchError>;
+  updateModelInterface: (
+    modelId: string,
+    modelInterface: ModelInterface,
+    dataSourceId?: string
+  ) => Promise<any | HttpFetchError>;
+  createConnector: (
+    body: {},
+    dataSourceId?: string
+  ) => Promise<any | HttpFetchError>;
   simulatePipeline: (
     body: {
       pipeline?: IngestPipelineConfig;
@@ -166,13 +257,29 @@ export function configureRoutes(core: CoreStart): RouteService {
         return e as HttpFetchError;
       }
     },
-    searchWorkflows: async (body: {}, dataSourceId?: string) => {
+    searchWorkflows: async (
+      body: {},
+      dataSourceId?: string,
+      params?: WorkflowSearchParams
+    ) => {
       try {
         const url = dataSourceId
           ? `${BASE_NODE_API_PATH}/${dataSourceId}/workflow/search`
           : SEARCH_WORKFLOWS_NODE_API_PATH;
         const response = await core.http.post<{ respString: string }>(url, {
           body: JSON.stringify(body),
+          query:
+            params !== undefined
+              ? {
+                  from: params.from,
+                  size: params.size,
+                  sort_field: params.sortField,
+                  sort_order: params.sortOrder,
+                  name_prefix: params.namePrefix,
+                  types: params.types,
+                  states: params.states,
+                }
+              : undefined,
         });
         return response;
       } catch (e: any) {
@@ -192,6 +299,28 @@ export function configureRoutes(core: CoreStart): RouteService {
         return e as HttpFetchError;
       }
     },
+    waitForWorkflowState: async (
+      workflowId: string,
+      resourceCount?: number,
+      dataSourceId?: string
+    ) => {
+      try {
+        const url = dataSourceId
+          ? `${BASE_NODE_API_PATH}/${dataSourceId}/workflow/waitForState`
+          : WAIT_FOR_WORKFLOW_STATE_NODE_API_PATH;
+        const response = await core.http.get<{ respString: string }>(
+          `${url}/${workflowId}`,
+          {
+            query: {
+              resource_count: resourceCount,
+            },
+          }
+        );
+        return response;
+      } catch (e: any) {
+        return e as HttpFetchError;
+      }
+    },
     createWorkflow: async (body: {}, dataSourceId?: string) => {
       try {
         const url = dataSourceId
@@ -288,10 +417,28 @@ export function configureRoutes(core: CoreStart): RouteService {
         return e as HttpFetchError;
       }
     },
-    getWorkflowPresets: async () => {
+    getWorkflowPresets: async (dataSourceVersion?: string) => {
       try {
         const response = await core.http.get<{ respString: string }>(
-          GET_PRESET_WORKFLOWS_NODE_API_PATH
+          GET_PRESET_WORKFLOWS_NODE_API_PATH,
+          {
+            query: {
+              data_source_version: dataSourceVersion,
+            },
+          }
+        );
+        return response;
+      } catch (e: any) {
+        return e as HttpFetchError;
+      }
+    },
+    validateWorkflow: async (workflowTemplate: Partial<WorkflowTemplate>) => {
+      try {
+        const response = await core.http.post<{ respString: string }>(
+          VALIDATE_WORKFLOW_NODE_API_PATH,
+          {
+            body: JSON.stringify(workflowTemplate),
+          }
         );
         return response;
       } catch (e: any) {
@@ -420,6 +567,86 @@ export function configureRoutes(core: CoreStart): RouteService {
         return e as HttpFetchError;
       }
     },
+    bulkIngest: async ({
+      index,
+      docs,
+      dataSourceId,
+      ingestPipeline,
+      startIndex,
+    }: {
+      index: string;
+      docs: string;
+      dataSourceId?: string;
+      ingestPipeline?: string;
+      startIndex?: number;
+    }) => {
+      try {
+        const url = dataSourceId
+          ? `${BASE_NODE_API_PATH}/${dataSourceId}/opensearch/bulkIngest`
+          : BULK_INGEST_NODE_API_PATH;
+        const response = await core.http.post<{ respString: string }>(
+          `${url}/${index}`,
+          {
+            body: docs,
+            headers: { 'Content-Type': 'application/x-ndjson' },
+            query: {
+              pipeline: ingestPipeline,
+              start_index: startIndex,
+            },
+          }
+        );
+        return response;
+      } catch (e: any) {
+        return e as HttpFetchError;
+      }
+    },
+    reindex: async (
+      body: {
+        sourceIndex: string;
+        destIndex: string;
+        pipeline?: string;
+        query?: {};
+      },
+      dataSourceId?: string
+    ) => {
+      try {
+        const url = dataSourceId
+          ? `${BASE_NODE_API_PATH}/${dataSourceId}/opensearch/reindex`
+          : REINDEX_NODE_API_PATH;
+        const response = await core.http.post<{ respString: string }>(url, {
+          body: JSON.stringify(body),
+        });
+        return response;
+      } catch (e: any) {
+        return e as HttpFetchError;
+      }
+    },
+    getReindexTask: async (taskId: string, dataSourceId?: string) => {
+      try {
+        const url = dataSourceId
+          ? `${BASE_NODE_API_PATH}/${dataSourceId}/opensearch/getTask`
+          : GET_TASK_NODE_API_PATH;
+        const response = await core.http.get<{ respString: string }>(
+          `${url}/${taskId}`
+        );
+        return response;
+      } catch (e: any) {
+        return e as HttpFetchError;
+      }
+    },
+    cancelTask: async (taskId: string, dataSourceId?: string) => {
+      try {
+        const url = dataSourceId
+          ? `${BASE_NODE_API_PATH}/${dataSourceId}/opensearch/cancelTask`
+          : CANCEL_TASK_NODE_API_PATH;
+        const response = await core.http.post<{ respString: string }>(
+          `${url}/${taskId}`
+        );
+        return response;
+      } catch (e: any) {
+        return e as HttpFetchError;
+      }
+    },
     searchModels: async (body: {}, dataSourceId?: string) => {
       try {
         const url = dataSourceId
@@ -446,6 +673,120 @@ export function configureRoutes(core: CoreStart): RouteService {
         return e as HttpFetchError;
       }
     },
+    searchAgents: async (body: {}, dataSourceId?: string) => {
+      try {
+        const url = dataSourceId
+          ? `${BASE_NODE_API_PATH}/${dataSourceId}/agent/search`
+          : SEARCH_AGENTS_NODE_API_PATH;
+        const response = await core.http.post<{ respString: string }>(url, {
+          body: JSON.stringify(body),
+        });
+        return response;
+      } catch (e: any) {
+        return e as HttpFetchError;
+      }
+    },
+    predict: async (modelId: string, body: {}, dataSourceId?: string) => {
+      try {
+        const url = dataSourceId
+          ? `${BASE_NODE_API_PATH}/${dataSourceId}/model/predict`
+          : PREDICT_MODEL_NODE_API_PATH;
+        const response = await core.http.post<{ respString: string }>(
+          `${url}/${modelId}`,
+          {
+            body: JSON.stringify(body),
+          }
+        );
+        return response;
+      } catch (e: any) {
+        return e as HttpFetchError;
+      }
+    },
+    getModel: async (modelId: string, dataSourceId?: string) => {
+      try {
+        const url = dataSourceId
+          ? `${BASE_NODE_API_PATH}/${dataSourceId}/model/get`
+          : GET_MODEL_NODE_API_PATH;
+        const response = await core.http.get<{ respString: string }>(
+          `${url}/${modelId}`
+        );
+        return response;
+      } catch (e: any) {
+        return e as HttpFetchError;
+      }
+    },
+    registerModel: async (body: {}, dataSourceId?: string) => {
+      try {
+        const url = dataSourceId
+          ? `${BASE_NODE_API_PATH}/${dataSourceId}/model/register`
+          : REGISTER_MODEL_NODE_API_PATH;
+        const response = await core.http.post<{ respString: string }>(url, {
+          body: JSON.stringify(body),
+        });
+        return response;
+      } catch (e: any) {
+        return e as HttpFetchError;
+      }
+    },
+    deployModel: async (modelId: string, dataSourceId?: string) => {
+      try {
+        const url = dataSourceId
+          ? `${BASE_NODE_API_PATH}/${dataSourceId}/model/deploy`
+          : DEPLOY_MODEL_NODE_API_PATH;
+        const response = await core.http.post<{ respString: string }>(
+          `${url}/${modelId}`
+        );
+        return response;
+      } catch (e: any) {
+        return e as HttpFetchError;
+      }
+    },
+    undeployModel: async (modelId: string, dataSourceId?: string) => {
+      try {
+        const url = dataSourceId
+          ? `${BASE_NODE_API_PATH}/${dataSourceId}/model/undeploy`
+          : UNDEPLOY_MODEL_NODE_API_PATH;
+        const response = await core.http.post<{ respString: string }>(
+          `${url}/${modelId}`
+        );
+        return response;
+      } catch (e: any) {
+        return e as HttpFetchError;
+      }
+    },
+    updateModelInterface: async (
+      modelId: string,
+      modelInterface: ModelInterface,
+      dataSourceId?: string
+    ) => {
+      try {
+        const url = dataSourceId
+          ? `${BASE_NODE_API_PATH}/${dataSourceId}/model/update`
+          : UPDATE_MODEL_NODE_API_PATH;
+        const response = await core.http.put<{ respString: string }>(
+          `${url}/${modelId}`,
+          {
+            body: JSON.stringify({ interface: modelInterface }),
+          }
+        );
+        return response;
+      } catch (e: any) {
+        return e as HttpFetchError;
+      }
+    },
+    createConnector: async (body: {}, dataSourceId?: string) => {
+      try {
+        const url = dataSourceId
+          ? `${BASE_NODE_API_PATH}/${dataSourceId}/connector/create`
+          : CREATE_CONNECTOR_NODE_API_PATH;
+        const response = await core.http.post<{ respString: string }>(url, {
+          body: JSON.stringify(body),
+        });
+        return response;
+      } catch (e: any) {
+        return e as HttpFetchError;
+      }
+    },
     simulatePipeline: async (
       body: {
         pipeline?: IngestPipelineConfig;
@@ -4,21 +4,44 @@
  */
 
 import { createAsyncThunk, createSlice } from '@reduxjs/toolkit';
-import { ConnectorDict, ModelDict } from '../../../common';
+import {
+  AgentDict,
+  ConnectorDict,
+  EmbeddingDimensionDict,
+  Model,
+  ModelDict,
+  ModelInterface,
+} from '../../../common';
 import { HttpFetchError } from '../../../../../src/core/public';
 import { getRouteService } from '../../services';
+import {
+  getEmbeddingDimensionFromPrediction,
+  getEmbeddingProbeBody,
+} from '../../utils';
 
 export const INITIAL_ML_STATE = {
   loading: false,
   errorMessage: '',
   models: {} as ModelDict,
   connectors: {} as ConnectorDict,
+  agents: {} as AgentDict,
+  embeddingDimensions: {} as EmbeddingDimensionDict,
 };
 
 const MODELS_ACTION_PREFIX = 'models';
 const CONNECTORS_ACTION_PREFIX = 'connectors';
+const AGENTS_ACTION_PREFIX = 'agents';
 const SEARCH_MODELS_ACTION = `${MODELS_ACTION_PREFIX}/search`;
 const SEARCH_CONNECTORS_ACTION = `${CONNECTORS_ACTION_PREFIX}/search`;
+const SEARCH_AGENTS_ACTION = `${AGENTS_ACTION_PREFIX}/search`;
+const PREDICT_ACTION = `${MODELS_ACTION_PREFIX}/predict`;
+const GET_MODEL_ACTION = `${MODELS_ACTION_PREFIX}/get`;
+const REGISTER_MODEL_ACTION = `${MODELS_ACTION_PREFIX}/register`;
+const DEPLOY_MODEL_ACTION = `${MODELS_ACTION_PREFIX}/deploy`;
+const UNDEPLOY_MODEL_ACTION = `${MODELS_ACTION_PREFIX}/undeploy`;
+const UPDATE_MODEL_ACTION = `${MODELS_ACTION_PREFIX}/update`;
+const DETECT_DIMENSION_ACTION = `${MODELS_ACTION_PREFIX}/detectDimension`;
+const CREATE_CONNECTOR_ACTION = `${CONNECTORS_ACTION_PREFIX}/create`;
 
 export const searchModels = createAsyncThunk(
   SEARCH_MODELS_ACTION,
@@ -62,6 +85,215 @@ export const searchConnectors = createAsyncThunk(
   }
 );
 
+export const searchAgents = createAsyncThunk(
+  SEARCH_AGENTS_ACTION,
+  async (
+    { apiBody, dataSourceId }: { apiBody: {}; dataSourceId?: string },
+    { rejectWithValue }
+  ) => {
+    const response: any | HttpFetchError = await getRouteService().searchAgents(
+      apiBody,
+      dataSourceId
+    );
+    if (response instanceof HttpFetchError) {
+      return rejectWithValue(
+        'Error searching agents: ' + response.body.message
+      );
+    } else {
+      return response;
+    }
+  }
+);
+
+// Run a prediction against a model. The raw response isn't persisted in the store.
+export const predict = createAsyncThunk(
+  PREDICT_ACTION,
+  async (
+    {
+      modelId,
+      apiBody,
+      dataSourceId,
+    }: { modelId: string; apiBody: {}; dataSourceId?: string },
+    { rejectWithValue }
+  ) => {
+    const response: any | HttpFetchError = await getRouteService().predict(
+      modelId,
+      apiBody,
+      dataSourceId
+    );
+    if (response instanceof HttpFetchError) {
+      return rejectWithValue(
+        'Error running model prediction: ' + response.body.message
+      );
+    } else {
+      return response;
+    }
+  }
+);
+
+// Probe a model with a single sample prediction, to detect the dimension of its
+// embeddings. Detected dimensions are cached in the store, keyed by model ID.
+export const detectEmbeddingDimension = createAsyncThunk(
+  DETECT_DIMENSION_ACTION,
+  async (
+    { model, dataSourceId }: { model: Model; dataSourceId?: string },
+    { rejectWithValue }
+  ) => {
+    const response: any | HttpFetchError = await getRouteService().predict(
+      model.id,
+      getEmbeddingProbeBody(model),
+      dataSourceId
+    );
+    if (response instanceof HttpFetchError) {
+      return rejectWithValue(
+        'Error detecting embedding dimension: ' + response.body.message
+      );
+    }
+    const dimension = getEmbeddingDimensionFromPrediction(response);
+    if (dimension === undefined) {
+      return rejectWithValue(
+        'Error detecting embedding dimension: no embedding found in the model output'
+      );
+    }
+    return { modelId: model.id, dimension };
+  }
+);
+
+// Fetch a single model. Used for tracking the state of a model, so the latest
+// model is updated in the store, without toggling the overall loading state.
+export const getModel = createAsyncThunk(
+  GET_MODEL_ACTION,
+  async (
+    { modelId, dataSourceId }: { modelId: string; dataSourceId?: string },
+    { rejectWithValue }
+  ) => {
+    const response: any | HttpFetchError = await getRouteService().getModel(
+      modelId,
+      dataSourceId
+    );
+    if (response instanceof HttpFetchError) {
+      return rejectWithValue('Error getting model: ' + response.body.message);
+    } else {
+      return response;
+    }
+  }
+);
+
+export const registerModel = createAsyncThunk(
+  REGISTER_MODEL_ACTION,
+  async (
+    { apiBody, dataSourceId }: { apiBody: {}; dataSourceId?: string },
+    { rejectWithValue }
+  ) => {
+    const response:
+      | any
+      | HttpFetchError = await getRouteService().registerModel(
+      apiBody,
+      dataSourceId
+    );
+    if (response instanceof HttpFetchError) {
+      return rejectWithValue(
+        'Error registering model: ' + response.body.message
+      );
+    } else {
+      return response;
+    }
+  }
+);
+
+export const deployModel = createAsyncThunk(
+  DEPLOY_MODEL_ACTION,
+  async (
+    { modelId, dataSourceId }: { modelId: string; dataSourceId?: string },
+    { rejectWithValue }
+  ) => {
+    const response: any | HttpFetchError = await getRouteService().deployModel(
+      modelId,
+      dataSourceId
+    );
+    if (response instanceof HttpFetchError) {
+      return rejectWithValue('Error deploying model: ' + response.body.message);
+    } else {
+      return response;
+    }
+  }
+);
+
+export const undeployModel = createAsyncThunk(
+  UNDEPLOY_MODEL_ACTION,
+  async (
+    { modelId, dataSourceId }: { modelId: string; dataSourceId?: string },
+    { rejectWithValue }
+  ) => {
+    const response:
+      | any
+      | HttpFetchError = await getRouteService().undeployModel(
+      modelId,
+      dataSourceId
+    );
+    if (response instanceof HttpFetchError) {
+      return rejectWithValue(
+        'Error undeploying model: ' + response.body.message
+      );
+    } else {
+      return response;
+    }
+  }
+);
+
+export const updateModelInterface = createAsyncThunk(
+  UPDATE_MODEL_ACTION,
+  async (
+    {
+      modelId,
+      modelInterface,
+      dataSourceId,
+    }: {
+      modelId: string;
+      modelInterface: ModelInterface;
+      dataSourceId?: string;
+    },
+    { rejectWithValue }
+  ) => {
+    const response:
+      | any
+      | HttpFetchError = await getRouteService().updateModelInterface(
+      modelId,
+      modelInterface,
+      dataSourceId
+    );
+    if (response instanceof HttpFetchError) {
+      return rejectWithValue(
+        'Error updating model interface: ' + response.body.message
+      );
+    } else {
+      return response;
+    }
+  }
+);
+
+export const createConnector = createAsyncThunk(
+  CREATE_CONNECTOR_ACTION,
+  async (
+    { apiBody, dataSourceId }: { apiBody: {}; dataSourceId?: string },
+    { rejectWithValue }
+  ) => {
+    const response:
+      | any
+      | HttpFetchError = await getRouteService().createConnector(
+      apiBody,
+      dataSourceId
+    );
+    if (response instanceof HttpFetchError) {
+      return rejectWithValue(
+        'Error creating connector: ' + response.body.message
+      );
+    } else {
+      return response;
+    }
+  }
+);
+
 const mlSlice = createSlice({
   name: 'ml',
   initialState: INITIAL_ML_STATE,
@@ -77,6 +309,10 @@ const mlSlice = createSlice({
         state.loading = true;
         state.errorMessage = '';
       })
+      .addCase(searchAgents.pending, (state, action) => {
+        state.loading = true;
+        state.errorMessage = '';
+      })
       // Fulfilled states
       .addCase(searchModels.fulfilled, (state, action) => {
         const { models } = action.payload as { models: ModelDict };
@@ -90,6 +326,31 @@ const mlSlice = createSlice({
         state.loading = false;
         state.errorMessage = '';
       })
+      .addCase(searchAgents.fulfilled, (state, action) => {
+        const { agents } = action.payload as { agents: AgentDict };
+        state.agents = agents;
+        state.loading = false;
+        state.errorMessage = '';
+      })
+      .addCase(getModel.fulfilled, (state, action) => {
+        const { model } = action.payload as { model: Model | undefined };
+        if (model !== undefined) {
+          state.models = { ...state.models, [model.id]: model };
+        }
+      })
+      .addCase(updateModelInterface.fulfilled, (state, action) => {
+        const { model } = action.payload as { model: Model | undefined };
+        if (model !== undefined) {
+          state.models = { ...state.models, [model.id]: model };
+        }
+      })
+      .addCase(detectEmbeddingDimension.fulfilled, (state, action) => {
+        const { modelId, dimension } = action.payload;
+        state.embeddingDimensions = {
+          ...state.embeddingDimensions,
+          [modelId]: dimension,
+        };
+      })
       // Rejected states
       .addCase(searchModels.rejected, (state, action) => {
         state.errorMessage = action.payload as string;
@@ -98,6 +359,10 @@ const mlSlice = createSlice({
       .addCase(searchConnectors.rejected, (state, action) => {
         state.errorMessage = action.payload as string;
         state.loading = false;
+      })
+      .addCase(searchAgents.rejected, (state, action) => {
+        state.errorMessage = action.payload as string;
+        state.loading = false;
       });
   },
 });
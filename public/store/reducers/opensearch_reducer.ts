@@ -6,6 +6,7 @@
 import { createAsyncThunk, createSlice } from '@reduxjs/toolkit';
 import { getRouteService } from '../../services';
 import {
+  BulkIngestResponse,
   Index,
   IndexConfiguration,
   IndexResponse,
@@ -14,6 +15,7 @@ import {
   SearchPipelineConfig,
   SearchPipelineResponse,
   OMIT_SYSTEM_INDEX_PATTERN,
+  ReindexTaskStatus,
   SimulateIngestPipelineDoc,
 } from '../../../common';
 import { HttpFetchError } from '../../../../../src/core/public';
@@ -40,6 +42,10 @@ const GET_MAPPINGS_ACTION = `${OPENSEARCH_PREFIX}/mappings`;
 const SEARCH_INDEX_ACTION = `${OPENSEARCH_PREFIX}/search`;
 const INGEST_ACTION = `${OPENSEARCH_PREFIX}/ingest`;
 const BULK_ACTION = `${OPENSEARCH_PREFIX}/bulk`;
+const BULK_INGEST_ACTION = `${OPENSEARCH_PREFIX}/bulkIngest`;
+const REINDEX_ACTION = `${OPENSEARCH_PREFIX}/reindex`;
+const GET_REINDEX_TASK_ACTION = `${OPENSEARCH_PREFIX}/getReindexTask`;
+const CANCEL_TASK_ACTION = `${OPENSEARCH_PREFIX}/cancelTask`;
 const SIMULATE_PIPELINE_ACTION = `${OPENSEARCH_PREFIX}/simulatePipeline`;
 const GET_INGEST_PIPELINE_ACTION = `${OPENSEARCH_PREFIX}/getIngestPipeline`;
 const GET_SEARCH_PIPELINE_ACTION = `${OPENSEARCH_PREFIX}/getSearchPipeline`;
@@ -219,6 +225,110 @@ export const bulk = createAsyncThunk(
   }
 );
 
+// Ingest a chunk of a (potentially large) JSONL payload. Not persisted in the
+// store; callers track the progress of the overall payload.
+export const bulkIngest = createAsyncThunk(
+  BULK_INGEST_ACTION,
+  async (
+    {
+      apiBody,
+      dataSourceId,
+    }: {
+      apiBody: {
+        index: string;
+        docs: string;
+        ingestPipeline?: string;
+        startIndex?: number;
+      };
+      dataSourceId?: string;
+    },
+    { rejectWithValue }
+  ) => {
+    const response: any | HttpFetchError = await getRouteService().bulkIngest({
+      ...apiBody,
+      dataSourceId,
+    });
+    if (response instanceof HttpFetchError) {
+      return rejectWithValue(
+        'Error performing bulk ingest: ' + response.body.message
+      );
+    } else {
+      return response as BulkIngestResponse;
+    }
+  }
+);
+
+// Reindex tasks run asynchronously. Callers poll the returned task for its
+// progress, so none of these are persisted in the store.
+export const reindex = createAsyncThunk(
+  REINDEX_ACTION,
+  async (
+    {
+      apiBody,
+      dataSourceId,
+    }: {
+      apiBody: {
+        sourceIndex: string;
+        destIndex: string;
+        pipeline?: string;
+        query?: {};
+      };
+      dataSourceId?: string;
+    },
+    { rejectWithValue }
+  ) => {
+    const response: any | HttpFetchError = await getRouteService().reindex(
+      apiBody,
+      dataSourceId
+    );
+    if (response instanceof HttpFetchError) {
+      return rejectWithValue('Error reindexing: ' + response.body.message);
+    } else {
+      return response as { taskId: string };
+    }
+  }
+);
+
+export const getReindexTask = createAsyncThunk(
+  GET_REINDEX_TASK_ACTION,
+  async (
+    { taskId, dataSourceId }: { taskId: string; dataSourceId?: string },
+    { rejectWithValue }
+  ) => {
+    const response:
+      | any
+      | HttpFetchError = await getRouteService().getReindexTask(
+      taskId,
+      dataSourceId
+    );
+    if (response instanceof HttpFetchError) {
+      return rejectWithValue(
+        'Error getting reindex task: ' + response.body.message
+      );
+    } else {
+      return response as ReindexTaskStatus;
+    }
+  }
+);
+
+export const cancelTask = createAsyncThunk(
+  CANCEL_TASK_ACTION,
+  async (
+    { taskId, dataSourceId }: { taskId: string; dataSourceId?: string },
+    { rejectWithValue }
+  ) => {
+    const response: any | HttpFetchError = await getRouteService().cancelTask(
+      taskId,
+      dataSourceId
+    );
+    if (response instanceof HttpFetchError) {
+      return rejectWithValue('Error cancelling task: ' + response.body.message);
+    } else {
+      return response;
+    }
+  }
+);
+
 export const simulatePipeline = createAsyncThunk(
   SIMULATE_PIPELINE_ACTION,
   async (
@@ -4,7 +4,11 @@
  */
 
 import { createAsyncThunk, createSlice } from '@reduxjs/toolkit';
-import { WorkflowDict, WorkflowTemplate } from '../../../common';
+import {
+  WorkflowDict,
+  WorkflowSearchParams,
+  WorkflowTemplate,
+} from '../../../common';
 import { HttpFetchError } from '../../../../../src/core/public';
 import { getRouteService } from '../../services';
 
@@ -12,17 +16,24 @@ export const INITIAL_WORKFLOWS_STATE = {
   loading: false,
   errorMessage: '',
   workflows: {} as WorkflowDict,
+  // the total number of workflows matching the most recent search. may be larger than the
+  // number of fetched workflows, if only a single page was fetched.
+  totalWorkflows: 0,
+  // the params of the most recent paginated search, if any. used for refreshing the current page.
+  searchParams: undefined as WorkflowSearchParams | undefined,
 };
 
 const WORKFLOWS_ACTION_PREFIX = 'workflows';
 const GET_WORKFLOW_ACTION = `${WORKFLOWS_ACTION_PREFIX}/get`;
 const SEARCH_WORKFLOWS_ACTION = `${WORKFLOWS_ACTION_PREFIX}/search`;
 const GET_WORKFLOW_STATE_ACTION = `${WORKFLOWS_ACTION_PREFIX}/getState`;
+const WAIT_FOR_WORKFLOW_STATE_ACTION = `${WORKFLOWS_ACTION_PREFIX}/waitForState`;
 const CREATE_WORKFLOW_ACTION = `${WORKFLOWS_ACTION_PREFIX}/create`;
 const UPDATE_WORKFLOW_ACTION = `${WORKFLOWS_ACTION_PREFIX}/update`;
 const PROVISION_WORKFLOW_ACTION = `${WORKFLOWS_ACTION_PREFIX}/provision`;
 const DEPROVISION_WORKFLOW_ACTION = `${WORKFLOWS_ACTION_PREFIX}/deprovision`;
 const DELETE_WORKFLOW_ACTION = `${WORKFLOWS_ACTION_PREFIX}/delete`;
+const VALIDATE_WORKFLOW_ACTION = `${WORKFLOWS_ACTION_PREFIX}/validate`;
 
 export const getWorkflow = createAsyncThunk(
   GET_WORKFLOW_ACTION,
@@ -47,14 +58,19 @@ export const getWorkflow = createAsyncThunk(
 export const searchWorkflows = createAsyncThunk(
   SEARCH_WORKFLOWS_ACTION,
   async (
-    { apiBody, dataSourceId }: { apiBody: {}; dataSourceId?: string },
+    {
+      apiBody,
+      dataSourceId,
+      params,
+    }: { apiBody?: {}; dataSourceId?: string; params?: WorkflowSearchParams },
     { rejectWithValue }
   ) => {
     const response:
       | any
       | HttpFetchError = await getRouteService().searchWorkflows(
-      apiBody,
-      dataSourceId
+      apiBody || {},
+      dataSourceId,
+      params
     );
     if (response instanceof HttpFetchError) {
       return rejectWithValue(
@@ -88,6 +104,33 @@ export const getWorkflowState = createAsyncThunk(
   }
 );
 
+export const waitForWorkflowState = createAsyncThunk(
+  WAIT_FOR_WORKFLOW_STATE_ACTION,
+  async (
+    {
+      workflowId,
+      resourceCount,
+      dataSourceId,
+    }: { workflowId: string; resourceCount?: number; dataSourceId?: string },
+    { rejectWithValue }
+  ) => {
+    const response:
+      | any
+      | HttpFetchError = await getRouteService().waitForWorkflowState(
+      workflowId,
+      resourceCount,
+      dataSourceId
+    );
+    if (response instanceof HttpFetchError) {
+      return rejectWithValue(
+        'Error waiting for workflow state: ' + response.body.message
+      );
+    } else {
+      return response;
+    }
+  }
+);
+
 export const createWorkflow = createAsyncThunk(
   CREATE_WORKFLOW_ACTION,
   async (
@@ -233,6 +276,29 @@ export const deleteWorkflow = createAsyncThunk(
   }
 );
 
+// Validation does not mutate any workflow state. The structured errors are
+// returned to be displayed by the caller.
+export const validateWorkflow = createAsyncThunk(
+  VALIDATE_WORKFLOW_ACTION,
+  async (
+    { workflowTemplate }: { workflowTemplate: Partial<WorkflowTemplate> },
+    { rejectWithValue }
+  ) => {
+    const response:
+      | any
+      | HttpFetchError = await getRouteService().validateWorkflow(
+      workflowTemplate
+    );
+    if (response instanceof HttpFetchError) {
+      return rejectWithValue(
+        'Error validating workflow: ' + response.body.message
+      );
+    } else {
+      return response;
+    }
+  }
+);
+
 const workflowsSlice = createSlice({
   name: 'workflows',
   initialState: INITIAL_WORKFLOWS_STATE,
@@ -272,6 +338,11 @@ const workflowsSlice = createSlice({
         state.loading = true;
         state.errorMessage = '';
       })
+      // Long-polling the state is tracked separately from the global loading state,
+      // so the workflow remains interactable while waiting on provisioning.
+      .addCase(waitForWorkflowState.pending, (state, action) => {
+        state.errorMessage = '';
+      })
       // Fulfilled states: mutate state depending on the action type
       // and payloads
       .addCase(getWorkflow.fulfilled, (state, action) => {
@@ -284,8 +355,14 @@ const workflowsSlice = createSlice({
         state.errorMessage = '';
       })
       .addCase(searchWorkflows.fulfilled, (state, action) => {
-        const { workflows } = action.payload as { workflows: WorkflowDict };
+        const { workflows, total } = action.payload as {
+          workflows: WorkflowDict;
+          total?: number;
+        };
         state.workflows = workflows || {};
+        state.totalWorkflows =
+          total !== undefined ? total : Object.keys(state.workflows).length;
+        state.searchParams = action.meta.arg.params;
         state.loading = false;
         state.errorMessage = '';
       })
@@ -302,6 +379,24 @@ const workflowsSlice = createSlice({
         state.loading = false;
         state.errorMessage = '';
       })
+      .addCase(waitForWorkflowState.fulfilled, (state, action) => {
+        const {
+          workflowId,
+          workflowState,
+          resourcesCreated,
+          error,
+        } = action.payload;
+        state.workflows = {
+          ...state.workflows,
+          [workflowId]: {
+            ...state.workflows[workflowId],
+            state: workflowState,
+            resourcesCreated,
+            error,
+          },
+        };
+        state.errorMessage = '';
+      })
       .addCase(createWorkflow.fulfilled, (state, action) => {
         const workflow = action.payload;
         state.workflows = {
@@ -338,6 +433,7 @@ const workflowsSlice = createSlice({
       .addCase(deleteWorkflow.fulfilled, (state, action) => {
         const workflowId = action.payload.id;
         delete state.workflows[workflowId];
+        state.totalWorkflows = Math.max(state.totalWorkflows - 1, 0);
         state.loading = false;
         state.errorMessage = '';
       })
@@ -354,6 +450,9 @@ const workflowsSlice = createSlice({
         state.errorMessage = action.payload as string;
         state.loading = false;
       })
+      .addCase(waitForWorkflowState.rejected, (state, action) => {
+        state.errorMessage = action.payload as string;
+      })
       .addCase(createWorkflow.rejected, (state, action) => {
         state.errorMessage = action.payload as string;
         state.loading = false;
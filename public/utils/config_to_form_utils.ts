@@ -15,6 +15,7 @@ import {
   ConfigFieldType,
   ConfigFieldValue,
   ModelFormValue,
+  AgentFormValue,
   SearchIndexConfig,
 } from '../../common';
 
@@ -136,6 +137,11 @@ export function getInitialValue(fieldType: ConfigFieldType): ConfigFieldValue {
         algorithm: undefined,
       } as ModelFormValue;
     }
+    case 'agent': {
+      return {
+        id: '',
+      } as AgentFormValue;
+    }
     case 'map': {
       return [];
     }
@@ -6,6 +6,7 @@
 import { Schema, ObjectSchema } from 'yup';
 import * as yup from 'yup';
 import { getIn } from 'formik';
+import { isPlainObject } from 'lodash';
 import {
   WorkflowConfig,
   WorkflowSchema,
@@ -21,6 +22,7 @@ import {
   MAX_JSON_STRING_LENGTH,
   MAX_TEMPLATE_STRING_LENGTH,
   TRANSFORM_TYPE,
+  PROCESSOR_TYPE,
   MAX_BYTES,
   INDEX_NAME_REGEXP,
   Index,
@@ -129,6 +131,21 @@ function processorsConfigToSchema(processorsConfig: ProcessorsConfig): Schema {
         true
       );
     });
+    // custom processor configs are passed through as the processor body,
+    // so they must be a JSON object
+    if (processorConfig.type === PROCESSOR_TYPE.CUSTOM) {
+      processorSchemaObj['processor_config'] = yup
+        .string()
+        .test('json', 'Invalid JSON object', (value) => {
+          try {
+            // @ts-ignore
+            return isPlainObject(JSON.parse(value));
+          } catch (error) {
+            return false;
+          }
+        })
+        .required('Required');
+    }
     processorsSchemaObj[processorConfig.id] = yup.object(processorSchemaObj);
   });
 
@@ -157,7 +174,8 @@ export function getFieldSchema(
       baseSchema = defaultStringSchema;
       break;
     }
-    case 'model': {
+    case 'model':
+    case 'agent': {
       baseSchema = yup.object().shape({
         id: defaultStringSchema.required(),
       });
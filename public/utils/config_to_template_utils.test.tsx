@@ -4,10 +4,57 @@
  */
 
 import '@testing-library/jest-dom';
-import { updatePathForExpandedQuery } from './config_to_template_utils';
+import { PROCESSOR_CONTEXT } from '../../common';
+import {
+  CustomSearchRequestProcessor,
+  OversampleProcessor,
+  TextChunkingIngestProcessor,
+} from '../configs';
+import {
+  processorConfigsToTemplateProcessors,
+  updatePathForExpandedQuery,
+} from './config_to_template_utils';
 
 describe('config_to_template_utils', () => {
   beforeEach(() => {});
+  describe('processorConfigsToTemplateProcessors', () => {
+    test('emits custom processors verbatim', () => {
+      const processorBody = {
+        query: { term: { item_type: 'shoes' } },
+        tag: 'my_tag',
+      };
+      const processorConfig = new CustomSearchRequestProcessor().toObj();
+      processorConfig.fields = processorConfig.fields.map((field) => ({
+        ...field,
+        value:
+          field.id === 'processor_type'
+            ? 'filter_query'
+            : JSON.stringify(processorBody),
+      }));
+      expect(
+        processorConfigsToTemplateProcessors(
+          [processorConfig],
+          PROCESSOR_CONTEXT.SEARCH_REQUEST
+        )
+      ).toEqual([{ filter_query: processorBody }]);
+    });
+    test('ignores untouched default numeric values', () => {
+      expect(
+        processorConfigsToTemplateProcessors(
+          [new TextChunkingIngestProcessor().toObj()],
+          PROCESSOR_CONTEXT.INGEST
+        )
+      ).toEqual([{ text_chunking: { field_map: {} } }]);
+    });
+    test('always adds the oversample sample factor', () => {
+      expect(
+        processorConfigsToTemplateProcessors(
+          [new OversampleProcessor().toObj()],
+          PROCESSOR_CONTEXT.SEARCH_REQUEST
+        )
+      ).toEqual([{ oversample: { sample_factor: 2, ignore_failure: false } }]);
+    });
+  });
   describe('updatePathForExpandedQuery', () => {
     test('term query', () => {
       expect(updatePathForExpandedQuery('query.term.a')).toEqual(
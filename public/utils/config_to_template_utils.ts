@@ -28,6 +28,7 @@ import {
   MapEntry,
   TEXT_CHUNKING_ALGORITHM,
   SHARED_OPTIONAL_FIELDS,
+  CONDITIONAL_OPTIONAL_FIELDS,
   FIXED_TOKEN_LENGTH_OPTIONAL_FIELDS,
   DELIMITER_OPTIONAL_FIELDS,
   IngestPipelineConfig,
@@ -187,7 +188,16 @@ export function processorConfigsToTemplateProcessors(
 ): (IngestProcessor | SearchProcessor)[] {
   const processorsList = [] as (IngestProcessor | SearchProcessor)[];
 
-  processorConfigs.forEach((processorConfig) => {
+  // the conditional execution & failure handling fields shared by all ingest processors
+  // are processed separately from the type-specific fields, and added back at the end.
+  const typeSpecificConfigs = processorConfigs.map((processorConfig) => ({
+    ...processorConfig,
+    optionalFields: processorConfig.optionalFields?.filter(
+      (optionalField) => !CONDITIONAL_OPTIONAL_FIELDS.includes(optionalField.id)
+    ),
+  }));
+
+  typeSpecificConfigs.forEach((processorConfig) => {
     switch (processorConfig.type) {
       case PROCESSOR_TYPE.ML: {
         const {
@@ -408,7 +418,8 @@ export function processorConfigsToTemplateProcessors(
         break;
       }
       case PROCESSOR_TYPE.TEXT_EMBEDDING:
-      case PROCESSOR_TYPE.TEXT_IMAGE_EMBEDDING: {
+      case PROCESSOR_TYPE.TEXT_IMAGE_EMBEDDING:
+      case PROCESSOR_TYPE.SPARSE_ENCODING: {
         const formValues = processorConfigToFormik(processorConfig);
         let finalFormValues = {} as FormikValues;
         // iterate through the form values, ignoring any empty
@@ -441,10 +452,143 @@ export function processorConfigsToTemplateProcessors(
         });
         break;
       }
+      // the agent field is persisted as an obj, update to just the required agent ID
+      case PROCESSOR_TYPE.AGENTIC_QUERY_TRANSLATOR: {
+        const { agent, ...formValues } = processorConfigToFormik(
+          processorConfig
+        );
+        let finalFormValues = {
+          agent_id: agent?.id || '',
+        } as FormikValues;
+        Object.keys(formValues).forEach((formKey: string) => {
+          const formValue = formValues[formKey];
+          finalFormValues = optionallyAddToFinalForm(
+            finalFormValues,
+            formKey,
+            formValue
+          );
+        });
+        processorsList.push({
+          [processorConfig.type]: finalFormValues,
+        });
+        break;
+      }
+      // the default model is persisted as an obj, update to just the required model ID.
+      // the per-field default models are persisted as a map, update to a single obj.
+      case PROCESSOR_TYPE.NEURAL_QUERY_ENRICHER: {
+        const {
+          default_model,
+          neural_field_default_id,
+          ...formValues
+        } = processorConfigToFormik(processorConfig);
+        let finalFormValues = {
+          default_model_id: default_model?.id || '',
+        } as FormikValues;
+        if (!isEmpty(neural_field_default_id)) {
+          finalFormValues = {
+            ...finalFormValues,
+            neural_field_default_id: mergeMapIntoSingleObj(
+              neural_field_default_id as MapFormValue
+            ),
+          };
+        }
+        Object.keys(formValues).forEach((formKey: string) => {
+          const formValue = formValues[formKey];
+          finalFormValues = optionallyAddToFinalForm(
+            finalFormValues,
+            formKey,
+            formValue
+          );
+        });
+        processorsList.push({
+          [processorConfig.type]: finalFormValues,
+        });
+        break;
+      }
+      // custom processors are passed through as-is, using the persisted
+      // processor type as the key, and the raw JSON configuration as the value.
+      case PROCESSOR_TYPE.CUSTOM: {
+        const {
+          processor_type,
+          processor_config,
+        } = processorConfigToFormik(processorConfig);
+        let finalConfig = {};
+        try {
+          finalConfig = JSON.parse(processor_config);
+        } catch (e) {}
+        processorsList.push({
+          [processor_type]: finalConfig,
+        });
+        break;
+      }
+      // JSON fields are persisted as strings in the form, and are parsed before being
+      // added to the processor. Empty JSON values are ignored.
+      case PROCESSOR_TYPE.DATE:
+      case PROCESSOR_TYPE.SCRIPT:
+      case PROCESSOR_TYPE.FILTER_QUERY: {
+        const formValues = processorConfigToFormik(processorConfig);
+        const jsonFieldIds = [
+          ...processorConfig.fields,
+          ...(processorConfig.optionalFields || []),
+        ]
+          .filter(
+            (field) => field.type === 'json' || field.type === 'jsonArray'
+          )
+          .map((field) => field.id);
+        let finalFormValues = {} as FormikValues;
+        Object.keys(formValues).forEach((formKey: string) => {
+          let formValue = formValues[formKey];
+          if (jsonFieldIds.includes(formKey)) {
+            try {
+              formValue = JSON.parse(formValue);
+            } catch (e) {
+              formValue = undefined;
+            }
+          }
+          finalFormValues = optionallyAddToFinalForm(
+            finalFormValues,
+            formKey,
+            formValue
+          );
+        });
+        processorsList.push({
+          [processorConfig.type]: finalFormValues,
+        });
+        break;
+      }
+      // the sample factor is a required number, so it is always added,
+      // even though it would otherwise be ignored as an empty value.
+      case PROCESSOR_TYPE.OVERSAMPLE: {
+        const { sample_factor, ...formValues } = processorConfigToFormik(
+          processorConfig
+        );
+        let finalFormValues = {
+          sample_factor,
+        } as FormikValues;
+        Object.keys(formValues).forEach((formKey: string) => {
+          const formValue = formValues[formKey];
+          finalFormValues = optionallyAddToFinalForm(
+            finalFormValues,
+            formKey,
+            formValue
+          );
+        });
+        processorsList.push({
+          [processorConfig.type]: finalFormValues,
+        });
+        break;
+      }
       case PROCESSOR_TYPE.SPLIT:
       case PROCESSOR_TYPE.SORT:
       case PROCESSOR_TYPE.COLLAPSE:
       case PROCESSOR_TYPE.COPY:
+      case PROCESSOR_TYPE.SET:
+      case PROCESSOR_TYPE.REMOVE:
+      case PROCESSOR_TYPE.RENAME:
+      case PROCESSOR_TYPE.CONVERT:
+      case PROCESSOR_TYPE.LOWERCASE:
+      case PROCESSOR_TYPE.TRIM:
+      case PROCESSOR_TYPE.AGENTIC_CONTEXT:
       default: {
         const formValues = processorConfigToFormik(processorConfig);
         let finalFormValues = {} as FormikValues;
@@ -466,7 +610,49 @@ export function processorConfigsToTemplateProcessors(
     }
   });
 
-  return processorsList;
+  return context === PROCESSOR_CONTEXT.INGEST
+    ? processorsList.map((processor, idx) =>
+        addConditionalValues(processor, processorConfigs[idx])
+      )
+    : processorsList;
+}
+
+// Add any configured Painless condition and on_failure processors to the
+// generated ingest processor. Empty values are ignored.
+function addConditionalValues(
+  processor: IngestProcessor,
+  processorConfig: IProcessorConfig
+): IngestProcessor {
+  const { if: condition, on_failure } = processorConfigToFormik(
+    processorConfig
+  );
+  let conditionalValues = {} as FormikValues;
+  if (typeof condition === 'string' && !isEmpty(condition.trim())) {
+    conditionalValues = {
+      ...conditionalValues,
+      if: condition,
+    };
+  }
+  let onFailureProcessors = [] as IngestProcessor[];
+  try {
+    onFailureProcessors = JSON.parse(on_failure);
+  } catch (e) {}
+  if (Array.isArray(onFailureProcessors) && onFailureProcessors.length > 0) {
+    conditionalValues = {
+      ...conditionalValues,
+      on_failure: onFailureProcessors,
+    };
+  }
+  if (isEmpty(conditionalValues)) {
+    return processor;
+  }
+  const processorType = Object.keys(processor)[0];
+  return {
+    [processorType]: {
+      ...get(processor, processorType, {}),
+      ...conditionalValues,
+    },
+  };
 }
 
 // General fn to convert an index config to a final CreateIndexNode template node.
@@ -355,6 +355,14 @@ function processorsConfigToWorkspaceFlow(
         );
         break;
       }
+      case PROCESSOR_TYPE.SPARSE_ENCODING: {
+        componentData = new BaseTransformer(
+          processorConfig.name,
+          'Generate sparse vector embeddings from text fields',
+          context
+        );
+        break;
+      }
       case PROCESSOR_TYPE.COPY: {
         componentData = new BaseTransformer(
           processorConfig.name,
@@ -363,6 +371,96 @@ function processorsConfigToWorkspaceFlow(
         );
         break;
       }
+      case PROCESSOR_TYPE.SET: {
+        componentData = new BaseTransformer(
+          processorConfig.name,
+          'Set a field to a value',
+          context
+        );
+        break;
+      }
+      case PROCESSOR_TYPE.REMOVE: {
+        componentData = new BaseTransformer(
+          processorConfig.name,
+          'Remove a field from documents',
+          context
+        );
+        break;
+      }
+      case PROCESSOR_TYPE.RENAME: {
+        componentData = new BaseTransformer(
+          processorConfig.name,
+          'Rename an existing field',
+          context
+        );
+        break;
+      }
+      case PROCESSOR_TYPE.CONVERT: {
+        componentData = new BaseTransformer(
+          processorConfig.name,
+          'Convert a field to a different type',
+          context
+        );
+        break;
+      }
+      case PROCESSOR_TYPE.DATE: {
+        componentData = new BaseTransformer(
+          processorConfig.name,
+          'Parse a date from a field',
+          context
+        );
+        break;
+      }
+      case PROCESSOR_TYPE.LOWERCASE: {
+        componentData = new BaseTransformer(
+          processorConfig.name,
+          'Convert a string field to lowercase',
+          context
+        );
+        break;
+      }
+      case PROCESSOR_TYPE.TRIM: {
+        componentData = new BaseTransformer(
+          processorConfig.name,
+          'Remove leading and trailing whitespace from a string field',
+          context
+        );
+        break;
+      }
+      case PROCESSOR_TYPE.SCRIPT: {
+        componentData = new BaseTransformer(
+          processorConfig.name,
+          context === PROCESSOR_CONTEXT.INGEST
+            ? 'Run a script against each document'
+            : 'Run a script against each search request',
+          context
+        );
+        break;
+      }
+      case PROCESSOR_TYPE.FILTER_QUERY: {
+        componentData = new BaseTransformer(
+          processorConfig.name,
+          'Add a filter query to each search request',
+          context
+        );
+        break;
+      }
+      case PROCESSOR_TYPE.NEURAL_QUERY_ENRICHER: {
+        componentData = new BaseTransformer(
+          processorConfig.name,
+          'Set the default models for neural queries',
+          context
+        );
+        break;
+      }
+      case PROCESSOR_TYPE.OVERSAMPLE: {
+        componentData = new BaseTransformer(
+          processorConfig.name,
+          'Increase the number of hits requested',
+          context
+        );
+        break;
+      }
       case PROCESSOR_TYPE.NORMALIZATION: {
         componentData = new BaseTransformer(
           processorConfig.name,
@@ -387,6 +485,30 @@ function processorsConfigToWorkspaceFlow(
         );
         break;
       }
+      case PROCESSOR_TYPE.AGENTIC_QUERY_TRANSLATOR: {
+        componentData = new BaseTransformer(
+          processorConfig.name,
+          'Translate a natural language query into query DSL using an agent',
+          context
+        );
+        break;
+      }
+      case PROCESSOR_TYPE.AGENTIC_CONTEXT: {
+        componentData = new BaseTransformer(
+          processorConfig.name,
+          'Add the agent steps and generated query to the response',
+          context
+        );
+        break;
+      }
+      case PROCESSOR_TYPE.CUSTOM: {
+        componentData = new BaseTransformer(
+          processorConfig.name,
+          'A processor configured with raw JSON',
+          context
+        );
+        break;
+      }
       default: {
         componentData = new BaseTransformer(processorConfig.name, '', context);
         break;
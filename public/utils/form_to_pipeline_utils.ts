@@ -105,6 +105,21 @@ export function formikToPartialPipeline(
   return undefined;
 }
 
+// Generate the full search pipeline from the current form, including any unsaved changes.
+// Used for running searches against an inline, unprovisioned search pipeline.
+export function formikToSearchPipeline(
+  values: WorkflowFormValues,
+  existingConfig: WorkflowConfig
+): SearchPipelineConfig | undefined {
+  return formikToPartialPipeline(
+    values,
+    existingConfig,
+    '',
+    false,
+    PROCESSOR_CONTEXT.SEARCH_RESPONSE
+  ) as SearchPipelineConfig | undefined;
+}
+
 function getPrecedingProcessors(
   allProcessors: IProcessorConfig[],
   curProcessorId: string,
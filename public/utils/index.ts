@@ -11,3 +11,10 @@ export * from './config_to_workspace_utils';
 export * from './config_to_schema_utils';
 export * from './form_to_config_utils';
 export * from './form_to_pipeline_utils';
+export * from './template_to_config_utils';
+export * from './remote_model_utils';
+export * from './processor_analytics_utils';
+export * from './pipeline_trace_utils';
+export * from './search_comparison_utils';
+export * from './relevance_evaluation_utils';
+export * from './saved_query_utils';
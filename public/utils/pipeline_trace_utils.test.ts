@@ -0,0 +1,215 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  SearchResponseVerbose,
+  SimulateIngestPipelineDocResponseVerbose,
+} from '../../common';
+import {
+  formatFieldValue,
+  getFieldChanges,
+  getIngestDocTrace,
+  getSearchPipelineTrace,
+} from './pipeline_trace_utils';
+
+describe('pipeline_trace_utils', () => {
+  test('collects nested field changes', () => {
+    expect(getFieldChanges({ a: 1, b: { c: 'x' } }, { a: 1 })).toEqual([
+      { path: 'b', before: { c: 'x' }, after: undefined },
+    ]);
+    expect(
+      getFieldChanges(
+        { a: { b: [1, 2], c: 'x' } },
+        { a: { b: [2, 1], c: 'x' } }
+      )
+    ).toEqual([{ path: 'a.b', before: [1, 2], after: [2, 1] }]);
+    expect(getFieldChanges({ a: 1 }, { a: 1 })).toEqual([]);
+  });
+
+  test('traces each processor and diffs its hits', () => {
+    const hit1 = { _index: 'my_index', _id: '1', _score: 1, _source: {} };
+    const hit2 = { _index: 'my_index', _id: '2', _score: 0.5, _source: {} };
+    const trace = getSearchPipelineTrace(({
+      processor_results: [
+        {
+          processor_name: 'filter_query',
+          duration_millis: 1,
+          status: 'success',
+          input_data: { query: { match_all: {} } },
+          output_data: {
+            query: { bool: { filter: [{ term: { tenant: 'a' } }] } },
+          },
+        },
+        {
+          processor_name: 'normalization-processor',
+          duration_millis: 2,
+          status: 'success',
+          input_data: [hit1, hit2],
+          output_data: [hit1, hit2],
+        },
+        {
+          processor_name: 'rerank',
+          duration_millis: 3,
+          status: 'fail',
+          error: 'my_error',
+          input_data: [hit1, hit2],
+          output_data: [{ ...hit2, _score: 2, _source: { label: 'a' } }],
+        },
+      ],
+    } as unknown) as SearchResponseVerbose);
+
+    expect(
+      trace.map((traceStep) => [
+        traceStep.processorName,
+        traceStep.stage,
+        traceStep.status,
+        traceStep.durationMillis,
+      ])
+    ).toEqual([
+      ['filter_query', 'request', 'success', 1],
+      ['normalization-processor', 'phase_results', 'success', 2],
+      ['rerank', 'response', 'fail', 3],
+    ]);
+    expect(trace[0].diffs).toEqual([
+      {
+        id: 'request',
+        status: 'modified',
+        changes: [
+          {
+            path: 'query.match_all',
+            before: {},
+            after: undefined,
+          },
+          {
+            path: 'query.bool',
+            before: undefined,
+            after: { filter: [{ term: { tenant: 'a' } }] },
+          },
+        ],
+      },
+    ]);
+    expect(trace[1].diffs.map((diff) => diff.status)).toEqual([
+      'unchanged',
+      'unchanged',
+    ]);
+    expect(trace[2].error).toEqual('my_error');
+    expect(trace[2].diffs).toEqual([
+      {
+        id: '2',
+        status: 'modified',
+        changes: [
+          { path: 'rank', before: 2, after: 1 },
+          { path: '_score', before: 0.5, after: 2 },
+          { path: '_source.label', before: undefined, after: 'a' },
+        ],
+      },
+      { id: '1', status: 'removed', changes: [] },
+    ]);
+  });
+
+  test('places processors without data by their position', () => {
+    const hit = { _index: 'my_index', _id: '1', _score: 1, _source: {} };
+    const getStages = (processorResults: {}[]) =>
+      getSearchPipelineTrace(({
+        processor_results: processorResults.map((processorResult) => ({
+          duration_millis: 1,
+          status: 'success',
+          input_data: null,
+          output_data: null,
+          ...processorResult,
+        })),
+      } as unknown) as SearchResponseVerbose).map(
+        (traceStep) => traceStep.stage
+      );
+
+    expect(
+      getStages([
+        { processor_name: 'ml_inference', status: 'fail' },
+        {
+          processor_name: 'score-ranker-processor',
+          input_data: [hit],
+          output_data: [hit],
+        },
+        { processor_name: 'collapse', status: 'fail' },
+      ])
+    ).toEqual(['request', 'phase_results', 'response']);
+    expect(
+      getStages([
+        { processor_name: 'filter_query', input_data: {}, output_data: {} },
+        { processor_name: 'ml_inference', status: 'fail' },
+        { processor_name: 'rerank', input_data: [hit], output_data: [hit] },
+        { processor_name: 'collapse', status: 'fail' },
+      ])
+    ).toEqual(['request', 'request', 'response', 'response']);
+    expect(
+      getStages([{ processor_name: 'ml_inference', status: 'fail' }])
+    ).toEqual(['request']);
+  });
+
+  test('traces each ingest processor executed against a doc', () => {
+    const trace = getIngestDocTrace({ title: ' Doc ', tmp: 1 }, ([
+      {
+        processor_type: 'trim',
+        status: 'success',
+        doc: { _source: { title: 'Doc', tmp: 1 } },
+      },
+      {
+        processor_type: 'set',
+        tag: 'my_tag',
+        status: 'skipped',
+      },
+      {
+        processor_type: 'remove',
+        status: 'error',
+        error: { reason: 'my_error' },
+      },
+      {
+        processor_type: 'rename',
+        status: 'success',
+        doc: { _source: { name: 'Doc' } },
+      },
+    ] as unknown) as SimulateIngestPipelineDocResponseVerbose[]);
+
+    expect(
+      trace.map((traceStep) => [
+        traceStep.processorType,
+        traceStep.tag,
+        traceStep.status,
+        traceStep.error,
+      ])
+    ).toEqual([
+      ['trim', undefined, 'success', undefined],
+      ['set', 'my_tag', 'skipped', undefined],
+      ['remove', undefined, 'error', 'my_error'],
+      ['rename', undefined, 'success', undefined],
+    ]);
+    expect(trace[0].changes).toEqual([
+      { path: 'title', before: ' Doc ', after: 'Doc' },
+    ]);
+    expect(trace[1].changes).toEqual([]);
+    expect(trace[2].changes).toEqual([]);
+    expect(trace[3].changes).toEqual([
+      { path: 'title', before: 'Doc', after: undefined },
+      { path: 'tmp', before: 1, after: undefined },
+      { path: 'name', before: undefined, after: 'Doc' },
+    ]);
+  });
+
+  test('summarizes vectors when formatting values', () => {
+    expect(formatFieldValue(Array(16).fill(0.5))).toEqual(
+      'Vector (dimension: 16, norm: 2.0000)'
+    );
+    const sparseVector = {} as { [token: string]: number };
+    ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i'].forEach((token) => {
+      sparseVector[token] = 1;
+    });
+    expect(formatFieldValue(sparseVector)).toEqual(
+      'Sparse vector (dimension: 9, norm: 3.0000)'
+    );
+    expect(formatFieldValue([1, 2])).toEqual('[1,2]');
+    expect(formatFieldValue('x'.repeat(250))).toEqual(`${'x'.repeat(200)}...`);
+    expect(formatFieldValue(undefined)).toEqual('-');
+  });
+});
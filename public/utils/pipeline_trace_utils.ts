@@ -0,0 +1,281 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { isEmpty, isEqual, isPlainObject, union } from 'lodash';
+import {
+  FieldChange,
+  FieldChangeType,
+  IngestProcessorTraceStep,
+  PROCESSOR_TYPE,
+  ProcessorDataDiff,
+  SearchProcessorInputData,
+  SearchProcessorResult,
+  SearchProcessorStage,
+  SearchProcessorTraceStep,
+  SearchResponseVerbose,
+  SimulateIngestPipelineDocResponseVerbose,
+} from '../../common';
+
+/*
+   **************** Pipeline trace utils **********************
+   Collection of utility fns for tracing how each processor of a verbose
+   pipeline run changes the data passing through it.
+   */
+
+// search processors that run between the query & fetch phases
+const PHASE_RESULTS_PROCESSOR_NAMES = [
+  PROCESSOR_TYPE.NORMALIZATION,
+  PROCESSOR_TYPE.SCORE_RANKER,
+] as string[];
+
+// the min number of numeric values for an arr or obj to be treated as a dense or sparse vector
+const MIN_VECTOR_DIMENSION = 8;
+
+// max length of any formatted value
+const MAX_VALUE_LENGTH = 200;
+
+// Build the trace of each processor executed against a single doc in a verbose ingest
+// simulation. Each step is diffed against the doc produced by the previous step, starting
+// from the original doc. Steps without a doc (e.g., skipped or failed processors) leave
+// the doc unchanged.
+export function getIngestDocTrace(
+  inputDoc: {},
+  processorResults: SimulateIngestPipelineDocResponseVerbose[]
+): IngestProcessorTraceStep[] {
+  let curDoc = inputDoc;
+  return (processorResults || []).map((processorResult, idx) => {
+    const outputDoc =
+      processorResult.doc?._source !== undefined
+        ? processorResult.doc._source
+        : curDoc;
+    const changes = getFieldChanges(curDoc, outputDoc);
+    curDoc = outputDoc;
+    return {
+      position: idx,
+      processorType: processorResult.processor_type,
+      tag: processorResult.tag,
+      status: processorResult.status,
+      error: processorResult.error?.reason,
+      changes,
+    };
+  });
+}
+
+// Build the ordered trace of each processor executed in a verbose search request
+export function getSearchPipelineTrace(
+  searchResponseVerbose: SearchResponseVerbose
+): SearchProcessorTraceStep[] {
+  const processorResults = searchResponseVerbose?.processor_results || [];
+  const stages = getSearchProcessorStages(processorResults);
+  return processorResults.map((processorResult, idx) => ({
+    position: idx,
+    processorName: processorResult.processor_name,
+    stage: stages[idx],
+    status: processorResult.status,
+    durationMillis: processorResult.duration_millis,
+    error: processorResult.error,
+    diffs: getSearchProcessorDiffs(processorResult),
+  }));
+}
+
+// Get the stage of each executed search processor. Request processors operate on the
+// search request, and all others on the list of hits. Processors without any data (e.g.,
+// failed processors) are placed by their position instead: request processors run before
+// any phase results processors, and response processors run after them. Otherwise, they
+// share the stage of the preceding processor, where the first processors are assumed to
+// be request processors.
+function getSearchProcessorStages(
+  processorResults: SearchProcessorResult[]
+): SearchProcessorStage[] {
+  const dataStages = processorResults.map((processorResult) =>
+    getSearchProcessorDataStage(processorResult)
+  );
+  const firstPhaseResultsIdx = dataStages.indexOf('phase_results');
+  let prevStage = 'request' as SearchProcessorStage;
+  return dataStages.map((dataStage, idx) => {
+    const stage =
+      dataStage !== undefined
+        ? dataStage
+        : idx < firstPhaseResultsIdx
+        ? 'request'
+        : prevStage === 'phase_results'
+        ? 'response'
+        : prevStage;
+    prevStage = stage;
+    return stage;
+  });
+}
+
+// Get the stage of a search processor based on its name & data, if it can be determined
+function getSearchProcessorDataStage(
+  processorResult: SearchProcessorResult
+): SearchProcessorStage | undefined {
+  if (PHASE_RESULTS_PROCESSOR_NAMES.includes(processorResult.processor_name)) {
+    return 'phase_results';
+  } else if (
+    isPlainObject(processorResult.input_data) ||
+    isPlainObject(processorResult.output_data)
+  ) {
+    return 'request';
+  } else if (
+    Array.isArray(processorResult.input_data) ||
+    Array.isArray(processorResult.output_data)
+  ) {
+    return 'response';
+  }
+  return undefined;
+}
+
+// Diff the input & output data of a single search processor. Request processors produce
+// a single diff of the search request. Other processors produce a diff for each hit,
+// matched by index & ID, including any change in the hit's rank.
+export function getSearchProcessorDiffs(
+  processorResult: SearchProcessorResult
+): ProcessorDataDiff[] {
+  const inputData = processorResult.input_data;
+  const outputData = processorResult.output_data;
+  if (isPlainObject(inputData) || isPlainObject(outputData)) {
+    const changes = getFieldChanges(inputData || {}, outputData || {});
+    return [
+      {
+        id: 'request',
+        status: isEmpty(changes) ? 'unchanged' : 'modified',
+        changes,
+      },
+    ];
+  }
+  const inputHits = (Array.isArray(inputData)
+    ? inputData
+    : []) as SearchProcessorInputData[];
+  const outputHits = (Array.isArray(outputData)
+    ? outputData
+    : []) as SearchProcessorInputData[];
+  const inputHitKeys = inputHits.map((hit) => getHitKey(hit));
+  const outputHitKeys = outputHits.map((hit) => getHitKey(hit));
+
+  const diffs = outputHits.map((outputHit, outputIdx) => {
+    const inputIdx = inputHitKeys.indexOf(outputHitKeys[outputIdx]);
+    if (inputIdx === -1) {
+      return {
+        id: outputHit._id,
+        status: 'added',
+        changes: [],
+      } as ProcessorDataDiff;
+    }
+    const inputHit = inputHits[inputIdx];
+    const changes = [
+      ...(inputIdx !== outputIdx
+        ? [{ path: 'rank', before: inputIdx + 1, after: outputIdx + 1 }]
+        : []),
+      ...getFieldChanges(inputHit._score, outputHit._score, '_score'),
+      ...getFieldChanges(inputHit._source, outputHit._source, '_source'),
+    ];
+    return {
+      id: outputHit._id,
+      status: isEmpty(changes) ? 'unchanged' : 'modified',
+      changes,
+    } as ProcessorDataDiff;
+  });
+  inputHits.forEach((inputHit, inputIdx) => {
+    if (!outputHitKeys.includes(inputHitKeys[inputIdx])) {
+      diffs.push({
+        id: inputHit._id,
+        status: 'removed',
+        changes: [],
+      });
+    }
+  });
+  return diffs;
+}
+
+// Recursively collect the changed values between two objs. Objs are compared key by key;
+// any other values (including arrays and sparse vectors) are compared as a whole.
+export function getFieldChanges(
+  before: any,
+  after: any,
+  path: string = ''
+): FieldChange[] {
+  if (isEqual(before, after)) {
+    return [];
+  }
+  if (
+    isPlainObject(before) &&
+    isPlainObject(after) &&
+    !isSparseVector(before) &&
+    !isSparseVector(after)
+  ) {
+    return ([] as FieldChange[]).concat(
+      ...union(Object.keys(before), Object.keys(after)).map((key) =>
+        getFieldChanges(
+          before[key],
+          after[key],
+          isEmpty(path) ? key : `${path}.${key}`
+        )
+      )
+    );
+  }
+  return [{ path, before, after }];
+}
+
+function getHitKey(hit: SearchProcessorInputData): string {
+  return `${hit?._index}/${hit?._id}`;
+}
+
+export function getFieldChangeType(change: FieldChange): FieldChangeType {
+  if (change.before === undefined) {
+    return 'added';
+  } else if (change.after === undefined) {
+    return 'removed';
+  } else {
+    return 'changed';
+  }
+}
+
+// Format a changed value for display. Dense & sparse vectors are summarized by their
+// dimension and L2 norm, instead of listing every value.
+export function formatFieldValue(value: any): string {
+  if (value === undefined) {
+    return '-';
+  }
+  if (isDenseVector(value)) {
+    return `Vector (dimension: ${value.length}, norm: ${getNorm(value)})`;
+  }
+  if (isSparseVector(value)) {
+    return `Sparse vector (dimension: ${
+      Object.keys(value).length
+    }, norm: ${getNorm(Object.values(value) as number[])})`;
+  }
+  const valueStr = typeof value === 'string' ? value : JSON.stringify(value);
+  return valueStr.length > MAX_VALUE_LENGTH
+    ? `${valueStr.substring(0, MAX_VALUE_LENGTH)}...`
+    : valueStr;
+}
+
+function isDenseVector(value: any): boolean {
+  return (
+    Array.isArray(value) &&
+    value.length >= MIN_VECTOR_DIMENSION &&
+    value.every((vectorValue) => typeof vectorValue === 'number')
+  );
+}
+
+function isSparseVector(value: any): boolean {
+  return (
+    isPlainObject(value) &&
+    Object.keys(value).length >= MIN_VECTOR_DIMENSION &&
+    Object.values(value).every(
+      (vectorValue) => typeof vectorValue === 'number'
+    )
+  );
+}
+
+function getNorm(vectorValues: number[]): string {
+  return Math.sqrt(
+    vectorValues.reduce(
+      (sum, vectorValue) => sum + vectorValue * vectorValue,
+      0
+    )
+  ).toFixed(4);
+}
@@ -0,0 +1,174 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  ProcessorRunSample,
+  SearchResponseVerbose,
+  SimulateIngestPipelineResponseVerbose,
+} from '../../common';
+import {
+  getIngestProcessorSamples,
+  getLatencyStats,
+  getProcessorAnalytics,
+  getSearchProcessorSamples,
+} from './processor_analytics_utils';
+
+describe('processor_analytics_utils', () => {
+  test('computes latency stats using the nearest rank', () => {
+    expect(getLatencyStats([])).toBeUndefined();
+    expect(getLatencyStats([7])).toEqual({
+      minMillis: 7,
+      medianMillis: 7,
+      p95Millis: 7,
+    });
+    expect(
+      getLatencyStats(Array.from({ length: 20 }, (_, idx) => 20 - idx))
+    ).toEqual({
+      minMillis: 1,
+      medianMillis: 10,
+      p95Millis: 19,
+    });
+  });
+
+  test('aggregates search processor samples across runs', () => {
+    const runs = [
+      [10, 2],
+      [30, 4],
+      [20, 3],
+    ].map(
+      (durations, runIdx) =>
+        ({
+          processor_results: [
+            {
+              processor_name: 'ml_inference',
+              duration_millis: durations[0],
+              status: runIdx === 1 ? 'fail' : 'success',
+              input_data: null,
+              output_data: null,
+            },
+            {
+              processor_name: 'rerank',
+              duration_millis: durations[1],
+              status: 'success',
+              input_data: null,
+              output_data: null,
+            },
+          ],
+        } as SearchResponseVerbose)
+    );
+    const analytics = getProcessorAnalytics(
+      ([] as ProcessorRunSample[]).concat(
+        ...runs.map((run) => getSearchProcessorSamples(run))
+      )
+    );
+    expect(analytics).toEqual([
+      {
+        position: 0,
+        processorType: 'ml_inference',
+        executions: 3,
+        failures: 1,
+        failureRate: 1 / 3,
+        latency: { minMillis: 10, medianMillis: 20, p95Millis: 30 },
+      },
+      {
+        position: 1,
+        processorType: 'rerank',
+        executions: 3,
+        failures: 0,
+        failureRate: 0,
+        latency: { minMillis: 2, medianMillis: 3, p95Millis: 4 },
+      },
+    ]);
+  });
+
+  test('aggregates ingest processor samples without latencies', () => {
+    const simulateResponse = ({
+      docs: [
+        {
+          processor_results: [
+            { processor_type: 'ml_inference', status: 'success' },
+            { processor_type: 'set', status: 'success' },
+          ],
+        },
+        {
+          processor_results: [
+            { processor_type: 'ml_inference', status: 'error' },
+          ],
+        },
+      ],
+    } as unknown) as SimulateIngestPipelineResponseVerbose;
+    const analytics = getProcessorAnalytics(
+      getIngestProcessorSamples(simulateResponse)
+    );
+    expect(analytics).toEqual([
+      {
+        position: 0,
+        processorType: 'ml_inference',
+        executions: 2,
+        failures: 1,
+        failureRate: 0.5,
+        latency: undefined,
+      },
+      {
+        position: 1,
+        processorType: 'set',
+        executions: 1,
+        failures: 0,
+        failureRate: 0,
+        latency: undefined,
+      },
+    ]);
+  });
+
+  test('maps ingest results to top-level processors', () => {
+    const processors = [
+      {
+        text_embedding: {
+          if: 'ctx.text != null',
+          on_failure: [{ set: { field: 'failed', value: true } }],
+        },
+      },
+      { set: { field: 'processed', value: true } },
+    ];
+    const simulateResponse = ({
+      docs: [
+        {
+          processor_results: [
+            { processor_type: 'text_embedding', status: 'error' },
+            { processor_type: 'set', status: 'success' },
+            { processor_type: 'set', status: 'success' },
+          ],
+        },
+        {
+          processor_results: [
+            { processor_type: 'text_embedding', status: 'skipped' },
+            { processor_type: 'set', status: 'success' },
+          ],
+        },
+      ],
+    } as unknown) as SimulateIngestPipelineResponseVerbose;
+    const analytics = getProcessorAnalytics(
+      getIngestProcessorSamples(simulateResponse, processors)
+    );
+    expect(analytics).toEqual([
+      {
+        position: 0,
+        processorType: 'text_embedding',
+        executions: 1,
+        failures: 1,
+        failureRate: 1,
+        latency: undefined,
+      },
+      {
+        position: 1,
+        processorType: 'set',
+        executions: 2,
+        failures: 0,
+        failureRate: 0,
+        latency: undefined,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,110 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  IngestProcessor,
+  LatencyStats,
+  ProcessorAnalytics,
+  ProcessorRunSample,
+  SearchResponseVerbose,
+  SimulateIngestPipelineResponseVerbose,
+} from '../../common';
+import { getIngestProcessorResults } from './utils';
+
+/*
+   **************** Processor analytics utils **********************
+   Collection of utility fns for collecting per-processor timing & status
+   from verbose pipeline runs, and aggregating them across several runs.
+   */
+
+// Collect the per-processor samples from a verbose search response
+export function getSearchProcessorSamples(
+  searchResponseVerbose: SearchResponseVerbose
+): ProcessorRunSample[] {
+  return (searchResponseVerbose?.processor_results || []).map(
+    (processorResult, idx) => ({
+      position: idx,
+      processorType: processorResult.processor_name,
+      durationMillis: processorResult.duration_millis,
+      failed:
+        processorResult.status === 'fail' ||
+        processorResult.error !== undefined,
+    })
+  );
+}
+
+// Collect the per-processor samples from a verbose ingest simulation. Each simulated
+// doc runs through the pipeline, so each doc produces its own set of samples. Processors
+// skipped by their condition are not counted as executions.
+export function getIngestProcessorSamples(
+  simulateResponseVerbose: SimulateIngestPipelineResponseVerbose,
+  processors?: IngestProcessor[]
+): ProcessorRunSample[] {
+  const samples = [] as ProcessorRunSample[];
+  (simulateResponseVerbose?.docs || []).forEach((doc) => {
+    getIngestProcessorResults(doc?.processor_results, processors).forEach(
+      ({ result }, idx) => {
+        if (result.status !== 'skipped') {
+          samples.push({
+            position: idx,
+            processorType: result.processor_type,
+            failed: result.status === 'error',
+          });
+        }
+      }
+    );
+  });
+  return samples;
+}
+
+// Aggregate processor samples collected across several runs, grouped by the
+// processor's position in the pipeline
+export function getProcessorAnalytics(
+  samples: ProcessorRunSample[]
+): ProcessorAnalytics[] {
+  const samplesByPosition = {} as { [position: number]: ProcessorRunSample[] };
+  samples.forEach((sample) => {
+    samplesByPosition[sample.position] = [
+      ...(samplesByPosition[sample.position] || []),
+      sample,
+    ];
+  });
+  return Object.values(samplesByPosition)
+    .map((processorSamples) => {
+      const failures = processorSamples.filter((sample) => sample.failed)
+        .length;
+      const durations = processorSamples
+        .map((sample) => sample.durationMillis)
+        .filter((duration) => duration !== undefined) as number[];
+      return {
+        position: processorSamples[0].position,
+        processorType: processorSamples[0].processorType,
+        executions: processorSamples.length,
+        failures,
+        failureRate: failures / processorSamples.length,
+        latency: getLatencyStats(durations),
+      } as ProcessorAnalytics;
+    })
+    .sort((a, b) => a.position - b.position);
+}
+
+// Get the min, median, and 95th percentile of a set of latencies
+export function getLatencyStats(latencies: number[]): LatencyStats | undefined {
+  if (latencies.length === 0) {
+    return undefined;
+  }
+  const sortedLatencies = [...latencies].sort((a, b) => a - b);
+  return {
+    minMillis: sortedLatencies[0],
+    medianMillis: getPercentile(sortedLatencies, 50),
+    p95Millis: getPercentile(sortedLatencies, 95),
+  };
+}
+
+// Get a percentile from a sorted list of values, using the nearest-rank method
+function getPercentile(sortedValues: number[], percentile: number): number {
+  const rank = Math.ceil((percentile / 100) * sortedValues.length);
+  return sortedValues[Math.max(rank - 1, 0)];
+}
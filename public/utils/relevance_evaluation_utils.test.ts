@@ -0,0 +1,87 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  getMeanRelevanceMetrics,
+  getRelevanceMetrics,
+  groupJudgmentsByQuery,
+  parseJudgmentList,
+} from './relevance_evaluation_utils';
+
+describe('relevance_evaluation_utils', () => {
+  test('parses CSV and JSONL judgment lists', () => {
+    const expected = [
+      { queryText: 'red shoes', docId: '1', grade: 3 },
+      { queryText: 'shoes, red', docId: '2', grade: 0 },
+    ];
+    expect(
+      parseJudgmentList(
+        'query_text,doc_id,grade\nred shoes,1,3\r\n"shoes, red",2,0\n'
+      )
+    ).toEqual(expected);
+    expect(
+      parseJudgmentList(
+        '{"query": "red shoes", "_id": "1", "rating": 3}\n{"query_text": "shoes, red", "doc_id": 2, "grade": "0"}'
+      )
+    ).toEqual(expected);
+    expect(parseJudgmentList('')).toEqual([]);
+  });
+
+  test('throws on invalid judgment rows', () => {
+    expect(() =>
+      parseJudgmentList('query_text,doc_id,grade\nred shoes,1,')
+    ).toThrow('Invalid grade on line 2');
+    expect(() =>
+      parseJudgmentList('query_text,doc_id,grade\n,1,1')
+    ).toThrow('Missing query text or doc ID on line 2');
+    expect(() => parseJudgmentList('{"query_text": "a"}\n{')).toThrow(
+      'Invalid JSON on line 2'
+    );
+  });
+
+  test('groups judgments by query', () => {
+    expect(
+      groupJudgmentsByQuery([
+        { queryText: 'a', docId: '1', grade: 1 },
+        { queryText: 'b', docId: '1', grade: 2 },
+        { queryText: 'a', docId: '2', grade: 0 },
+      ])
+    ).toEqual({ a: { '1': 1, '2': 0 }, b: { '1': 2 } });
+  });
+
+  test('computes relevance metrics of the top k hits', () => {
+    const grades = { '1': 3, '2': 1, '3': 0, '4': 2 };
+    const metrics = getRelevanceMetrics(['3', '1', '5', '2'], grades, 3);
+    // DCG = 7 / log2(3); ideal DCG = 7 + 3 / log2(3) + 1 / 2
+    expect(metrics.ndcg).toBeCloseTo(
+      7 / Math.log2(3) / (7.5 + 3 / Math.log2(3))
+    );
+    expect(metrics.mrr).toEqual(0.5);
+    expect(metrics.precision).toBeCloseTo(1 / 3);
+    expect(metrics.recall).toBeCloseTo(1 / 3);
+
+    expect(getRelevanceMetrics(['1', '4', '2'], grades, 3)).toEqual({
+      ndcg: 1,
+      mrr: 1,
+      precision: 1,
+      recall: 1,
+    });
+    expect(getRelevanceMetrics(['1'], { '1': 0 }, 3)).toEqual({
+      ndcg: 0,
+      mrr: 0,
+      precision: 0,
+      recall: 0,
+    });
+  });
+
+  test('averages metrics across queries', () => {
+    expect(
+      getMeanRelevanceMetrics([
+        { ndcg: 1, mrr: 1, precision: 0.5, recall: 1 },
+        { ndcg: 0, mrr: 0.5, precision: 0, recall: 0 },
+      ])
+    ).toEqual({ ndcg: 0.5, mrr: 0.75, precision: 0.25, recall: 0.5 });
+  });
+});
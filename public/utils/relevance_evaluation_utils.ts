@@ -0,0 +1,170 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { isEmpty } from 'lodash';
+import { Judgment, RelevanceMetrics } from '../../common';
+
+/*
+   **************** Relevance evaluation utils **********************
+   Collection of utility fns for parsing judgment lists, and evaluating the
+   relevance of search results against them.
+   */
+
+// the accepted column names (CSV) or keys (JSONL) of each judgment list value
+const QUERY_TEXT_KEYS = ['query_text', 'query'];
+const DOC_ID_KEYS = ['doc_id', '_id', 'id'];
+const GRADE_KEYS = ['grade', 'rating', 'relevance'];
+
+// Parse a judgment list of (query text, doc ID, grade) rows. Supports JSONL, with an obj
+// per line, or CSV, with a header row naming each column. Throws on any invalid row.
+export function parseJudgmentList(contents: string): Judgment[] {
+  const lines = contents
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => !isEmpty(line));
+  if (isEmpty(lines)) {
+    return [];
+  }
+  if (lines[0].startsWith('{')) {
+    return lines.map((line, idx) => {
+      let row = {} as { [key: string]: any };
+      try {
+        row = JSON.parse(line);
+      } catch (e) {
+        throw new Error(`Invalid JSON on line ${idx + 1}`);
+      }
+      return toJudgment(row, idx + 1);
+    });
+  } else {
+    const headers = parseCsvLine(lines[0]).map((header) =>
+      header.trim().toLowerCase()
+    );
+    return lines.slice(1).map((line, idx) => {
+      const values = parseCsvLine(line);
+      const row = {} as { [key: string]: any };
+      headers.forEach((header, headerIdx) => {
+        row[header] = values[headerIdx];
+      });
+      return toJudgment(row, idx + 2);
+    });
+  }
+}
+
+function toJudgment(row: { [key: string]: any }, lineNumber: number): Judgment {
+  const queryText = `${getFirstValue(row, QUERY_TEXT_KEYS) ?? ''}`.trim();
+  const docId = `${getFirstValue(row, DOC_ID_KEYS) ?? ''}`.trim();
+  const gradeValue = `${getFirstValue(row, GRADE_KEYS) ?? ''}`.trim();
+  const grade = isEmpty(gradeValue) ? NaN : Number(gradeValue);
+  if (isEmpty(queryText) || isEmpty(docId)) {
+    throw new Error(`Missing query text or doc ID on line ${lineNumber}`);
+  }
+  if (isNaN(grade) || grade < 0) {
+    throw new Error(`Invalid grade on line ${lineNumber}`);
+  }
+  return {
+    queryText,
+    docId,
+    grade,
+  };
+}
+
+function getFirstValue(row: { [key: string]: any }, keys: string[]): any {
+  const key = keys.find((key) => row[key] !== undefined);
+  return key !== undefined ? row[key] : undefined;
+}
+
+// Split a single CSV line into its values. Values may be quoted, to include commas, with
+// any quotes within a quoted value escaped by doubling them.
+function parseCsvLine(line: string): string[] {
+  const values = [] as string[];
+  let curValue = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        curValue += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        curValue += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      values.push(curValue);
+      curValue = '';
+    } else {
+      curValue += char;
+    }
+  }
+  values.push(curValue);
+  return values;
+}
+
+// Group the graded docs of a judgment list by query text, preserving the order in which each
+// query text is first found. If a doc is graded several times for a query, the last grade is used.
+export function groupJudgmentsByQuery(
+  judgments: Judgment[]
+): { [queryText: string]: { [docId: string]: number } } {
+  const judgmentsByQuery = {} as {
+    [queryText: string]: { [docId: string]: number };
+  };
+  judgments.forEach((judgment) => {
+    judgmentsByQuery[judgment.queryText] = {
+      ...(judgmentsByQuery[judgment.queryText] || {}),
+      [judgment.docId]: judgment.grade,
+    };
+  });
+  return judgmentsByQuery;
+}
+
+// Evaluate the top k of a ranked list of doc IDs against the graded docs of a single query.
+// Docs without a grade are treated as not relevant; any doc with a grade above 0 is relevant.
+export function getRelevanceMetrics(
+  docIds: string[],
+  grades: { [docId: string]: number },
+  k: number
+): RelevanceMetrics {
+  const topGrades = docIds.slice(0, k).map((docId) => grades[docId] || 0);
+  const idealGrades = Object.values(grades)
+    .sort((a, b) => b - a)
+    .slice(0, k);
+  const idealDcg = getDcg(idealGrades);
+  const firstRelevantIdx = topGrades.findIndex((grade) => grade > 0);
+  const numRelevant = topGrades.filter((grade) => grade > 0).length;
+  const totalRelevant = Object.values(grades).filter((grade) => grade > 0)
+    .length;
+  return {
+    ndcg: idealDcg > 0 ? getDcg(topGrades) / idealDcg : 0,
+    mrr: firstRelevantIdx !== -1 ? 1 / (firstRelevantIdx + 1) : 0,
+    precision: k > 0 ? numRelevant / k : 0,
+    recall: totalRelevant > 0 ? numRelevant / totalRelevant : 0,
+  };
+}
+
+// Discounted cumulative gain, using exponential gain to emphasize highly-graded docs
+function getDcg(grades: number[]): number {
+  return grades.reduce(
+    (dcg, grade, idx) => dcg + (Math.pow(2, grade) - 1) / Math.log2(idx + 2),
+    0
+  );
+}
+
+export function getMeanRelevanceMetrics(
+  metrics: RelevanceMetrics[]
+): RelevanceMetrics {
+  const getMean = (values: number[]) =>
+    values.length > 0
+      ? values.reduce((sum, value) => sum + value, 0) / values.length
+      : 0;
+  return {
+    ndcg: getMean(metrics.map((metric) => metric.ndcg)),
+    mrr: getMean(metrics.map((metric) => metric.mrr)),
+    precision: getMean(metrics.map((metric) => metric.precision)),
+    recall: getMean(metrics.map((metric) => metric.recall)),
+  };
+}
@@ -0,0 +1,196 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  BEDROCK_CONFIGS,
+  COHERE_CONFIGS,
+  DEFAULT_BEDROCK_REGION,
+  OPENAI_CONFIGS,
+  REMOTE_MODEL_PROVIDER,
+  RemoteModelCredentials,
+} from '../../common';
+
+/*
+   **************** Remote model utils **********************
+   Collection of utility fns for generating the connector & model
+   registration API bodies for the known remote embedding models.
+   Based off of the ml-commons connector blueprints. For more details, see
+   https://github.com/opensearch-project/ml-commons/tree/main/docs/remote_inference_blueprints
+   */
+
+// Get the known models for a remote model provider
+export function getRemoteModelOptions(
+  provider: REMOTE_MODEL_PROVIDER
+): string[] {
+  switch (provider) {
+    case REMOTE_MODEL_PROVIDER.BEDROCK: {
+      return Object.keys(BEDROCK_CONFIGS);
+    }
+    case REMOTE_MODEL_PROVIDER.COHERE: {
+      return Object.keys(COHERE_CONFIGS);
+    }
+    case REMOTE_MODEL_PROVIDER.OPENAI: {
+      return Object.keys(OPENAI_CONFIGS);
+    }
+  }
+}
+
+// Check all of the credentials required by a remote model provider are populated
+export function hasRequiredCredentials(
+  provider: REMOTE_MODEL_PROVIDER,
+  credentials: RemoteModelCredentials
+): boolean {
+  return provider === REMOTE_MODEL_PROVIDER.BEDROCK
+    ? !!credentials.accessKey && !!credentials.secretKey
+    : !!credentials.apiKey;
+}
+
+// Generate the create connector API body for a known remote model
+export function getConnectorBlueprint(
+  provider: REMOTE_MODEL_PROVIDER,
+  model: string,
+  credentials: RemoteModelCredentials
+): {} {
+  switch (provider) {
+    case REMOTE_MODEL_PROVIDER.BEDROCK: {
+      return getBedrockConnectorBlueprint(model, credentials);
+    }
+    case REMOTE_MODEL_PROVIDER.COHERE: {
+      return {
+        name: `Cohere connector: ${model}`,
+        description: `The connector to the Cohere ${model} embedding model`,
+        version: '1',
+        protocol: 'http',
+        parameters: {
+          model,
+          input_type: 'search_document',
+          truncate: 'END',
+        },
+        credential: {
+          cohere_key: credentials.apiKey,
+        },
+        actions: [
+          {
+            action_type: 'predict',
+            method: 'POST',
+            url: 'https://api.cohere.ai/v1/embed',
+            headers: {
+              Authorization: 'Bearer ${credential.cohere_key}',
+              'Request-Source': 'unspecified:opensearch',
+            },
+            request_body:
+              '{ "texts": ${parameters.texts}, "truncate": "${parameters.truncate}", "model": "${parameters.model}", "input_type": "${parameters.input_type}" }',
+            pre_process_function: 'connector.pre_process.cohere.embedding',
+            post_process_function: 'connector.post_process.cohere.embedding',
+          },
+        ],
+      };
+    }
+    case REMOTE_MODEL_PROVIDER.OPENAI: {
+      return {
+        name: `OpenAI connector: ${model}`,
+        description: `The connector to the OpenAI ${model} embedding model`,
+        version: '1',
+        protocol: 'http',
+        parameters: {
+          model,
+        },
+        credential: {
+          openAI_key: credentials.apiKey,
+        },
+        actions: [
+          {
+            action_type: 'predict',
+            method: 'POST',
+            url: 'https://api.openai.com/v1/embeddings',
+            headers: {
+              Authorization: 'Bearer ${credential.openAI_key}',
+            },
+            request_body:
+              '{ "input": ${parameters.input}, "model": "${parameters.model}" }',
+            pre_process_function: 'connector.pre_process.openai.embedding',
+            post_process_function: 'connector.post_process.openai.embedding',
+          },
+        ],
+      };
+    }
+  }
+}
+
+// Bedrock request/response formats vary by the underlying model family
+function getBedrockConnectorBlueprint(
+  model: string,
+  credentials: RemoteModelCredentials
+): {} {
+  const isCohereModel = model.startsWith('cohere.');
+  const isImageModel = model.includes('image');
+  return {
+    name: `Amazon Bedrock connector: ${model}`,
+    description: `The connector to the Amazon Bedrock ${model} embedding model`,
+    version: '1',
+    protocol: 'aws_sigv4',
+    parameters: {
+      region: credentials.region || DEFAULT_BEDROCK_REGION,
+      service_name: 'bedrock',
+      model,
+      ...(isCohereModel
+        ? { input_type: 'search_document', truncate: 'END' }
+        : {}),
+    },
+    credential: {
+      access_key: credentials.accessKey,
+      secret_key: credentials.secretKey,
+      ...(credentials.sessionToken
+        ? { session_token: credentials.sessionToken }
+        : {}),
+    },
+    actions: [
+      {
+        action_type: 'predict',
+        method: 'POST',
+        url:
+          'https://bedrock-runtime.${parameters.region}.amazonaws.com/model/${parameters.model}/invoke',
+        headers: {
+          'content-type': 'application/json',
+          'x-amz-content-sha256': 'required',
+        },
+        ...(isCohereModel
+          ? {
+              request_body:
+                '{ "texts": ${parameters.texts}, "truncate": "${parameters.truncate}", "input_type": "${parameters.input_type}" }',
+              pre_process_function: 'connector.pre_process.cohere.embedding',
+              post_process_function: 'connector.post_process.cohere.embedding',
+            }
+          : isImageModel
+          ? {
+              request_body:
+                '{ "inputText": "${parameters.inputText:-null}", "inputImage": "${parameters.inputImage:-null}" }',
+              post_process_function:
+                'connector.post_process.bedrock.embedding',
+            }
+          : {
+              request_body: '{ "inputText": "${parameters.inputText}" }',
+              pre_process_function: 'connector.pre_process.bedrock.embedding',
+              post_process_function:
+                'connector.post_process.bedrock.embedding',
+            }),
+      },
+    ],
+  };
+}
+
+// Generate the register model API body for a remote model, using an existing connector
+export function getRegisterRemoteModelBody(
+  name: string,
+  connectorId: string,
+  provider: REMOTE_MODEL_PROVIDER
+): {} {
+  return {
+    name,
+    function_name: 'remote',
+    description: `${provider} embedding model`,
+    connector_id: connectorId,
+  };
+}
@@ -0,0 +1,65 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { SavedQuery } from '../../common';
+import {
+  deleteSavedQuery,
+  getSavedQueryParams,
+  upsertSavedQuery,
+} from './saved_query_utils';
+
+const MATCH_QUERY = {
+  name: 'match',
+  request: '{"query": {"match": {"title": "{{query_text}}"}}}',
+  params: [{ name: 'query_text', type: 'Text', value: 'shoes' }],
+  use_pipeline: true,
+} as SavedQuery;
+const MATCH_ALL_QUERY = {
+  name: 'match_all',
+  request: '{"query": {"match_all": {}}}',
+  params: [],
+  use_pipeline: false,
+} as SavedQuery;
+
+describe('saved_query_utils', () => {
+  test('saves new queries, and replaces any with the same name', () => {
+    expect(upsertSavedQuery([], MATCH_QUERY)).toEqual([MATCH_QUERY]);
+    expect(upsertSavedQuery([MATCH_QUERY], MATCH_ALL_QUERY)).toEqual([
+      MATCH_QUERY,
+      MATCH_ALL_QUERY,
+    ]);
+    const updatedMatchQuery = {
+      ...MATCH_QUERY,
+      params: [{ name: 'query_text', type: 'Text', value: 'boots' }],
+    } as SavedQuery;
+    expect(
+      upsertSavedQuery([MATCH_QUERY, MATCH_ALL_QUERY], updatedMatchQuery)
+    ).toEqual([updatedMatchQuery, MATCH_ALL_QUERY]);
+  });
+
+  test('loads the saved parameters of each placeholder', () => {
+    expect(getSavedQueryParams(MATCH_QUERY)).toEqual(MATCH_QUERY.params);
+    expect(getSavedQueryParams(MATCH_ALL_QUERY)).toEqual([]);
+    expect(
+      getSavedQueryParams({
+        ...MATCH_QUERY,
+        request:
+          '{"query": {"match": {"{{field}}": "{{query_text}}"}}, "size": 5}',
+      })
+    ).toEqual([
+      { name: 'field', type: 'Text', value: '' },
+      { name: 'query_text', type: 'Text', value: 'shoes' },
+    ]);
+  });
+
+  test('deletes queries by name', () => {
+    expect(
+      deleteSavedQuery([MATCH_QUERY, MATCH_ALL_QUERY], MATCH_QUERY.name)
+    ).toEqual([MATCH_ALL_QUERY]);
+    expect(deleteSavedQuery([MATCH_ALL_QUERY], MATCH_QUERY.name)).toEqual([
+      MATCH_ALL_QUERY,
+    ]);
+  });
+});
@@ -0,0 +1,49 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { QueryParam, SavedQuery } from '../../common';
+import { getPlaceholdersFromQuery } from './utils';
+
+/*
+   **************** Saved query utils **********************
+   Collection of utility fns for updating the list of named test queries persisted
+   in a workflow's UI metadata, and for loading a saved query back into the search tools.
+   */
+
+// Add a saved query to the list. If a saved query with the same name already exists,
+// it is replaced in place.
+export function upsertSavedQuery(
+  savedQueries: SavedQuery[],
+  savedQuery: SavedQuery
+): SavedQuery[] {
+  const existingIdx = savedQueries.findIndex(
+    (existingSavedQuery) => existingSavedQuery.name === savedQuery.name
+  );
+  return existingIdx === -1
+    ? [...savedQueries, savedQuery]
+    : savedQueries.map((existingSavedQuery, idx) =>
+        idx === existingIdx ? savedQuery : existingSavedQuery
+      );
+}
+
+export function deleteSavedQuery(
+  savedQueries: SavedQuery[],
+  name: string
+): SavedQuery[] {
+  return savedQueries.filter((savedQuery) => savedQuery.name !== name);
+}
+
+// Get the parameters to load along with a saved query. There is one parameter for each
+// placeholder in the saved request, using any saved type & value for it.
+export function getSavedQueryParams(savedQuery: SavedQuery): QueryParam[] {
+  return getPlaceholdersFromQuery(savedQuery.request).map(
+    (placeholder) =>
+      savedQuery.params?.find((param) => param.name === placeholder) || {
+        name: placeholder,
+        type: 'Text',
+        value: '',
+      }
+  );
+}
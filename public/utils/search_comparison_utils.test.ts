@@ -0,0 +1,66 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { SearchResponse } from '../../common';
+import { compareSearchResponses } from './search_comparison_utils';
+
+function getResponse(hits: {}[]): SearchResponse {
+  return ({ hits: { hits } } as unknown) as SearchResponse;
+}
+
+describe('search_comparison_utils', () => {
+  test('compares the ranked hits of two responses', () => {
+    const comparison = compareSearchResponses(
+      getResponse([
+        { _index: 'my_index', _id: '1', _score: 1 },
+        { _index: 'my_index', _id: '2', _score: 0.5 },
+        { _index: 'my_index', _id: '3', _score: 0.25 },
+      ]),
+      getResponse([
+        { _index: 'my_index', _id: '2', _score: 2 },
+        { _index: 'my_index', _id: '1', _score: 1 },
+        { _index: 'my_index', _id: '4', _score: 0.5 },
+        { _index: 'other_index', _id: '3', _score: 0.25 },
+      ])
+    );
+
+    expect(comparison.numShared).toEqual(2);
+    expect(comparison.overlapPercentage).toEqual(50);
+    expect(comparison.hitsA).toEqual([
+      {
+        id: '1',
+        index: 'my_index',
+        rank: 1,
+        score: 1,
+        rankDelta: -1,
+        scoreDelta: 0,
+      },
+      {
+        id: '2',
+        index: 'my_index',
+        rank: 2,
+        score: 0.5,
+        rankDelta: 1,
+        scoreDelta: 1.5,
+      },
+      { id: '3', index: 'my_index', rank: 3, score: 0.25 },
+    ]);
+    expect(comparison.hitsB.map((hit) => hit.rankDelta)).toEqual([
+      1,
+      -1,
+      undefined,
+      undefined,
+    ]);
+  });
+
+  test('handles empty responses', () => {
+    expect(compareSearchResponses(undefined, getResponse([]))).toEqual({
+      hitsA: [],
+      hitsB: [],
+      numShared: 0,
+      overlapPercentage: 0,
+    });
+  });
+});
@@ -0,0 +1,93 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  SearchHit,
+  SearchHitComparison,
+  SearchResponse,
+  SearchResponseComparison,
+} from '../../common';
+
+/*
+   **************** Search comparison utils **********************
+   Collection of utility fns for comparing the ranked hits of two search
+   responses, such as the same query executed with & without a search pipeline.
+   */
+
+// Compare the ranked hits of two search responses. Hits are matched by index & ID.
+export function compareSearchResponses(
+  responseA: SearchResponse | undefined,
+  responseB: SearchResponse | undefined
+): SearchResponseComparison {
+  const hitsA = responseA?.hits?.hits || [];
+  const hitsB = responseB?.hits?.hits || [];
+  const hitKeysA = hitsA.map((hit) => getHitKey(hit));
+  const hitKeysB = hitsB.map((hit) => getHitKey(hit));
+  const numShared = hitKeysA.filter((hitKey) => hitKeysB.includes(hitKey))
+    .length;
+  const maxHits = Math.max(hitsA.length, hitsB.length);
+
+  return {
+    hitsA: hitsA.map((hitA, idxA) => {
+      const idxB = hitKeysB.indexOf(hitKeysA[idxA]);
+      return {
+        ...getHitSummary(hitA, idxA),
+        ...getHitDeltas(hitA, idxA, hitsB[idxB], idxB),
+      };
+    }),
+    hitsB: hitsB.map((hitB, idxB) => {
+      const idxA = hitKeysA.indexOf(hitKeysB[idxB]);
+      return {
+        ...getHitSummary(hitB, idxB),
+        ...getHitDeltas(hitsA[idxA], idxA, hitB, idxB),
+      };
+    }),
+    numShared,
+    overlapPercentage: maxHits > 0 ? (numShared / maxHits) * 100 : 0,
+  };
+}
+
+function getHitSummary(
+  hit: SearchHit,
+  idx: number
+): Pick<SearchHitComparison, 'id' | 'index' | 'rank' | 'score'> {
+  return {
+    id: hit._id,
+    index: hit._index,
+    rank: idx + 1,
+    score: getScore(hit),
+  };
+}
+
+// Get the rank & score deltas of a hit from response A to response B. An idx of -1 means
+// the hit is missing from that response, in which case there are no deltas.
+function getHitDeltas(
+  hitA: SearchHit | undefined,
+  idxA: number,
+  hitB: SearchHit | undefined,
+  idxB: number
+): Pick<SearchHitComparison, 'rankDelta' | 'scoreDelta'> {
+  if (idxA === -1 || idxB === -1) {
+    return {};
+  }
+  const scoreA = getScore(hitA);
+  const scoreB = getScore(hitB);
+  return {
+    rankDelta: idxA - idxB,
+    scoreDelta:
+      scoreA !== undefined && scoreB !== undefined
+        ? scoreB - scoreA
+        : undefined,
+  };
+}
+
+function getHitKey(hit: SearchHit): string {
+  return `${hit?._index}/${hit?._id}`;
+}
+
+function getScore(hit: SearchHit | undefined): number | undefined {
+  const score = hit?._score;
+  return typeof score === 'number' ? score : undefined;
+}
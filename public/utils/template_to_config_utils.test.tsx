@@ -0,0 +1,411 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import '@testing-library/jest-dom';
+import {
+  PROCESSOR_CONTEXT,
+  PROCESSOR_TYPE,
+  TRANSFORM_TYPE,
+  WORKFLOW_STEP_TYPE,
+  WORKFLOW_TYPE,
+  SavedQuery,
+  TemplateFlows,
+  WorkflowTemplate,
+} from '../../common';
+import {
+  enrichWorkflowWithUiMetadata,
+  templateFlowsToConfig,
+  templateProcessorsToProcessorConfigs,
+} from './template_to_config_utils';
+import { processorConfigsToTemplateProcessors } from './config_to_template_utils';
+
+const INGEST_PROCESSORS = [
+  {
+    text_embedding: {
+      model_id: 'my_model',
+      field_map: { passage_text: 'passage_embedding' },
+    },
+  },
+  {
+    sparse_encoding: {
+      model_id: 'my_sparse_model',
+      field_map: { passage_text: 'passage_sparse_embedding' },
+    },
+  },
+  {
+    ml_inference: {
+      model_id: 'my_model',
+      input_map: [{ text: 'passage_text' }],
+      output_map: [{ passage_embedding: 'response' }],
+      model_config: {},
+    },
+  },
+  {
+    set: {
+      field: 'my_field',
+      value: 'my_value',
+    },
+  },
+  {
+    date: {
+      field: 'my_date',
+      formats: ['yyyy-MM-dd', 'ISO8601'],
+    },
+  },
+  {
+    script: {
+      source: 'ctx.my_field = params.my_param',
+      params: { my_param: 'my_value' },
+    },
+  },
+  {
+    grok: {
+      field: 'message',
+      patterns: ['%{WORD:word}'],
+    },
+  },
+];
+
+const SEARCH_RESPONSE_PROCESSORS = [
+  {
+    ml_inference: {
+      model_id: 'my_model',
+      input_map: [{ text: 'review' }],
+      output_map: [{ 'ext.ml_inference.summary': '$.response.text' }],
+      model_config: {},
+    },
+  },
+];
+
+const TEMPLATE_FLOWS = {
+  provision: {
+    nodes: [
+      {
+        id: 'create_ingest_pipeline',
+        type: WORKFLOW_STEP_TYPE.CREATE_INGEST_PIPELINE_STEP_TYPE,
+        user_inputs: {
+          pipeline_id: 'my_ingest_pipeline',
+          configurations: JSON.stringify({ processors: INGEST_PROCESSORS }),
+        },
+      },
+      {
+        id: 'create_search_pipeline',
+        type: WORKFLOW_STEP_TYPE.CREATE_SEARCH_PIPELINE_STEP_TYPE,
+        user_inputs: {
+          pipeline_id: 'my_search_pipeline',
+          configurations: JSON.stringify({
+            phase_results_processors: [
+              {
+                'normalization-processor': {
+                  normalization: { technique: 'l2' },
+                  combination: {
+                    technique: 'arithmetic_mean',
+                    parameters: { weights: [0.3, 0.7] },
+                  },
+                },
+              },
+            ],
+          }),
+        },
+      },
+      {
+        id: 'create_index',
+        type: WORKFLOW_STEP_TYPE.CREATE_INDEX_STEP_TYPE,
+        previous_node_inputs: {
+          create_ingest_pipeline: 'pipeline_id',
+          create_search_pipeline: 'pipeline_id',
+        },
+        user_inputs: {
+          index_name: 'my_index',
+          configurations: JSON.stringify({
+            settings: {
+              'index.knn': true,
+              default_pipeline: '${{create_ingest_pipeline.pipeline_id}}',
+              'index.search.default_pipeline':
+                '${{create_search_pipeline.pipeline_id}}',
+            },
+            mappings: { properties: { passage_text: { type: 'text' } } },
+          }),
+        },
+      },
+    ],
+  },
+} as TemplateFlows;
+
+describe('template_to_config_utils', () => {
+  beforeEach(() => {});
+  describe('templateFlowsToConfig', () => {
+    test('parses the ingest and search configs', () => {
+      const config = templateFlowsToConfig(TEMPLATE_FLOWS);
+      expect(config.ingest.enabled.value).toEqual(true);
+      expect(config.ingest.pipelineName.value).toEqual('my_ingest_pipeline');
+      expect(config.ingest.index.name.value).toEqual('my_index');
+      expect(JSON.parse(config.ingest.index.settings.value as string)).toEqual(
+        { 'index.knn': true }
+      );
+      expect(config.search.pipelineName.value).toEqual('my_search_pipeline');
+      expect(config.search.index.name.value).toEqual('my_index');
+      expect(
+        config.ingest.enrich.processors.map((processor) => processor.type)
+      ).toEqual([
+        PROCESSOR_TYPE.TEXT_EMBEDDING,
+        PROCESSOR_TYPE.SPARSE_ENCODING,
+        PROCESSOR_TYPE.ML,
+        PROCESSOR_TYPE.SET,
+        PROCESSOR_TYPE.DATE,
+        PROCESSOR_TYPE.SCRIPT,
+        PROCESSOR_TYPE.CUSTOM,
+      ]);
+      expect(config.search.enrichResponse.processors[0].type).toEqual(
+        PROCESSOR_TYPE.NORMALIZATION
+      );
+    });
+    test('disables ingest if no ingest resources', () => {
+      const config = templateFlowsToConfig({
+        provision: { nodes: [] },
+      } as TemplateFlows);
+      expect(config.ingest.enabled.value).toEqual(false);
+      expect(config.ingest.enrich.processors).toEqual([]);
+      expect(config.search.enrichRequest.processors).toEqual([]);
+      expect(config.search.enrichResponse.processors).toEqual([]);
+    });
+  });
+  describe('templateProcessorsToProcessorConfigs', () => {
+    test('round trips ingest processors', () => {
+      const processorConfigs = templateProcessorsToProcessorConfigs(
+        INGEST_PROCESSORS,
+        PROCESSOR_CONTEXT.INGEST
+      );
+      expect(
+        processorConfigsToTemplateProcessors(
+          processorConfigs,
+          PROCESSOR_CONTEXT.INGEST
+        )
+      ).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            text_embedding: expect.objectContaining({
+              model_id: 'my_model',
+              field_map: { passage_text: 'passage_embedding' },
+            }),
+          }),
+          expect.objectContaining({
+            sparse_encoding: expect.objectContaining({
+              model_id: 'my_sparse_model',
+              field_map: { passage_text: 'passage_sparse_embedding' },
+            }),
+          }),
+          expect.objectContaining({
+            ml_inference: expect.objectContaining({
+              model_id: 'my_model',
+              input_map: [{ text: 'passage_text' }],
+              output_map: [{ passage_embedding: 'response' }],
+            }),
+          }),
+          expect.objectContaining({
+            set: expect.objectContaining({
+              field: 'my_field',
+              value: 'my_value',
+            }),
+          }),
+          expect.objectContaining({
+            date: expect.objectContaining({
+              field: 'my_date',
+              formats: ['yyyy-MM-dd', 'ISO8601'],
+            }),
+          }),
+          expect.objectContaining({
+            script: expect.objectContaining({
+              source: 'ctx.my_field = params.my_param',
+              params: { my_param: 'my_value' },
+            }),
+          }),
+          { grok: { field: 'message', patterns: ['%{WORD:word}'] } },
+        ])
+      );
+    });
+    test('parses search response ML processor outputs', () => {
+      const processorConfig = templateProcessorsToProcessorConfigs(
+        SEARCH_RESPONSE_PROCESSORS,
+        PROCESSOR_CONTEXT.SEARCH_RESPONSE
+      )[0];
+      const outputMap = processorConfig.fields.find(
+        (field) => field.id === 'output_map'
+      )?.value;
+      const extOutput = processorConfig.optionalFields?.find(
+        (field) => field.id === 'ext_output'
+      )?.value;
+      expect(extOutput).toEqual(true);
+      expect(outputMap).toEqual([
+        [
+          {
+            key: 'response',
+            value: {
+              transformType: TRANSFORM_TYPE.EXPRESSION,
+              nestedVars: [{ name: 'summary', transform: '$.response.text' }],
+            },
+          },
+        ],
+      ]);
+    });
+    test('round trips agentic search request processors', () => {
+      const processorConfigs = templateProcessorsToProcessorConfigs(
+        [{ agentic_query_translator: { agent_id: 'my_agent' } }],
+        PROCESSOR_CONTEXT.SEARCH_REQUEST
+      );
+      expect(processorConfigs[0].type).toEqual(
+        PROCESSOR_TYPE.AGENTIC_QUERY_TRANSLATOR
+      );
+      expect(
+        processorConfigsToTemplateProcessors(
+          processorConfigs,
+          PROCESSOR_CONTEXT.SEARCH_REQUEST
+        )
+      ).toEqual([
+        {
+          agentic_query_translator: expect.objectContaining({
+            agent_id: 'my_agent',
+          }),
+        },
+      ]);
+    });
+    test('round trips search request processors', () => {
+      const processors = [
+        {
+          filter_query: {
+            query: { term: { tenant_id: 'my_tenant' } },
+          },
+        },
+        {
+          neural_query_enricher: {
+            default_model_id: 'my_model',
+            neural_field_default_id: { passage_embedding: 'my_other_model' },
+          },
+        },
+        {
+          script: {
+            source: 'ctx._source.size = 5',
+          },
+        },
+        {
+          oversample: {
+            sample_factor: 3,
+          },
+        },
+      ];
+      const processorConfigs = templateProcessorsToProcessorConfigs(
+        processors,
+        PROCESSOR_CONTEXT.SEARCH_REQUEST
+      );
+      expect(processorConfigs.map((processor) => processor.type)).toEqual([
+        PROCESSOR_TYPE.FILTER_QUERY,
+        PROCESSOR_TYPE.NEURAL_QUERY_ENRICHER,
+        PROCESSOR_TYPE.SCRIPT,
+        PROCESSOR_TYPE.OVERSAMPLE,
+      ]);
+      expect(
+        processorConfigsToTemplateProcessors(
+          processorConfigs,
+          PROCESSOR_CONTEXT.SEARCH_REQUEST
+        )
+      ).toEqual(
+        processors.map((processor) => {
+          const processorType = Object.keys(processor)[0];
+          return {
+            [processorType]: expect.objectContaining(
+              Object.values(processor)[0]
+            ),
+          };
+        })
+      );
+    });
+    test('keeps processors with unsupported values', () => {
+      const processorConfig = templateProcessorsToProcessorConfigs(
+        [
+          {
+            split: {
+              field: 'my_field',
+              separator: ',',
+              preserve_trailing: 1,
+            },
+          },
+        ],
+        PROCESSOR_CONTEXT.INGEST
+      )[0];
+      expect(processorConfig.type).toEqual(PROCESSOR_TYPE.CUSTOM);
+      expect(
+        processorConfigsToTemplateProcessors(
+          [processorConfig],
+          PROCESSOR_CONTEXT.INGEST
+        )
+      ).toEqual([
+        {
+          split: { field: 'my_field', separator: ',', preserve_trailing: 1 },
+        },
+      ]);
+    });
+    test('round trips ingest processor conditions and failure handlers', () => {
+      const processor = {
+        text_embedding: {
+          model_id: 'my_model',
+          field_map: { passage_text: 'passage_embedding' },
+          if: 'ctx.passage_text != null',
+          on_failure: [
+            {
+              set: {
+                field: 'embedding_error',
+                value: '{{ _ingest.on_failure_message }}',
+              },
+            },
+          ],
+        },
+      };
+      const processorConfig = templateProcessorsToProcessorConfigs(
+        [processor],
+        PROCESSOR_CONTEXT.INGEST
+      )[0];
+      expect(processorConfig.type).toEqual(PROCESSOR_TYPE.TEXT_EMBEDDING);
+      expect(
+        processorConfigsToTemplateProcessors(
+          [processorConfig],
+          PROCESSOR_CONTEXT.INGEST
+        )
+      ).toEqual([
+        {
+          text_embedding: expect.objectContaining(processor.text_embedding),
+        },
+      ]);
+    });
+  });
+  describe('enrichWorkflowWithUiMetadata', () => {
+    test('generates missing UI metadata', () => {
+      const workflow = enrichWorkflowWithUiMetadata({
+        name: 'my_workflow',
+        workflows: TEMPLATE_FLOWS,
+      });
+      expect(workflow.ui_metadata?.type).toEqual(WORKFLOW_TYPE.CUSTOM);
+      expect(workflow.ui_metadata?.config?.ingest.index.name.value).toEqual(
+        'my_index'
+      );
+    });
+
+    test('preserves any saved queries', () => {
+      const savedQueries = [
+        {
+          name: 'my_query',
+          request: '{"query": {"match": {"title": "{{query_text}}"}}}',
+          params: [{ name: 'query_text', type: 'Text', value: 'shoes' }],
+          use_pipeline: true,
+        },
+      ] as SavedQuery[];
+      const workflow = enrichWorkflowWithUiMetadata(({
+        name: 'my_workflow',
+        workflows: TEMPLATE_FLOWS,
+        ui_metadata: { saved_queries: savedQueries },
+      } as unknown) as WorkflowTemplate);
+      expect(workflow.ui_metadata?.saved_queries).toEqual(savedQueries);
+    });
+  });
+});
@@ -0,0 +1,839 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  cloneDeep,
+  get,
+  isEmpty,
+  isPlainObject,
+  omit,
+  pick,
+  unset,
+} from 'lodash';
+import {
+  TemplateFlows,
+  TemplateNode,
+  CreateIngestPipelineNode,
+  CreateSearchPipelineNode,
+  CreateIndexNode,
+  WORKFLOW_STEP_TYPE,
+  WORKFLOW_TYPE,
+  WorkflowConfig,
+  WorkflowTemplate,
+  IngestConfig,
+  SearchConfig,
+  IngestPipelineConfig,
+  SearchPipelineConfig,
+  IngestProcessor,
+  SearchProcessor,
+  IProcessorConfig,
+  IConfigField,
+  ConfigFieldValue,
+  PROCESSOR_TYPE,
+  PROCESSOR_CONTEXT,
+  TEXT_CHUNKING_ALGORITHM,
+  CONDITIONAL_OPTIONAL_FIELDS,
+  TRANSFORM_TYPE,
+  MapFormValue,
+  InputMapFormValue,
+  OutputMapFormValue,
+  ModelFormValue,
+  AgentFormValue,
+  FETCH_ALL_QUERY,
+  JSONPATH_ROOT_SELECTOR,
+  UI_METADATA_SCHEMA_VERSION,
+  customStringify,
+} from '../../common';
+import {
+  AgenticContextProcessor,
+  AgenticQueryTranslatorProcessor,
+  CollapseProcessor,
+  ConvertIngestProcessor,
+  CopyIngestProcessor,
+  CustomIngestProcessor,
+  CustomSearchRequestProcessor,
+  CustomSearchResponseProcessor,
+  DateIngestProcessor,
+  FilterQueryProcessor,
+  LowercaseIngestProcessor,
+  MLIngestProcessor,
+  MLSearchRequestProcessor,
+  MLSearchResponseProcessor,
+  NeuralQueryEnricherProcessor,
+  NormalizationProcessor,
+  OversampleProcessor,
+  RemoveIngestProcessor,
+  RenameIngestProcessor,
+  RerankProcessor,
+  ScriptIngestProcessor,
+  ScriptSearchRequestProcessor,
+  SetIngestProcessor,
+  SortIngestProcessor,
+  SortSearchResponseProcessor,
+  SparseEncodingIngestProcessor,
+  SplitIngestProcessor,
+  SplitSearchResponseProcessor,
+  TextChunkingIngestProcessor,
+  TextEmbeddingIngestProcessor,
+  TextImageEmbeddingIngestProcessor,
+  TrimIngestProcessor,
+} from '../configs';
+import { generateId, isValidUiWorkflow, isValidWorkflow } from './utils';
+
+/*
+ **************** Template -> config utils **********************
+ */
+
+// Workflows created outside of the plugin (e.g., directly via the Flow Framework APIs)
+// will not have any UI metadata. Generate it from the workflow template, if missing,
+// so that any backend workflow can be viewed and edited on the UI.
+export function enrichWorkflowWithUiMetadata<T extends WorkflowTemplate>(
+  workflow: T
+): T {
+  if (!isValidWorkflow(workflow) || isValidUiWorkflow(workflow)) {
+    return workflow;
+  }
+  const workflowType = workflow.ui_metadata?.type;
+  return {
+    ...workflow,
+    ui_metadata: {
+      ...workflow.ui_metadata,
+      schema_version: UI_METADATA_SCHEMA_VERSION,
+      type:
+        workflowType !== undefined &&
+        Object.values(WORKFLOW_TYPE).includes(workflowType)
+          ? workflowType
+          : WORKFLOW_TYPE.CUSTOM,
+      config:
+        workflow.ui_metadata?.config ||
+        templateFlowsToConfig(workflow.workflows),
+    },
+  };
+}
+
+// The inverse of configToTemplateFlows(). Parses the ingest pipeline, search pipeline,
+// and index template nodes back into a UI config.
+export function templateFlowsToConfig(
+  templateFlows: TemplateFlows | undefined
+): WorkflowConfig {
+  const nodes = templateFlows?.provision?.nodes || [];
+  const createIndexNode = nodes.find(
+    (node) => node.type === WORKFLOW_STEP_TYPE.CREATE_INDEX_STEP_TYPE
+  ) as CreateIndexNode | undefined;
+  const createIngestPipelineNode = findPipelineNode(
+    nodes,
+    WORKFLOW_STEP_TYPE.CREATE_INGEST_PIPELINE_STEP_TYPE,
+    createIndexNode
+  ) as CreateIngestPipelineNode | undefined;
+  const createSearchPipelineNode = findPipelineNode(
+    nodes,
+    WORKFLOW_STEP_TYPE.CREATE_SEARCH_PIPELINE_STEP_TYPE,
+    createIndexNode
+  ) as CreateSearchPipelineNode | undefined;
+
+  return {
+    ingest: ingestTemplateNodesToConfig(
+      createIngestPipelineNode,
+      createIndexNode
+    ),
+    search: searchTemplateNodesToConfig(
+      createSearchPipelineNode,
+      createIndexNode
+    ),
+  };
+}
+
+// There may be multiple pipeline nodes of the same type. Prefer the one the index node
+// consumes as an input (if any), otherwise fall back to the first one found.
+function findPipelineNode(
+  nodes: TemplateNode[],
+  nodeType: WORKFLOW_STEP_TYPE,
+  createIndexNode?: CreateIndexNode
+): TemplateNode | undefined {
+  const pipelineNodes = nodes.filter((node) => node.type === nodeType);
+  const indexInputIds = Object.keys(
+    createIndexNode?.previous_node_inputs || {}
+  );
+  return (
+    pipelineNodes.find((node) => indexInputIds.includes(node.id)) ||
+    pipelineNodes[0]
+  );
+}
+
+function ingestTemplateNodesToConfig(
+  createIngestPipelineNode?: CreateIngestPipelineNode,
+  createIndexNode?: CreateIndexNode
+): IngestConfig {
+  const pipelineConfig = parseConfigurations(
+    createIngestPipelineNode?.user_inputs?.configurations
+  ) as IngestPipelineConfig;
+  const indexConfig = parseConfigurations(
+    createIndexNode?.user_inputs?.configurations
+  ) as { settings?: {}; mappings?: {} };
+
+  return {
+    enabled: {
+      id: 'enabled',
+      type: 'boolean',
+      value:
+        createIngestPipelineNode !== undefined || createIndexNode !== undefined,
+    },
+    pipelineName: {
+      id: 'pipelineName',
+      type: 'string',
+      value:
+        createIngestPipelineNode?.user_inputs?.pipeline_id ||
+        generateId('ingest_pipeline'),
+    },
+    enrich: {
+      processors: templateProcessorsToProcessorConfigs(
+        pipelineConfig?.processors || [],
+        PROCESSOR_CONTEXT.INGEST
+      ),
+    },
+    index: {
+      name: {
+        id: 'indexName',
+        type: 'string',
+        value:
+          createIndexNode?.user_inputs?.index_name || generateId('my_index', 6),
+      },
+      mappings: {
+        id: 'indexMappings',
+        type: 'json',
+        value: customStringify(indexConfig?.mappings || { properties: {} }),
+      },
+      settings: {
+        id: 'indexSettings',
+        type: 'json',
+        value: customStringify(
+          removeDefaultPipelineSettings(indexConfig?.settings || {})
+        ),
+      },
+    },
+  };
+}
+
+function searchTemplateNodesToConfig(
+  createSearchPipelineNode?: CreateSearchPipelineNode,
+  createIndexNode?: CreateIndexNode
+): SearchConfig {
+  const pipelineConfig = parseConfigurations(
+    createSearchPipelineNode?.user_inputs?.configurations
+  ) as SearchPipelineConfig;
+
+  return {
+    request: {
+      id: 'request',
+      type: 'json',
+      value: customStringify(FETCH_ALL_QUERY),
+    },
+    pipelineName: {
+      id: 'pipelineName',
+      type: 'string',
+      value:
+        createSearchPipelineNode?.user_inputs?.pipeline_id ||
+        generateId('search_pipeline'),
+    },
+    index: {
+      name: {
+        id: 'indexName',
+        type: 'string',
+        value: createIndexNode?.user_inputs?.index_name,
+      },
+    },
+    enrichRequest: {
+      processors: templateProcessorsToProcessorConfigs(
+        pipelineConfig?.request_processors || [],
+        PROCESSOR_CONTEXT.SEARCH_REQUEST
+      ),
+    },
+    // We don't maintain separate UI / config between response processors and phase
+    // results processors, so we merge them back into the single list of response processors.
+    enrichResponse: {
+      processors: templateProcessorsToProcessorConfigs(
+        [
+          ...(pipelineConfig?.phase_results_processors || []),
+          ...(pipelineConfig?.response_processors || []),
+        ],
+        PROCESSOR_CONTEXT.SEARCH_RESPONSE
+      ),
+    },
+  };
+}
+
+// Node configurations are persisted as JSON strings. Gracefully handle
+// already-parsed objs, as well as invalid JSON.
+function parseConfigurations(configurations: any): {} {
+  if (isPlainObject(configurations)) {
+    return configurations;
+  }
+  try {
+    return JSON.parse(configurations) || {};
+  } catch (e) {
+    return {};
+  }
+}
+
+// When generating the index node, the default ingest & search pipelines are set by referencing
+// the pipeline node outputs (e.g., "${{my_pipeline.pipeline_id}}"). Remove those, since they are
+// re-generated from the pipeline configs. Any static pipeline names are left as-is.
+function removeDefaultPipelineSettings(settings: {}): {} {
+  const finalSettings = cloneDeep(settings);
+  [
+    'default_pipeline',
+    'index.default_pipeline',
+    'index.search.default_pipeline',
+  ].forEach((setting) => {
+    // settings may be defined in flattened or nested form
+    [[setting], setting].forEach((path) => {
+      const value = get(finalSettings, path);
+      if (typeof value === 'string' && /^\$\{\{.*\}\}$/.test(value)) {
+        unset(finalSettings, path);
+      }
+    });
+  });
+  return finalSettings;
+}
+
+// General fn to convert template-formatted IngestProcessor/SearchProcessors back into
+// a list of processor configs. Any processor that cannot be fully mapped to a dedicated
+// config is persisted as a custom processor, so nothing is lost.
+export function templateProcessorsToProcessorConfigs(
+  processors: (IngestProcessor | SearchProcessor)[],
+  context: PROCESSOR_CONTEXT
+): IProcessorConfig[] {
+  return processors.map((processor) => {
+    const processorType = Object.keys(processor)[0] || '';
+    const processorBody = get(processor, processorType, {});
+    let processorConfig = undefined as IProcessorConfig | undefined;
+    if (Object.keys(processor).length === 1 && isPlainObject(processorBody)) {
+      // the conditional execution & failure handling values shared by all ingest
+      // processors are mapped separately from the type-specific values
+      const conditionalValues =
+        context === PROCESSOR_CONTEXT.INGEST
+          ? pick(processorBody, CONDITIONAL_OPTIONAL_FIELDS)
+          : {};
+      processorConfig = templateProcessorToProcessorConfig(
+        processorType,
+        omit(processorBody, Object.keys(conditionalValues)),
+        context
+      );
+      if (
+        processorConfig !== undefined &&
+        !populateConfigFields(processorConfig, conditionalValues)
+      ) {
+        processorConfig = undefined;
+      }
+    }
+    return (
+      processorConfig ||
+      customProcessorToProcessorConfig(processorType, processorBody, context)
+    );
+  });
+}
+
+// Convert a single processor into its dedicated processor config. Returns undefined
+// if there is no dedicated config, or the processor contains any values the config can't represent.
+function templateProcessorToProcessorConfig(
+  processorType: string,
+  processorBody: { [key: string]: any },
+  context: PROCESSOR_CONTEXT
+): IProcessorConfig | undefined {
+  const processorConfig = getNewProcessorConfig(processorType, context);
+  if (processorConfig === undefined) {
+    return undefined;
+  }
+  let isMapped = false;
+  switch (processorConfig.type) {
+    case PROCESSOR_TYPE.ML: {
+      isMapped = populateMLProcessorConfig(
+        processorConfig,
+        processorBody,
+        context
+      );
+      break;
+    }
+    case PROCESSOR_TYPE.TEXT_CHUNKING: {
+      isMapped = populateTextChunkingProcessorConfig(
+        processorConfig,
+        processorBody
+      );
+      break;
+    }
+    case PROCESSOR_TYPE.NORMALIZATION: {
+      isMapped = populateNormalizationProcessorConfig(
+        processorConfig,
+        processorBody
+      );
+      break;
+    }
+    // Since we only support the by_field type of the rerank processor,
+    // un-nest the values from the parent "by_field" field.
+    case PROCESSOR_TYPE.RERANK: {
+      const { by_field, ...processorValues } = processorBody;
+      isMapped =
+        isPlainObject(by_field) &&
+        populateConfigFields(processorConfig, {
+          ...by_field,
+          ...processorValues,
+        });
+      break;
+    }
+    case PROCESSOR_TYPE.TEXT_EMBEDDING:
+    case PROCESSOR_TYPE.TEXT_IMAGE_EMBEDDING:
+    case PROCESSOR_TYPE.SPARSE_ENCODING: {
+      const { model_id, ...processorValues } = processorBody;
+      isMapped =
+        typeof model_id === 'string' &&
+        setConfigFieldValue(processorConfig, 'model', {
+          id: model_id,
+        } as ModelFormValue) &&
+        populateConfigFields(processorConfig, processorValues);
+      break;
+    }
+    case PROCESSOR_TYPE.NEURAL_QUERY_ENRICHER: {
+      const { default_model_id, ...processorValues } = processorBody;
+      isMapped =
+        typeof default_model_id === 'string' &&
+        setConfigFieldValue(processorConfig, 'default_model', {
+          id: default_model_id,
+        } as ModelFormValue) &&
+        populateConfigFields(processorConfig, processorValues);
+      break;
+    }
+    case PROCESSOR_TYPE.AGENTIC_QUERY_TRANSLATOR: {
+      const { agent_id, ...processorValues } = processorBody;
+      isMapped =
+        typeof agent_id === 'string' &&
+        setConfigFieldValue(processorConfig, 'agent', {
+          id: agent_id,
+        } as AgentFormValue) &&
+        populateConfigFields(processorConfig, processorValues);
+      break;
+    }
+    case PROCESSOR_TYPE.SPLIT:
+    case PROCESSOR_TYPE.SORT:
+    case PROCESSOR_TYPE.COLLAPSE:
+    case PROCESSOR_TYPE.COPY:
+    case PROCESSOR_TYPE.SET:
+    case PROCESSOR_TYPE.REMOVE:
+    case PROCESSOR_TYPE.RENAME:
+    case PROCESSOR_TYPE.CONVERT:
+    case PROCESSOR_TYPE.DATE:
+    case PROCESSOR_TYPE.LOWERCASE:
+    case PROCESSOR_TYPE.TRIM:
+    case PROCESSOR_TYPE.SCRIPT:
+    case PROCESSOR_TYPE.FILTER_QUERY:
+    case PROCESSOR_TYPE.OVERSAMPLE:
+    case PROCESSOR_TYPE.AGENTIC_CONTEXT:
+    default: {
+      isMapped = populateConfigFields(processorConfig, processorBody);
+      break;
+    }
+  }
+  return isMapped ? processorConfig : undefined;
+}
+
+// Generate a new processor config with default values, based on the processor type
+// and the context it is used in. Returns undefined if the processor is not supported.
+function getNewProcessorConfig(
+  processorType: string,
+  context: PROCESSOR_CONTEXT
+): IProcessorConfig | undefined {
+  switch (context) {
+    case PROCESSOR_CONTEXT.INGEST: {
+      switch (processorType) {
+        case PROCESSOR_TYPE.ML:
+          return new MLIngestProcessor().toObj();
+        case PROCESSOR_TYPE.SPLIT:
+          return new SplitIngestProcessor().toObj();
+        case PROCESSOR_TYPE.SORT:
+          return new SortIngestProcessor().toObj();
+        case PROCESSOR_TYPE.TEXT_CHUNKING:
+          return new TextChunkingIngestProcessor().toObj();
+        case PROCESSOR_TYPE.TEXT_EMBEDDING:
+          return new TextEmbeddingIngestProcessor().toObj();
+        case PROCESSOR_TYPE.TEXT_IMAGE_EMBEDDING:
+          return new TextImageEmbeddingIngestProcessor().toObj();
+        case PROCESSOR_TYPE.SPARSE_ENCODING:
+          return new SparseEncodingIngestProcessor().toObj();
+        case PROCESSOR_TYPE.COPY:
+          return new CopyIngestProcessor().toObj();
+        case PROCESSOR_TYPE.SET:
+          return new SetIngestProcessor().toObj();
+        case PROCESSOR_TYPE.REMOVE:
+          return new RemoveIngestProcessor().toObj();
+        case PROCESSOR_TYPE.RENAME:
+          return new RenameIngestProcessor().toObj();
+        case PROCESSOR_TYPE.CONVERT:
+          return new ConvertIngestProcessor().toObj();
+        case PROCESSOR_TYPE.DATE:
+          return new DateIngestProcessor().toObj();
+        case PROCESSOR_TYPE.LOWERCASE:
+          return new LowercaseIngestProcessor().toObj();
+        case PROCESSOR_TYPE.TRIM:
+          return new TrimIngestProcessor().toObj();
+        case PROCESSOR_TYPE.SCRIPT:
+          return new ScriptIngestProcessor().toObj();
+        default:
+          return undefined;
+      }
+    }
+    case PROCESSOR_CONTEXT.SEARCH_REQUEST: {
+      switch (processorType) {
+        case PROCESSOR_TYPE.ML:
+          return new MLSearchRequestProcessor().toObj();
+        case PROCESSOR_TYPE.AGENTIC_QUERY_TRANSLATOR:
+          return new AgenticQueryTranslatorProcessor().toObj();
+        case PROCESSOR_TYPE.FILTER_QUERY:
+          return new FilterQueryProcessor().toObj();
+        case PROCESSOR_TYPE.NEURAL_QUERY_ENRICHER:
+          return new NeuralQueryEnricherProcessor().toObj();
+        case PROCESSOR_TYPE.SCRIPT:
+          return new ScriptSearchRequestProcessor().toObj();
+        case PROCESSOR_TYPE.OVERSAMPLE:
+          return new OversampleProcessor().toObj();
+        default:
+          return undefined;
+      }
+    }
+    case PROCESSOR_CONTEXT.SEARCH_RESPONSE: {
+      switch (processorType) {
+        case PROCESSOR_TYPE.ML:
+          return new MLSearchResponseProcessor().toObj();
+        case PROCESSOR_TYPE.SPLIT:
+          return new SplitSearchResponseProcessor().toObj();
+        case PROCESSOR_TYPE.SORT:
+          return new SortSearchResponseProcessor().toObj();
+        case PROCESSOR_TYPE.NORMALIZATION:
+          return new NormalizationProcessor().toObj();
+        case PROCESSOR_TYPE.COLLAPSE:
+          return new CollapseProcessor().toObj();
+        case PROCESSOR_TYPE.RERANK:
+          return new RerankProcessor().toObj();
+        case PROCESSOR_TYPE.AGENTIC_CONTEXT:
+          return new AgenticContextProcessor().toObj();
+        default:
+          return undefined;
+      }
+    }
+  }
+}
+
+function customProcessorToProcessorConfig(
+  processorType: string,
+  processorBody: {},
+  context: PROCESSOR_CONTEXT
+): IProcessorConfig {
+  const processorConfig =
+    context === PROCESSOR_CONTEXT.INGEST
+      ? new CustomIngestProcessor().toObj()
+      : context === PROCESSOR_CONTEXT.SEARCH_REQUEST
+      ? new CustomSearchRequestProcessor().toObj()
+      : new CustomSearchResponseProcessor().toObj();
+  setConfigFieldValue(processorConfig, 'processor_type', processorType);
+  setConfigFieldValue(
+    processorConfig,
+    'processor_config',
+    customStringify(processorBody || {})
+  );
+  return processorConfig;
+}
+
+// Parse out the model ID, model config, and the input/output maps into their
+// form-specific formats. This is the inverse of processModelInputs() and processModelOutputs().
+// Note that any static model inputs are left as-is in the model config.
+function populateMLProcessorConfig(
+  processorConfig: IProcessorConfig,
+  processorBody: { [key: string]: any },
+  context: PROCESSOR_CONTEXT
+): boolean {
+  const {
+    model_id,
+    input_map,
+    output_map,
+    model_config,
+    ...processorValues
+  } = processorBody;
+  if (
+    typeof model_id !== 'string' ||
+    (input_map !== undefined && !Array.isArray(input_map)) ||
+    (output_map !== undefined && !Array.isArray(output_map)) ||
+    (model_config !== undefined && !isPlainObject(model_config))
+  ) {
+    return false;
+  }
+
+  // the UI-specific "ext_output" field determines if storing the model outputs
+  // in "ext.ml_inference" or not. Only set if all outputs are stored there.
+  const extOutputPrefix = 'ext.ml_inference.';
+  const outputMaps = (output_map || []) as { [key: string]: any }[];
+  const extOutput =
+    context === PROCESSOR_CONTEXT.SEARCH_RESPONSE &&
+    outputMaps.length > 0 &&
+    outputMaps.every(
+      (outputMap) =>
+        !isEmpty(outputMap) &&
+        Object.keys(outputMap).every((key) => key.startsWith(extOutputPrefix))
+    );
+
+  const inputMapFormValues = ((input_map || []) as {
+    [key: string]: any;
+  }[]).map((inputMap) => templateInputMapToFormValue(inputMap));
+  const outputMapFormValues = outputMaps.map((outputMap) =>
+    templateOutputMapToFormValue(
+      outputMap,
+      extOutput ? extOutputPrefix : undefined
+    )
+  );
+  if (
+    inputMapFormValues.includes(undefined) ||
+    outputMapFormValues.includes(undefined)
+  ) {
+    return false;
+  }
+
+  setConfigFieldValue(processorConfig, 'model', {
+    id: model_id,
+  } as ModelFormValue);
+  setConfigFieldValue(processorConfig, 'input_map', inputMapFormValues);
+  setConfigFieldValue(processorConfig, 'output_map', outputMapFormValues);
+  if (model_config !== undefined) {
+    setConfigFieldValue(
+      processorConfig,
+      'model_config',
+      customStringify(model_config)
+    );
+  }
+  if (context === PROCESSOR_CONTEXT.SEARCH_RESPONSE) {
+    setConfigFieldValue(processorConfig, 'ext_output', extOutput);
+  }
+  return populateConfigFields(processorConfig, processorValues);
+}
+
+// Input maps are of the format {model input: document/query field or JSONPath expression}
+function templateInputMapToFormValue(inputMap: {
+  [key: string]: any;
+}): InputMapFormValue | undefined {
+  if (!isPlainObject(inputMap)) {
+    return undefined;
+  }
+  const mapEntries = Object.keys(inputMap).map((modelInput) => {
+    const inputValue = inputMap[modelInput];
+    return typeof inputValue === 'string'
+      ? {
+          key: modelInput,
+          value: {
+            transformType: inputValue.startsWith(JSONPATH_ROOT_SELECTOR)
+              ? TRANSFORM_TYPE.EXPRESSION
+              : TRANSFORM_TYPE.FIELD,
+            value: inputValue,
+          },
+        }
+      : undefined;
+  });
+  return mapEntries.includes(undefined)
+    ? undefined
+    : (mapEntries as InputMapFormValue);
+}
+
+// Output maps are of the format {new document field: model output field or JSONPath expression}
+function templateOutputMapToFormValue(
+  outputMap: { [key: string]: any },
+  prefixToRemove?: string
+): OutputMapFormValue | undefined {
+  if (!isPlainObject(outputMap)) {
+    return undefined;
+  }
+  const mapEntries = Object.keys(outputMap).map((outputKey) => {
+    const newField =
+      prefixToRemove !== undefined
+        ? outputKey.substring(prefixToRemove.length)
+        : outputKey;
+    const modelOutput = outputMap[outputKey];
+    if (typeof modelOutput !== 'string') {
+      return undefined;
+    }
+    // expressions are persisted as nested vars, with the top-level model output
+    // field as the key (e.g., "$.response.text" -> "response")
+    return modelOutput.startsWith(JSONPATH_ROOT_SELECTOR)
+      ? {
+          key:
+            modelOutput
+              .replace(/^\$\.?/, '')
+              .split(/[.\[]/)[0]
+              .replace(/['"\]]/g, '') || modelOutput,
+          value: {
+            transformType: TRANSFORM_TYPE.EXPRESSION,
+            nestedVars: [
+              {
+                name: newField,
+                transform: modelOutput,
+              },
+            ],
+          },
+        }
+      : {
+          key: modelOutput,
+          value: {
+            transformType: TRANSFORM_TYPE.FIELD,
+            value: newField,
+          },
+        };
+  });
+  return mapEntries.includes(undefined)
+    ? undefined
+    : (mapEntries as OutputMapFormValue);
+}
+
+// The algorithm-specific values may be nested under the selected algorithm (the expected
+// API format), or flattened (the legacy format generated by the UI). Support both.
+function populateTextChunkingProcessorConfig(
+  processorConfig: IProcessorConfig,
+  processorBody: { [key: string]: any }
+): boolean {
+  const { algorithm, ...processorValues } = processorBody;
+  let algorithmValues = {};
+  let algorithmType = TEXT_CHUNKING_ALGORITHM.FIXED_TOKEN_LENGTH as string;
+  if (typeof algorithm === 'string') {
+    algorithmType = algorithm;
+  } else if (isPlainObject(algorithm)) {
+    if (Object.keys(algorithm).length !== 1) {
+      return false;
+    }
+    algorithmType = Object.keys(algorithm)[0];
+    algorithmValues = algorithm[algorithmType];
+    if (!isPlainObject(algorithmValues)) {
+      return false;
+    }
+  } else if (algorithm !== undefined) {
+    return false;
+  }
+  return populateConfigFields(processorConfig, {
+    ...processorValues,
+    ...algorithmValues,
+    algorithm: algorithmType,
+  });
+}
+
+// Un-nest the normalization processor parameters into the flattened form values
+function populateNormalizationProcessorConfig(
+  processorConfig: IProcessorConfig,
+  processorBody: { [key: string]: any }
+): boolean {
+  const { normalization, combination, ...processorValues } = processorBody;
+  const weights = combination?.parameters?.weights;
+  if (
+    !isEmpty(
+      Object.keys(normalization || {}).filter((key) => key !== 'technique')
+    ) ||
+    !isEmpty(
+      Object.keys(combination || {}).filter(
+        (key) => key !== 'technique' && key !== 'parameters'
+      )
+    ) ||
+    !isEmpty(
+      Object.keys(combination?.parameters || {}).filter(
+        (key) => key !== 'weights'
+      )
+    ) ||
+    (weights !== undefined && !Array.isArray(weights))
+  ) {
+    return false;
+  }
+  return populateConfigFields(processorConfig, {
+    ...processorValues,
+    ...(normalization?.technique !== undefined
+      ? { normalization_technique: normalization.technique }
+      : {}),
+    ...(combination?.technique !== undefined
+      ? { combination_technique: combination.technique }
+      : {}),
+    // explicitly clear the default weights, if none are configured
+    weights: weights !== undefined ? weights.join(', ') : '',
+  });
+}
+
+// Populate the config fields with the matching processor values. Returns false
+// if any of the processor values can't be mapped to an existing field.
+function populateConfigFields(
+  processorConfig: IProcessorConfig,
+  processorValues: { [key: string]: any }
+): boolean {
+  return Object.keys(processorValues).every((key) =>
+    setConfigFieldValue(processorConfig, key, processorValues[key], true)
+  );
+}
+
+// Set the value of a required or optional field. Returns false if no such field exists,
+// or, if converting, the value can't be converted to the field's expected type.
+function setConfigFieldValue(
+  processorConfig: IProcessorConfig,
+  fieldId: string,
+  value: any,
+  convert: boolean = false
+): boolean {
+  const field = [
+    ...processorConfig.fields,
+    ...(processorConfig.optionalFields || []),
+  ].find((configField) => configField.id === fieldId);
+  if (field === undefined) {
+    return false;
+  }
+  const fieldValue = convert ? toConfigFieldValue(field, value) : value;
+  if (fieldValue === undefined) {
+    return false;
+  }
+  field.value = fieldValue;
+  return true;
+}
+
+// Convert a raw processor value into the expected format for the field type, if possible
+function toConfigFieldValue(
+  field: IConfigField,
+  value: any
+): ConfigFieldValue | undefined {
+  switch (field.type) {
+    case 'string':
+    case 'textArea':
+    case 'jsonString': {
+      return typeof value === 'string' ? value : undefined;
+    }
+    case 'select': {
+      return typeof value === 'string' &&
+        (field.selectOptions === undefined ||
+          field.selectOptions.includes(value))
+        ? value
+        : undefined;
+    }
+    case 'boolean': {
+      return typeof value === 'boolean' ? value : undefined;
+    }
+    case 'number': {
+      return typeof value === 'number' ? value : undefined;
+    }
+    case 'json': {
+      return isPlainObject(value) || Array.isArray(value)
+        ? customStringify(value)
+        : undefined;
+    }
+    case 'jsonArray': {
+      return Array.isArray(value) ? customStringify(value) : undefined;
+    }
+    case 'map': {
+      return isPlainObject(value) &&
+        Object.values(value).every((mapValue) => typeof mapValue === 'string')
+        ? (Object.keys(value).map((mapKey) => ({
+            key: mapKey,
+            value: value[mapKey],
+          })) as MapFormValue)
+        : undefined;
+    }
+    default: {
+      return undefined;
+    }
+  }
+}
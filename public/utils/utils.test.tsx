@@ -0,0 +1,226 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  EMBEDDING_PROBE_TEXT,
+  MODEL_ALGORITHM,
+  MODEL_STATE,
+  Model,
+  ModelInterface,
+} from '../../common';
+import {
+  getDimensionMismatches,
+  getEmbeddingDimensionFromPrediction,
+  getEmbeddingProbeBody,
+  getModelInterfaceFromPrediction,
+} from './utils';
+
+describe('utils', () => {
+  describe('getEmbeddingProbeBody', () => {
+    const baseModel = {
+      id: 'model_id',
+      name: 'model',
+      state: MODEL_STATE.DEPLOYED,
+    };
+    test('local text embedding model', () => {
+      expect(
+        getEmbeddingProbeBody({
+          ...baseModel,
+          algorithm: MODEL_ALGORITHM.TEXT_EMBEDDING,
+        } as Model)
+      ).toEqual({
+        text_docs: [EMBEDDING_PROBE_TEXT],
+        return_number: true,
+        target_response: ['sentence_embedding'],
+      });
+    });
+    test('remote model with an interface', () => {
+      expect(
+        getEmbeddingProbeBody({
+          ...baseModel,
+          algorithm: MODEL_ALGORITHM.REMOTE,
+          interface: ({
+            input: {
+              properties: {
+                parameters: {
+                  properties: {
+                    texts: { type: 'array' },
+                    input_type: { type: 'string' },
+                    truncate: { type: 'boolean' },
+                  },
+                },
+              },
+            },
+          } as unknown) as ModelInterface,
+        } as Model)
+      ).toEqual({
+        parameters: {
+          texts: [EMBEDDING_PROBE_TEXT],
+          input_type: EMBEDDING_PROBE_TEXT,
+        },
+      });
+    });
+    test('remote model without an interface', () => {
+      expect(
+        getEmbeddingProbeBody({
+          ...baseModel,
+          algorithm: MODEL_ALGORITHM.REMOTE,
+        } as Model)
+      ).toEqual({
+        parameters: {
+          input: [EMBEDDING_PROBE_TEXT],
+          texts: [EMBEDDING_PROBE_TEXT],
+          inputText: EMBEDDING_PROBE_TEXT,
+        },
+      });
+    });
+  });
+
+  describe('getEmbeddingDimensionFromPrediction', () => {
+    test('finds the longest nested array of numbers', () => {
+      expect(
+        getEmbeddingDimensionFromPrediction({
+          inference_results: [
+            {
+              output: [
+                {
+                  name: 'sentence_embedding',
+                  shape: [3],
+                  data: [0.1, 0.2, 0.3],
+                },
+              ],
+            },
+          ],
+        })
+      ).toEqual(3);
+      expect(
+        getEmbeddingDimensionFromPrediction({
+          embeddings: [[0.1, 0.2, 0.3, 0.4]],
+          usage: { tokens: [1, 2] },
+        })
+      ).toEqual(4);
+    });
+    test('returns undefined if no embedding is found', () => {
+      expect(getEmbeddingDimensionFromPrediction({})).toBeUndefined();
+      expect(getEmbeddingDimensionFromPrediction(null)).toBeUndefined();
+      expect(
+        getEmbeddingDimensionFromPrediction({ output: ['a', 'b'], data: [] })
+      ).toBeUndefined();
+    });
+  });
+
+  describe('getDimensionMismatches', () => {
+    const mappings = JSON.stringify({
+      properties: {
+        embedding: { type: 'knn_vector', dimension: 768 },
+        other_embedding: { type: 'knn_vector', dimension: 384 },
+        text: { type: 'text' },
+      },
+    });
+    test('finds mapped vector fields with a different dimension', () => {
+      expect(
+        getDimensionMismatches(mappings, {
+          embedding: 1024,
+          other_embedding: 384,
+          text: 10,
+          unmapped_embedding: 512,
+        })
+      ).toEqual([
+        {
+          fieldName: 'embedding',
+          mappedDimension: 768,
+          expectedDimension: 1024,
+        },
+      ]);
+    });
+    test('ignores invalid mappings', () => {
+      expect(getDimensionMismatches('{', { embedding: 1024 })).toEqual([]);
+    });
+  });
+
+  describe('getModelInterfaceFromPrediction', () => {
+    test('requires all of the sample input parameters', () => {
+      expect(
+        getModelInterfaceFromPrediction(
+          { parameters: { inputs: ['hello'], max_tokens: 10 } },
+          {}
+        ).input
+      ).toEqual({
+        type: 'object',
+        properties: {
+          parameters: {
+            type: 'object',
+            properties: {
+              inputs: { type: 'array', items: { type: 'string' } },
+              max_tokens: { type: 'number' },
+            },
+            required: ['inputs', 'max_tokens'],
+          },
+        },
+      });
+      expect(getModelInterfaceFromPrediction({}, {}).input).toEqual({
+        type: 'object',
+        properties: {},
+      });
+    });
+    test('derives the output schema from each response shape', () => {
+      // each entry is a sample response, and its expected output schema
+      const responseSchemas = [
+        [{}, { type: 'object', properties: {} }],
+        [
+          { response: 'hi', score: 0.5, done: true, meta: null },
+          {
+            type: 'object',
+            properties: {
+              response: { type: 'string' },
+              score: { type: 'number' },
+              done: { type: 'boolean' },
+              meta: { type: 'null' },
+            },
+          },
+        ],
+        [
+          { choices: [{ message: { content: 'hi' } }, { unused: 1 }] },
+          {
+            type: 'object',
+            properties: {
+              choices: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    message: {
+                      type: 'object',
+                      properties: { content: { type: 'string' } },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        ],
+        [
+          { embeddings: [[0.1, 0.2]], tokens: [] },
+          {
+            type: 'object',
+            properties: {
+              embeddings: {
+                type: 'array',
+                items: { type: 'array', items: { type: 'number' } },
+              },
+              tokens: { type: 'array' },
+            },
+          },
+        ],
+        [null, { type: 'null' }],
+      ];
+      responseSchemas.forEach(([response, outputSchema]) => {
+        expect(
+          getModelInterfaceFromPrediction({}, response as {}).output
+        ).toEqual(outputSchema);
+      });
+    });
+  });
+});
@@ -4,6 +4,7 @@
  */
 
 import React, { ReactNode, useEffect, useState } from 'react';
+import { FormikValues } from 'formik';
 import yaml from 'js-yaml';
 import jsonpath from 'jsonpath';
 import { capitalize, escape, findKey, get, isEmpty, set, unset } from 'lodash';
@@ -16,6 +17,7 @@ import {
   MODEL_OUTPUT_SCHEMA_FULL_PATH,
   MODEL_OUTPUT_SCHEMA_NESTED_PATH,
   ModelInputFormField,
+  ModelInput,
   ModelInterface,
   ModelOutput,
   ModelOutputFormField,
@@ -28,6 +30,7 @@ import {
   WORKFLOW_RESOURCE_TYPE,
   WORKFLOW_STEP_TYPE,
   Workflow,
+  WorkflowDict,
   WorkflowResource,
   BEDROCK_CONFIGS,
   COHERE_CONFIGS,
@@ -44,6 +47,9 @@ import {
   WORKFLOW_TYPE,
   MIN_SUPPORTED_VERSION,
   MINIMUM_FULL_SUPPORTED_VERSION,
+  EMBEDDING_PROBE_TEXT,
+  MODEL_ALGORITHM,
+  Model,
 } from '../../common';
 import {
   getCore,
@@ -53,10 +59,17 @@ import {
 } from '../services';
 import {
   Connector,
+  ConnectorDict,
+  DimensionMismatch,
+  EmbeddingDimensionDict,
+  IndexMappings,
   IngestPipelineErrors,
+  IngestProcessor,
+  IngestProcessorResult,
   InputMapEntry,
   MapFormValue,
   MDSQueryParams,
+  ModelDict,
   ModelInputMap,
   ModelOutputMap,
   OutputMapEntry,
@@ -64,7 +77,9 @@ import {
   QueryParam,
   SearchPipelineErrors,
   SearchResponseVerbose,
+  SimulateIngestPipelineDocResponseVerbose,
   SimulateIngestPipelineResponseVerbose,
+  WorkflowTemplateErrors,
 } from '../../common/interfaces';
 import * as pluginManifest from '../../opensearch_dashboards.json';
 import { DataSourceAttributes } from '../../../../src/plugins/data_source/common/data_sources';
@@ -81,10 +96,6 @@ export function generateId(prefix?: string, numChars: number = 16): string {
   return `${prefix || ''}_${uniqueId.substring(0, numChars)}`;
 }
 
-export function sleep(ms: number) {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
 export function hasProvisionedIngestResources(
   workflow: Workflow | undefined
 ): boolean {
@@ -115,6 +126,34 @@ export function hasProvisionedSearchResources(
   return result;
 }
 
+export function getProvisionedSearchPipelineId(
+  workflow: Workflow | undefined
+): string | undefined {
+  return workflow?.resourcesCreated?.find(
+    (resource) =>
+      resource.stepType === WORKFLOW_STEP_TYPE.CREATE_SEARCH_PIPELINE_STEP_TYPE
+  )?.id;
+}
+
+// the ingest & search pipelines share the same resource type, so match on the step type
+export function getProvisionedIngestPipelineId(
+  workflow: Workflow | undefined
+): string | undefined {
+  return workflow?.resourcesCreated?.find(
+    (resource) =>
+      resource.stepType === WORKFLOW_STEP_TYPE.CREATE_INGEST_PIPELINE_STEP_TYPE
+  )?.id;
+}
+
+export function getProvisionedIndexName(
+  workflow: Workflow | undefined
+): string | undefined {
+  return workflow?.resourcesCreated?.find(
+    (resource) =>
+      resource.stepType === WORKFLOW_STEP_TYPE.CREATE_INDEX_STEP_TYPE
+  )?.id;
+}
+
 // returns a comma-delimited string of all resource IDs that need to be force deleted.
 // see https://github.com/opensearch-project/flow-framework/pull/763
 export function getResourcesToBeForceDeleted(
@@ -158,6 +197,16 @@ export function isValidWorkflow(workflowObj: any): boolean {
   return workflowObj?.name !== undefined;
 }
 
+// Returns true if any template-level or node-level validation errors are found
+export function hasWorkflowTemplateErrors(
+  errors: WorkflowTemplateErrors | undefined
+): boolean {
+  return (
+    errors !== undefined &&
+    (!isEmpty(errors.templateErrors) || !isEmpty(errors.nodeErrors))
+  );
+}
+
 // Determines if a file used for import workflow is compatible with the current data source version.
 export async function isCompatibleWorkflow(
   workflowObj: any,
@@ -258,24 +307,92 @@ export function unwrapTransformedDocs(
   return transformedDocsSources;
 }
 
-// Extract any processor-level errors from a verbose simulate ingest pipeline API call
+// Extract any processor-level errors from a verbose simulate ingest pipeline API call.
+// Errors handled by the processor's on_failure processors are not included.
 export function getIngestPipelineErrors(
-  simulatePipelineResponse: SimulateIngestPipelineResponseVerbose
+  simulatePipelineResponse: SimulateIngestPipelineResponseVerbose,
+  processors?: IngestProcessor[]
 ): IngestPipelineErrors {
   let ingestPipelineErrors = {} as IngestPipelineErrors;
   simulatePipelineResponse.docs?.forEach((docResult) => {
-    docResult.processor_results.forEach((processorResult, idx) => {
-      if (processorResult.error?.reason !== undefined) {
-        ingestPipelineErrors[idx] = {
-          processorType: processorResult.processor_type,
-          errorMsg: processorResult.error.reason,
-        };
+    getIngestProcessorResults(docResult.processor_results, processors).forEach(
+      ({ result, failureHandled }, idx) => {
+        if (
+          result.status === 'error' &&
+          !failureHandled &&
+          result.error?.reason !== undefined
+        ) {
+          ingestPipelineErrors[idx] = {
+            processorType: result.processor_type,
+            errorMsg: result.error.reason,
+          };
+        }
       }
-    });
+    );
   });
   return ingestPipelineErrors;
 }
 
+// Map the verbose processor results of a single simulated doc to the pipeline's top-level
+// processors. When a processor with on_failure processors fails, the results of those
+// processors directly follow its own result. If no processors are passed, each result
+// is assumed to belong to a top-level processor.
+export function getIngestProcessorResults(
+  processorResults: SimulateIngestPipelineDocResponseVerbose[],
+  processors?: IngestProcessor[]
+): IngestProcessorResult[] {
+  if (processors === undefined) {
+    return (processorResults || []).map((result) => ({
+      result,
+      failureHandled: false,
+    }));
+  }
+  return groupIngestProcessorResults(processorResults || [], processors, {
+    idx: 0,
+  });
+}
+
+function groupIngestProcessorResults(
+  processorResults: SimulateIngestPipelineDocResponseVerbose[],
+  processors: IngestProcessor[],
+  cursor: { idx: number }
+): IngestProcessorResult[] {
+  const groupedResults = [] as IngestProcessorResult[];
+  for (const processor of processors) {
+    const result = processorResults[cursor.idx];
+    if (result === undefined) {
+      break;
+    }
+    cursor.idx++;
+    const onFailureProcessors = get(
+      Object.values(processor)[0],
+      'on_failure',
+      []
+    ) as IngestProcessor[];
+    let failureHandled = false;
+    if (result.status === 'error' && !isEmpty(onFailureProcessors)) {
+      const onFailureResults = groupIngestProcessorResults(
+        processorResults,
+        onFailureProcessors,
+        cursor
+      );
+      failureHandled =
+        onFailureResults.length === onFailureProcessors.length &&
+        onFailureResults.every(
+          (onFailureResult) =>
+            onFailureResult.result.status !== 'error' ||
+            onFailureResult.failureHandled
+        );
+    }
+    groupedResults.push({ result, failureHandled });
+    // an unhandled failure stops the rest of the pipeline
+    if (result.status === 'error' && !failureHandled) {
+      break;
+    }
+  }
+  return groupedResults;
+}
+
 // Extract any processor-level errors from a verbose search API call
 export function getSearchPipelineErrors(
   searchResponseVerbose: SearchResponseVerbose
@@ -543,6 +660,49 @@ export function parseModelOutputsObj(
     {}
   ) as ModelOutputMap;
 }
+
+// Infer a model interface from a sample predict request & response. All of the
+// sample input parameters are assumed to be required.
+export function getModelInterfaceFromPrediction(
+  request: {},
+  response: {}
+): ModelInterface {
+  const input = getJsonSchemaFromValue(request);
+  const parameters = input.properties?.parameters;
+  if (parameters?.properties !== undefined) {
+    parameters.required = Object.keys(parameters.properties);
+  }
+  return {
+    input,
+    output: getJsonSchemaFromValue(response),
+  };
+}
+
+// Recursively derive a JSONSchema obj describing a value. Array item types are
+// derived from the first element, if any.
+function getJsonSchemaFromValue(value: any): ModelInput {
+  if (Array.isArray(value)) {
+    return {
+      type: 'array',
+      ...(value.length > 0 ? { items: getJsonSchemaFromValue(value[0]) } : {}),
+    };
+  } else if (value === null) {
+    return { type: 'null' };
+  } else if (typeof value === 'object') {
+    const properties = {} as ModelInputMap;
+    Object.keys(value).forEach((key) => {
+      properties[key] = getJsonSchemaFromValue(value[key]);
+    });
+    return { type: 'object', properties };
+  } else if (typeof value === 'number') {
+    return { type: 'number' };
+  } else if (typeof value === 'boolean') {
+    return { type: 'boolean' };
+  } else {
+    return { type: 'string' };
+  }
+}
+
 export const getDataSourceFromURL = (location: {
   search: string;
 }): MDSQueryParams => {
@@ -785,6 +945,190 @@ export function getEmbeddingModelDimensions(
   }
 }
 
+// Fetch embedding dimensions for a model. Known connector models are checked first,
+// before falling back to any dimension set in the model config (e.g., for local models)
+export function getModelEmbeddingDimension(
+  model: Model | undefined,
+  connector: Connector | undefined
+): number | undefined {
+  const connectorDimension =
+    connector !== undefined
+      ? getEmbeddingModelDimensions(connector)
+      : undefined;
+  return connectorDimension ?? model?.modelConfig?.embeddingDimension;
+}
+
+// Check if a model may output dense vector embeddings, and can be probed for its dimension
+export function isEmbeddingModel(model: Model | undefined): boolean {
+  return (
+    model?.algorithm === MODEL_ALGORITHM.TEXT_EMBEDDING ||
+    model?.algorithm === MODEL_ALGORITHM.REMOTE
+  );
+}
+
+// Check if a model outputs sparse vector embeddings (token-weight pairs)
+export function isSparseEncodingModel(model: Model | undefined): boolean {
+  return (
+    model?.algorithm === MODEL_ALGORITHM.SPARSE_ENCODING ||
+    model?.algorithm === MODEL_ALGORITHM.SPARSE_TOKENIZE
+  );
+}
+
+// Generate a predict request body for probing a model's embedding dimension.
+// Local text embedding models accept text docs directly. For remote models, the
+// sample text is passed for every string input defined in the model interface. If
+// there is no interface, fall back to the inputs used by the known connector blueprints.
+export function getEmbeddingProbeBody(model: Model): {} {
+  if (model.algorithm === MODEL_ALGORITHM.TEXT_EMBEDDING) {
+    return {
+      text_docs: [EMBEDDING_PROBE_TEXT],
+      return_number: true,
+      target_response: ['sentence_embedding'],
+    };
+  }
+  const modelInputs = parseModelInputsObj(model.interface) as ModelInputMap;
+  const parameters = {} as { [key: string]: any };
+  Object.keys(modelInputs).forEach((inputName) => {
+    const inputType = modelInputs[inputName]?.type;
+    if (inputType === 'array') {
+      parameters[inputName] = [EMBEDDING_PROBE_TEXT];
+    } else if (inputType === 'string') {
+      parameters[inputName] = EMBEDDING_PROBE_TEXT;
+    }
+  });
+  return {
+    parameters: isEmpty(parameters)
+      ? {
+          input: [EMBEDDING_PROBE_TEXT],
+          texts: [EMBEDDING_PROBE_TEXT],
+          inputText: EMBEDDING_PROBE_TEXT,
+        }
+      : parameters,
+  };
+}
+
+// Derive the embedding dimension from a sample prediction response. The embedding
+// is assumed to be the longest flat array of numbers found anywhere in the response.
+export function getEmbeddingDimensionFromPrediction(
+  response: any
+): number | undefined {
+  const dimension = getLongestNumberArrayLength(response);
+  return dimension > 0 ? dimension : undefined;
+}
+
+function getLongestNumberArrayLength(value: any): number {
+  if (Array.isArray(value)) {
+    if (value.length > 0 && value.every((item) => typeof item === 'number')) {
+      return value.length;
+    }
+    return Math.max(
+      0,
+      ...value.map((item) => getLongestNumberArrayLength(item))
+    );
+  } else if (value !== null && typeof value === 'object') {
+    return Math.max(
+      0,
+      ...Object.values(value).map((item) => getLongestNumberArrayLength(item))
+    );
+  }
+  return 0;
+}
+
+// Get the expected vector field dimensions for any ingest processors using embedding
+// models, keyed by the embedding field name. Dimensions detected by probing a model
+// are only used if the model's dimension isn't otherwise known.
+export function getExpectedEmbeddingDimensions(
+  ingestProcessors: FormikValues[],
+  models: ModelDict,
+  connectors: ConnectorDict,
+  detectedDimensions: EmbeddingDimensionDict
+): { [fieldName: string]: number } {
+  const expectedDimensions = {} as { [fieldName: string]: number };
+  ingestProcessors.forEach((ingestProcessor) => {
+    const modelId = (ingestProcessor?.model?.id as string | undefined) || '';
+    const model = models[modelId] as Model | undefined;
+    if (isSparseEncodingModel(model)) {
+      return;
+    }
+    const connector =
+      model?.connectorId !== undefined
+        ? connectors[model.connectorId]
+        : undefined;
+    const dimension =
+      getModelEmbeddingDimension(model, connector) ??
+      detectedDimensions[modelId];
+    const embeddingFieldName = getEmbeddingField(
+      connector as Connector,
+      ingestProcessor
+    );
+    if (embeddingFieldName !== undefined && dimension !== undefined) {
+      expectedDimensions[embeddingFieldName] = dimension;
+    }
+  });
+  return expectedDimensions;
+}
+
+// Get the sparse vector fields for any ingest processors using sparse encoding models
+export function getExpectedSparseEmbeddingFields(
+  ingestProcessors: any[],
+  models: ModelDict,
+  connectors: ConnectorDict
+): string[] {
+  const sparseFields = [] as string[];
+  ingestProcessors.forEach((ingestProcessor) => {
+    const modelId = (ingestProcessor?.model?.id as string | undefined) || '';
+    const model = models[modelId] as Model | undefined;
+    if (!isSparseEncodingModel(model)) {
+      return;
+    }
+    const connector =
+      model?.connectorId !== undefined
+        ? connectors[model.connectorId]
+        : undefined;
+    const embeddingFieldName = getEmbeddingField(
+      connector as Connector,
+      ingestProcessor
+    );
+    if (
+      embeddingFieldName !== undefined &&
+      !sparseFields.includes(embeddingFieldName)
+    ) {
+      sparseFields.push(embeddingFieldName);
+    }
+  });
+  return sparseFields;
+}
+
+// Find any vector field mappings with a dimension that differs from the dimension
+// of the embeddings produced by the configured models
+export function getDimensionMismatches(
+  existingMappings: string,
+  expectedDimensions: { [fieldName: string]: number }
+): DimensionMismatch[] {
+  let mappingsObj: Partial<IndexMappings> | null;
+  try {
+    mappingsObj = JSON.parse(existingMappings);
+  } catch {
+    return [];
+  }
+  const mismatches = [] as DimensionMismatch[];
+  Object.keys(expectedDimensions).forEach((fieldName) => {
+    const fieldMapping = mappingsObj?.properties?.[fieldName];
+    if (
+      fieldMapping?.type === 'knn_vector' &&
+      typeof fieldMapping?.dimension === 'number' &&
+      fieldMapping.dimension !== expectedDimensions[fieldName]
+    ) {
+      mismatches.push({
+        fieldName,
+        mappedDimension: fieldMapping.dimension,
+        expectedDimension: expectedDimensions[fieldName],
+      });
+    }
+  });
+  return mismatches;
+}
+
 // Check if an index is a knn index
 export function isKnnIndex(existingSettings: string): boolean {
   try {
@@ -947,6 +1291,57 @@ export function getExistingVectorField(
   );
 }
 
+// Update the index mappings based on parameters passed.
+// Currently used for updating the rank_features field configuration for sparse
+// vector embeddings, & removing any old/existing rank_features field in the process.
+export function getUpdatedSparseIndexMappings(
+  existingMappings: string,
+  embeddingFieldName: string
+): string {
+  try {
+    const mappingsWithRemovedVectorField = removeSparseVectorFieldFromIndexMappings(
+      existingMappings
+    );
+    return customStringify(
+      set(
+        JSON.parse(mappingsWithRemovedVectorField),
+        `properties.${embeddingFieldName}`,
+        {
+          type: 'rank_features',
+        }
+      )
+    );
+  } catch {
+    return existingMappings;
+  }
+}
+
+export function removeSparseVectorFieldFromIndexMappings(
+  existingMappings: string
+): string {
+  try {
+    let existingMappingsObj = JSON.parse(existingMappings);
+    const existingEmbeddingField = getExistingSparseVectorField(
+      existingMappingsObj
+    );
+    if (existingEmbeddingField !== undefined) {
+      unset(existingMappingsObj?.properties, existingEmbeddingField);
+    }
+    return customStringify(existingMappingsObj);
+  } catch {
+    return existingMappings;
+  }
+}
+
+export function getExistingSparseVectorField(
+  existingMappings: any
+): string | undefined {
+  return findKey(
+    existingMappings?.properties,
+    (field) => field.type === 'rank_features'
+  );
+}
+
 // Parse out any hidden errors within a 2xx ingest response
 export function parseErrorsFromIngestResponse(
   ingestResponse: any
@@ -989,6 +1384,65 @@ export function getFieldValue(jsonObj: {}, fieldName: string): any | undefined {
   return undefined;
 }
 
+// Check if a workflow with the given name already exists. Only the workflows for the current
+// page are persisted in redux, so we search for matching names directly.
+export async function workflowNameExists(
+  name: string,
+  dataSourceId?: string
+): Promise<boolean> {
+  try {
+    const response = await getRouteService().searchWorkflows(
+      {
+        size: 1,
+        query: {
+          term: {
+            'name.keyword': name,
+          },
+        },
+      },
+      dataSourceId
+    );
+    return !isEmpty(response?.workflows);
+  } catch (error) {
+    console.error('Error searching workflows: ', error);
+    return false;
+  }
+}
+
+// Fetch all provisioned (completed) workflows, one page at a time. Fetched directly, rather than
+// via the store, so the workflows currently persisted in the store are not replaced.
+export async function getProvisionedWorkflows(
+  dataSourceId?: string
+): Promise<Workflow[]> {
+  const pageSize = 100;
+  let workflows = [] as Workflow[];
+  try {
+    let total = 0;
+    do {
+      const response = await getRouteService().searchWorkflows(
+        {},
+        dataSourceId,
+        {
+          from: workflows.length,
+          size: pageSize,
+          states: ['COMPLETED'],
+        }
+      );
+      const pageWorkflows = Object.values(
+        (response?.workflows || {}) as WorkflowDict
+      );
+      if (isEmpty(pageWorkflows)) {
+        break;
+      }
+      workflows = [...workflows, ...pageWorkflows];
+      total = response?.total || 0;
+    } while (workflows.length < total);
+  } catch (error) {
+    console.error('Error searching workflows: ', error);
+  }
+  return workflows;
+}
+
 // Get the version from the selected data source, if found
 export const getDataSourceVersion = async (
   dataSourceId: string | undefined
@@ -4,6 +4,10 @@
  */
 
 import {
+  ML_CREATE_CONNECTOR_ROUTE,
+  ML_MODEL_ROUTE_PREFIX,
+  ML_REGISTER_MODEL_ROUTE,
+  ML_SEARCH_AGENTS_ROUTE,
   ML_SEARCH_CONNECTORS_ROUTE,
   ML_SEARCH_MODELS_ROUTE,
 } from '../../common';
@@ -35,4 +39,95 @@ export function mlPlugin(Client: any, config: any, components: any) {
     needBody: true,
     method: 'POST',
   });
+
+  mlClient.searchAgents = ca({
+    url: {
+      fmt: ML_SEARCH_AGENTS_ROUTE,
+    },
+    needBody: true,
+    method: 'POST',
+  });
+
+  mlClient.predict = ca({
+    url: {
+      fmt: `${ML_MODEL_ROUTE_PREFIX}/<%=model_id%>/_predict`,
+      req: {
+        model_id: {
+          type: 'string',
+          required: true,
+        },
+      },
+    },
+    needBody: true,
+    method: 'POST',
+  });
+
+  mlClient.getModel = ca({
+    url: {
+      fmt: `${ML_MODEL_ROUTE_PREFIX}/<%=model_id%>`,
+      req: {
+        model_id: {
+          type: 'string',
+          required: true,
+        },
+      },
+    },
+    method: 'GET',
+  });
+
+  mlClient.registerModel = ca({
+    url: {
+      fmt: ML_REGISTER_MODEL_ROUTE,
+    },
+    needBody: true,
+    method: 'POST',
+  });
+
+  mlClient.deployModel = ca({
+    url: {
+      fmt: `${ML_MODEL_ROUTE_PREFIX}/<%=model_id%>/_deploy`,
+      req: {
+        model_id: {
+          type: 'string',
+          required: true,
+        },
+      },
+    },
+    method: 'POST',
+  });
+
+  mlClient.undeployModel = ca({
+    url: {
+      fmt: `${ML_MODEL_ROUTE_PREFIX}/<%=model_id%>/_undeploy`,
+      req: {
+        model_id: {
+          type: 'string',
+          required: true,
+        },
+      },
+    },
+    method: 'POST',
+  });
+
+  mlClient.updateModel = ca({
+    url: {
+      fmt: `${ML_MODEL_ROUTE_PREFIX}/<%=model_id%>`,
+      req: {
+        model_id: {
+          type: 'string',
+          required: true,
+        },
+      },
+    },
+    needBody: true,
+    method: 'PUT',
+  });
+
+  mlClient.createConnector = ca({
+    url: {
+      fmt: ML_CREATE_CONNECTOR_ROUTE,
+    },
+    needBody: true,
+    method: 'POST',
+  });
 }
@@ -13,6 +13,7 @@ import {
 import { first } from 'rxjs/operators';
 import { flowFrameworkPlugin, mlPlugin, corePlugin } from './cluster';
 import {
+  ConfigSchema,
   FlowFrameworkDashboardsPluginSetup,
   FlowFrameworkDashboardsPluginStart,
 } from './types';
@@ -24,6 +25,10 @@ import {
   registerMLRoutes,
   MLRoutesService,
 } from './routes';
+import {
+  DEFAULT_PRESET_TEMPLATE_DIR,
+  PresetTemplateRegistry,
+} from './utils/preset_template_registry';
 import { DataSourcePluginSetup } from '../../../src/plugins/data_source/server/types';
 import { DataSourceManagementPlugin } from '../../../src/plugins/data_source_management/public';
 
@@ -42,10 +47,12 @@ export class FlowFrameworkDashboardsPlugin
     > {
   private readonly logger: Logger;
   private readonly globalConfig$: any;
+  private readonly config$: any;
 
   constructor(initializerContext: PluginInitializerContext) {
     this.logger = initializerContext.logger.get();
     this.globalConfig$ = initializerContext.config.legacy.globalConfig$;
+    this.config$ = initializerContext.config.create<ConfigSchema>();
   }
 
   public async setup(
@@ -55,8 +62,18 @@ export class FlowFrameworkDashboardsPlugin
     this.logger.debug('flow-framework-dashboards: Setup');
     const router = core.http.createRouter();
 
-    // Get global config
+    // Get global & plugin config
     const globalConfig = await this.globalConfig$.pipe(first()).toPromise();
+    const config = (await this.config$
+      .pipe(first())
+      .toPromise()) as ConfigSchema;
+
+    // Load the preset workflow templates once, including any configured in-house presets
+    const presetTemplateRegistry = new PresetTemplateRegistry(this.logger);
+    presetTemplateRegistry.load([
+      DEFAULT_PRESET_TEMPLATE_DIR,
+      ...config.presetTemplateDirs,
+    ]);
 
     // Create OpenSearch client, including flow framework plugin APIs
     const client: ILegacyClusterClient = core.opensearch.legacy.createClient(
@@ -79,7 +96,8 @@ export class FlowFrameworkDashboardsPlugin
     );
     const flowFrameworkRoutesService = new FlowFrameworkRoutesService(
       client,
-      dataSourceEnabled
+      dataSourceEnabled,
+      presetTemplateRegistry
     );
     const mlRoutesService = new MLRoutesService(client, dataSourceEnabled);
 
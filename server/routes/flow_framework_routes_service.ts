@@ -3,9 +3,8 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import fs from 'fs';
-import path from 'path';
 import semver from 'semver';
+import { isEmpty } from 'lodash';
 import { schema } from '@osd/config-schema';
 import {
   IRouter,
@@ -27,19 +26,32 @@ import {
   SEARCH_WORKFLOWS_NODE_API_PATH,
   SearchHit,
   UPDATE_WORKFLOW_NODE_API_PATH,
+  VALIDATE_WORKFLOW_NODE_API_PATH,
+  WAIT_FOR_WORKFLOW_STATE_NODE_API_PATH,
   WORKFLOW_STATE,
+  WORKFLOW_STATE_LONG_POLL_MAX_TIMEOUT_MS,
+  WORKFLOW_STATE_LONG_POLL_TIMEOUT_MS,
   Workflow,
   WorkflowDict,
   WorkflowResource,
+  WorkflowSearchParams,
   WorkflowTemplate,
 } from '../../common';
 import { getClientBasedOnDataSource } from '../utils/helpers';
+import { PresetTemplateRegistry } from '../utils/preset_template_registry';
 import {
+  MAX_WORKFLOW_STATE_HITS,
+  WorkflowSearchQueryParams,
   generateCustomError,
+  getPaginatedWorkflowsQuery,
   getResourcesCreatedFromResponse,
+  getTotalHits,
+  getWorkflowSearchParams,
   getWorkflowStateFromResponse,
+  getWorkflowTemplateErrors,
   getWorkflowsFromResponses,
   isIgnorableError,
+  pollWorkflowState,
   toWorkflowObj,
 } from './helpers';
 
@@ -81,6 +93,19 @@ export function registerFlowFrameworkRoutes(
       path: SEARCH_WORKFLOWS_NODE_API_PATH,
       validate: {
         body: schema.any(),
+        query: schema.object({
+          from: schema.maybe(schema.number()),
+          size: schema.maybe(schema.number()),
+          sort_field: schema.maybe(schema.string()),
+          sort_order: schema.maybe(schema.string()),
+          name_prefix: schema.maybe(schema.string()),
+          types: schema.maybe(
+            schema.oneOf([schema.string(), schema.arrayOf(schema.string())])
+          ),
+          states: schema.maybe(
+            schema.oneOf([schema.string(), schema.arrayOf(schema.string())])
+          ),
+        }),
       },
     },
     flowFrameworkRoutesService.searchWorkflows
@@ -94,6 +119,19 @@ export function registerFlowFrameworkRoutes(
           data_source_id: schema.string(),
         }),
         body: schema.any(),
+        query: schema.object({
+          from: schema.maybe(schema.number()),
+          size: schema.maybe(schema.number()),
+          sort_field: schema.maybe(schema.string()),
+          sort_order: schema.maybe(schema.string()),
+          name_prefix: schema.maybe(schema.string()),
+          types: schema.maybe(
+            schema.oneOf([schema.string(), schema.arrayOf(schema.string())])
+          ),
+          states: schema.maybe(
+            schema.oneOf([schema.string(), schema.arrayOf(schema.string())])
+          ),
+        }),
       },
     },
     flowFrameworkRoutesService.searchWorkflows
@@ -124,6 +162,39 @@ export function registerFlowFrameworkRoutes(
     flowFrameworkRoutesService.getWorkflowState
   );
 
+  router.get(
+    {
+      path: `${WAIT_FOR_WORKFLOW_STATE_NODE_API_PATH}/{workflow_id}`,
+      validate: {
+        params: schema.object({
+          workflow_id: schema.string(),
+        }),
+        query: schema.object({
+          timeout: schema.maybe(schema.number()),
+          resource_count: schema.maybe(schema.number()),
+        }),
+      },
+    },
+    flowFrameworkRoutesService.waitForWorkflowState
+  );
+
+  router.get(
+    {
+      path: `${BASE_NODE_API_PATH}/{data_source_id}/workflow/waitForState/{workflow_id}`,
+      validate: {
+        params: schema.object({
+          workflow_id: schema.string(),
+          data_source_id: schema.string(),
+        }),
+        query: schema.object({
+          timeout: schema.maybe(schema.number()),
+          resource_count: schema.maybe(schema.number()),
+        }),
+      },
+    },
+    flowFrameworkRoutesService.waitForWorkflowState
+  );
+
   router.post(
     {
       path: CREATE_WORKFLOW_NODE_API_PATH,
@@ -292,10 +363,24 @@ export function registerFlowFrameworkRoutes(
     flowFrameworkRoutesService.deleteWorkflow
   );
 
+  router.post(
+    {
+      path: VALIDATE_WORKFLOW_NODE_API_PATH,
+      validate: {
+        body: schema.any(),
+      },
+    },
+    flowFrameworkRoutesService.validateWorkflow
+  );
+
   router.get(
     {
       path: GET_PRESET_WORKFLOWS_NODE_API_PATH,
-      validate: {},
+      validate: {
+        query: schema.object({
+          data_source_version: schema.maybe(schema.string()),
+        }),
+      },
     },
     flowFrameworkRoutesService.getPresetWorkflows
   );
@@ -304,10 +389,16 @@ export function registerFlowFrameworkRoutes(
 export class FlowFrameworkRoutesService {
   dataSourceEnabled: boolean;
   private client: any;
+  private presetTemplateRegistry: PresetTemplateRegistry;
 
-  constructor(client: any, dataSourceEnabled: boolean) {
+  constructor(
+    client: any,
+    dataSourceEnabled: boolean,
+    presetTemplateRegistry: PresetTemplateRegistry
+  ) {
     this.client = client;
     this.dataSourceEnabled = dataSourceEnabled;
+    this.presetTemplateRegistry = presetTemplateRegistry;
   }
 
   // TODO: can remove or simplify if we can fetch all data from a single API call. Tracking issue:
@@ -366,6 +457,9 @@ export class FlowFrameworkRoutesService {
     res: OpenSearchDashboardsResponseFactory
   ): Promise<IOpenSearchDashboardsResponse<any>> => {
     const body = req.body;
+    const searchParams = getWorkflowSearchParams(
+      req.query as WorkflowSearchQueryParams
+    );
     try {
       const { data_source_id = '' } = req.params as { data_source_id?: string };
       const callWithRequest = getClientBasedOnDataSource(
@@ -376,6 +470,14 @@ export class FlowFrameworkRoutesService {
         this.client
       );
 
+      // If any pagination params are passed, only fetch the single page of workflows.
+      // Otherwise, run the raw search query against the workflows & workflow states.
+      if (searchParams !== undefined) {
+        return res.ok({
+          body: await this.searchWorkflowsPage(callWithRequest, searchParams),
+        });
+      }
+
       const workflowsResponse = await callWithRequest(
         'flowFramework.searchWorkflows',
         {
@@ -399,12 +501,76 @@ export class FlowFrameworkRoutesService {
       return res.ok({ body: { workflows: workflowDict } });
     } catch (err: any) {
       if (isIgnorableError(err)) {
-        return res.ok({ body: { workflows: {} as WorkflowDict } });
+        return res.ok({ body: { workflows: {} as WorkflowDict, total: 0 } });
       }
       return generateCustomError(res, err);
     }
   };
 
+  // Fetch a single page of workflows. If filtering by state, first fetch the IDs of
+  // all workflows with a matching state. Workflow states are only fetched for the workflows
+  // in the current page.
+  searchWorkflowsPage = async (
+    callWithRequest: (endpoint: string, clientParams: any) => Promise<any>,
+    searchParams: WorkflowSearchParams
+  ): Promise<{ workflows: WorkflowDict; total: number }> => {
+    let workflowIds = undefined as string[] | undefined;
+    if (searchParams.states !== undefined) {
+      const workflowStatesResponse = await callWithRequest(
+        'flowFramework.searchWorkflowState',
+        {
+          body: {
+            size: MAX_WORKFLOW_STATE_HITS,
+            _source: false,
+            query: {
+              terms: {
+                state: searchParams.states,
+              },
+            },
+          },
+        }
+      );
+      workflowIds = (workflowStatesResponse.hits.hits as SearchHit[]).map(
+        (workflowStateHit) => workflowStateHit._id
+      );
+      if (isEmpty(workflowIds)) {
+        return { workflows: {} as WorkflowDict, total: 0 };
+      }
+    }
+
+    const workflowsResponse = await callWithRequest(
+      'flowFramework.searchWorkflows',
+      {
+        body: getPaginatedWorkflowsQuery(searchParams, workflowIds),
+      }
+    );
+    const workflowHits = workflowsResponse.hits.hits as SearchHit[];
+    const total = getTotalHits(workflowsResponse.hits.total);
+
+    let workflowStateHits = [] as SearchHit[];
+    if (!isEmpty(workflowHits)) {
+      const workflowStatesResponse = await callWithRequest(
+        'flowFramework.searchWorkflowState',
+        {
+          body: {
+            size: workflowHits.length,
+            query: {
+              ids: {
+                values: workflowHits.map((workflowHit) => workflowHit._id),
+              },
+            },
+          },
+        }
+      );
+      workflowStateHits = workflowStatesResponse.hits.hits as SearchHit[];
+    }
+
+    return {
+      workflows: getWorkflowsFromResponses(workflowHits, workflowStateHits),
+      total,
+    };
+  };
+
   getWorkflowState = async (
     context: RequestHandlerContext,
     req: OpenSearchDashboardsRequest,
@@ -441,6 +607,51 @@ export class FlowFrameworkRoutesService {
     }
   };
 
+  // Long-poll the workflow state until provisioning has finished (completed or failed), or
+  // until the timeout passes. If the number of known created resources is passed, also return
+  // early as soon as any new resources are created, so the client can display progress.
+  waitForWorkflowState = async (
+    context: RequestHandlerContext,
+    req: OpenSearchDashboardsRequest,
+    res: OpenSearchDashboardsResponseFactory
+  ): Promise<IOpenSearchDashboardsResponse<any>> => {
+    const { workflow_id } = req.params as { workflow_id: string };
+    const { timeout, resource_count } = req.query as {
+      timeout?: number;
+      resource_count?: number;
+    };
+    const finalTimeout = Math.min(
+      timeout !== undefined ? timeout : WORKFLOW_STATE_LONG_POLL_TIMEOUT_MS,
+      WORKFLOW_STATE_LONG_POLL_MAX_TIMEOUT_MS
+    );
+    try {
+      const { data_source_id = '' } = req.params as { data_source_id?: string };
+      const callWithRequest = getClientBasedOnDataSource(
+        context,
+        this.dataSourceEnabled,
+        req,
+        data_source_id,
+        this.client
+      );
+      const result = await pollWorkflowState(
+        () =>
+          callWithRequest('flowFramework.getWorkflowState', {
+            workflow_id,
+          }),
+        finalTimeout,
+        resource_count
+      );
+      return res.ok({
+        body: {
+          workflowId: workflow_id,
+          ...result,
+        },
+      });
+    } catch (err: any) {
+      return generateCustomError(res, err);
+    }
+  };
+
   createWorkflow = async (
     context: RequestHandlerContext,
     req: OpenSearchDashboardsRequest,
@@ -627,28 +838,36 @@ export class FlowFrameworkRoutesService {
     }
   };
 
+  // Validates a workflow template without executing anything against the cluster.
+  // Returns structured errors, including per-node errors, so they can be displayed inline.
+  validateWorkflow = async (
+    context: RequestHandlerContext,
+    req: OpenSearchDashboardsRequest,
+    res: OpenSearchDashboardsResponseFactory
+  ): Promise<IOpenSearchDashboardsResponse<any>> => {
+    const workflowTemplate = req.body as Partial<WorkflowTemplate>;
+    try {
+      const errors = getWorkflowTemplateErrors(workflowTemplate);
+      return res.ok({ body: { errors } });
+    } catch (err: any) {
+      return generateCustomError(res, err);
+    }
+  };
+
   getPresetWorkflows = async (
     context: RequestHandlerContext,
     req: OpenSearchDashboardsRequest,
     res: OpenSearchDashboardsResponseFactory
   ): Promise<IOpenSearchDashboardsResponse<any>> => {
+    const { data_source_version } = req.query as {
+      data_source_version?: string;
+    };
     try {
       // In the future we may get these from backend via some API. For now we can
-      // persist a set of working presets on server-side.
-      const jsonTemplateDir = path.resolve(__dirname, '../resources/templates');
-      const jsonTemplates = fs
-        .readdirSync(jsonTemplateDir)
-        .filter((file) => path.extname(file) === '.json');
-      const workflowTemplates = [] as Partial<WorkflowTemplate>[];
-      jsonTemplates.forEach((jsonTemplate) => {
-        const templateData = fs.readFileSync(
-          path.join(jsonTemplateDir, jsonTemplate)
-        );
-        const workflowTemplate = JSON.parse(templateData.toString()) as Partial<
-          WorkflowTemplate
-        >;
-        workflowTemplates.push(workflowTemplate);
-      });
+      // persist a set of working presets on server-side, loaded once during plugin setup.
+      const workflowTemplates = this.presetTemplateRegistry.getTemplates(
+        data_source_version
+      );
 
       return res.ok({ body: { workflowTemplates } });
     } catch (err: any) {
@@ -0,0 +1,422 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * @jest-environment node
+ */
+
+import { Readable } from 'stream';
+import {
+  MAX_REINDEX_FAILURES,
+  WORKFLOW_STATE,
+  WorkflowTemplate,
+} from '../../common';
+import {
+  BulkIngestBatch,
+  getBulkIngestBatches,
+  getBulkIngestBody,
+  getBulkIngestFailures,
+  getReindexTaskStatusFromResponse,
+  getWorkflowTemplateErrors,
+  getWorkflowStateFromResponse,
+  isFinalWorkflowState,
+  pollWorkflowState,
+} from './helpers';
+
+// Mock fetching the workflow state, returning each of the given responses in order,
+// and repeating the last one.
+function getWorkflowStateMock(responses: {}[]): jest.Mock {
+  let numCalls = 0;
+  return jest.fn(
+    async () => responses[Math.min(numCalls++, responses.length - 1)]
+  );
+}
+
+// Build a workflow template with the given provision nodes
+function getTemplate(nodes: {}[]): Partial<WorkflowTemplate> {
+  return ({
+    name: 'my_workflow',
+    workflows: { provision: { nodes } },
+  } as unknown) as Partial<WorkflowTemplate>;
+}
+
+const INGEST_PIPELINE_NODE = {
+  id: 'create_ingest_pipeline',
+  type: 'create_ingest_pipeline',
+  user_inputs: { pipeline_id: 'my-pipeline', configurations: '{}' },
+};
+const INDEX_NODE = {
+  id: 'create_index',
+  type: 'create_index',
+  previous_node_inputs: { create_ingest_pipeline: 'pipeline_id' },
+  user_inputs: {
+    index_name: '${{ index_name }}',
+    configurations: '{"settings": {}}',
+  },
+};
+
+const PIPELINE_RESOURCE = {
+  resource_id: 'pipeline_id',
+  workflow_step_name: 'create_ingest_pipeline',
+  resource_type: 'pipeline_id',
+};
+
+async function getAllBatches(
+  lines: string[],
+  maxBytes: number,
+  startIndex?: number
+): Promise<BulkIngestBatch[]> {
+  const batches = [] as BulkIngestBatch[];
+  for await (const batch of getBulkIngestBatches(
+    Readable.from([lines.join('\n')]),
+    maxBytes,
+    startIndex
+  )) {
+    batches.push(batch);
+  }
+  return batches;
+}
+
+describe('helpers', () => {
+  describe('getBulkIngestBatches', () => {
+    // each doc takes 21 bytes in the bulk body: the 7-byte doc, the 12-byte
+    // index action, and a newline after each
+    test('splits docs into size-bounded batches', async () => {
+      const batches = await getAllBatches(
+        ['{"a":1}', '{"a":2}', '', '{"a":3}'],
+        50
+      );
+      expect(batches).toEqual([
+        {
+          docs: [
+            { docIndex: 0, doc: { a: 1 } },
+            { docIndex: 1, doc: { a: 2 } },
+          ],
+          failures: [],
+        },
+        { docs: [{ docIndex: 2, doc: { a: 3 } }], failures: [] },
+      ]);
+    });
+    test('sends an oversized doc alone', async () => {
+      const batches = await getAllBatches(['{"a":1}', '{"a":2}'], 10);
+      expect(batches.map((batch) => batch.docs.length)).toEqual([1, 1]);
+    });
+    test('reports invalid lines as failures, offset by the start index', async () => {
+      const batches = await getAllBatches(['{"a":1}', '[1]', '{'], 1000, 5);
+      expect(batches).toHaveLength(1);
+      expect(batches[0].docs).toEqual([{ docIndex: 5, doc: { a: 1 } }]);
+      expect(batches[0].failures.map((failure) => failure.docIndex)).toEqual([
+        6,
+        7,
+      ]);
+      expect(batches[0].failures[0].reason).toEqual(
+        'Invalid JSON: Document must be a JSON object'
+      );
+    });
+    test('yields nothing for an empty payload', async () => {
+      expect(await getAllBatches(['', '  '], 1000)).toEqual([]);
+    });
+  });
+
+  describe('getBulkIngestBody', () => {
+    test('precedes each doc with an index action', () => {
+      expect(
+        getBulkIngestBody({
+          docs: [
+            { docIndex: 0, doc: { a: 1 } },
+            { docIndex: 1, doc: { a: 2 } },
+          ],
+          failures: [],
+        })
+      ).toEqual([{ index: {} }, { a: 1 }, { index: {} }, { a: 2 }]);
+    });
+  });
+
+  describe('getBulkIngestFailures', () => {
+    const batch = {
+      docs: [
+        { docIndex: 3, doc: { a: 1 } },
+        { docIndex: 4, doc: { a: 2 } },
+        { docIndex: 5, doc: { a: 3 } },
+      ],
+      failures: [],
+    } as BulkIngestBatch;
+    test('maps failed items to their doc indices', () => {
+      expect(
+        getBulkIngestFailures(batch, {
+          errors: true,
+          items: [
+            { index: { status: 201 } },
+            {
+              index: {
+                status: 400,
+                error: { type: 'mapper_parsing_exception', reason: 'bad doc' },
+              },
+            },
+            {
+              index: {
+                status: 400,
+                error: { type: 'illegal_argument_exception' },
+              },
+            },
+          ],
+        })
+      ).toEqual([
+        { docIndex: 4, reason: 'bad doc' },
+        { docIndex: 5, reason: 'illegal_argument_exception' },
+      ]);
+    });
+    test('returns no failures if the response has no errors', () => {
+      expect(
+        getBulkIngestFailures(batch, {
+          errors: false,
+          items: [{ index: { status: 201 } }],
+        })
+      ).toEqual([]);
+    });
+  });
+
+  describe('getWorkflowStateFromResponse', () => {
+    test('converts the backend state', () => {
+      expect(getWorkflowStateFromResponse('PROVISIONING' as any)).toEqual(
+        WORKFLOW_STATE.PROVISIONING
+      );
+      expect(getWorkflowStateFromResponse(undefined)).toEqual(
+        WORKFLOW_STATE.NOT_STARTED
+      );
+    });
+  });
+
+  describe('isFinalWorkflowState', () => {
+    test('only completed & failed states are final', () => {
+      expect(isFinalWorkflowState(WORKFLOW_STATE.COMPLETED)).toBe(true);
+      expect(isFinalWorkflowState(WORKFLOW_STATE.FAILED)).toBe(true);
+      expect(isFinalWorkflowState(WORKFLOW_STATE.PROVISIONING)).toBe(false);
+      expect(isFinalWorkflowState(WORKFLOW_STATE.NOT_STARTED)).toBe(false);
+    });
+  });
+
+  describe('pollWorkflowState', () => {
+    test('returns immediately if provisioning has finished', async () => {
+      const getWorkflowState = getWorkflowStateMock([
+        { state: 'FAILED', error: 'failed to create index' },
+      ]);
+      expect(await pollWorkflowState(getWorkflowState, 1000, 0, 1)).toEqual({
+        workflowState: WORKFLOW_STATE.FAILED,
+        resourcesCreated: [],
+        error: 'failed to create index',
+        isFinished: true,
+      });
+      expect(getWorkflowState).toHaveBeenCalledTimes(1);
+    });
+    test('polls until provisioning has finished', async () => {
+      const getWorkflowState = getWorkflowStateMock([
+        { state: 'PROVISIONING' },
+        { state: 'PROVISIONING' },
+        { state: 'COMPLETED', resources_created: [PIPELINE_RESOURCE] },
+      ]);
+      const result = await pollWorkflowState(getWorkflowState, 1000, 1, 1);
+      expect(result.workflowState).toEqual(WORKFLOW_STATE.COMPLETED);
+      expect(result.isFinished).toBe(true);
+      expect(getWorkflowState).toHaveBeenCalledTimes(3);
+    });
+    test('returns once new resources are created', async () => {
+      const getWorkflowState = getWorkflowStateMock([
+        { state: 'PROVISIONING' },
+        { state: 'PROVISIONING', resources_created: [PIPELINE_RESOURCE] },
+        { state: 'COMPLETED', resources_created: [PIPELINE_RESOURCE] },
+      ]);
+      const result = await pollWorkflowState(getWorkflowState, 1000, 0, 1);
+      expect(result.workflowState).toEqual(WORKFLOW_STATE.PROVISIONING);
+      expect(result.resourcesCreated).toEqual([
+        {
+          id: 'pipeline_id',
+          stepType: 'create_ingest_pipeline',
+          type: 'Ingest pipeline',
+        },
+      ]);
+      expect(result.isFinished).toBe(false);
+      expect(getWorkflowState).toHaveBeenCalledTimes(2);
+    });
+    test('returns the latest state once the timeout has passed', async () => {
+      const getWorkflowState = getWorkflowStateMock([
+        { state: 'PROVISIONING' },
+      ]);
+      const result = await pollWorkflowState(getWorkflowState, 50, 0, 10);
+      expect(result.workflowState).toEqual(WORKFLOW_STATE.PROVISIONING);
+      expect(result.isFinished).toBe(false);
+      expect(getWorkflowState.mock.calls.length).toBeGreaterThan(1);
+    });
+    test('propagates any errors fetching the state', async () => {
+      const getWorkflowState = jest.fn(async () => {
+        throw new Error('workflow not found');
+      });
+      await expect(
+        pollWorkflowState(getWorkflowState, 1000, 0, 1)
+      ).rejects.toThrow('workflow not found');
+    });
+  });
+
+  describe('getWorkflowTemplateErrors', () => {
+    test('returns no errors for a valid template', () => {
+      expect(
+        getWorkflowTemplateErrors(
+          getTemplate([INGEST_PIPELINE_NODE, INDEX_NODE])
+        )
+      ).toEqual({ templateErrors: [], nodeErrors: {} });
+      expect(getWorkflowTemplateErrors({ name: 'my_workflow' })).toEqual({
+        templateErrors: [],
+        nodeErrors: {},
+      });
+    });
+    test('finds missing names & node IDs', () => {
+      expect(
+        getWorkflowTemplateErrors({
+          ...getTemplate([INGEST_PIPELINE_NODE, { type: 'create_index' }]),
+          name: '',
+        })
+      ).toEqual({
+        templateErrors: [
+          'Missing workflow name',
+          'Node at index 1 is missing an ID',
+        ],
+        nodeErrors: {},
+      });
+    });
+    test('finds edges to unknown nodes', () => {
+      expect(
+        getWorkflowTemplateErrors(
+          getTemplate([
+            INGEST_PIPELINE_NODE,
+            {
+              ...INDEX_NODE,
+              previous_node_inputs: {
+                create_index: 'index_name',
+                create_search_pipeline: 'pipeline_id',
+              },
+            },
+          ])
+        ).nodeErrors
+      ).toEqual({
+        create_index: [
+          'Node cannot take inputs from itself',
+          'Previous node input references an unknown node: create_search_pipeline',
+        ],
+      });
+    });
+    test('finds duplicate nodes & invalid user inputs', () => {
+      expect(
+        getWorkflowTemplateErrors(
+          getTemplate([
+            INGEST_PIPELINE_NODE,
+            {
+              ...INGEST_PIPELINE_NODE,
+              user_inputs: { pipeline_id: 'my pipeline', configurations: '{' },
+            },
+          ])
+        ).nodeErrors.create_ingest_pipeline
+      ).toEqual([
+        'Duplicate node ID: create_ingest_pipeline',
+        'Invalid pipeline_id: my pipeline. Valid characters are a-z, A-Z, 0-9, -(hyphen), _(underscore).',
+        expect.stringContaining('Invalid configurations JSON'),
+      ]);
+    });
+  });
+
+  describe('getReindexTaskStatusFromResponse', () => {
+    test('parses the progress of a running task', () => {
+      expect(
+        getReindexTaskStatusFromResponse('node:1', {
+          completed: false,
+          task: {
+            cancelled: false,
+            status: { total: 100, created: 20, updated: 5 },
+          },
+        })
+      ).toEqual({
+        taskId: 'node:1',
+        completed: false,
+        cancelled: false,
+        total: 100,
+        created: 20,
+        updated: 5,
+        failures: [],
+        error: undefined,
+      });
+    });
+    test('parses the final response of a completed task', () => {
+      expect(
+        getReindexTaskStatusFromResponse('node:1', {
+          completed: true,
+          task: { status: { total: 100, created: 20 } },
+          response: { total: 100, created: 90, updated: 10, failures: [] },
+        })
+      ).toEqual({
+        taskId: 'node:1',
+        completed: true,
+        cancelled: false,
+        total: 100,
+        created: 90,
+        updated: 10,
+        failures: [],
+        error: undefined,
+      });
+      expect(
+        getReindexTaskStatusFromResponse('node:1', {
+          completed: true,
+          response: { total: 100, created: 50, canceled: 'by user request' },
+        }).cancelled
+      ).toBe(true);
+      expect(
+        getReindexTaskStatusFromResponse('node:1', {
+          completed: false,
+          task: { cancelled: true, status: {} },
+        })
+      ).toMatchObject({ cancelled: true, total: 0, created: 0, updated: 0 });
+    });
+    test('formats the failures, up to the max', () => {
+      const failures = [
+        {
+          id: 'doc_1',
+          cause: { type: 'mapper_parsing_exception', reason: 'bad doc' },
+        },
+        { id: 'doc_2', cause: { type: 'illegal_argument_exception' } },
+        { cause: { reason: 'search failure' } },
+        { shard: 0 },
+      ];
+      expect(
+        getReindexTaskStatusFromResponse('node:1', {
+          completed: true,
+          response: { total: 4, created: 0, failures },
+        }).failures
+      ).toEqual([
+        'doc_1: bad doc',
+        'doc_2: illegal_argument_exception',
+        'search failure',
+        '{"shard":0}',
+      ]);
+      expect(
+        getReindexTaskStatusFromResponse('node:1', {
+          completed: true,
+          response: {
+            failures: Array(MAX_REINDEX_FAILURES + 10).fill(failures[0]),
+          },
+        }).failures
+      ).toHaveLength(MAX_REINDEX_FAILURES);
+    });
+    test('parses any task error', () => {
+      expect(
+        getReindexTaskStatusFromResponse('node:1', {
+          completed: true,
+          error: { type: 'index_not_found_exception', reason: 'no such index' },
+        }).error
+      ).toEqual('no such index');
+      expect(
+        getReindexTaskStatusFromResponse('node:1', {
+          completed: true,
+          error: { type: 'index_not_found_exception' },
+        }).error
+      ).toEqual('{"type":"index_not_found_exception"}');
+    });
+  });
+});
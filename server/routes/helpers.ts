@@ -3,12 +3,20 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { isEmpty } from 'lodash';
+import readline from 'readline';
+import { Readable } from 'stream';
 import {
+  BulkIngestFailure,
+  Agent,
+  AgentDict,
   Connector,
   ConnectorDict,
   DEFAULT_NEW_WORKFLOW_STATE_TYPE,
+  INDEX_NAME_REGEXP,
   INDEX_NOT_FOUND_EXCEPTION,
   INVALID_DATASOURCE_MSG,
+  MAX_REINDEX_FAILURES,
   MODEL_ALGORITHM,
   MODEL_STATE,
   Model,
@@ -17,12 +25,23 @@ import {
   ModelInterface,
   ModelOutput,
   NO_MODIFICATIONS_FOUND_TEXT,
+  ReindexTaskStatus,
+  SORT_ORDER,
   SearchHit,
+  TemplateNode,
   WORKFLOW_RESOURCE_TYPE,
+  WORKFLOW_SORT_FIELD,
   WORKFLOW_STATE,
+  WORKFLOW_STATE_POLL_INTERVAL_MS,
+  WORKFLOW_STEP_TYPE,
+  WORKFLOW_TYPE,
   Workflow,
   WorkflowDict,
   WorkflowResource,
+  WorkflowSearchParams,
+  WorkflowTemplate,
+  WorkflowTemplateErrors,
+  sleep,
 } from '../../common';
 
 // OSD does not provide an interface for this response, but this is following the suggested
@@ -109,6 +128,140 @@ export function getWorkflowsFromResponses(
   return workflowDict;
 }
 
+// The snake-cased query params accepted by the search workflows node API. Multi-valued
+// params may be a single string, if only one value is passed.
+export type WorkflowSearchQueryParams = {
+  from?: number;
+  size?: number;
+  sort_field?: string;
+  sort_order?: string;
+  name_prefix?: string;
+  types?: string | string[];
+  states?: string | string[];
+};
+
+// The max number of workflow states to search over when filtering workflows by state
+export const MAX_WORKFLOW_STATE_HITS = 10000;
+
+// Parse the query params into the search params used for fetching a single page of workflows.
+// Returns undefined if no page size is passed, indicating a raw search query should be run instead.
+export function getWorkflowSearchParams(
+  queryParams: WorkflowSearchQueryParams | undefined
+): WorkflowSearchParams | undefined {
+  if (queryParams?.size === undefined) {
+    return undefined;
+  }
+  const toArray = (value: string | string[] | undefined) =>
+    value === undefined ? undefined : Array.isArray(value) ? value : [value];
+  return {
+    from: queryParams.from || 0,
+    size: queryParams.size,
+    sortField: Object.values(WORKFLOW_SORT_FIELD).includes(
+      queryParams.sort_field as WORKFLOW_SORT_FIELD
+    )
+      ? (queryParams.sort_field as WORKFLOW_SORT_FIELD)
+      : undefined,
+    sortOrder: Object.values(SORT_ORDER).includes(
+      queryParams.sort_order as SORT_ORDER
+    )
+      ? (queryParams.sort_order as SORT_ORDER)
+      : undefined,
+    namePrefix: queryParams.name_prefix,
+    types: toArray(queryParams.types),
+    states: toArray(queryParams.states) as WorkflowSearchParams['states'],
+  };
+}
+
+// The underlying fields in the workflow templates index for each sortable field
+const WORKFLOW_SORT_FIELD_MAPPING = {
+  [WORKFLOW_SORT_FIELD.NAME]: 'name.keyword',
+  [WORKFLOW_SORT_FIELD.LAST_UPDATED]: 'last_updated_time',
+};
+
+// Generate the search query to fetch a single page of workflows, sorted & filtered by the
+// given params. Filtering by state is handled separately, since states are persisted in a separate
+// index. The matching workflow IDs can be passed to only include those workflows.
+export function getPaginatedWorkflowsQuery(
+  params: WorkflowSearchParams,
+  workflowIds?: string[]
+): {} {
+  const filters = [] as {}[];
+  if (params.namePrefix) {
+    filters.push({
+      prefix: {
+        'name.keyword': {
+          value: params.namePrefix,
+          case_insensitive: true,
+        },
+      },
+    });
+  }
+  if (params.types !== undefined) {
+    // workflows with a missing or invalid type are displayed as unknown
+    const knownTypes = Object.values(WORKFLOW_TYPE).filter(
+      (type) => type !== WORKFLOW_TYPE.UNKNOWN
+    ) as string[];
+    filters.push({
+      bool: {
+        should: [
+          {
+            terms: {
+              'ui_metadata.type': params.types.filter((type) =>
+                knownTypes.includes(type)
+              ),
+            },
+          },
+          ...(params.types.includes(WORKFLOW_TYPE.UNKNOWN)
+            ? [
+                {
+                  bool: {
+                    must_not: {
+                      terms: { 'ui_metadata.type': knownTypes },
+                    },
+                  },
+                },
+              ]
+            : []),
+        ],
+        minimum_should_match: 1,
+      },
+    });
+  }
+  if (workflowIds !== undefined) {
+    filters.push({ ids: { values: workflowIds } });
+  }
+
+  return {
+    from: params.from,
+    size: params.size,
+    track_total_hits: true,
+    sort: [
+      {
+        [WORKFLOW_SORT_FIELD_MAPPING[
+          params.sortField || WORKFLOW_SORT_FIELD.NAME
+        ]]: {
+          order: params.sortOrder || SORT_ORDER.ASC,
+        },
+      },
+    ],
+    query: {
+      bool: {
+        filter: filters,
+        // A common use case for API users is to create workflows to register agents for
+        // things like chatbots. We specifically filter those out to prevent confusion.
+        must_not: [{ term: { use_case: 'REGISTER_AGENT' } }],
+      },
+    },
+  };
+}
+
+// The total hits may be a number, or an obj, depending on the cluster version
+export function getTotalHits(
+  total: number | { value: number } | undefined
+): number {
+  return typeof total === 'number' ? total : total?.value || 0;
+}
+
 export function getModelsFromResponses(modelHits: SearchHit[]): ModelDict {
   const modelDict = {} as ModelDict;
   modelHits.forEach((modelHit: SearchHit) => {
@@ -181,6 +334,20 @@ export function getConnectorsFromResponses(
   return connectorDict;
 }
 
+export function getAgentsFromResponses(agentHits: SearchHit[]): AgentDict {
+  const agentDict = {} as AgentDict;
+  agentHits.forEach((agentHit: SearchHit) => {
+    const agentId = agentHit._id;
+    agentDict[agentId] = {
+      id: agentId,
+      name: agentHit._source?.name,
+      type: agentHit._source?.type,
+      description: agentHit._source?.description,
+    } as Agent;
+  });
+  return agentDict;
+}
+
 // Convert the workflow state into a readable/presentable state on frontend
 export function getWorkflowStateFromResponse(
   state: typeof WORKFLOW_STATE | undefined
@@ -190,6 +357,55 @@ export function getWorkflowStateFromResponse(
   return WORKFLOW_STATE[finalState];
 }
 
+// A workflow is finished provisioning if it has successfully completed, or failed
+export function isFinalWorkflowState(state: WORKFLOW_STATE): boolean {
+  return state === WORKFLOW_STATE.COMPLETED || state === WORKFLOW_STATE.FAILED;
+}
+
+export type WorkflowStatePollResult = {
+  workflowState: WORKFLOW_STATE;
+  resourcesCreated: WorkflowResource[];
+  error?: string;
+  isFinished: boolean;
+};
+
+// Poll the workflow state until the workflow has finished provisioning, the number of
+// created resources differs from the given count, or the timeout has passed. Returns the
+// latest polled state.
+export async function pollWorkflowState(
+  getWorkflowState: () => Promise<any>,
+  timeoutMs: number,
+  resourceCount?: number,
+  pollIntervalMs: number = WORKFLOW_STATE_POLL_INTERVAL_MS
+): Promise<WorkflowStatePollResult> {
+  const deadline = Date.now() + timeoutMs;
+  const getPollResult = async (): Promise<WorkflowStatePollResult> => {
+    const response = await getWorkflowState();
+    const workflowState = getWorkflowStateFromResponse(
+      response.state as typeof WORKFLOW_STATE | undefined
+    );
+    return {
+      workflowState,
+      resourcesCreated: getResourcesCreatedFromResponse(
+        response.resources_created
+      ),
+      error: response.error,
+      isFinished: isFinalWorkflowState(workflowState),
+    };
+  };
+  let result = await getPollResult();
+  while (
+    !result.isFinished &&
+    (resourceCount === undefined ||
+      result.resourcesCreated.length === resourceCount) &&
+    Date.now() < deadline
+  ) {
+    await sleep(Math.min(pollIntervalMs, Math.max(deadline - Date.now(), 0)));
+    result = await getPollResult();
+  }
+  return result;
+}
+
 // Convert the workflow resources into a readable/presentable state on frontend
 export function getResourcesCreatedFromResponse(
   resourcesCreated: any[] | undefined
@@ -211,3 +427,222 @@ export function getResourcesCreatedFromResponse(
   }
   return finalResources;
 }
+
+// The user input fields containing resource names that must be valid, for each step type
+const RESOURCE_NAME_INPUTS = {
+  [WORKFLOW_STEP_TYPE.CREATE_INGEST_PIPELINE_STEP_TYPE]: 'pipeline_id',
+  [WORKFLOW_STEP_TYPE.CREATE_SEARCH_PIPELINE_STEP_TYPE]: 'pipeline_id',
+  [WORKFLOW_STEP_TYPE.CREATE_INDEX_STEP_TYPE]: 'index_name',
+} as { [stepType: string]: string };
+
+// Matches a substituted value from a previous node, e.g., "${{create_ingest_pipeline.pipeline_id}}"
+const SUBSTITUTION_REGEXP = RegExp('^\\$\\{\\{.*\\}\\}$');
+
+// Validate the workflow template, and collect any errors found. Checks that all node IDs
+// are unique, all previous node inputs reference existing nodes, all resource names are valid,
+// and all configurations are parseable JSON.
+export function getWorkflowTemplateErrors(
+  workflowTemplate: Partial<WorkflowTemplate>
+): WorkflowTemplateErrors {
+  const errors = {
+    templateErrors: [],
+    nodeErrors: {},
+  } as WorkflowTemplateErrors;
+  function addNodeError(nodeId: string, error: string) {
+    errors.nodeErrors[nodeId] = [...(errors.nodeErrors[nodeId] || []), error];
+  }
+
+  if (!workflowTemplate?.name) {
+    errors.templateErrors.push('Missing workflow name');
+  }
+  const nodes = workflowTemplate?.workflows?.provision?.nodes;
+  if (nodes === undefined) {
+    return errors;
+  }
+  if (!Array.isArray(nodes)) {
+    errors.templateErrors.push('Provision nodes must be an array');
+    return errors;
+  }
+
+  const nodeIds = new Set<string>();
+  nodes.forEach((node: TemplateNode, idx: number) => {
+    if (!node?.id) {
+      errors.templateErrors.push(`Node at index ${idx} is missing an ID`);
+      return;
+    }
+    if (nodeIds.has(node.id)) {
+      addNodeError(node.id, `Duplicate node ID: ${node.id}`);
+    }
+    nodeIds.add(node.id);
+  });
+
+  nodes.forEach((node: TemplateNode) => {
+    if (!node?.id) {
+      return;
+    }
+    Object.keys(node.previous_node_inputs || {}).forEach((previousNodeId) => {
+      if (previousNodeId === node.id) {
+        addNodeError(node.id, 'Node cannot take inputs from itself');
+      } else if (!nodeIds.has(previousNodeId)) {
+        addNodeError(
+          node.id,
+          `Previous node input references an unknown node: ${previousNodeId}`
+        );
+      }
+    });
+
+    const userInputs = (node.user_inputs || {}) as { [key: string]: any };
+    const resourceNameInput = RESOURCE_NAME_INPUTS[node.type];
+    if (resourceNameInput !== undefined) {
+      const resourceName = userInputs[resourceNameInput];
+      if (
+        typeof resourceName !== 'string' ||
+        (!SUBSTITUTION_REGEXP.test(resourceName) &&
+          (resourceName === '' || !INDEX_NAME_REGEXP.test(resourceName)))
+      ) {
+        addNodeError(
+          node.id,
+          `Invalid ${resourceNameInput}: ${resourceName}. Valid characters are a-z, A-Z, 0-9, -(hyphen), _(underscore).`
+        );
+      }
+    }
+
+    if (typeof userInputs.configurations === 'string') {
+      try {
+        JSON.parse(userInputs.configurations);
+      } catch (e: any) {
+        addNodeError(node.id, `Invalid configurations JSON: ${e.message}`);
+      }
+    }
+  });
+  return errors;
+}
+
+// A size-bounded batch of docs parsed from a JSONL payload, along with any lines
+// that could not be parsed. Docs retain their index in the overall payload.
+export type BulkIngestBatch = {
+  docs: { docIndex: number; doc: {} }[];
+  failures: BulkIngestFailure[];
+};
+
+// Bulk action line preceding each doc. The target index & pipeline are passed as request params.
+const BULK_INDEX_ACTION = { index: {} };
+const BULK_INDEX_ACTION_BYTES = Buffer.byteLength(
+  JSON.stringify(BULK_INDEX_ACTION)
+);
+
+// Lazily split a JSONL stream into batches of docs, such that the bulk body of a batch does not
+// exceed the max bytes (a single oversized doc is sent alone). Empty lines are skipped, and lines
+// that are not JSON objects are reported as failures. Doc indices are offset by the start index,
+// so callers ingesting a larger payload in chunks can report failures relative to the full payload.
+export async function* getBulkIngestBatches(
+  stream: Readable,
+  maxBytes: number,
+  startIndex: number = 0
+): AsyncGenerator<BulkIngestBatch> {
+  let batch = { docs: [], failures: [] } as BulkIngestBatch;
+  let batchBytes = 0;
+  let docIndex = startIndex;
+  const lines = readline.createInterface({
+    input: stream,
+    crlfDelay: Infinity,
+  });
+  for await (const line of lines) {
+    if (line.trim() === '') {
+      continue;
+    }
+    const lineBytes = Buffer.byteLength(line) + BULK_INDEX_ACTION_BYTES + 2;
+    if (batch.docs.length > 0 && batchBytes + lineBytes > maxBytes) {
+      yield batch;
+      batch = { docs: [], failures: [] };
+      batchBytes = 0;
+    }
+    try {
+      const doc = JSON.parse(line);
+      if (typeof doc !== 'object' || doc === null || Array.isArray(doc)) {
+        throw new Error('Document must be a JSON object');
+      }
+      batch.docs.push({ docIndex, doc });
+      batchBytes += lineBytes;
+    } catch (e: any) {
+      batch.failures.push({ docIndex, reason: `Invalid JSON: ${e.message}` });
+    }
+    docIndex++;
+  }
+  if (batch.docs.length > 0 || batch.failures.length > 0) {
+    yield batch;
+  }
+}
+
+// Convert a batch of docs into a bulk API request body
+export function getBulkIngestBody(batch: BulkIngestBatch): {}[] {
+  const bulkBody = [] as {}[];
+  batch.docs.forEach(({ doc }) => {
+    bulkBody.push(BULK_INDEX_ACTION, doc);
+  });
+  return bulkBody;
+}
+
+// Parse out any per-doc failures from a bulk API response. Response items are
+// returned in the same order as the docs in the batch.
+export function getBulkIngestFailures(
+  batch: BulkIngestBatch,
+  bulkResponse: any
+): BulkIngestFailure[] {
+  if (bulkResponse?.errors !== true) {
+    return [];
+  }
+  const failures = [] as BulkIngestFailure[];
+  (bulkResponse?.items || []).forEach((item: any, idx: number) => {
+    const error = item?.index?.error;
+    if (error !== undefined && batch.docs[idx] !== undefined) {
+      failures.push({
+        docIndex: batch.docs[idx].docIndex,
+        reason: error?.reason || error?.type || JSON.stringify(error),
+      });
+    }
+  });
+  return failures;
+}
+
+// The progress of a reindex task, reported in the task status while running, and in the
+// final response once completed. "canceled" holds the cancellation reason, if any.
+type ReindexTaskProgress = {
+  total?: number;
+  created?: number;
+  updated?: number;
+  canceled?: string;
+};
+
+// Parse the status of a reindex task from a tasks API response. Progress is found in the
+// task status while running, and in the final response once completed.
+// see https://opensearch.org/docs/latest/api-reference/tasks/
+export function getReindexTaskStatusFromResponse(
+  taskId: string,
+  taskResponse: any
+): ReindexTaskStatus {
+  const completed = taskResponse?.completed === true;
+  const status = (completed
+    ? taskResponse?.response
+    : taskResponse?.task?.status) as ReindexTaskProgress | undefined;
+  const failures = (taskResponse?.response?.failures || [])
+    .slice(0, MAX_REINDEX_FAILURES)
+    .map((failure: any) =>
+      failure?.id !== undefined
+        ? `${failure.id}: ${failure?.cause?.reason || failure?.cause?.type}`
+        : failure?.cause?.reason || JSON.stringify(failure)
+    ) as string[];
+  const error = taskResponse?.error;
+  return {
+    taskId,
+    completed,
+    cancelled:
+      !isEmpty(status?.canceled) || taskResponse?.task?.cancelled === true,
+    total: status?.total || 0,
+    created: status?.created || 0,
+    updated: status?.updated || 0,
+    failures,
+    error:
+      error !== undefined ? error?.reason || JSON.stringify(error) : undefined,
+  };
+}
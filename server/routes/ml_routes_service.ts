@@ -16,9 +16,19 @@ import {
   BASE_NODE_API_PATH,
   SearchHit,
   SEARCH_CONNECTORS_NODE_API_PATH,
+  PREDICT_MODEL_NODE_API_PATH,
+  GET_MODEL_NODE_API_PATH,
+  REGISTER_MODEL_NODE_API_PATH,
+  DEPLOY_MODEL_NODE_API_PATH,
+  UNDEPLOY_MODEL_NODE_API_PATH,
+  UPDATE_MODEL_NODE_API_PATH,
+  CREATE_CONNECTOR_NODE_API_PATH,
+  SEARCH_AGENTS_NODE_API_PATH,
+  ModelInterface,
 } from '../../common';
 import {
   generateCustomError,
+  getAgentsFromResponses,
   getConnectorsFromResponses,
   getModelsFromResponses,
 } from './helpers';
@@ -74,6 +84,188 @@ export function registerMLRoutes(
     },
     mlRoutesService.searchConnectors
   );
+  router.post(
+    {
+      path: SEARCH_AGENTS_NODE_API_PATH,
+      validate: {
+        body: schema.any(),
+      },
+    },
+    mlRoutesService.searchAgents
+  );
+  router.post(
+    {
+      path: `${BASE_NODE_API_PATH}/{data_source_id}/agent/search`,
+      validate: {
+        body: schema.any(),
+        params: schema.object({
+          data_source_id: schema.string(),
+        }),
+      },
+    },
+    mlRoutesService.searchAgents
+  );
+  router.post(
+    {
+      path: `${PREDICT_MODEL_NODE_API_PATH}/{model_id}`,
+      validate: {
+        body: schema.any(),
+        params: schema.object({
+          model_id: schema.string(),
+        }),
+      },
+    },
+    mlRoutesService.predict
+  );
+  router.post(
+    {
+      path: `${BASE_NODE_API_PATH}/{data_source_id}/model/predict/{model_id}`,
+      validate: {
+        body: schema.any(),
+        params: schema.object({
+          model_id: schema.string(),
+          data_source_id: schema.string(),
+        }),
+      },
+    },
+    mlRoutesService.predict
+  );
+  router.get(
+    {
+      path: `${GET_MODEL_NODE_API_PATH}/{model_id}`,
+      validate: {
+        params: schema.object({
+          model_id: schema.string(),
+        }),
+      },
+    },
+    mlRoutesService.getModel
+  );
+  router.get(
+    {
+      path: `${BASE_NODE_API_PATH}/{data_source_id}/model/get/{model_id}`,
+      validate: {
+        params: schema.object({
+          model_id: schema.string(),
+          data_source_id: schema.string(),
+        }),
+      },
+    },
+    mlRoutesService.getModel
+  );
+  router.post(
+    {
+      path: REGISTER_MODEL_NODE_API_PATH,
+      validate: {
+        body: schema.any(),
+      },
+    },
+    mlRoutesService.registerModel
+  );
+  router.post(
+    {
+      path: `${BASE_NODE_API_PATH}/{data_source_id}/model/register`,
+      validate: {
+        body: schema.any(),
+        params: schema.object({
+          data_source_id: schema.string(),
+        }),
+      },
+    },
+    mlRoutesService.registerModel
+  );
+  router.post(
+    {
+      path: `${DEPLOY_MODEL_NODE_API_PATH}/{model_id}`,
+      validate: {
+        params: schema.object({
+          model_id: schema.string(),
+        }),
+      },
+    },
+    mlRoutesService.deployModel
+  );
+  router.post(
+    {
+      path: `${BASE_NODE_API_PATH}/{data_source_id}/model/deploy/{model_id}`,
+      validate: {
+        params: schema.object({
+          model_id: schema.string(),
+          data_source_id: schema.string(),
+        }),
+      },
+    },
+    mlRoutesService.deployModel
+  );
+  router.post(
+    {
+      path: `${UNDEPLOY_MODEL_NODE_API_PATH}/{model_id}`,
+      validate: {
+        params: schema.object({
+          model_id: schema.string(),
+        }),
+      },
+    },
+    mlRoutesService.undeployModel
+  );
+  router.post(
+    {
+      path: `${BASE_NODE_API_PATH}/{data_source_id}/model/undeploy/{model_id}`,
+      validate: {
+        params: schema.object({
+          model_id: schema.string(),
+          data_source_id: schema.string(),
+        }),
+      },
+    },
+    mlRoutesService.undeployModel
+  );
+  router.put(
+    {
+      path: `${UPDATE_MODEL_NODE_API_PATH}/{model_id}`,
+      validate: {
+        body: schema.any(),
+        params: schema.object({
+          model_id: schema.string(),
+        }),
+      },
+    },
+    mlRoutesService.updateModelInterface
+  );
+  router.put(
+    {
+      path: `${BASE_NODE_API_PATH}/{data_source_id}/model/update/{model_id}`,
+      validate: {
+        body: schema.any(),
+        params: schema.object({
+          model_id: schema.string(),
+          data_source_id: schema.string(),
+        }),
+      },
+    },
+    mlRoutesService.updateModelInterface
+  );
+  router.post(
+    {
+      path: CREATE_CONNECTOR_NODE_API_PATH,
+      validate: {
+        body: schema.any(),
+      },
+    },
+    mlRoutesService.createConnector
+  );
+  router.post(
+    {
+      path: `${BASE_NODE_API_PATH}/{data_source_id}/connector/create`,
+      validate: {
+        body: schema.any(),
+        params: schema.object({
+          data_source_id: schema.string(),
+        }),
+      },
+    },
+    mlRoutesService.createConnector
+  );
 }
 
 export class MLRoutesService {
@@ -143,4 +335,244 @@ export class MLRoutesService {
       return generateCustomError(res, err);
     }
   };
+
+  searchAgents = async (
+    context: RequestHandlerContext,
+    req: OpenSearchDashboardsRequest,
+    res: OpenSearchDashboardsResponseFactory
+  ): Promise<IOpenSearchDashboardsResponse<any>> => {
+    const body = req.body;
+    try {
+      const { data_source_id = '' } = req.params as { data_source_id?: string };
+      const callWithRequest = getClientBasedOnDataSource(
+        context,
+        this.dataSourceEnabled,
+        req,
+        data_source_id,
+        this.client
+      );
+      const agentsResponse = await callWithRequest('mlClient.searchAgents', {
+        body,
+      });
+
+      const agentHits = agentsResponse.hits.hits as SearchHit[];
+      const agentDict = getAgentsFromResponses(agentHits);
+
+      return res.ok({ body: { agents: agentDict } });
+    } catch (err: any) {
+      return generateCustomError(res, err);
+    }
+  };
+
+  predict = async (
+    context: RequestHandlerContext,
+    req: OpenSearchDashboardsRequest,
+    res: OpenSearchDashboardsResponseFactory
+  ): Promise<IOpenSearchDashboardsResponse<any>> => {
+    const body = req.body;
+    try {
+      const { data_source_id = '', model_id } = req.params as {
+        data_source_id?: string;
+        model_id: string;
+      };
+      const callWithRequest = getClientBasedOnDataSource(
+        context,
+        this.dataSourceEnabled,
+        req,
+        data_source_id,
+        this.client
+      );
+      const response = await callWithRequest('mlClient.predict', {
+        model_id,
+        body,
+      });
+
+      return res.ok({ body: response });
+    } catch (err: any) {
+      return generateCustomError(res, err);
+    }
+  };
+
+  getModel = async (
+    context: RequestHandlerContext,
+    req: OpenSearchDashboardsRequest,
+    res: OpenSearchDashboardsResponseFactory
+  ): Promise<IOpenSearchDashboardsResponse<any>> => {
+    try {
+      const { data_source_id = '', model_id } = req.params as {
+        data_source_id?: string;
+        model_id: string;
+      };
+      const callWithRequest = getClientBasedOnDataSource(
+        context,
+        this.dataSourceEnabled,
+        req,
+        data_source_id,
+        this.client
+      );
+      const response = await callWithRequest('mlClient.getModel', {
+        model_id,
+      });
+      // re-use the search response parsing, treating the model as a single hit
+      const modelDict = getModelsFromResponses([
+        { _id: model_id, _source: response } as SearchHit,
+      ]);
+
+      return res.ok({ body: { model: modelDict[model_id] } });
+    } catch (err: any) {
+      return generateCustomError(res, err);
+    }
+  };
+
+  registerModel = async (
+    context: RequestHandlerContext,
+    req: OpenSearchDashboardsRequest,
+    res: OpenSearchDashboardsResponseFactory
+  ): Promise<IOpenSearchDashboardsResponse<any>> => {
+    const body = req.body;
+    try {
+      const { data_source_id = '' } = req.params as { data_source_id?: string };
+      const callWithRequest = getClientBasedOnDataSource(
+        context,
+        this.dataSourceEnabled,
+        req,
+        data_source_id,
+        this.client
+      );
+      const response = await callWithRequest('mlClient.registerModel', {
+        body,
+      });
+
+      return res.ok({
+        body: { modelId: response.model_id, taskId: response.task_id },
+      });
+    } catch (err: any) {
+      return generateCustomError(res, err);
+    }
+  };
+
+  deployModel = async (
+    context: RequestHandlerContext,
+    req: OpenSearchDashboardsRequest,
+    res: OpenSearchDashboardsResponseFactory
+  ): Promise<IOpenSearchDashboardsResponse<any>> => {
+    try {
+      const { data_source_id = '', model_id } = req.params as {
+        data_source_id?: string;
+        model_id: string;
+      };
+      const callWithRequest = getClientBasedOnDataSource(
+        context,
+        this.dataSourceEnabled,
+        req,
+        data_source_id,
+        this.client
+      );
+      const response = await callWithRequest('mlClient.deployModel', {
+        model_id,
+      });
+
+      return res.ok({
+        body: { taskId: response.task_id, status: response.status },
+      });
+    } catch (err: any) {
+      return generateCustomError(res, err);
+    }
+  };
+
+  undeployModel = async (
+    context: RequestHandlerContext,
+    req: OpenSearchDashboardsRequest,
+    res: OpenSearchDashboardsResponseFactory
+  ): Promise<IOpenSearchDashboardsResponse<any>> => {
+    try {
+      const { data_source_id = '', model_id } = req.params as {
+        data_source_id?: string;
+        model_id: string;
+      };
+      const callWithRequest = getClientBasedOnDataSource(
+        context,
+        this.dataSourceEnabled,
+        req,
+        data_source_id,
+        this.client
+      );
+      await callWithRequest('mlClient.undeployModel', {
+        model_id,
+      });
+
+      return res.ok();
+    } catch (err: any) {
+      return generateCustomError(res, err);
+    }
+  };
+
+  // The ML plugin persists the interface input & output as JSONSchema strings.
+  // Returns the updated, parsed model.
+  updateModelInterface = async (
+    context: RequestHandlerContext,
+    req: OpenSearchDashboardsRequest,
+    res: OpenSearchDashboardsResponseFactory
+  ): Promise<IOpenSearchDashboardsResponse<any>> => {
+    const { interface: modelInterface } = req.body as {
+      interface: ModelInterface;
+    };
+    try {
+      const { data_source_id = '', model_id } = req.params as {
+        data_source_id?: string;
+        model_id: string;
+      };
+      const callWithRequest = getClientBasedOnDataSource(
+        context,
+        this.dataSourceEnabled,
+        req,
+        data_source_id,
+        this.client
+      );
+      await callWithRequest('mlClient.updateModel', {
+        model_id,
+        body: {
+          interface: {
+            input: JSON.stringify(modelInterface?.input || {}),
+            output: JSON.stringify(modelInterface?.output || {}),
+          },
+        },
+      });
+      const response = await callWithRequest('mlClient.getModel', {
+        model_id,
+      });
+      const modelDict = getModelsFromResponses([
+        { _id: model_id, _source: response } as SearchHit,
+      ]);
+
+      return res.ok({ body: { model: modelDict[model_id] } });
+    } catch (err: any) {
+      return generateCustomError(res, err);
+    }
+  };
+
+  createConnector = async (
+    context: RequestHandlerContext,
+    req: OpenSearchDashboardsRequest,
+    res: OpenSearchDashboardsResponseFactory
+  ): Promise<IOpenSearchDashboardsResponse<any>> => {
+    const body = req.body;
+    try {
+      const { data_source_id = '' } = req.params as { data_source_id?: string };
+      const callWithRequest = getClientBasedOnDataSource(
+        context,
+        this.dataSourceEnabled,
+        req,
+        data_source_id,
+        this.client
+      );
+      const response = await callWithRequest('mlClient.createConnector', {
+        body,
+      });
+
+      return res.ok({ body: { connectorId: response.connector_id } });
+    } catch (err: any) {
+      return generateCustomError(res, err);
+    }
+  };
 }
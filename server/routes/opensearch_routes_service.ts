@@ -4,8 +4,9 @@
  */
 
 import { schema } from '@osd/config-schema';
-import { isEmpty } from 'lodash';
+import { get, isEmpty } from 'lodash';
 import semver from 'semver';
+import { Readable } from 'stream';
 import {
   IRouter,
   IOpenSearchDashboardsResponse,
@@ -15,10 +16,16 @@ import {
 } from '../../../../src/core/server';
 import {
   BASE_NODE_API_PATH,
+  BULK_INGEST_BATCH_BYTES,
+  BULK_INGEST_MAX_BYTES,
+  BULK_INGEST_NODE_API_PATH,
   BULK_NODE_API_PATH,
+  BulkIngestResponse,
+  CANCEL_TASK_NODE_API_PATH,
   CAT_INDICES_NODE_API_PATH,
   GET_INDEX_NODE_API_PATH,
   GET_MAPPINGS_NODE_API_PATH,
+  GET_TASK_NODE_API_PATH,
   INGEST_NODE_API_PATH,
   INGEST_PIPELINE_NODE_API_PATH,
   Index,
@@ -26,7 +33,9 @@ import {
   IndexResponse,
   IngestPipelineConfig,
   IngestPipelineResponse,
+  MAX_BULK_INGEST_FAILURES,
   MINIMUM_FULL_SUPPORTED_VERSION,
+  REINDEX_NODE_API_PATH,
   SEARCH_INDEX_NODE_API_PATH,
   SEARCH_PIPELINE_NODE_API_PATH,
   SIMULATE_PIPELINE_NODE_API_PATH,
@@ -34,7 +43,13 @@ import {
   SimulateIngestPipelineDoc,
   SimulateIngestPipelineResponse,
 } from '../../common';
-import { generateCustomError } from './helpers';
+import {
+  generateCustomError,
+  getBulkIngestBatches,
+  getBulkIngestBody,
+  getBulkIngestFailures,
+  getReindexTaskStatusFromResponse,
+} from './helpers';
 import { getClientBasedOnDataSource } from '../utils/helpers';
 
 /**
@@ -253,6 +268,134 @@ export function registerOpenSearchRoutes(
     },
     opensearchRoutesService.bulk
   );
+  // the chunked bulk ingest routes accept a raw JSONL payload, streamed in and
+  // split into _bulk batches, to allow ingesting payloads larger than the default limit.
+  router.post(
+    {
+      path: `${BULK_INGEST_NODE_API_PATH}/{index}`,
+      validate: {
+        params: schema.object({
+          index: schema.string(),
+        }),
+        query: schema.object({
+          pipeline: schema.maybe(schema.string()),
+          start_index: schema.maybe(schema.number({ min: 0 })),
+        }),
+        body: schema.stream(),
+      },
+      options: {
+        body: {
+          output: 'stream',
+          parse: false,
+          maxBytes: BULK_INGEST_MAX_BYTES,
+          accepts: ['application/x-ndjson', 'text/plain'],
+        },
+      },
+    },
+    opensearchRoutesService.bulkIngest
+  );
+  router.post(
+    {
+      path: `${BASE_NODE_API_PATH}/{data_source_id}/opensearch/bulkIngest/{index}`,
+      validate: {
+        params: schema.object({
+          index: schema.string(),
+          data_source_id: schema.string(),
+        }),
+        query: schema.object({
+          pipeline: schema.maybe(schema.string()),
+          start_index: schema.maybe(schema.number({ min: 0 })),
+        }),
+        body: schema.stream(),
+      },
+      options: {
+        body: {
+          output: 'stream',
+          parse: false,
+          maxBytes: BULK_INGEST_MAX_BYTES,
+          accepts: ['application/x-ndjson', 'text/plain'],
+        },
+      },
+    },
+    opensearchRoutesService.bulkIngest
+  );
+  router.post(
+    {
+      path: REINDEX_NODE_API_PATH,
+      validate: {
+        body: schema.object({
+          sourceIndex: schema.string(),
+          destIndex: schema.string(),
+          pipeline: schema.maybe(schema.string()),
+          query: schema.maybe(schema.any()),
+        }),
+      },
+    },
+    opensearchRoutesService.reindex
+  );
+  router.post(
+    {
+      path: `${BASE_NODE_API_PATH}/{data_source_id}/opensearch/reindex`,
+      validate: {
+        params: schema.object({
+          data_source_id: schema.string(),
+        }),
+        body: schema.object({
+          sourceIndex: schema.string(),
+          destIndex: schema.string(),
+          pipeline: schema.maybe(schema.string()),
+          query: schema.maybe(schema.any()),
+        }),
+      },
+    },
+    opensearchRoutesService.reindex
+  );
+  router.get(
+    {
+      path: `${GET_TASK_NODE_API_PATH}/{task_id}`,
+      validate: {
+        params: schema.object({
+          task_id: schema.string(),
+        }),
+      },
+    },
+    opensearchRoutesService.getReindexTask
+  );
+  router.get(
+    {
+      path: `${BASE_NODE_API_PATH}/{data_source_id}/opensearch/getTask/{task_id}`,
+      validate: {
+        params: schema.object({
+          task_id: schema.string(),
+          data_source_id: schema.string(),
+        }),
+      },
+    },
+    opensearchRoutesService.getReindexTask
+  );
+  router.post(
+    {
+      path: `${CANCEL_TASK_NODE_API_PATH}/{task_id}`,
+      validate: {
+        params: schema.object({
+          task_id: schema.string(),
+        }),
+      },
+    },
+    opensearchRoutesService.cancelTask
+  );
+  router.post(
+    {
+      path: `${BASE_NODE_API_PATH}/{data_source_id}/opensearch/cancelTask/{task_id}`,
+      validate: {
+        params: schema.object({
+          task_id: schema.string(),
+          data_source_id: schema.string(),
+        }),
+      },
+    },
+    opensearchRoutesService.cancelTask
+  );
   router.post(
     {
       path: SIMULATE_PIPELINE_NODE_API_PATH,
@@ -494,6 +637,12 @@ export class OpenSearchRoutesService {
         ? semver.lt(data_source_version, MINIMUM_FULL_SUPPORTED_VERSION)
         : false;
     const body = req.body;
+    // The body may define an inline search pipeline, to search against unsaved processors.
+    // It can't be combined with an existing pipeline, so any passed pipeline ID is ignored.
+    const searchPipeline =
+      typeof body === 'object' && !isEmpty(get(body, 'search_pipeline'))
+        ? undefined
+        : search_pipeline;
     try {
       const callWithRequest = getClientBasedOnDataSource(
         context,
@@ -508,13 +657,13 @@ export class OpenSearchRoutesService {
         response = await callWithRequest('search', {
           index,
           body,
-          search_pipeline,
+          search_pipeline: searchPipeline,
         });
       } else {
         response = await callWithRequest('search', {
           index,
           body,
-          search_pipeline,
+          search_pipeline: searchPipeline,
           verbose_pipeline: verbose,
         });
       }
@@ -584,6 +733,178 @@ export class OpenSearchRoutesService {
     }
   };
 
+  // Stream in a JSONL payload, and ingest it in size-bounded _bulk batches. Batches are executed
+  // sequentially, collecting the progress of each batch, and any per-doc failures.
+  bulkIngest = async (
+    context: RequestHandlerContext,
+    req: OpenSearchDashboardsRequest,
+    res: OpenSearchDashboardsResponseFactory
+  ): Promise<IOpenSearchDashboardsResponse<any>> => {
+    const { data_source_id = '', index } = req.params as {
+      data_source_id?: string;
+      index: string;
+    };
+    const { pipeline, start_index = 0 } = req.query as {
+      pipeline?: string;
+      start_index?: number;
+    };
+
+    try {
+      const callWithRequest = getClientBasedOnDataSource(
+        context,
+        this.dataSourceEnabled,
+        req,
+        data_source_id,
+        this.client
+      );
+
+      const bulkIngestResponse = {
+        docCount: 0,
+        failedCount: 0,
+        batches: [],
+        failures: [],
+      } as BulkIngestResponse;
+      for await (const batch of getBulkIngestBatches(
+        req.body as Readable,
+        BULK_INGEST_BATCH_BYTES,
+        start_index
+      )) {
+        let took = 0;
+        let failures = batch.failures;
+        if (batch.docs.length > 0) {
+          const response = await callWithRequest('bulk', {
+            index,
+            pipeline,
+            body: getBulkIngestBody(batch),
+          });
+          took = response?.took || 0;
+          failures = [...failures, ...getBulkIngestFailures(batch, response)];
+        }
+        const docCount = batch.docs.length + batch.failures.length;
+        bulkIngestResponse.batches.push({
+          batch: bulkIngestResponse.batches.length,
+          docCount,
+          failedCount: failures.length,
+          took,
+        });
+        bulkIngestResponse.docCount += docCount;
+        bulkIngestResponse.failedCount += failures.length;
+        bulkIngestResponse.failures = [
+          ...bulkIngestResponse.failures,
+          ...failures,
+        ].slice(0, MAX_BULK_INGEST_FAILURES);
+      }
+
+      return res.ok({ body: bulkIngestResponse });
+    } catch (err: any) {
+      return generateCustomError(res, err);
+    }
+  };
+
+  // Asynchronously reindex the source index into the destination index, optionally through an
+  // ingest pipeline, and only for docs matching the query. Returns the task ID to track progress.
+  reindex = async (
+    context: RequestHandlerContext,
+    req: OpenSearchDashboardsRequest,
+    res: OpenSearchDashboardsResponseFactory
+  ): Promise<IOpenSearchDashboardsResponse<any>> => {
+    const { data_source_id = '' } = req.params as { data_source_id?: string };
+    const { sourceIndex, destIndex, pipeline, query } = req.body as {
+      sourceIndex: string;
+      destIndex: string;
+      pipeline?: string;
+      query?: {};
+    };
+
+    try {
+      const callWithRequest = getClientBasedOnDataSource(
+        context,
+        this.dataSourceEnabled,
+        req,
+        data_source_id,
+        this.client
+      );
+
+      const response = await callWithRequest('reindex', {
+        wait_for_completion: false,
+        body: {
+          source: {
+            index: sourceIndex,
+            ...(query !== undefined ? { query } : {}),
+          },
+          dest: {
+            index: destIndex,
+            ...(pipeline !== undefined ? { pipeline } : {}),
+          },
+        },
+      });
+
+      return res.ok({ body: { taskId: response.task } });
+    } catch (err: any) {
+      return generateCustomError(res, err);
+    }
+  };
+
+  getReindexTask = async (
+    context: RequestHandlerContext,
+    req: OpenSearchDashboardsRequest,
+    res: OpenSearchDashboardsResponseFactory
+  ): Promise<IOpenSearchDashboardsResponse<any>> => {
+    const { data_source_id = '', task_id } = req.params as {
+      data_source_id?: string;
+      task_id: string;
+    };
+
+    try {
+      const callWithRequest = getClientBasedOnDataSource(
+        context,
+        this.dataSourceEnabled,
+        req,
+        data_source_id,
+        this.client
+      );
+
+      const response = await callWithRequest('tasks.get', {
+        task_id,
+      });
+
+      return res.ok({
+        body: getReindexTaskStatusFromResponse(task_id, response),
+      });
+    } catch (err: any) {
+      return generateCustomError(res, err);
+    }
+  };
+
+  cancelTask = async (
+    context: RequestHandlerContext,
+    req: OpenSearchDashboardsRequest,
+    res: OpenSearchDashboardsResponseFactory
+  ): Promise<IOpenSearchDashboardsResponse<any>> => {
+    const { data_source_id = '', task_id } = req.params as {
+      data_source_id?: string;
+      task_id: string;
+    };
+
+    try {
+      const callWithRequest = getClientBasedOnDataSource(
+        context,
+        this.dataSourceEnabled,
+        req,
+        data_source_id,
+        this.client
+      );
+
+      await callWithRequest('tasks.cancel', {
+        task_id,
+      });
+
+      return res.ok();
+    } catch (err: any) {
+      return generateCustomError(res, err);
+    }
+  };
+
   simulatePipeline = async (
     context: RequestHandlerContext,
     req: OpenSearchDashboardsRequest,
@@ -7,6 +7,8 @@ import { schema, TypeOf } from '@osd/config-schema';
 
 export const configSchema = schema.object({
   enabled: schema.maybe(schema.boolean()),
+  // additional directories containing preset workflow templates, loaded alongside the default presets
+  presetTemplateDirs: schema.arrayOf(schema.string(), { defaultValue: [] }),
 });
 
 export type ConfigSchema = TypeOf<typeof configSchema>;
@@ -0,0 +1,39 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * @jest-environment node
+ */
+
+import { isCompatibleVersion } from './preset_template_registry';
+
+describe('preset_template_registry', () => {
+  describe('isCompatibleVersion', () => {
+    test('versions below the min supported version are never compatible', () => {
+      expect(isCompatibleVersion(undefined, '2.16.0')).toBe(false);
+      expect(isCompatibleVersion(['2.16.0'], '2.16.2')).toBe(false);
+      expect(isCompatibleVersion(undefined, '2.17.0')).toBe(true);
+    });
+    test('templates without listed versions are compatible with all supported versions', () => {
+      expect(isCompatibleVersion(undefined, '2.17.0')).toBe(true);
+      expect(isCompatibleVersion([], '3.0.0')).toBe(true);
+    });
+    test('versions must be at least the min compatible version', () => {
+      const compatibility = ['3.0.0', '2.19.0'];
+      expect(isCompatibleVersion(compatibility, '2.18.0')).toBe(false);
+      expect(isCompatibleVersion(compatibility, '2.19.0')).toBe(true);
+      expect(isCompatibleVersion(compatibility, '2.20.0')).toBe(true);
+      expect(isCompatibleVersion(compatibility, '3.1.0')).toBe(true);
+    });
+    test('only the major & minor versions are compared', () => {
+      expect(isCompatibleVersion(['2.19.1'], '2.19.0')).toBe(true);
+      expect(isCompatibleVersion(['2.19.0'], '2.18.9')).toBe(false);
+      expect(isCompatibleVersion(['2.19.0'], '2.19.0-SNAPSHOT')).toBe(true);
+      expect(isCompatibleVersion(['3.0.0'], '3.0.0.1')).toBe(true);
+    });
+    test('unparseable versions are compatible', () => {
+      expect(isCompatibleVersion(['3.0.0'], 'unknown')).toBe(true);
+      expect(isCompatibleVersion(['invalid'], '2.19.0')).toBe(true);
+    });
+  });
+});
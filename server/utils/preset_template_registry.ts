@@ -0,0 +1,151 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'fs';
+import path from 'path';
+import semver from 'semver';
+import { schema } from '@osd/config-schema';
+import { Logger } from '../../../../src/core/server';
+import { MIN_SUPPORTED_VERSION, WorkflowTemplate } from '../../common';
+
+// The directory containing the preset templates shipped with the plugin
+export const DEFAULT_PRESET_TEMPLATE_DIR = path.resolve(
+  __dirname,
+  '../resources/templates'
+);
+
+// The expected shape of a preset template, based off of the WorkflowTemplate interface.
+// Only "name" is required. Any unknown fields are allowed, and passed through as-is.
+const presetTemplateSchema = schema.object(
+  {
+    name: schema.string({ minLength: 1 }),
+    description: schema.maybe(schema.string()),
+    use_case: schema.maybe(schema.string()),
+    version: schema.maybe(
+      schema.object(
+        {
+          template: schema.maybe(schema.string()),
+          compatibility: schema.maybe(
+            schema.arrayOf(
+              schema.string({
+                validate: (value) =>
+                  semver.valid(value) === null
+                    ? `Invalid compatibility version: ${value}`
+                    : undefined,
+              })
+            )
+          ),
+        },
+        { unknowns: 'allow' }
+      )
+    ),
+    workflows: schema.maybe(schema.recordOf(schema.string(), schema.any())),
+    ui_metadata: schema.maybe(
+      schema.object(
+        {
+          type: schema.maybe(schema.string()),
+        },
+        { unknowns: 'allow' }
+      )
+    ),
+  },
+  { unknowns: 'allow' }
+);
+
+/**
+ * A registry of the preset workflow templates. Templates are loaded & validated once from
+ * the default template directory, as well as any additional directories configured via
+ * the plugin config, and cached for subsequent requests.
+ */
+export class PresetTemplateRegistry {
+  private readonly logger: Logger;
+  private templates: Partial<WorkflowTemplate>[];
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+    this.templates = [];
+  }
+
+  // Load all of the JSON templates found in the given directories. Invalid templates are
+  // skipped and logged. If templates share the same name, later directories take precedence,
+  // allowing the default presets to be overridden.
+  load(templateDirs: string[]): void {
+    const templatesByName = new Map<string, Partial<WorkflowTemplate>>();
+    templateDirs.forEach((templateDir) => {
+      let templateFiles = [] as string[];
+      try {
+        templateFiles = fs
+          .readdirSync(templateDir)
+          .filter((file) => path.extname(file) === '.json');
+      } catch (err: any) {
+        this.logger.warn(
+          `Unable to read preset template directory ${templateDir}: ${err.message}`
+        );
+        return;
+      }
+      templateFiles.forEach((templateFile) => {
+        const templatePath = path.join(templateDir, templateFile);
+        try {
+          const workflowTemplate = presetTemplateSchema.validate(
+            JSON.parse(fs.readFileSync(templatePath).toString())
+          ) as Partial<WorkflowTemplate>;
+          if (templatesByName.has(workflowTemplate.name as string)) {
+            this.logger.debug(
+              `Overriding preset template ${workflowTemplate.name} with ${templatePath}`
+            );
+          }
+          templatesByName.set(workflowTemplate.name as string, workflowTemplate);
+        } catch (err: any) {
+          this.logger.warn(
+            `Skipping invalid preset template ${templatePath}: ${err.message}`
+          );
+        }
+      });
+    });
+    this.templates = Array.from(templatesByName.values());
+  }
+
+  // Get the preset templates compatible with the given data source version.
+  // If no version is passed, return all of them.
+  getTemplates(dataSourceVersion?: string): Partial<WorkflowTemplate>[] {
+    if (dataSourceVersion === undefined) {
+      return this.templates;
+    }
+    return this.templates.filter((template) =>
+      isCompatibleVersion(template.version?.compatibility, dataSourceVersion)
+    );
+  }
+}
+
+// A template is compatible with a version if the version (major.minor) is at least the
+// minimum compatible version listed. Unsupported versions are never compatible, and
+// templates without any listed versions are compatible with all supported versions.
+export function isCompatibleVersion(
+  compatibility: string[] | undefined,
+  version: string
+): boolean {
+  const coercedVersion = semver.coerce(version);
+  if (coercedVersion === null) {
+    return true;
+  }
+  const majorMinorVersion = `${coercedVersion.major}.${coercedVersion.minor}.0`;
+  if (semver.lt(majorMinorVersion, MIN_SUPPORTED_VERSION)) {
+    return false;
+  }
+  if (!Array.isArray(compatibility) || compatibility.length === 0) {
+    return true;
+  }
+  const minCompatibleVersion = compatibility
+    .map((compatibleVersion) => semver.coerce(compatibleVersion))
+    .filter((compatibleVersion) => compatibleVersion !== null)
+    .sort((a, b) => semver.compare(a!, b!))[0];
+  return (
+    minCompatibleVersion === undefined ||
+    semver.gte(
+      majorMinorVersion,
+      `${minCompatibleVersion.major}.${minCompatibleVersion.minor}.0`
+    )
+  );
+}
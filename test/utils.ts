@@ -21,6 +21,7 @@ import {
   fetchHybridSearchMetadata,
   fetchMultimodalSearchMetadata,
   fetchSemanticSearchMetadata,
+  fetchSparseSearchMetadata,
 } from '../public/pages/workflows/new_workflow/utils';
 import fs from 'fs';
 import path from 'path';
@@ -87,6 +88,10 @@ function getConfig(workflowType: WORKFLOW_TYPE, version?: string) {
       uiMetadata = fetchHybridSearchMetadata(searchVersion);
       break;
     }
+    case WORKFLOW_TYPE.SPARSE_SEARCH: {
+      uiMetadata = fetchSparseSearchMetadata();
+      break;
+    }
     default: {
       uiMetadata = fetchEmptyMetadata();
       break;